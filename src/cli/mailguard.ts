@@ -10,10 +10,33 @@ import type {
   PluginStorage,
   AuditLogEntry,
   SanitizedEnvelope,
+  UnicodeAnalysisReport,
 } from '../types.js';
 
+import { readFileSync, writeFileSync } from 'fs';
+import { userInfo } from 'os';
 import { ToolFirewall } from '../policy/tool_firewall.js';
-import { LobsterAdapter } from '../workflows/lobster_adapter.js';
+import { ApprovalPipeline } from '../workflows/approval_pipeline.js';
+import {
+  PatternRegistry,
+  PatternPackError,
+  loadPatternPack,
+  resolvePatternSet,
+  diffPatternSets,
+  enabledPatterns,
+  type PatternSet,
+  type ResolvedPattern,
+} from '../risk/pattern_packs.js';
+import {
+  EvaluationCorpusError,
+  loadEvaluationCorpus,
+  evaluateCorpus,
+  compareEvaluations,
+  type ClassificationMetrics,
+  type EvaluationComparison,
+  type EvaluationReport,
+} from '../risk/evaluation.js';
+import { compilePatterns, getPatternExecutor } from '../risk/heuristics.js';
 
 // ============================================================================
 // CLI Output Helper
@@ -57,6 +80,9 @@ class CLIOutput {
 
 const VALID_ID_PATTERN = /^[a-zA-Z0-9\-_]+$/;
 
+/** Unicode format characters: BiDi controls, zero-width characters, soft hyphens */
+const FORMAT_CHARACTER = /\p{Cf}/u;
+
 // ============================================================================
 // CLI Command Definitions
 // ============================================================================
@@ -66,7 +92,8 @@ export function createCliCommands(
   logger: Logger,
   storage: PluginStorage,
   toolFirewall: ToolFirewall,
-  lobsterAdapter: LobsterAdapter
+  approvalPipeline: ApprovalPipeline,
+  patternRegistry: PatternRegistry
 ): CliCommand[] {
   const output = new CLIOutput(logger);
 
@@ -78,7 +105,9 @@ export function createCliCommands(
     createAuditCommand(storage),
     createTestCommand(config, logger),
     createPolicyCommand(config),
-    createApprovalsCommand(lobsterAdapter),
+    createApprovalsCommand(approvalPipeline, output),
+    createPatternsCommand(patternRegistry, output),
+    createEvalCommand(config, patternRegistry, output),
   ];
 }
 
@@ -214,10 +243,51 @@ function createQuarantineListCommand(storage: PluginStorage): CliCommand {
             if (signal.evidence) {
               console.log(`    Evidence: "${signal.evidence.substring(0, 60)}..."`);
             }
+            if (signal.decodedEvidence) {
+              console.log(`    Decoded: "${signal.decodedEvidence.substring(0, 60)}..."`);
+            }
           }
           if (envelope.riskScore.signals.length > 5) {
             console.log(`  ... and ${envelope.riskScore.signals.length - 5} more signals`);
           }
+
+          const breakdown = envelope.riskScore.breakdown;
+          if (breakdown && breakdown.categories.length > 0) {
+            console.log(`\nScore Breakdown:`);
+            for (const category of breakdown.categories) {
+              const signals = category.weights.length === 1 ? '1 signal' : `${category.weights.length} signals`;
+              console.log(`  +${category.contribution.toFixed(1).padStart(5)}  ${category.type} (${category.severity}, ${signals})`);
+            }
+            if (breakdown.trustFactor < 1) {
+              console.log(`  ×${breakdown.trustFactor} for an allowlisted sender`);
+            }
+          }
+
+          const hiddenContent = envelope.sanitizationMetadata.hiddenContent;
+          if (hiddenContent.length > 0) {
+            console.log(`\nHidden Content:`);
+            for (const finding of hiddenContent) {
+              const source = [finding.element, finding.detail, finding.selector].filter(Boolean).join(' ');
+              console.log(`  [${finding.reason}] ${source} (${finding.length} chars)`);
+              if (finding.text) {
+                console.log(`    Text: "${printable(finding.text)}${finding.textTruncated ? '…' : ''}"`);
+              }
+            }
+          }
+
+          // Envelopes quarantined before Unicode analysis was recorded have none
+          const unicode = envelope.sanitizationMetadata.unicodeAnalysis as UnicodeAnalysisReport | undefined;
+          if (unicode && (unicode.mixedScriptWords.length > 0 || unicode.suspiciousBidiSpans.length > 0)) {
+            console.log(`\nUnicode:`);
+            for (const word of unicode.mixedScriptWords) {
+              console.log(`  [mixed script] "${printable(word.word)}" (${word.scripts.join(', ')}, confidence ${word.confidence})`);
+            }
+            for (const span of unicode.suspiciousBidiSpans) {
+              console.log(`  [bidi ${span.control}] "${printable(span.text)}"`);
+            }
+          }
+        } else if (envelope.sanitizationMetadata.hiddenContent.length > 0) {
+          console.log(`Hidden Content: ${envelope.sanitizationMetadata.hiddenContent.length} finding(s), use --details to show`);
         }
 
         console.log('─'.repeat(80));
@@ -433,12 +503,35 @@ function createAuditCommand(storage: PluginStorage): CliCommand {
 
       console.log('─'.repeat(100));
       console.log(`\nEvent types: email_received, sanitization_complete, risk_assessment,`);
-      console.log(`tool_request, tool_denied, tool_allowed, approval_requested,`);
+      console.log(`tool_request, tool_denied, tool_allowed, approval_requested, approval_vote,`);
       console.log(`approval_granted, approval_denied, quarantine, rate_limit_exceeded\n`);
     },
   };
 }
 
+/**
+ * Replace control and format characters (BiDi overrides, zero-width marks)
+ * so message content cannot drive the terminal or reorder what it shows
+ */
+function printable(text: string): string {
+  return Array.from(text, ch => {
+    const code = ch.charCodeAt(0);
+    return code < 0x20 || (code >= 0x7F && code <= 0x9F) || FORMAT_CHARACTER.test(ch) ? ' ' : ch;
+  }).join('');
+}
+
+/**
+ * The OS account running the CLI, which ties votes cast under different
+ * `--operator` names to one caller
+ */
+function osCaller(): string {
+  try {
+    return `os:${userInfo().username}`;
+  } catch {
+    return `os:uid-${process.getuid?.() ?? 'unknown'}`;
+  }
+}
+
 function getEventIcon(eventType: string): string {
   const icons: Record<string, string> = {
     email_received: '📨',
@@ -448,6 +541,7 @@ function getEventIcon(eventType: string): string {
     tool_denied: '🚫',
     tool_allowed: '✅',
     approval_requested: '❓',
+    approval_vote: '🗳️',
     approval_granted: '✓',
     approval_denied: '✗',
     quarantine: '🔒',
@@ -489,10 +583,16 @@ function createTestCommand(config: MailGuardConfig, _logger: Logger): CliCommand
       // Configuration validation
       console.log('\n1. Configuration Validation:');
 
-      if (!config.webhookSecret || config.webhookSecret.length < 16) {
-        console.log('   ❌ Webhook secret is missing or too short (min 16 chars)');
-      } else {
+      if (config.pubsubOidc?.enabled) {
+        console.log(`   ✓ Pub/Sub OIDC verification enabled (audience: ${config.pubsubOidc.audience})`);
+        console.log(`   ✓ Push service account: ${config.pubsubOidc.serviceAccountEmail}`);
+        console.log(`   ✓ Signing keys: ${config.pubsubOidc.jwksFile ?? config.pubsubOidc.jwksUrl}`);
+      }
+
+      if (config.webhookSecret && config.webhookSecret.length >= 16) {
         console.log('   ✓ Webhook secret configured');
+      } else if (!config.pubsubOidc?.enabled) {
+        console.log('   ❌ Webhook secret is missing or too short (min 16 chars)');
       }
 
       console.log(`   ✓ Endpoint: ${config.endpoint}`);
@@ -505,10 +605,17 @@ function createTestCommand(config: MailGuardConfig, _logger: Logger): CliCommand
       console.log('\n2. ML Classifier:');
       if (config.enableMLClassifier) {
         if (config.mlClassifierEndpoint) {
-          console.log(`   ✓ Enabled, endpoint: ${config.mlClassifierEndpoint}`);
+          console.log(`   ✓ Enabled, endpoint: ${config.mlClassifierEndpoint} (weight 0.3)`);
           // Could add connectivity test here
-        } else {
-          console.log('   ⚠️  Enabled but no endpoint configured');
+        }
+        for (const classifier of config.classifiers ?? []) {
+          const target = classifier.type === 'http'
+            ? `endpoint: ${classifier.endpoint}${classifier.allowLocal ? ', local allowed' : ''}`
+            : `model: ${classifier.modelPath}`;
+          console.log(`   ✓ ${classifier.name} (${classifier.type}, weight ${classifier.weight}), ${target}`);
+        }
+        if (!config.mlClassifierEndpoint && (config.classifiers ?? []).length === 0) {
+          console.log('   ⚠️  Enabled but no classifiers configured');
         }
       } else {
         console.log('   ℹ️  Disabled (using heuristics only)');
@@ -628,7 +735,7 @@ function createPolicyCommand(config: MailGuardConfig): CliCommand {
 // Approvals Command
 // ============================================================================
 
-function createApprovalsCommand(lobsterAdapter: LobsterAdapter): CliCommand {
+function createApprovalsCommand(approvalPipeline: ApprovalPipeline, output: CLIOutput): CliCommand {
   return {
     name: 'mailguard:approvals',
     description: 'View and manage pending approvals',
@@ -649,21 +756,63 @@ function createApprovalsCommand(lobsterAdapter: LobsterAdapter): CliCommand {
         description: 'Deny a specific request (provide approval ID)',
         type: 'string',
       },
+      {
+        name: 'operator',
+        alias: 'o',
+        description: 'Name recorded as the approver; votes count once per OS user whatever the name',
+        type: 'string',
+        default: 'cli',
+      },
+      {
+        name: 'comment',
+        alias: 'm',
+        description: 'Comment recorded with the decision',
+        type: 'string',
+      },
     ],
-    // eslint-disable-next-line @typescript-eslint/require-await
     handler: async (args) => {
       const sessionFilter = args.session as string | undefined;
       const approveId = args.approve as string | undefined;
       const denyId = args.deny as string | undefined;
+      const operator = (args.operator as string | undefined) ?? 'cli';
+      const comment = args.comment as string | undefined;
 
       // Handle approve/deny actions
       if (approveId || denyId) {
-        const id = approveId ?? denyId;
+        const id = approveId ?? denyId ?? '';
         const approved = !!approveId;
 
-        // In a real implementation, we'd look up the workflow ID from the approval ID
-        console.log(`\n${approved ? '✓' : '✗'} Approval ${id} ${approved ? 'approved' : 'denied'}.`);
-        console.log('Note: In production, this would resolve the associated Lobster workflow.\n');
+        if (!VALID_ID_PATTERN.test(id)) {
+          output.error('\n❌ Invalid approval ID format\n', { approvalId: id, reason: 'invalid_format' });
+          return;
+        }
+
+        const result = await approvalPipeline.resolve(id, approved, operator, comment, osCaller());
+        if (result.status === 'rejected') {
+          output.error(`\n❌ ${result.message}\n`, { approvalId: id, reason: result.reason });
+          return;
+        }
+        if (result.status === 'vote_recorded') {
+          output.info(`\n✓ Vote recorded for approval ${id}; ${result.approvalsRemaining} more approval(s) needed.\n`, {
+            approvalId: id,
+            sessionId: result.sessionId,
+            action: result.approval.action,
+            resolvedBy: operator,
+          });
+          return;
+        }
+
+        output.info(`\n${approved ? '✓' : '✗'} Approval ${id} ${result.status}.`, {
+          approvalId: id,
+          sessionId: result.sessionId,
+          action: result.approval.action,
+          resolvedBy: operator,
+        });
+        if (approved) {
+          output.print('The approved action can now be executed once with this approval ID.\n');
+        } else {
+          output.print('');
+        }
         return;
       }
 
@@ -671,27 +820,440 @@ function createApprovalsCommand(lobsterAdapter: LobsterAdapter): CliCommand {
       console.log('\n⏳ Pending Approvals\n');
       console.log('─'.repeat(70));
 
-      if (sessionFilter) {
-        const pending = lobsterAdapter.getPendingApprovals(sessionFilter);
+      const pending = await approvalPipeline.listPending(sessionFilter);
+
+      if (pending.length === 0) {
+        console.log(`\n✓ No pending approvals${sessionFilter ? ` for session ${sessionFilter}` : ''}.\n`);
+        return;
+      }
+
+      for (const approval of pending) {
+        console.log(`\nApproval ID: ${approval.id}`);
+        console.log(`Session: ${approval.sessionId}`);
+        console.log(`Action: ${approval.action}`);
+        console.log(`From: ${printable(approval.riskContext.emailFrom)}`);
+        console.log(`Subject: ${printable(approval.riskContext.emailSubject)}`);
+        console.log(`Risk Score: ${approval.riskContext.riskScore}/100`);
+        console.log(`Expires: ${approval.expiresAt.toISOString()}`);
+        console.log(`Preview: ${printable(approval.preview)}`);
+        console.log('');
+      }
 
-        if (pending.length === 0) {
-          console.log(`\n✓ No pending approvals for session ${sessionFilter}.\n`);
+      console.log('Use --approve <id> or --deny <id> to resolve approvals.');
+      console.log('─'.repeat(70) + '\n');
+    },
+  };
+}
+
+// ============================================================================
+// Patterns Command
+// ============================================================================
+
+function createPatternsCommand(patternRegistry: PatternRegistry, output: CLIOutput): CliCommand {
+  return {
+    name: 'mailguard:patterns',
+    description: 'List, validate, diff and reload detection pattern packs',
+    options: [
+      {
+        name: 'pack',
+        alias: 'p',
+        description: 'Only list patterns from this pack',
+        type: 'string',
+      },
+      {
+        name: 'disabled',
+        description: 'Only list disabled patterns',
+        type: 'boolean',
+        default: false,
+      },
+      {
+        name: 'validate',
+        description: 'Validate a pack file (provide path)',
+        type: 'string',
+      },
+      {
+        name: 'diff',
+        description: 'Show what a pack file would change (provide path)',
+        type: 'string',
+      },
+      {
+        name: 'base',
+        description: 'Pack file to diff against instead of the active patterns',
+        type: 'string',
+      },
+      {
+        name: 'reload',
+        description: 'Reload the configured packs',
+        type: 'boolean',
+        default: false,
+      },
+      {
+        name: 'json',
+        description: 'Output as JSON',
+        type: 'boolean',
+        default: false,
+      },
+    ],
+    // eslint-disable-next-line @typescript-eslint/require-await
+    handler: async (args): Promise<void> => {
+      const packFilter = args.pack as string | undefined;
+      const disabledOnly = args.disabled as boolean;
+      const validatePath = args.validate as string | undefined;
+      const diffPath = args.diff as string | undefined;
+      const basePath = args.base as string | undefined;
+      const reload = args.reload as boolean;
+      const jsonOutput = args.json as boolean;
+
+      try {
+        if (validatePath) {
+          const pack = loadPatternPack(validatePath);
+          const known = new Set([
+            ...patternRegistry.patternSet.patterns.map(p => p.definition.id),
+            ...pack.patterns.map(p => p.id),
+          ]);
+          const unknown = Object.keys(pack.overrides).filter(id => !known.has(id));
+
+          output.info(`\n✓ ${pack.name}@${pack.version} is valid: ${pack.patterns.length} pattern(s), ${Object.keys(pack.overrides).length} override(s).`, {
+            path: validatePath,
+            pack: pack.name,
+            version: pack.version,
+          });
+          for (const id of unknown) {
+            output.print(`   ⚠️  Override "${id}" matches no known pattern`);
+          }
+          for (const pattern of resolvePatternSet([pack]).patterns) {
+            for (const issue of pattern.lint) {
+              output.print(`   ${issue.severity === 'error' ? '✗' : '⚠️ '} ${pattern.definition.id}: ${issue.message}`);
+            }
+          }
+          output.print('');
           return;
         }
 
-        for (const step of pending) {
-          console.log(`\nApproval ID: ${step.id}`);
-          console.log(`Action: ${step.name}`);
-          console.log(`Timeout: ${step.config.timeout}s`);
-          console.log(`Preview: ${step.config.preview}`);
-          console.log('');
+        if (diffPath) {
+          const pack = loadPatternPack(diffPath);
+          const before = basePath
+            ? resolvePatternSet([loadPatternPack(basePath)])
+            : patternRegistry.patternSet;
+          const after = basePath
+            ? resolvePatternSet([pack])
+            : patternRegistry.preview(pack);
+          const diff = diffPatternSets(before, after);
+
+          if (jsonOutput) {
+            console.log(JSON.stringify({
+              added: diff.added.map(describePattern),
+              removed: diff.removed.map(describePattern),
+              changed: diff.changed.map(change => ({
+                id: change.id,
+                fields: change.fields,
+                before: describePattern(change.before),
+                after: describePattern(change.after),
+              })),
+            }, null, 2));
+            return;
+          }
+
+          console.log(`\n🔀 ${basePath ?? 'Active patterns'} → ${diffPath}\n`);
+          console.log('─'.repeat(70));
+          if (diff.added.length + diff.removed.length + diff.changed.length === 0) {
+            console.log('\n✓ No pattern changes.\n');
+            return;
+          }
+          for (const pattern of diff.added) {
+            console.log(`+ ${formatPattern(pattern)}`);
+          }
+          for (const pattern of diff.removed) {
+            console.log(`- ${formatPattern(pattern)}`);
+          }
+          for (const change of diff.changed) {
+            console.log(`~ ${change.id}`);
+            for (const field of change.fields) {
+              console.log(`    ${field}: ${describeField(change.before, field)} → ${describeField(change.after, field)}`);
+            }
+          }
+          console.log('─'.repeat(70));
+          console.log(`${diff.added.length} added, ${diff.removed.length} removed, ${diff.changed.length} changed\n`);
+          return;
         }
-      } else {
-        console.log('\nSpecify a session ID with --session to view pending approvals.');
-        console.log('Use --approve <id> or --deny <id> to resolve approvals.\n');
+      } catch (error) {
+        if (!(error instanceof PatternPackError)) throw error;
+        output.error(`\n❌ ${error.message}\n`, { path: error.path, reason: error.reason });
+        return;
       }
 
-      console.log('─'.repeat(70) + '\n');
+      if (reload) {
+        const result = patternRegistry.reload();
+        if (result.status === 'failed') {
+          output.error(`\n❌ ${result.error.message}\nThe active patterns were kept.\n`, {
+            path: result.error.path,
+            reason: result.error.reason,
+          });
+          return;
+        }
+        output.info(`\n✓ Reloaded ${result.patternSet.packs.length} pack(s), ${result.patternSet.patterns.length} pattern(s).\n`, {
+          packs: result.patternSet.packs.map(pack => `${pack.name}@${pack.version}`),
+        });
+      }
+
+      const patternSet = patternRegistry.patternSet;
+      const timedOut = new Set(getPatternExecutor().timeouts().map(timeout => timeout.id));
+      const patterns = patternSet.patterns.filter(pattern =>
+        (!packFilter || pattern.pack === packFilter)
+        && (!disabledOnly || !pattern.enabled)
+      );
+
+      if (jsonOutput) {
+        console.log(JSON.stringify({
+          packs: patternSet.packs,
+          patterns: patterns.map(pattern => ({
+            ...describePattern(pattern),
+            timedOut: timedOut.has(pattern.definition.id),
+          })),
+          unknownOverrides: patternSet.unknownOverrides,
+        }, null, 2));
+        return;
+      }
+
+      printPatternSet(patternSet, patterns, timedOut);
+    },
+  };
+}
+
+function printPatternSet(patternSet: PatternSet, patterns: ResolvedPattern[], timedOut: Set<string>): void {
+  console.log('\n🧩 Detection Patterns\n');
+  console.log('─'.repeat(70));
+
+  for (const pack of patternSet.packs) {
+    console.log(`\n${pack.name}@${pack.version}${pack.path ? ` (${pack.path})` : ''}`);
+    for (const pattern of patterns.filter(p => p.pack === pack.name)) {
+      console.log(`   ${formatPattern(pattern, timedOut.has(pattern.definition.id))}`);
+    }
+  }
+
+  for (const id of patternSet.unknownOverrides) {
+    console.log(`\n⚠️  Override "${id}" matches no pattern`);
+  }
+
+  const disabled = patternSet.patterns.filter(p => !p.enabled).length;
+  console.log('\n' + '─'.repeat(70));
+  console.log(`${patternSet.patterns.length} patterns, ${disabled} disabled, ${timedOut.size} timed out since startup\n`);
+}
+
+function formatPattern(pattern: ResolvedPattern, timedOut = false): string {
+  const { id, severity, weight, type } = pattern.definition;
+  const status = timedOut ? '  (timed out)' : pattern.lint.some(issue => issue.severity === 'error') ? '  (lint)' : '';
+  return `${pattern.enabled ? '✓' : '✗'} ${id.padEnd(50)} ${severity.padEnd(8)} ${String(weight).padStart(3)}  ${type}${status}`;
+}
+
+function describeField(pattern: ResolvedPattern, field: string): string {
+  const definition = pattern.definition;
+  switch (field) {
+    case 'pattern': return `/${definition.pattern.source}/${definition.pattern.flags}`;
+    case 'enabled': return String(pattern.enabled);
+    case 'pack': return pattern.pack;
+    case 'language': return definition.language ?? 'en';
+    default: return String(definition[field as 'type' | 'severity' | 'weight' | 'description']);
+  }
+}
+
+function describePattern(pattern: ResolvedPattern): Record<string, unknown> {
+  return {
+    ...pattern.definition,
+    pattern: pattern.definition.pattern.source,
+    flags: pattern.definition.pattern.flags,
+    pack: pattern.pack,
+    enabled: pattern.enabled,
+    lint: pattern.lint,
+  };
+}
+
+// ============================================================================
+// Eval Command
+// ============================================================================
+
+function createEvalCommand(config: MailGuardConfig, patternRegistry: PatternRegistry, output: CLIOutput): CliCommand {
+  return {
+    name: 'mailguard:eval',
+    description: 'Measure detection precision and recall over a labeled corpus',
+    options: [
+      {
+        name: 'corpus',
+        alias: 'c',
+        description: 'Path to the corpus file (.json, .yaml, .yml)',
+        type: 'string',
+        required: true,
+      },
+      {
+        name: 'pack',
+        alias: 'p',
+        description: 'Evaluate with this pack file in place of the configured pack of the same name',
+        type: 'string',
+      },
+      {
+        name: 'label',
+        alias: 'l',
+        description: 'Name recorded in the report, e.g. a pack or config version',
+        type: 'string',
+      },
+      {
+        name: 'output',
+        alias: 'o',
+        description: 'Write the report as JSON to this path',
+        type: 'string',
+      },
+      {
+        name: 'compare',
+        description: 'Compare with a report written earlier with --output',
+        type: 'string',
+      },
+      {
+        name: 'json',
+        description: 'Output as JSON',
+        type: 'boolean',
+        default: false,
+      },
+    ],
+    // eslint-disable-next-line @typescript-eslint/require-await
+    handler: async (args): Promise<void> => {
+      const corpusPath = args.corpus as string | undefined;
+      const packPath = args.pack as string | undefined;
+      const label = args.label as string | undefined;
+      const outputPath = args.output as string | undefined;
+      const comparePath = args.compare as string | undefined;
+      const jsonOutput = args.json as boolean;
+
+      if (!corpusPath) {
+        output.error('\n❌ --corpus is required\n', { reason: 'missing_corpus' });
+        return;
+      }
+
+      let report: EvaluationReport;
+      let previous: EvaluationReport | undefined;
+      try {
+        const corpus = loadEvaluationCorpus(corpusPath);
+        const patterns = packPath
+          ? compilePatterns(enabledPatterns(patternRegistry.preview(loadPatternPack(packPath))))
+          : undefined;
+        report = evaluateCorpus(corpus, config, { patterns, label: label ?? packPath });
+        previous = comparePath ? readEvaluationReport(comparePath) : undefined;
+      } catch (error) {
+        if (!(error instanceof EvaluationCorpusError) && !(error instanceof PatternPackError)) throw error;
+        output.error(`\n❌ ${error.message}\n`, { path: error.path });
+        return;
+      }
+
+      if (outputPath) {
+        writeFileSync(outputPath, JSON.stringify(report, null, 2) + '\n');
+      }
+
+      const comparison = previous ? compareEvaluations(previous, report) : undefined;
+      if (jsonOutput) {
+        console.log(JSON.stringify(comparison ? { report, comparison } : report, null, 2));
+        return;
+      }
+
+      printEvaluationReport(report);
+      if (comparison && comparePath) {
+        printEvaluationComparison(comparePath, comparison);
+      }
+      if (outputPath) {
+        output.info(`Report written to ${outputPath}\n`, { path: outputPath, corpus: report.corpus.name });
+      }
     },
   };
 }
+
+/**
+ * Read a report written with --output; throws EvaluationCorpusError
+ */
+function readEvaluationReport(path: string): EvaluationReport {
+  try {
+    const report = JSON.parse(readFileSync(path, 'utf-8')) as Partial<EvaluationReport>;
+    if (!report.overall || !report.languages || !report.patterns || !report.emails || !report.bestThreshold) {
+      throw new Error('not an evaluation report');
+    }
+    return report as EvaluationReport;
+  } catch (error) {
+    throw new EvaluationCorpusError(
+      `Report ${path} could not be read: ${error instanceof Error ? error.message : String(error)}`,
+      path
+    );
+  }
+}
+
+function printEvaluationReport(report: EvaluationReport): void {
+  console.log(`\n📐 Evaluation: ${report.corpus.name}${report.corpus.version ? `@${report.corpus.version}` : ''}${report.label ? ` (${report.label})` : ''}\n`);
+  console.log('─'.repeat(70));
+  console.log(`Emails: ${report.corpus.emails}   Threshold: ${report.threshold}/100`);
+  console.log(`Overall: ${formatMetrics(report.overall)}`);
+
+  console.log('\n🌐 Languages:');
+  for (const [language, metrics] of Object.entries(report.languages)) {
+    console.log(`   ${language.padEnd(10)} ${formatMetrics(metrics)}`);
+  }
+
+  console.log('\n🧩 Patterns (emails matched):');
+  const patterns = Object.entries(report.patterns)
+    .sort(([, a], [, b]) => b.falsePositives - a.falsePositives || b.truePositives - a.truePositives);
+  for (const [id, hits] of patterns) {
+    console.log(`   ${id.padEnd(50)} TP ${String(hits.truePositives).padStart(3)}  FP ${String(hits.falsePositives).padStart(3)}`);
+  }
+
+  console.log('\n🏷️  Signal types (expected → detected, on benign):');
+  for (const [type, hits] of Object.entries(report.signalTypes)) {
+    console.log(`   ${type.padEnd(30)} ${hits.expected} → ${hits.detected}, ${hits.onBenign}`);
+  }
+
+  console.log('\n📊 Scores (■ malicious, □ benign):');
+  for (const bucket of report.histogram) {
+    const range = `${bucket.from}-${bucket.to}`.padStart(6);
+    console.log(`   ${range} ${'■'.repeat(bucket.malicious)}${'□'.repeat(bucket.benign)}`);
+  }
+
+  const best = report.bestThreshold;
+  console.log(`\n🎯 Best threshold: ${best.threshold} (precision ${best.precision}, recall ${best.recall}, F1 ${best.f1})`);
+
+  const misclassified = report.emails.filter(email => email.predicted !== email.expected);
+  if (misclassified.length > 0) {
+    console.log('\n❌ Misclassified:');
+    for (const email of misclassified) {
+      console.log(`   ${email.id} (${email.language}): expected ${email.expected}, score ${email.score}`);
+    }
+  }
+
+  const missing = report.emails.filter(email => email.missingSignalTypes.length > 0);
+  if (missing.length > 0) {
+    console.log('\n⚠️  Missing signal types:');
+    for (const email of missing) {
+      console.log(`   ${email.id}: ${email.missingSignalTypes.join(', ')}`);
+    }
+  }
+
+  console.log('\n' + '─'.repeat(70));
+}
+
+function printEvaluationComparison(path: string, comparison: EvaluationComparison): void {
+  const change = ({ before, after }: { before: number; after: number }): string =>
+    before === after ? String(after) : `${before} → ${after}`;
+
+  console.log(`\n🔀 Compared with ${path}\n`);
+  console.log(`Overall: precision ${change(comparison.overall.precision)}, recall ${change(comparison.overall.recall)}, F1 ${change(comparison.overall.f1)}`);
+  for (const [language, metrics] of Object.entries(comparison.languages)) {
+    console.log(`   ${language.padEnd(10)} precision ${change(metrics.precision)}, recall ${change(metrics.recall)}, F1 ${change(metrics.f1)}`);
+  }
+  console.log(`Best threshold: ${change(comparison.bestThreshold)}`);
+
+  for (const pattern of comparison.patterns) {
+    console.log(`   ${pattern.id.padEnd(50)} TP ${change(pattern.truePositives)}  FP ${change(pattern.falsePositives)}`);
+  }
+  for (const email of comparison.flipped) {
+    console.log(`   ${email.id}: ${email.before} → ${email.after} (expected ${email.expected})`);
+  }
+  console.log('\n' + '─'.repeat(70) + '\n');
+}
+
+function formatMetrics(metrics: ClassificationMetrics): string {
+  return `precision ${metrics.precision.toFixed(2)}  recall ${metrics.recall.toFixed(2)}  F1 ${metrics.f1.toFixed(2)}  ` +
+    `(TP ${metrics.truePositives}, FP ${metrics.falsePositives}, FN ${metrics.falseNegatives}, TN ${metrics.trueNegatives})`;
+}
@@ -12,6 +12,7 @@ import type { PatternDefinition } from '../risk/heuristics.js';
 export const SPANISH_PATTERNS: PatternDefinition[] = [
   // Instruction override - critical
   {
+    id: 'es.attempt-to-ignore-previous-instructions',
     pattern: /ignora\s+(todas?\s+)?(las?\s+)?(instrucciones?|reglas?|directivas?)\s+(anteriores?|previas?|pasadas?)/i,
     type: 'instruction_override',
     severity: 'critical',
@@ -20,6 +21,7 @@ export const SPANISH_PATTERNS: PatternDefinition[] = [
     language: 'es',
   },
   {
+    id: 'es.attempt-to-reset-context',
     pattern: /olvida\s+(todo\s+)?(lo\s+)?(que\s+)?(te\s+)?(dije|he\s+dicho|mencion[eé])/i,
     type: 'instruction_override',
     severity: 'high',
@@ -28,6 +30,7 @@ export const SPANISH_PATTERNS: PatternDefinition[] = [
     language: 'es',
   },
   {
+    id: 'es.attempt-to-set-new-instructions',
     pattern: /nuevas?\s+(instrucciones?|reglas?|modo|rol):/i,
     type: 'instruction_override',
     severity: 'high',
@@ -37,6 +40,7 @@ export const SPANISH_PATTERNS: PatternDefinition[] = [
   },
   // Role impersonation
   {
+    id: 'es.attempt-to-change-ai-role',
     pattern: /(ahora\s+)?eres\s+(un|una|mi)\s+/i,
     type: 'role_impersonation',
     severity: 'high',
@@ -45,6 +49,7 @@ export const SPANISH_PATTERNS: PatternDefinition[] = [
     language: 'es',
   },
   {
+    id: 'es.role-pretend-instruction',
     pattern: /finge\s+(que\s+)?(eres|ser)/i,
     type: 'role_impersonation',
     severity: 'medium',
@@ -54,6 +59,7 @@ export const SPANISH_PATTERNS: PatternDefinition[] = [
   },
   // System markers
   {
+    id: 'es.fake-authority-marker',
     pattern: /\[SISTEMA\]|\[ADMIN(ISTRADOR)?\]|\[DESARROLLADOR\]|\[INTERNO\]/i,
     type: 'instruction_override',
     severity: 'critical',
@@ -70,6 +76,7 @@ export const SPANISH_PATTERNS: PatternDefinition[] = [
 export const FRENCH_PATTERNS: PatternDefinition[] = [
   // Instruction override - critical
   {
+    id: 'fr.attempt-to-ignore-previous-instructions',
     pattern: /ignore[rz]?\s+(toutes?\s+)?(les?\s+)?(instructions?|r[eè]gles?|directives?)\s+(pr[eé]c[eé]dentes?|ant[eé]rieures?)/i,
     type: 'instruction_override',
     severity: 'critical',
@@ -78,6 +85,7 @@ export const FRENCH_PATTERNS: PatternDefinition[] = [
     language: 'fr',
   },
   {
+    id: 'fr.attempt-to-reset-context',
     pattern: /oublie[rz]?\s+(tout\s+)?(ce\s+)?(que\s+)?(je\s+)?(t'ai\s+dit|ai\s+dit)/i,
     type: 'instruction_override',
     severity: 'high',
@@ -86,6 +94,7 @@ export const FRENCH_PATTERNS: PatternDefinition[] = [
     language: 'fr',
   },
   {
+    id: 'fr.attempt-to-set-new-instructions',
     pattern: /nouvelles?\s+(instructions?|r[eè]gles?|mode|r[oô]le):/i,
     type: 'instruction_override',
     severity: 'high',
@@ -95,6 +104,7 @@ export const FRENCH_PATTERNS: PatternDefinition[] = [
   },
   // Role impersonation
   {
+    id: 'fr.attempt-to-change-ai-role',
     pattern: /(maintenant\s+)?tu\s+es\s+(un|une|mon|ma)/i,
     type: 'role_impersonation',
     severity: 'high',
@@ -103,6 +113,7 @@ export const FRENCH_PATTERNS: PatternDefinition[] = [
     language: 'fr',
   },
   {
+    id: 'fr.role-pretend-instruction',
     pattern: /fais\s+semblant\s+(d'[eê]tre|que\s+tu\s+es)/i,
     type: 'role_impersonation',
     severity: 'medium',
@@ -112,6 +123,7 @@ export const FRENCH_PATTERNS: PatternDefinition[] = [
   },
   // System markers
   {
+    id: 'fr.fake-authority-marker',
     pattern: /\[SYST[EÈ]ME\]|\[ADMIN(ISTRATEUR)?\]|\[D[EÉ]VELOPPEUR\]|\[INTERNE\]/i,
     type: 'instruction_override',
     severity: 'critical',
@@ -128,6 +140,7 @@ export const FRENCH_PATTERNS: PatternDefinition[] = [
 export const GERMAN_PATTERNS: PatternDefinition[] = [
   // Instruction override - critical
   {
+    id: 'de.attempt-to-ignore-previous-instructions',
     pattern: /ignorier(e|en)?\s+(alle\s+)?(vorherigen?|fr[uü]heren?|bisherigen?)\s+(anweisungen?|regeln?|richtlinien?)/i,
     type: 'instruction_override',
     severity: 'critical',
@@ -136,6 +149,7 @@ export const GERMAN_PATTERNS: PatternDefinition[] = [
     language: 'de',
   },
   {
+    id: 'de.attempt-to-reset-context',
     pattern: /vergiss\s+(alles\s+)?(was\s+)?(ich\s+)?(dir\s+)?(gesagt\s+habe|erw[aä]hnt)/i,
     type: 'instruction_override',
     severity: 'high',
@@ -144,6 +158,7 @@ export const GERMAN_PATTERNS: PatternDefinition[] = [
     language: 'de',
   },
   {
+    id: 'de.attempt-to-set-new-instructions',
     pattern: /neue\s+(anweisungen?|regeln?|modus|rolle):/i,
     type: 'instruction_override',
     severity: 'high',
@@ -153,6 +168,7 @@ export const GERMAN_PATTERNS: PatternDefinition[] = [
   },
   // Role impersonation
   {
+    id: 'de.attempt-to-change-ai-role',
     pattern: /(jetzt\s+)?bist\s+du\s+(ein|eine|mein|meine)/i,
     type: 'role_impersonation',
     severity: 'high',
@@ -161,6 +177,7 @@ export const GERMAN_PATTERNS: PatternDefinition[] = [
     language: 'de',
   },
   {
+    id: 'de.role-pretend-instruction',
     pattern: /tu\s+so\s+als\s+(ob\s+du|w[aä]rst\s+du)/i,
     type: 'role_impersonation',
     severity: 'medium',
@@ -170,6 +187,7 @@ export const GERMAN_PATTERNS: PatternDefinition[] = [
   },
   // System markers
   {
+    id: 'de.fake-authority-marker',
     pattern: /\[SYSTEM\]|\[ADMIN(ISTRATOR)?\]|\[ENTWICKLER\]|\[INTERN\]/i,
     type: 'instruction_override',
     severity: 'critical',
@@ -186,6 +204,7 @@ export const GERMAN_PATTERNS: PatternDefinition[] = [
 export const PORTUGUESE_PATTERNS: PatternDefinition[] = [
   // Instruction override - critical
   {
+    id: 'pt.attempt-to-ignore-previous-instructions',
     pattern: /ignor(e|a|ar)\s+(todas?\s+)?(as?\s+)?(instru[cç][oõ]es?|regras?|diretivas?)\s+(anteriores?|pr[eé]vias?)/i,
     type: 'instruction_override',
     severity: 'critical',
@@ -194,6 +213,7 @@ export const PORTUGUESE_PATTERNS: PatternDefinition[] = [
     language: 'pt',
   },
   {
+    id: 'pt.attempt-to-reset-context',
     pattern: /esque[cç](a|er)\s+(tudo\s+)?(o\s+)?(que\s+)?(eu\s+)?(disse|falei|mencionei)/i,
     type: 'instruction_override',
     severity: 'high',
@@ -202,6 +222,7 @@ export const PORTUGUESE_PATTERNS: PatternDefinition[] = [
     language: 'pt',
   },
   {
+    id: 'pt.attempt-to-set-new-instructions',
     pattern: /novas?\s+(instru[cç][oõ]es?|regras?|modo|papel):/i,
     type: 'instruction_override',
     severity: 'high',
@@ -211,6 +232,7 @@ export const PORTUGUESE_PATTERNS: PatternDefinition[] = [
   },
   // Role impersonation
   {
+    id: 'pt.attempt-to-change-ai-role',
     pattern: /(agora\s+)?voc[eê]\s+[eé]\s+(um|uma|meu|minha)/i,
     type: 'role_impersonation',
     severity: 'high',
@@ -219,6 +241,7 @@ export const PORTUGUESE_PATTERNS: PatternDefinition[] = [
     language: 'pt',
   },
   {
+    id: 'pt.role-pretend-instruction',
     pattern: /finja\s+(que\s+)?(voc[eê]\s+[eé]|ser)/i,
     type: 'role_impersonation',
     severity: 'medium',
@@ -228,6 +251,7 @@ export const PORTUGUESE_PATTERNS: PatternDefinition[] = [
   },
   // System markers
   {
+    id: 'pt.fake-authority-marker',
     pattern: /\[SISTEMA\]|\[ADMIN(ISTRADOR)?\]|\[DESENVOLVEDOR\]|\[INTERNO\]/i,
     type: 'instruction_override',
     severity: 'critical',
@@ -244,6 +268,7 @@ export const PORTUGUESE_PATTERNS: PatternDefinition[] = [
 export const CHINESE_PATTERNS: PatternDefinition[] = [
   // Instruction override - critical
   {
+    id: 'zh.attempt-to-ignore-previous-instructions',
     pattern: /忽略.{0,5}(之前|以前|先前|早先).{0,5}(指令|指示|规则|说明)/,
     type: 'instruction_override',
     severity: 'critical',
@@ -252,6 +277,7 @@ export const CHINESE_PATTERNS: PatternDefinition[] = [
     language: 'zh',
   },
   {
+    id: 'zh.disregard-previous-instructions',
     pattern: /无视.{0,5}(之前|以前|先前).{0,5}(指令|指示|规则)/,
     type: 'instruction_override',
     severity: 'critical',
@@ -260,6 +286,7 @@ export const CHINESE_PATTERNS: PatternDefinition[] = [
     language: 'zh',
   },
   {
+    id: 'zh.attempt-to-reset-context',
     pattern: /忘记.{0,5}(我|之前).{0,5}(说|告诉|提到)/,
     type: 'instruction_override',
     severity: 'high',
@@ -268,6 +295,7 @@ export const CHINESE_PATTERNS: PatternDefinition[] = [
     language: 'zh',
   },
   {
+    id: 'zh.attempt-to-set-new-instructions',
     pattern: /新(的)?(指令|指示|规则|模式|角色)[：:]/,
     type: 'instruction_override',
     severity: 'high',
@@ -277,6 +305,7 @@ export const CHINESE_PATTERNS: PatternDefinition[] = [
   },
   // Role impersonation
   {
+    id: 'zh.attempt-to-change-ai-role',
     pattern: /(现在)?你是.{0,5}(一个|我的)/,
     type: 'role_impersonation',
     severity: 'high',
@@ -285,6 +314,7 @@ export const CHINESE_PATTERNS: PatternDefinition[] = [
     language: 'zh',
   },
   {
+    id: 'zh.role-pretend-instruction',
     pattern: /假装.{0,5}(你是|成为)/,
     type: 'role_impersonation',
     severity: 'medium',
@@ -294,6 +324,7 @@ export const CHINESE_PATTERNS: PatternDefinition[] = [
   },
   // System markers
   {
+    id: 'zh.fake-authority-marker',
     pattern: /【系统】|【管理员】|【开发者】|【内部】/,
     type: 'instruction_override',
     severity: 'critical',
@@ -302,6 +333,7 @@ export const CHINESE_PATTERNS: PatternDefinition[] = [
     language: 'zh',
   },
   {
+    id: 'zh.fake-authority-marker-brackets',
     pattern: /\[系统\]|\[管理员\]|\[开发者\]|\[内部\]/,
     type: 'instruction_override',
     severity: 'critical',
@@ -318,6 +350,7 @@ export const CHINESE_PATTERNS: PatternDefinition[] = [
 export const JAPANESE_PATTERNS: PatternDefinition[] = [
   // Instruction override - critical
   {
+    id: 'ja.attempt-to-ignore-previous-instructions',
     pattern: /(以前|前|先).{0,5}(指示|命令|ルール|規則).{0,5}(無視|忽略)/,
     type: 'instruction_override',
     severity: 'critical',
@@ -326,6 +359,7 @@ export const JAPANESE_PATTERNS: PatternDefinition[] = [
     language: 'ja',
   },
   {
+    id: 'ja.disregard-previous-instructions',
     pattern: /(前の|以前の).{0,5}(指示|命令).{0,5}(忘れ|無視)/,
     type: 'instruction_override',
     severity: 'critical',
@@ -334,6 +368,7 @@ export const JAPANESE_PATTERNS: PatternDefinition[] = [
     language: 'ja',
   },
   {
+    id: 'ja.attempt-to-reset-context',
     pattern: /(私が|さっき).{0,5}(言った|話した).{0,5}(忘れ)/,
     type: 'instruction_override',
     severity: 'high',
@@ -342,6 +377,7 @@ export const JAPANESE_PATTERNS: PatternDefinition[] = [
     language: 'ja',
   },
   {
+    id: 'ja.attempt-to-set-new-instructions',
     pattern: /新(しい)?(指示|命令|ルール|モード|役割)[：:]/,
     type: 'instruction_override',
     severity: 'high',
@@ -351,6 +387,7 @@ export const JAPANESE_PATTERNS: PatternDefinition[] = [
   },
   // Tool baiting
   {
+    id: 'ja.command-execution-request',
     pattern: /(この)?コマンドを実行/,
     type: 'tool_baiting',
     severity: 'high',
@@ -359,6 +396,7 @@ export const JAPANESE_PATTERNS: PatternDefinition[] = [
     language: 'ja',
   },
   {
+    id: 'ja.destructive-command-request',
     pattern: /実行(して|する)[ください]?[:：]\s*(rm|del|format)/i,
     type: 'tool_baiting',
     severity: 'critical',
@@ -368,6 +406,7 @@ export const JAPANESE_PATTERNS: PatternDefinition[] = [
   },
   // Role impersonation
   {
+    id: 'ja.attempt-to-change-ai-role',
     pattern: /(今から)?あなたは.{0,5}(私の|一人の)/,
     type: 'role_impersonation',
     severity: 'high',
@@ -376,6 +415,7 @@ export const JAPANESE_PATTERNS: PatternDefinition[] = [
     language: 'ja',
   },
   {
+    id: 'ja.role-pretend-instruction',
     pattern: /(ふりを|振りを).{0,5}(して|する)/,
     type: 'role_impersonation',
     severity: 'medium',
@@ -385,6 +425,7 @@ export const JAPANESE_PATTERNS: PatternDefinition[] = [
   },
   // System markers
   {
+    id: 'ja.fake-authority-marker',
     pattern: /【システム】|【管理者】|【開発者】|【内部】/,
     type: 'instruction_override',
     severity: 'critical',
@@ -393,6 +434,7 @@ export const JAPANESE_PATTERNS: PatternDefinition[] = [
     language: 'ja',
   },
   {
+    id: 'ja.fake-authority-marker-brackets',
     pattern: /\[システム\]|\[管理者\]|\[開発者\]|\[内部\]/,
     type: 'instruction_override',
     severity: 'critical',
@@ -409,6 +451,7 @@ export const JAPANESE_PATTERNS: PatternDefinition[] = [
 export const RUSSIAN_PATTERNS: PatternDefinition[] = [
   // Instruction override - critical
   {
+    id: 'ru.attempt-to-ignore-previous-instructions',
     pattern: /игнорир(уй|овать)\s+(все\s+)?(предыдущ|прежн|прошл).{0,10}(инструкци|правил|указани)/i,
     type: 'instruction_override',
     severity: 'critical',
@@ -417,6 +460,7 @@ export const RUSSIAN_PATTERNS: PatternDefinition[] = [
     language: 'ru',
   },
   {
+    id: 'ru.attempt-to-reset-context',
     pattern: /забудь\s+(всё\s+)?(что\s+)?(я\s+)?(сказал|говорил|упомянул)/i,
     type: 'instruction_override',
     severity: 'high',
@@ -425,6 +469,7 @@ export const RUSSIAN_PATTERNS: PatternDefinition[] = [
     language: 'ru',
   },
   {
+    id: 'ru.attempt-to-set-new-instructions',
     pattern: /нов(ые|ая)\s+(инструкци|правил|режим|роль):/i,
     type: 'instruction_override',
     severity: 'high',
@@ -433,6 +478,7 @@ export const RUSSIAN_PATTERNS: PatternDefinition[] = [
     language: 'ru',
   },
   {
+    id: 'ru.dan-mode-jailbreak-attempt',
     pattern: /(теперь\s+)?в\s+режиме\s+DAN/i,
     type: 'instruction_override',
     severity: 'critical',
@@ -441,6 +487,7 @@ export const RUSSIAN_PATTERNS: PatternDefinition[] = [
     language: 'ru',
   },
   {
+    id: 'ru.attempt-to-remove-restrictions',
     pattern: /можешь\s+делать\s+всё\s+без\s+ограничений/i,
     type: 'instruction_override',
     severity: 'critical',
@@ -450,6 +497,7 @@ export const RUSSIAN_PATTERNS: PatternDefinition[] = [
   },
   // Role impersonation
   {
+    id: 'ru.attempt-to-change-ai-role',
     pattern: /(теперь\s+)?ты\s+(есть\s+)?(мой|моя|один|одна)/i,
     type: 'role_impersonation',
     severity: 'high',
@@ -458,6 +506,7 @@ export const RUSSIAN_PATTERNS: PatternDefinition[] = [
     language: 'ru',
   },
   {
+    id: 'ru.role-pretend-instruction',
     pattern: /притвор(ись|яйся)\s+(что\s+)?(ты|будто)/i,
     type: 'role_impersonation',
     severity: 'medium',
@@ -467,6 +516,7 @@ export const RUSSIAN_PATTERNS: PatternDefinition[] = [
   },
   // System markers
   {
+    id: 'ru.fake-authority-marker',
     pattern: /\[СИСТЕМА\]|\[АДМИН(ИСТРАТОР)?\]|\[РАЗРАБОТЧИК\]|\[ВНУТРЕНН(ИЙ|ЕЕ)\]/i,
     type: 'instruction_override',
     severity: 'critical',
@@ -483,6 +533,7 @@ export const RUSSIAN_PATTERNS: PatternDefinition[] = [
 export const ARABIC_PATTERNS: PatternDefinition[] = [
   // Instruction override - critical
   {
+    id: 'ar.attempt-to-ignore-previous-instructions',
     pattern: /تجاهل.{0,10}(التعليمات|القواعد|الإرشادات).{0,10}(السابقة|الماضية|القديمة)/,
     type: 'instruction_override',
     severity: 'critical',
@@ -491,6 +542,7 @@ export const ARABIC_PATTERNS: PatternDefinition[] = [
     language: 'ar',
   },
   {
+    id: 'ar.attempt-to-reset-context',
     pattern: /انسَ|انسى.{0,10}(كل|ما).{0,10}(قلته|ذكرته)/,
     type: 'instruction_override',
     severity: 'high',
@@ -499,6 +551,7 @@ export const ARABIC_PATTERNS: PatternDefinition[] = [
     language: 'ar',
   },
   {
+    id: 'ar.attempt-to-set-new-instructions',
     pattern: /(تعليمات|قواعد|وضع|دور)\s*(جديدة?|الجديدة?)[:：]/,
     type: 'instruction_override',
     severity: 'high',
@@ -508,6 +561,7 @@ export const ARABIC_PATTERNS: PatternDefinition[] = [
   },
   // Role impersonation
   {
+    id: 'ar.attempt-to-change-ai-role',
     pattern: /(الآن\s+)?أنت.{0,5}(لي|خاص)/,
     type: 'role_impersonation',
     severity: 'high',
@@ -516,6 +570,7 @@ export const ARABIC_PATTERNS: PatternDefinition[] = [
     language: 'ar',
   },
   {
+    id: 'ar.role-pretend-instruction',
     pattern: /تظاهر.{0,5}(أنك|بأنك|كأنك)/,
     type: 'role_impersonation',
     severity: 'medium',
@@ -525,6 +580,7 @@ export const ARABIC_PATTERNS: PatternDefinition[] = [
   },
   // System markers
   {
+    id: 'ar.fake-authority-marker',
     pattern: /\[النظام\]|\[المشرف\]|\[المطور\]|\[داخلي\]/,
     type: 'instruction_override',
     severity: 'critical',
@@ -533,6 +589,7 @@ export const ARABIC_PATTERNS: PatternDefinition[] = [
     language: 'ar',
   },
   {
+    id: 'ar.fake-authority-marker-brackets',
     pattern: /【النظام】|【المشرف】|【المطور】|【داخلي】/,
     type: 'instruction_override',
     severity: 'critical',
@@ -549,6 +606,7 @@ export const ARABIC_PATTERNS: PatternDefinition[] = [
 export const KOREAN_PATTERNS: PatternDefinition[] = [
   // Instruction override - critical
   {
+    id: 'ko.attempt-to-ignore-previous-instructions',
     pattern: /(이전|앞의|기존).{0,5}(지시|명령|규칙|지침).{0,5}(무시|무효화)/,
     type: 'instruction_override',
     severity: 'critical',
@@ -557,6 +615,7 @@ export const KOREAN_PATTERNS: PatternDefinition[] = [
     language: 'ko',
   },
   {
+    id: 'ko.attempt-to-reset-context',
     pattern: /(내가|제가).{0,5}(말한|했던).{0,5}(잊어|무시)/,
     type: 'instruction_override',
     severity: 'high',
@@ -565,6 +624,7 @@ export const KOREAN_PATTERNS: PatternDefinition[] = [
     language: 'ko',
   },
   {
+    id: 'ko.attempt-to-set-new-instructions',
     pattern: /새(로운)?\s*(지시|명령|규칙|모드|역할)[：:]/,
     type: 'instruction_override',
     severity: 'high',
@@ -574,6 +634,7 @@ export const KOREAN_PATTERNS: PatternDefinition[] = [
   },
   // Data exfiltration
   {
+    id: 'ko.credential-exfiltration-attempt',
     pattern: /(API\s*키|비밀번호|암호|토큰|인증).{0,10}(보내|전송|알려)/,
     type: 'data_exfiltration',
     severity: 'critical',
@@ -583,6 +644,7 @@ export const KOREAN_PATTERNS: PatternDefinition[] = [
   },
   // Role impersonation
   {
+    id: 'ko.attempt-to-change-ai-role',
     pattern: /(지금부터\s+)?너는.{0,5}(나의|내)/,
     type: 'role_impersonation',
     severity: 'high',
@@ -591,6 +653,7 @@ export const KOREAN_PATTERNS: PatternDefinition[] = [
     language: 'ko',
   },
   {
+    id: 'ko.role-pretend-instruction',
     pattern: /(척|처럼).{0,5}(해|해줘|행동해)/,
     type: 'role_impersonation',
     severity: 'medium',
@@ -600,6 +663,7 @@ export const KOREAN_PATTERNS: PatternDefinition[] = [
   },
   // System markers
   {
+    id: 'ko.fake-authority-marker',
     pattern: /\[시스템\]|\[관리자\]|\[개발자\]|\[내부\]/,
     type: 'instruction_override',
     severity: 'critical',
@@ -608,6 +672,7 @@ export const KOREAN_PATTERNS: PatternDefinition[] = [
     language: 'ko',
   },
   {
+    id: 'ko.fake-authority-marker-brackets',
     pattern: /【시스템】|【관리자】|【개발자】|【내부】/,
     type: 'instruction_override',
     severity: 'critical',
@@ -624,6 +689,7 @@ export const KOREAN_PATTERNS: PatternDefinition[] = [
 export const ITALIAN_PATTERNS: PatternDefinition[] = [
   // Instruction override - critical
   {
+    id: 'it.attempt-to-ignore-previous-instructions',
     pattern: /ignora\s+(tutte?\s+)?(le\s+)?(istruzioni|regole|direttive)\s+(precedenti|anteriori|passate)/i,
     type: 'instruction_override',
     severity: 'critical',
@@ -632,6 +698,7 @@ export const ITALIAN_PATTERNS: PatternDefinition[] = [
     language: 'it',
   },
   {
+    id: 'it.attempt-to-reset-context',
     pattern: /dimentica\s+(tutto\s+)?(quello\s+)?(che\s+)?(ti\s+)?(ho\s+detto|detto)/i,
     type: 'instruction_override',
     severity: 'high',
@@ -640,6 +707,7 @@ export const ITALIAN_PATTERNS: PatternDefinition[] = [
     language: 'it',
   },
   {
+    id: 'it.attempt-to-set-new-instructions',
     pattern: /nuov[aei]\s+(istruzioni|regole|modalit[àa]|ruolo):/i,
     type: 'instruction_override',
     severity: 'high',
@@ -649,6 +717,7 @@ export const ITALIAN_PATTERNS: PatternDefinition[] = [
   },
   // Role impersonation
   {
+    id: 'it.attempt-to-change-ai-role',
     pattern: /(adesso\s+)?sei\s+(un|una|il\s+mio|la\s+mia)/i,
     type: 'role_impersonation',
     severity: 'high',
@@ -657,6 +726,7 @@ export const ITALIAN_PATTERNS: PatternDefinition[] = [
     language: 'it',
   },
   {
+    id: 'it.role-pretend-instruction',
     pattern: /fingi\s+(di\s+essere|che\s+sei)/i,
     type: 'role_impersonation',
     severity: 'medium',
@@ -666,6 +736,7 @@ export const ITALIAN_PATTERNS: PatternDefinition[] = [
   },
   // System markers
   {
+    id: 'it.fake-authority-marker',
     pattern: /\[SISTEMA\]|\[ADMIN(ISTRATORE)?\]|\[SVILUPPATORE\]|\[INTERNO\]/i,
     type: 'instruction_override',
     severity: 'critical',
@@ -682,6 +753,7 @@ export const ITALIAN_PATTERNS: PatternDefinition[] = [
 export const UNIVERSAL_PATTERNS: PatternDefinition[] = [
   // Common code/markup patterns used across languages
   {
+    id: 'universal.code-block-with-privileged-context',
     pattern: /```\s*(system|admin|root|sudo)/i,
     type: 'instruction_override',
     severity: 'high',
@@ -690,6 +762,7 @@ export const UNIVERSAL_PATTERNS: PatternDefinition[] = [
     language: 'universal',
   },
   {
+    id: 'universal.xml-style-authority-tag',
     pattern: /<(system|admin|developer|internal)>/i,
     type: 'instruction_override',
     severity: 'critical',
@@ -698,6 +771,7 @@ export const UNIVERSAL_PATTERNS: PatternDefinition[] = [
     language: 'universal',
   },
   {
+    id: 'universal.delimiter-based-authority-marker',
     pattern: /={5,}\s*(system|admin|internal|override)/i,
     type: 'instruction_override',
     severity: 'high',
@@ -707,6 +781,7 @@ export const UNIVERSAL_PATTERNS: PatternDefinition[] = [
   },
   // Emoji-based obfuscation
   {
+    id: 'universal.emoji-based-unlock-bypass-attempt',
     pattern: /🔓|🔐|🔑.{0,20}(unlock|bypass|override|access)/i,
     type: 'instruction_override',
     severity: 'medium',
@@ -716,6 +791,7 @@ export const UNIVERSAL_PATTERNS: PatternDefinition[] = [
   },
   // ASCII art separators often used to inject instructions
   {
+    id: 'universal.ascii-art-separator-potential-injection-boundary',
     pattern: /[─━═]{10,}/,
     type: 'obfuscation',
     severity: 'low',
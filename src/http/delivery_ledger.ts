@@ -0,0 +1,169 @@
+/**
+ * Delivery Ledger
+ * Deduplicates Pub/Sub redeliveries and repeated Gmail messages so each is processed once
+ */
+
+import type { Logger, PluginStorage } from '../types.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const LEDGER_KEY_PREFIX = 'ledger:';
+
+// A claim left behind by a crashed request stops blocking redelivery after this
+const PENDING_TTL_SECONDS = 300;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface RecordedOutcome {
+  httpStatus: number;
+  body: Record<string, unknown>;
+}
+
+interface LedgerEntry {
+  status: 'pending' | 'complete';
+  requestId: string;
+  recordedAt: string;
+  outcome?: RecordedOutcome;
+}
+
+export type LedgerClaim =
+  | { state: 'claimed' }
+  | { state: 'duplicate'; outcome: RecordedOutcome; originalRequestId: string }
+  | { state: 'in_flight'; originalRequestId: string };
+
+export type PublishTimeCheck =
+  | { valid: true }
+  | { valid: false; reason: string };
+
+// ============================================================================
+// Delivery Ledger
+// ============================================================================
+
+/**
+ * Records the outcome of each delivery under a dedupe key so that
+ * redeliveries get the original result back instead of being reprocessed.
+ *
+ * PluginStorage has no compare-and-set, so concurrent claims within this
+ * process are serialized through an in-memory set; storage carries the
+ * ledger across restarts.
+ */
+export class DeliveryLedger {
+  private inFlight: Set<string> = new Set();
+
+  constructor(
+    private storage: PluginStorage,
+    private logger: Logger,
+    private ttlSeconds: number
+  ) {}
+
+  /**
+   * Claim a dedupe key before processing
+   */
+  async claim(key: string, requestId: string): Promise<LedgerClaim> {
+    const storageKey = LEDGER_KEY_PREFIX + key;
+
+    if (this.inFlight.has(key)) {
+      const entry = await this.storage.get<LedgerEntry>(storageKey);
+      return { state: 'in_flight', originalRequestId: entry?.requestId ?? 'unknown' };
+    }
+    this.inFlight.add(key);
+
+    try {
+      const entry = await this.storage.get<LedgerEntry>(storageKey);
+
+      if (entry?.status === 'complete' && entry.outcome) {
+        this.inFlight.delete(key);
+        this.logger.info('Duplicate delivery, returning recorded outcome', {
+          key,
+          requestId,
+          originalRequestId: entry.requestId,
+        });
+        return { state: 'duplicate', outcome: entry.outcome, originalRequestId: entry.requestId };
+      }
+
+      if (entry?.status === 'pending' && !isStale(entry)) {
+        this.inFlight.delete(key);
+        return { state: 'in_flight', originalRequestId: entry.requestId };
+      }
+
+      await this.storage.set<LedgerEntry>(storageKey, {
+        status: 'pending',
+        requestId,
+        recordedAt: new Date().toISOString(),
+      }, PENDING_TTL_SECONDS);
+
+      return { state: 'claimed' };
+    } catch (error) {
+      this.inFlight.delete(key);
+      throw error;
+    }
+  }
+
+  /**
+   * Record the final outcome for a claimed key
+   */
+  async complete(key: string, requestId: string, outcome: RecordedOutcome): Promise<void> {
+    try {
+      await this.storage.set<LedgerEntry>(LEDGER_KEY_PREFIX + key, {
+        status: 'complete',
+        requestId,
+        recordedAt: new Date().toISOString(),
+        outcome,
+      }, this.ttlSeconds);
+    } finally {
+      this.inFlight.delete(key);
+    }
+  }
+
+  /**
+   * Drop a claim without recording an outcome so a redelivery is reprocessed
+   */
+  async release(key: string): Promise<void> {
+    try {
+      await this.storage.delete(LEDGER_KEY_PREFIX + key);
+    } finally {
+      this.inFlight.delete(key);
+    }
+  }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function isStale(entry: LedgerEntry): boolean {
+  return Date.now() - new Date(entry.recordedAt).getTime() > PENDING_TTL_SECONDS * 1000;
+}
+
+/**
+ * Reject deliveries published too long ago for the ledger to still remember
+ * them, or implausibly far in the future
+ */
+export function checkPublishTime(
+  publishTime: string | undefined,
+  maxAgeSeconds: number,
+  maxFutureSkewSeconds: number,
+  now: number = Date.now()
+): PublishTimeCheck {
+  if (!publishTime) {
+    return { valid: false, reason: 'Missing publishTime' };
+  }
+
+  const published = Date.parse(publishTime);
+  if (Number.isNaN(published)) {
+    return { valid: false, reason: 'Invalid publishTime' };
+  }
+
+  if (now - published > maxAgeSeconds * 1000) {
+    return { valid: false, reason: 'publishTime is older than the replay window' };
+  }
+  if (published - now > maxFutureSkewSeconds * 1000) {
+    return { valid: false, reason: 'publishTime is in the future' };
+  }
+
+  return { valid: true };
+}
@@ -0,0 +1,452 @@
+/**
+ * Gmail API Message Fetcher
+ * Resolves Pub/Sub history notifications into full Gmail messages
+ */
+
+import { z } from 'zod';
+import type {
+  GmailApiConfig,
+  GmailHistoryListResponse,
+  GmailOAuthConfig,
+  GmailMessagePayload,
+  GmailNotification,
+  Logger,
+  PluginStorage,
+} from '../types.js';
+
+// ============================================================================
+// Fetcher Interface
+// ============================================================================
+
+/**
+ * Source of Gmail history and message data.
+ * The default implementation talks to the Gmail REST API; tests and custom
+ * deployments can supply their own.
+ */
+export interface GmailMessageFetcher {
+  listHistory(
+    emailAddress: string,
+    startHistoryId: string,
+    pageToken?: string
+  ): Promise<GmailHistoryListResponse>;
+  getMessage(emailAddress: string, messageId: string): Promise<GmailMessagePayload>;
+  /** Current mailbox historyId, used to seed the history cursor */
+  getProfile?(emailAddress: string): Promise<{ historyId: string }>;
+}
+
+export class GmailApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number
+  ) {
+    super(message);
+    this.name = 'GmailApiError';
+  }
+}
+
+// ============================================================================
+// Gmail REST API Client
+// ============================================================================
+
+export interface GmailApiClientOptions {
+  baseUrl: string;
+  getAccessToken: () => Promise<string>;
+  timeoutMs: number;
+}
+
+export class GmailApiClient implements GmailMessageFetcher {
+  private baseUrl: string;
+  private getAccessToken: () => Promise<string>;
+  private timeoutMs: number;
+
+  constructor(options: GmailApiClientOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.getAccessToken = options.getAccessToken;
+    this.timeoutMs = options.timeoutMs;
+  }
+
+  /**
+   * Call users.history.list for messages added since startHistoryId
+   */
+  async listHistory(
+    emailAddress: string,
+    startHistoryId: string,
+    pageToken?: string
+  ): Promise<GmailHistoryListResponse> {
+    const params = new URLSearchParams({
+      startHistoryId,
+      historyTypes: 'messageAdded',
+    });
+    if (pageToken) {
+      params.set('pageToken', pageToken);
+    }
+
+    return this.request<GmailHistoryListResponse>(
+      `/gmail/v1/users/${encodeURIComponent(emailAddress)}/history?${params.toString()}`
+    );
+  }
+
+  /**
+   * Call users.getProfile for the mailbox's current historyId
+   */
+  async getProfile(emailAddress: string): Promise<{ historyId: string }> {
+    return this.request<{ historyId: string }>(`/gmail/v1/users/${encodeURIComponent(emailAddress)}/profile`);
+  }
+
+  /**
+   * Call users.messages.get with the full payload format
+   */
+  async getMessage(emailAddress: string, messageId: string): Promise<GmailMessagePayload> {
+    return this.request<GmailMessagePayload>(
+      `/gmail/v1/users/${encodeURIComponent(emailAddress)}/messages/${encodeURIComponent(messageId)}?format=full`
+    );
+  }
+
+  private async request<T>(path: string): Promise<T> {
+    const token = await this.getAccessToken();
+
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method: 'GET',
+      headers: {
+        Authorization: `Bearer ${token}`,
+        Accept: 'application/json',
+      },
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+
+    if (!response.ok) {
+      throw new GmailApiError(`Gmail API request failed with status ${response.status}`, response.status);
+    }
+
+    return await response.json() as T;
+  }
+}
+
+// ============================================================================
+// OAuth Token Refresh
+// ============================================================================
+
+const TokenResponseSchema = z.object({
+  access_token: z.string().min(1),
+  expires_in: z.number().positive().default(3600),
+});
+
+// Refresh this long before Google's expiry so in-flight requests stay valid
+const TOKEN_REFRESH_MARGIN_MS = 60_000;
+
+/**
+ * Exchanges a refresh token for access tokens, caching each until shortly
+ * before it expires. Concurrent callers share one refresh.
+ */
+export class OAuthTokenProvider {
+  private token?: { value: string; expiresAt: number };
+  private pending?: Promise<string>;
+
+  constructor(
+    private config: GmailOAuthConfig,
+    private timeoutMs: number
+  ) {}
+
+  getAccessToken(): Promise<string> {
+    if (this.token && Date.now() < this.token.expiresAt) {
+      return Promise.resolve(this.token.value);
+    }
+    this.pending ??= this.refresh().finally(() => {
+      this.pending = undefined;
+    });
+    return this.pending;
+  }
+
+  private async refresh(): Promise<string> {
+    const response = await fetch(this.config.tokenUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        grant_type: 'refresh_token',
+        client_id: this.config.clientId,
+        client_secret: this.config.clientSecret,
+        refresh_token: this.config.refreshToken,
+      }).toString(),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+
+    if (!response.ok) {
+      throw new GmailApiError(`OAuth token refresh failed with status ${response.status}`, response.status);
+    }
+
+    const parsed = TokenResponseSchema.safeParse(await response.json());
+    if (!parsed.success) {
+      throw new GmailApiError('OAuth token response has no access token', response.status);
+    }
+
+    this.token = {
+      value: parsed.data.access_token,
+      expiresAt: Date.now() + parsed.data.expires_in * 1000 - TOKEN_REFRESH_MARGIN_MS,
+    };
+    return this.token.value;
+  }
+}
+
+// ============================================================================
+// History Synchronization
+// ============================================================================
+
+export interface FetchedMessageBatch {
+  messages: GmailMessagePayload[];
+  /** History ID to commit once the whole batch has been processed */
+  historyId: string;
+  /**
+   * Aligned with `messages`: the history ID to commit once that message and
+   * every one before it have been processed; undefined while the history
+   * record it came from still has unprocessed messages
+   */
+  checkpoints: Array<string | undefined>;
+  /** Set when more messages were found than one notification fetches */
+  truncated: boolean;
+  /**
+   * Changes after `afterHistoryId`, through `throughHistoryId`, that Gmail
+   * could no longer list because the cursor had expired; their messages were
+   * never fetched
+   */
+  skipped?: { afterHistoryId: string; throughHistoryId: string };
+}
+
+interface FoundMessage {
+  id: string;
+  /** History record that added the message */
+  recordId: string;
+}
+
+interface HistoryListing {
+  found: FoundMessage[];
+  latestHistoryId: string;
+  pageToken?: string;
+}
+
+// Messages the mailbox owner created themselves are not untrusted ingress
+const SKIPPED_LABELS = new Set(['SENT', 'DRAFT']);
+
+/**
+ * Walks Gmail history from the last-seen historyId of each mailbox and
+ * tracks the cursor in plugin storage
+ */
+export class GmailHistorySync {
+  private fetcher: GmailMessageFetcher;
+  private storage: PluginStorage;
+  private logger: Logger;
+  private maxMessages: number;
+
+  constructor(
+    fetcher: GmailMessageFetcher,
+    storage: PluginStorage,
+    logger: Logger,
+    maxMessages: number
+  ) {
+    this.fetcher = fetcher;
+    this.storage = storage;
+    this.logger = logger;
+    this.maxMessages = maxMessages;
+  }
+
+  /**
+   * Collect messages added since the last committed historyId
+   */
+  async collectNewMessages(notification: GmailNotification): Promise<FetchedMessageBatch> {
+    const lastSeen = await this.storage.get<string>(historyKey(notification.emailAddress));
+
+    // Gmail lists changes after startHistoryId, and the notified historyId is
+    // that of the change itself. Without a seeded cursor, start just below it.
+    if (!lastSeen) {
+      this.logger.warn('No Gmail history cursor for mailbox; changes before the notification are not fetched', {
+        emailAddress: notification.emailAddress,
+        historyId: notification.historyId,
+      });
+    }
+    let startHistoryId = lastSeen ?? previousHistoryId(notification.historyId);
+    let skipped: FetchedMessageBatch['skipped'];
+
+    let listing: HistoryListing;
+    try {
+      listing = await this.listAddedMessages(notification, startHistoryId);
+    } catch (error) {
+      // Gmail answers 404 when startHistoryId is too old to be replayed. What
+      // happened since cannot be listed any more, but the notified change can.
+      if (!(error instanceof GmailApiError && error.status === 404)) {
+        throw error;
+      }
+      const notifiedStart = previousHistoryId(notification.historyId);
+      this.logger.warn('Gmail history cursor expired, resetting', {
+        emailAddress: notification.emailAddress,
+        startHistoryId,
+        resumeHistoryId: notifiedStart,
+      });
+      if (notifiedStart === startHistoryId) {
+        skipped = { afterHistoryId: startHistoryId, throughHistoryId: notification.historyId };
+        return { messages: [], historyId: notification.historyId, checkpoints: [], truncated: false, skipped };
+      }
+      skipped = { afterHistoryId: startHistoryId, throughHistoryId: notifiedStart };
+      startHistoryId = notifiedStart;
+      listing = await this.listAddedMessages(notification, startHistoryId);
+    }
+    const { found, latestHistoryId, pageToken } = listing;
+
+    // The rest are fetched once the cursor has moved past these
+    const truncated = found.length > this.maxMessages || pageToken !== undefined;
+    if (truncated) {
+      this.logger.warn('History batch exceeds per-notification limit', {
+        emailAddress: notification.emailAddress,
+        found: found.length,
+        limit: this.maxMessages,
+      });
+    }
+
+    const messages: GmailMessagePayload[] = [];
+    const checkpoints: Array<string | undefined> = [];
+    let checkpoint: string | undefined;
+    const included = found.slice(0, this.maxMessages);
+    for (const [i, entry] of included.entries()) {
+      // A record is done once the last of its messages is
+      if (found[i + 1]?.recordId !== entry.recordId) {
+        checkpoint = entry.recordId;
+      }
+
+      try {
+        messages.push(await this.fetcher.getMessage(notification.emailAddress, entry.id));
+        checkpoints.push(checkpoint);
+      } catch (error) {
+        // Messages deleted between notification and fetch are skipped
+        if (error instanceof GmailApiError && error.status === 404) {
+          this.logger.debug('Message no longer available', { messageId: entry.id });
+          continue;
+        }
+        throw error;
+      }
+    }
+
+    // A truncated batch only covers the records it fetched in full
+    const historyId = truncated ? checkpoint : latestHistoryId;
+    return { messages, historyId: historyId ?? startHistoryId, checkpoints, truncated, skipped };
+  }
+
+  /**
+   * Page through history after `startHistoryId` until enough messages are
+   * found, noting the history record that added each
+   */
+  private async listAddedMessages(notification: GmailNotification, startHistoryId: string): Promise<HistoryListing> {
+    const found: FoundMessage[] = [];
+    let latestHistoryId = notification.historyId;
+    let pageToken: string | undefined;
+
+    do {
+      const page = await this.fetcher.listHistory(notification.emailAddress, startHistoryId, pageToken);
+      latestHistoryId = maxHistoryId(latestHistoryId, page.historyId);
+
+      for (const record of page.history ?? []) {
+        for (const added of record.messagesAdded ?? []) {
+          const labels = added.message.labelIds ?? [];
+          if (labels.some(label => SKIPPED_LABELS.has(label))) continue;
+          if (!found.some(entry => entry.id === added.message.id)) {
+            found.push({ id: added.message.id, recordId: record.id });
+          }
+        }
+      }
+
+      pageToken = page.nextPageToken;
+    } while (pageToken && found.length < this.maxMessages);
+
+    return { found, latestHistoryId, pageToken };
+  }
+
+  /**
+   * Start the mailbox's cursor at its current historyId, so the first
+   * notification fetches every change since. An existing cursor is kept.
+   */
+  async seed(emailAddress: string): Promise<string | undefined> {
+    const existing = await this.storage.get<string>(historyKey(emailAddress));
+    if (existing || !this.fetcher.getProfile) {
+      return existing;
+    }
+
+    const { historyId } = await this.fetcher.getProfile(emailAddress);
+    await this.commit(emailAddress, historyId);
+    this.logger.info('Seeded Gmail history cursor', { emailAddress, historyId });
+    return historyId;
+  }
+
+  /**
+   * Persist the history cursor after a batch has been processed
+   */
+  async commit(emailAddress: string, historyId: string): Promise<void> {
+    await this.storage.set(historyKey(emailAddress), historyId);
+  }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function historyKey(emailAddress: string): string {
+  return `gmail:history:${emailAddress.toLowerCase()}`;
+}
+
+/**
+ * Compare two Gmail historyIds (unsigned 64-bit integers encoded as strings)
+ */
+function compareHistoryIds(a: string, b: string): number {
+  try {
+    const diff = BigInt(a) - BigInt(b);
+    return diff > 0n ? 1 : diff < 0n ? -1 : 0;
+  } catch {
+    return a.localeCompare(b);
+  }
+}
+
+function maxHistoryId(a: string, b: string): string {
+  return compareHistoryIds(a, b) >= 0 ? a : b;
+}
+
+function previousHistoryId(historyId: string): string {
+  try {
+    const id = BigInt(historyId);
+    return id > 0n ? (id - 1n).toString() : historyId;
+  } catch {
+    return historyId;
+  }
+}
+
+// ============================================================================
+// Factory
+// ============================================================================
+
+/**
+ * Build the default Gmail API fetcher from configuration, if enabled.
+ * Tokens come from `getAccessToken` when given, then from `oauth`
+ * refresh-token credentials, then from the static `accessToken`.
+ */
+export function createGmailMessageFetcher(
+  config: GmailApiConfig | undefined,
+  getAccessToken?: () => Promise<string>
+): GmailMessageFetcher | undefined {
+  if (!config?.enabled) {
+    return undefined;
+  }
+
+  let tokenSource = getAccessToken;
+  if (!tokenSource && config.oauth) {
+    const provider = new OAuthTokenProvider(config.oauth, config.timeoutMs);
+    tokenSource = (): Promise<string> => provider.getAccessToken();
+  }
+  if (!tokenSource && config.accessToken) {
+    const accessToken = config.accessToken;
+    tokenSource = (): Promise<string> => Promise.resolve(accessToken);
+  }
+  if (!tokenSource) {
+    return undefined;
+  }
+
+  return new GmailApiClient({
+    baseUrl: config.baseUrl,
+    getAccessToken: tokenSource,
+    timeoutMs: config.timeoutMs,
+  });
+}
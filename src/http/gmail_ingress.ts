@@ -1,6 +1,6 @@
 /**
  * Gmail Ingress HTTP Handler
- * Receives Gmail webhook payloads, sanitizes content, and forwards to agent
+ * Receives Gmail webhook payloads or raw RFC 822 messages, sanitizes content, and forwards to agent
  */
 
 import { timingSafeEqual as cryptoTimingSafeEqual, randomUUID } from 'crypto';
@@ -11,22 +11,48 @@ import type {
   MailGuardConfig,
   GmailPubSubPayload,
   GmailMessagePayload,
+  GmailNotification,
   SanitizedEnvelope,
+  EmailHeaders,
   EmailProvenance,
   AuditLogEntry,
   Logger,
   PluginStorage,
+  ReplayProtectionConfig,
+  RiskScore,
 } from '../types.js';
+import { ReplayProtectionConfigSchema } from '../types.js';
 
 import {
   sanitizeEmailContent,
   parseEmailHeaders,
-  extractAttachmentMetadata,
   extractBodyContent,
 } from '../sanitize/html_to_text.js';
+import { parseMimeMessage, isRawMessageContentType } from '../sanitize/mime_parser.js';
+import { scanAttachments } from '../sanitize/attachment_scanner.js';
+import { scanCalendarInvites } from '../sanitize/calendar_scanner.js';
 
-import { assessRisk, classifyWithML, combineScores, shouldQuarantine } from '../risk/heuristics.js';
+import {
+  addRiskSignals,
+  assessRisk,
+  combineClassifierScores,
+  foldAttachmentRisk,
+  recommendationForSignals,
+  shouldQuarantine,
+} from '../risk/heuristics.js';
+import { assessAttachmentPolicy, applyAttachmentPolicy } from '../risk/attachment_policy.js';
+import { createRiskClassifiers, type RiskClassifier } from '../risk/classifiers.js';
+import { assessQuotedContent } from '../risk/quote_provenance.js';
+import { assessUnicodeAnalysis, describeUnicodeAnalysis } from '../risk/unicode_analysis.js';
 import { ToolFirewall } from '../policy/tool_firewall.js';
+import { GmailHistorySync, type GmailMessageFetcher } from './gmail_fetcher.js';
+import {
+  createPubSubTokenVerifier,
+  looksLikeJwt,
+  OidcVerificationError,
+  type PubSubTokenVerifier,
+} from './oidc_verifier.js';
+import { DeliveryLedger, checkPublishTime } from './delivery_ledger.js';
 
 // ============================================================================
 // Rate Limiting
@@ -74,24 +100,64 @@ class RateLimiter {
 // Gmail Ingress Handler
 // ============================================================================
 
+interface IngressOutcome {
+  httpStatus: number;
+  body: Record<string, unknown>;
+  /** Request ID whose recorded result is being replayed */
+  replayOf?: string;
+  /** The message was turned away on purpose; fetching it again would not change that */
+  rejected?: boolean;
+}
+
+interface AuthenticationResult {
+  authenticated: boolean;
+  method?: 'oidc' | 'secret';
+  principal?: string;
+  reason?: string;
+}
+
 export class GmailIngressHandler {
   private config: MailGuardConfig;
   private logger: Logger;
   private storage: PluginStorage;
   private toolFirewall: ToolFirewall;
   private rateLimiter: RateLimiter;
+  private historySync?: GmailHistorySync;
+  private tokenVerifier?: PubSubTokenVerifier;
+  private replayProtection: ReplayProtectionConfig;
+  private ledger?: DeliveryLedger;
+  private classifiers: RiskClassifier[];
 
   constructor(
     config: MailGuardConfig,
     logger: Logger,
     storage: PluginStorage,
-    toolFirewall: ToolFirewall
+    toolFirewall: ToolFirewall,
+    messageFetcher?: GmailMessageFetcher,
+    classifiers?: RiskClassifier[]
   ) {
     this.config = config;
     this.logger = logger;
     this.storage = storage;
     this.toolFirewall = toolFirewall;
     this.rateLimiter = new RateLimiter(config.rateLimitPerSender);
+    this.classifiers = classifiers ?? createRiskClassifiers(config, logger);
+
+    if (messageFetcher) {
+      this.historySync = new GmailHistorySync(
+        messageFetcher,
+        storage,
+        logger,
+        config.gmailApi?.maxMessagesPerNotification ?? 25
+      );
+    }
+
+    this.tokenVerifier = createPubSubTokenVerifier(config.pubsubOidc, logger);
+
+    this.replayProtection = config.replayProtection ?? ReplayProtectionConfigSchema.parse({});
+    if (this.replayProtection.enabled) {
+      this.ledger = new DeliveryLedger(storage, logger, this.replayProtection.ledgerTtlSeconds);
+    }
   }
 
   /**
@@ -105,18 +171,25 @@ export class GmailIngressHandler {
 
     try {
       // Validate authentication
-      if (!this.validateAuthentication(req)) {
-        this.logger.warn('Authentication failed', { requestId });
+      const auth = await this.authenticate(req);
+      if (!auth.authenticated) {
+        this.logger.warn('Authentication failed', { requestId, reason: auth.reason });
         await this.emitAuditLog({
           timestamp: new Date(),
           eventType: 'authentication_failed',
           sessionId: requestId,
-          details: { reason: 'Invalid or missing webhook secret' },
+          details: { reason: auth.reason ?? 'Invalid or missing webhook secret' },
         });
         res.status(401).json({ error: 'Unauthorized', code: 'AUTH_FAILED' });
         return;
       }
 
+      this.logger.debug('Request authenticated', {
+        requestId,
+        method: auth.method,
+        principal: auth.principal,
+      });
+
       // Validate payload size
       if (req.rawBody.length > this.config.maxPayloadSize) {
         this.logger.warn('Payload too large', {
@@ -134,6 +207,13 @@ export class GmailIngressHandler {
         return;
       }
 
+      // Raw RFC 822 messages (SMTP relays, .eml exports) share the endpoint
+      if (isRawMessageContentType(req.headers['content-type'])) {
+        const outcome = await this.routeMessage(parseMimeMessage(req.rawBody), requestId, startTime, 'rfc822');
+        this.sendOutcome(res, outcome);
+        return;
+      }
+
       // Parse the Gmail Pub/Sub payload
       const pubsubPayload = req.body as GmailPubSubPayload;
       if (!pubsubPayload?.message?.data) {
@@ -142,92 +222,376 @@ export class GmailIngressHandler {
         return;
       }
 
-      // Decode the notification
-      const notificationData = Buffer.from(pubsubPayload.message.data, 'base64').toString('utf-8');
-      const notification = JSON.parse(notificationData) as { emailAddress: string; historyId: string };
+      // Reject deliveries the ledger could no longer recognise as replays
+      if (this.replayProtection.enabled) {
+        const publishCheck = checkPublishTime(
+          pubsubPayload.message.publishTime,
+          Math.min(this.replayProtection.maxPublishAgeSeconds, this.replayProtection.ledgerTtlSeconds),
+          this.replayProtection.maxFutureSkewSeconds
+        );
+        if (!publishCheck.valid) {
+          this.logger.warn('Delivery outside replay window', { requestId, reason: publishCheck.reason });
+          await this.emitAuditLog({
+            timestamp: new Date(),
+            eventType: 'payload_rejected',
+            sessionId: requestId,
+            details: {
+              reason: publishCheck.reason,
+              pubsubMessageId: pubsubPayload.message.messageId,
+              publishTime: pubsubPayload.message.publishTime,
+            },
+          });
+          res.status(400).json({ error: 'Delivery outside replay window', code: 'REPLAY_REJECTED' });
+          return;
+        }
+      }
 
-      // For this handler, we expect the full message payload to be provided
-      // In a real integration, you would fetch the message using the Gmail API
-      // For now, we'll check if there's an extended payload with the message content
-      const messagePayload = (req.body as GmailPubSubPayload & { messagePayload?: GmailMessagePayload }).messagePayload;
+      const deliveryKey = pubsubPayload.message.messageId
+        ? `pubsub:${pubsubPayload.message.messageId}`
+        : undefined;
+      const outcome = await this.deduplicate(deliveryKey, requestId, () =>
+        this.handleNotification(pubsubPayload, requestId, startTime)
+      );
+      this.sendOutcome(res, outcome);
 
-      if (!messagePayload) {
+    } catch (error) {
+      this.logger.error('Error processing Gmail ingress', {
+        requestId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      res.status(500).json({ error: 'Internal server error', code: 'INTERNAL_ERROR' });
+    }
+  }
+
+  /**
+   * Process a Pub/Sub notification, with or without an embedded message
+   */
+  private async handleNotification(
+    pubsubPayload: GmailPubSubPayload,
+    requestId: string,
+    startTime: number
+  ): Promise<IngressOutcome> {
+    // Decode the notification
+    const notificationData = Buffer.from(pubsubPayload.message.data, 'base64').toString('utf-8');
+    const notification = JSON.parse(notificationData) as GmailNotification;
+
+    // Callers may embed the full message payload next to the notification
+    const messagePayload = (pubsubPayload as GmailPubSubPayload & { messagePayload?: GmailMessagePayload }).messagePayload;
+
+    if (!messagePayload) {
+      if (!this.historySync) {
         // Acknowledge the notification but indicate message fetch is needed
         this.logger.info('Notification received, message fetch required', {
           requestId,
           emailAddress: notification.emailAddress,
           historyId: notification.historyId,
         });
-        res.status(200).json({
-          status: 'acknowledged',
-          action: 'fetch_required',
-          historyId: notification.historyId,
-        });
-        return;
+        return {
+          httpStatus: 200,
+          body: {
+            status: 'acknowledged',
+            action: 'fetch_required',
+            historyId: notification.historyId,
+          },
+        };
       }
 
-      // Process the full message
-      const envelope = await this.processMessage(messagePayload, requestId, startTime);
+      return this.fetchAndProcess(this.historySync, notification, requestId, startTime);
+    }
+
+    // Process the full message
+    return this.routeMessage(messagePayload, requestId, startTime, 'gmail');
+  }
 
-      if (!envelope) {
-        res.status(500).json({ error: 'Failed to process message', code: 'PROCESSING_FAILED' });
-        return;
+  /**
+   * Fetch messages referenced by a history notification and process each one
+   */
+  private async fetchAndProcess(
+    historySync: GmailHistorySync,
+    notification: GmailNotification,
+    requestId: string,
+    startTime: number
+  ): Promise<IngressOutcome> {
+    const batch = await historySync.collectNewMessages(notification);
+
+    if (batch.skipped) {
+      await this.emitAuditLog({
+        timestamp: new Date(),
+        eventType: 'payload_rejected',
+        sessionId: requestId,
+        details: {
+          reason: 'Gmail history expired before these changes were fetched',
+          emailAddress: notification.emailAddress,
+          afterHistoryId: batch.skipped.afterHistoryId,
+          throughHistoryId: batch.skipped.throughHistoryId,
+        },
+      });
+    }
+
+    // The cursor only moves past messages that, with all before them, were
+    // processed or deliberately rejected, and past a skipped range, which
+    // cannot be fetched later
+    const results: Array<Record<string, unknown>> = [];
+    let cursor = batch.skipped?.throughHistoryId;
+    let failed = 0;
+    for (const [i, message] of batch.messages.entries()) {
+      const outcome = await this.routeMessage(message, requestId, startTime, 'gmail', false);
+      results.push({ gmailMessageId: message.id, ...outcome.body });
+      if ((outcome.httpStatus < 200 || outcome.httpStatus >= 300) && !outcome.rejected) {
+        failed++;
+      } else if (failed === 0) {
+        cursor = batch.checkpoints[i] ?? cursor;
       }
+    }
 
-      // Check rate limits
-      const senderDomain = envelope.provenance.senderDomain;
-      const rateCheck = this.rateLimiter.check(senderDomain);
+    const complete = failed === 0 && !batch.truncated;
+    if (failed === 0) {
+      cursor = batch.historyId;
+    }
+    if (cursor) {
+      await historySync.commit(notification.emailAddress, cursor);
+    }
 
-      if (!rateCheck.allowed) {
-        this.logger.warn('Rate limit exceeded', { requestId, senderDomain });
-        await this.emitAuditLog({
-          timestamp: new Date(),
-          eventType: 'rate_limit_exceeded',
-          sessionId: requestId,
-          emailId: envelope.headers.messageId,
-          details: { senderDomain },
-        });
-        res.status(429).json({
+    this.logger.info('Fetched messages for notification', {
+      requestId,
+      emailAddress: notification.emailAddress,
+      historyId: cursor,
+      messageCount: batch.messages.length,
+      failed,
+      truncated: batch.truncated,
+    });
+
+    // Pub/Sub redelivers the notification, which resumes from the cursor
+    if (!complete) {
+      return {
+        httpStatus: 503,
+        body: {
+          error: failed > 0 ? 'Some messages could not be processed' : 'More messages remain to be fetched',
+          code: 'FETCH_INCOMPLETE',
+          historyId: cursor,
+          messageCount: batch.messages.length,
+          results,
+        },
+      };
+    }
+
+    return {
+      httpStatus: 200,
+      body: {
+        status: 'fetched',
+        historyId: batch.historyId,
+        messageCount: batch.messages.length,
+        results,
+      },
+    };
+  }
+
+  /**
+   * Route one message, returning the recorded outcome if it was already seen.
+   * `redeliverable` is false for messages fetched from history, which are not
+   * fetched again once the cursor has moved past them.
+   */
+  private async routeMessage(
+    payload: GmailMessagePayload,
+    requestId: string,
+    startTime: number,
+    source: EmailProvenance['source'],
+    redeliverable = true
+  ): Promise<IngressOutcome> {
+    const messageKey = payload.id ? `message:${payload.id}` : undefined;
+    return this.deduplicate(messageKey, requestId, () =>
+      this.routeNewMessage(payload, requestId, startTime, source, redeliverable)
+    );
+  }
+
+  /**
+   * Sanitize, rate-limit and quarantine or open a session for one message
+   */
+  private async routeNewMessage(
+    payload: GmailMessagePayload,
+    requestId: string,
+    startTime: number,
+    source: EmailProvenance['source'],
+    redeliverable: boolean
+  ): Promise<IngressOutcome> {
+    const blocked = await this.rejectBlockedSender(payload, requestId);
+    if (blocked) {
+      return blocked;
+    }
+
+    const envelope = await this.processMessage(payload, requestId, startTime, source);
+
+    if (!envelope) {
+      return {
+        httpStatus: 500,
+        body: { error: 'Failed to process message', code: 'PROCESSING_FAILED' },
+      };
+    }
+
+    // Check rate limits
+    const senderDomain = envelope.provenance.senderDomain;
+    const rateCheck = this.rateLimiter.check(senderDomain);
+
+    if (!rateCheck.allowed) {
+      this.logger.warn('Rate limit exceeded', { requestId, senderDomain });
+      await this.emitAuditLog({
+        timestamp: new Date(),
+        eventType: 'rate_limit_exceeded',
+        sessionId: requestId,
+        emailId: envelope.headers.messageId,
+        details: { senderDomain },
+      });
+
+      // Nothing will offer a fetched message again, so hold it for the operator
+      if (!redeliverable) {
+        await this.quarantineMessage(envelope, requestId, 'rate_limited');
+        return {
+          httpStatus: 200,
+          body: {
+            status: 'quarantined',
+            code: 'RATE_LIMITED',
+            messageId: envelope.headers.messageId,
+            riskScore: envelope.riskScore.score,
+            reason: 'rate_limited',
+          },
+        };
+      }
+
+      return {
+        httpStatus: 429,
+        body: {
           error: 'Rate limit exceeded',
           code: 'RATE_LIMITED',
           retryAfter: 3600,
-        });
-        return;
-      }
+        },
+        rejected: true,
+      };
+    }
 
-      envelope.provenance.rateLimitRemaining = rateCheck.remaining;
+    envelope.provenance.rateLimitRemaining = rateCheck.remaining;
 
-      // Check if should be quarantined
-      if (shouldQuarantine(envelope.riskScore, this.config)) {
-        await this.quarantineMessage(envelope, requestId);
-        res.status(200).json({
+    // Check if should be quarantined
+    if (shouldQuarantine(envelope.riskScore, this.config)) {
+      await this.quarantineMessage(envelope, requestId);
+      return {
+        httpStatus: 200,
+        body: {
           status: 'quarantined',
           messageId: envelope.headers.messageId,
           riskScore: envelope.riskScore.score,
           reason: envelope.riskScore.recommendation,
-        });
-        return;
-      }
+        },
+      };
+    }
 
-      // Initialize tool firewall session
-      const sessionId = `gmail-${randomUUID()}`;
-      this.toolFirewall.initializeSession(sessionId, envelope.provenance, envelope.riskScore);
+    // Initialize tool firewall session
+    const sessionId = `${source === 'gmail' ? 'gmail' : 'mime'}-${randomUUID()}`;
+    this.toolFirewall.initializeSession(sessionId, envelope.provenance, envelope.riskScore, envelope);
 
-      // Return sanitized envelope for agent processing
-      res.status(200).json({
+    // Return sanitized envelope for agent processing
+    return {
+      httpStatus: 200,
+      body: {
         status: 'processed',
         sessionId,
         envelope: this.serializeEnvelope(envelope),
         deniedTools: this.toolFirewall.getDeniedTools(sessionId),
-      });
+      },
+    };
+  }
 
-    } catch (error) {
-      this.logger.error('Error processing Gmail ingress', {
+  /**
+   * Run `process` at most once per dedupe key. Only successful outcomes are
+   * recorded; failures and rate limiting release the key so a redelivery
+   * is processed again.
+   */
+  private async deduplicate(
+    key: string | undefined,
+    requestId: string,
+    process: () => Promise<IngressOutcome>
+  ): Promise<IngressOutcome> {
+    if (!this.ledger || !key) {
+      return process();
+    }
+
+    const claim = await this.ledger.claim(key, requestId);
+
+    if (claim.state === 'duplicate') {
+      return { ...claim.outcome, replayOf: claim.originalRequestId };
+    }
+
+    if (claim.state === 'in_flight') {
+      this.logger.info('Delivery already in progress', {
         requestId,
-        error: error instanceof Error ? error.message : 'Unknown error',
+        key,
+        originalRequestId: claim.originalRequestId,
       });
-      res.status(500).json({ error: 'Internal server error', code: 'INTERNAL_ERROR' });
+      return {
+        httpStatus: 409,
+        body: { error: 'Delivery is already being processed', code: 'DELIVERY_IN_PROGRESS' },
+      };
+    }
+
+    let outcome: IngressOutcome;
+    try {
+      outcome = await process();
+    } catch (error) {
+      await this.ledger.release(key);
+      throw error;
+    }
+
+    if (outcome.httpStatus >= 200 && outcome.httpStatus < 300) {
+      await this.ledger.complete(key, requestId, { httpStatus: outcome.httpStatus, body: outcome.body });
+    } else {
+      await this.ledger.release(key);
+    }
+
+    return outcome;
+  }
+
+  /**
+   * Write an outcome to the response, flagging replayed results
+   */
+  private sendOutcome(res: HttpResponse, outcome: IngressOutcome): void {
+    if (outcome.replayOf) {
+      res.header('X-MailGuard-Replay-Of', outcome.replayOf);
+    }
+    res.status(outcome.httpStatus).json(outcome.body);
+  }
+
+  /**
+   * Turn away a message from a blocklisted sender domain
+   */
+  private async rejectBlockedSender(
+    payload: GmailMessagePayload,
+    requestId: string
+  ): Promise<IngressOutcome | undefined> {
+    let headers: EmailHeaders;
+    try {
+      headers = parseEmailHeaders(payload);
+    } catch {
+      // processMessage reports the failure
+      return undefined;
+    }
+
+    const senderDomain = this.extractDomain(headers.from);
+    if (!this.config.blockedSenderDomains.includes(senderDomain)) {
+      return undefined;
     }
+
+    this.logger.warn('Blocked sender domain', { requestId, senderDomain });
+    await this.emitAuditLog({
+      timestamp: new Date(),
+      eventType: 'payload_rejected',
+      sessionId: requestId,
+      emailId: headers.messageId,
+      details: { reason: 'Blocked sender domain', domain: senderDomain },
+    });
+    return {
+      httpStatus: 403,
+      body: { error: 'Sender domain is blocked', code: 'SENDER_BLOCKED' },
+      rejected: true,
+    };
   }
 
   /**
@@ -236,25 +600,13 @@ export class GmailIngressHandler {
   private async processMessage(
     payload: GmailMessagePayload,
     requestId: string,
-    startTime: number
+    startTime: number,
+    source: EmailProvenance['source']
   ): Promise<SanitizedEnvelope | null> {
     try {
       // Parse headers
       const headers = parseEmailHeaders(payload);
-
-      // Check if sender is blocklisted
       const senderDomain = this.extractDomain(headers.from);
-      if (this.config.blockedSenderDomains.includes(senderDomain)) {
-        this.logger.warn('Blocked sender domain', { requestId, senderDomain });
-        await this.emitAuditLog({
-          timestamp: new Date(),
-          eventType: 'payload_rejected',
-          sessionId: requestId,
-          emailId: headers.messageId,
-          details: { reason: 'Blocked sender domain', domain: senderDomain },
-        });
-        return null;
-      }
 
       // Extract body content
       const { html, plain } = extractBodyContent(payload);
@@ -266,13 +618,16 @@ export class GmailIngressHandler {
         this.config.maxBodyLength
       );
 
-      // Extract attachment metadata
-      const attachments = extractAttachmentMetadata(payload);
+      // Describe attachments and score the text-like ones
+      const attachments = scanAttachments(payload, headers, this.config);
+
+      // Read meeting invites, inline or attached
+      const calendar = scanCalendarInvites(payload, headers, this.config);
 
       // Create provenance record
       const provenance: EmailProvenance = {
-        source: 'gmail',
-        hookName: 'mailguard-gmail',
+        source,
+        hookName: `mailguard-${source}`,
         receivedAt: new Date(),
         senderDomain,
         isAllowlistedDomain: this.config.allowedSenderDomains.includes(senderDomain),
@@ -285,24 +640,30 @@ export class GmailIngressHandler {
         sanitizationResult.bodyText,
         sanitizationResult.links,
         headers,
-        this.config
+        this.config,
+        { hiddenContent: sanitizationResult.hiddenContent, encodedText: sanitizationResult.encodedText }
       );
 
-      // Optional: ML classification
-      if (this.config.enableMLClassifier && this.config.mlClassifierEndpoint) {
-        const mlResult = await classifyWithML(
-          sanitizationResult.bodyText,
-          this.config.mlClassifierEndpoint
-        );
-        if (mlResult) {
-          riskScore = {
-            ...riskScore,
-            score: combineScores(riskScore.score, mlResult),
-            mlScore: mlResult.score,
-          };
-        }
+      // Optional: ML classification; classifiers that fail are left out
+      if (this.classifiers.length > 0) {
+        riskScore = await this.classify(riskScore, sanitizationResult.bodyText);
       }
 
+      // Mixed-script words and direction overrides found while sanitizing
+      const unicodeAnalysis = describeUnicodeAnalysis(sanitizationResult);
+      const unicode = assessUnicodeAnalysis(unicodeAnalysis, sanitizationResult.bodyText, this.config);
+      riskScore = addRiskSignals(riskScore, unicode.signals, unicode.contributions, this.config);
+
+      // Quoted text is scored apart from the body, with its provenance
+      const quoted = assessQuotedContent(sanitizationResult.quotedBlocks, headers, this.config);
+      riskScore = addRiskSignals(riskScore, quoted.signals, quoted.contributions, this.config);
+
+      riskScore = foldAttachmentRisk(riskScore, attachments, this.config);
+      riskScore = addRiskSignals(riskScore, calendar.signals, calendar.contributions, this.config);
+
+      // Dangerous or disguised attachments can quarantine regardless of score
+      riskScore = applyAttachmentPolicy(riskScore, assessAttachmentPolicy(payload, this.config), this.config);
+
       const processingTimeMs = Date.now() - startTime;
 
       // Build sanitized envelope
@@ -312,6 +673,7 @@ export class GmailIngressHandler {
         quotedBlocks: sanitizationResult.quotedBlocks,
         links: sanitizationResult.links,
         attachments,
+        calendarEvents: calendar.events.length > 0 ? calendar.events : undefined,
         signals: riskScore.signals,
         riskScore,
         provenance,
@@ -319,7 +681,8 @@ export class GmailIngressHandler {
           originalLength: sanitizationResult.originalLength,
           sanitizedLength: sanitizationResult.sanitizedLength,
           truncated: sanitizationResult.sanitizedLength < sanitizationResult.originalLength,
-          hiddenContentRemoved: sanitizationResult.hiddenContentRemoved,
+          hiddenContent: sanitizationResult.hiddenContent,
+          unicodeAnalysis,
           encodingNormalized: sanitizationResult.encodingNormalized,
           processingTimeMs,
         },
@@ -363,16 +726,61 @@ export class GmailIngressHandler {
   }
 
   /**
-   * Quarantine a high-risk message
+   * Blend each classifier's score into the heuristic score by its weight and
+   * recommend from the blended score
+   */
+  private async classify(riskScore: RiskScore, bodyText: string): Promise<RiskScore> {
+    const outcomes = await Promise.all(this.classifiers.map(async classifier => ({
+      classifier,
+      result: await classifier.classify(bodyText).catch((error: unknown) => {
+        this.logger.warn('MailGuard classifier failed', {
+          classifier: classifier.name,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return null;
+      }),
+    })));
+
+    const scored = outcomes.flatMap(({ classifier, result }) =>
+      result ? [{ name: classifier.name, result, weight: classifier.weight }] : []
+    );
+    if (scored.length === 0) {
+      return riskScore;
+    }
+
+    const totalWeight = scored.reduce((sum, entry) => sum + entry.weight, 0);
+    const score = combineClassifierScores(riskScore.score, scored);
+    return {
+      ...riskScore,
+      score,
+      recommendation: recommendationForSignals(score, riskScore.signals, this.config),
+      mlScore: Math.round(totalWeight > 0
+        ? scored.reduce((sum, entry) => sum + entry.result.score * entry.weight, 0) / totalWeight
+        : scored.reduce((sum, entry) => sum + entry.result.score, 0) / scored.length),
+      classifierScores: scored.map(entry => ({
+        name: entry.name,
+        score: entry.result.score,
+        confidence: entry.result.confidence,
+        weight: entry.weight,
+      })),
+    };
+  }
+
+  /**
+   * Quarantine a high-risk or rate-limited message
    */
-  private async quarantineMessage(envelope: SanitizedEnvelope, requestId: string): Promise<void> {
+  private async quarantineMessage(
+    envelope: SanitizedEnvelope,
+    requestId: string,
+    reason: string = envelope.riskScore.recommendation
+  ): Promise<void> {
     const quarantineKey = `quarantine:${envelope.headers.messageId}`;
 
     await this.storage.set(quarantineKey, {
       envelope,
       quarantinedAt: new Date().toISOString(),
       requestId,
-      reason: envelope.riskScore.recommendation,
+      reason,
     }, 86400 * 7); // 7 days TTL
 
     await this.emitAuditLog({
@@ -383,7 +791,7 @@ export class GmailIngressHandler {
       details: {
         from: envelope.headers.from,
         subject: envelope.headers.subject,
-        reason: envelope.riskScore.recommendation,
+        reason,
       },
       riskScore: envelope.riskScore.score,
       signals: envelope.riskScore.signals,
@@ -398,9 +806,38 @@ export class GmailIngressHandler {
   }
 
   /**
-   * Validate webhook authentication
+   * Authenticate the request with a Pub/Sub OIDC token or the shared secret
+   */
+  private async authenticate(req: HttpRequest): Promise<AuthenticationResult> {
+    const authorization = req.headers['authorization'];
+    const bearer = authorization?.startsWith('Bearer ') ? authorization.slice(7) : undefined;
+
+    // JWT-shaped bearer tokens never fall back to secret comparison
+    if (this.tokenVerifier && bearer && looksLikeJwt(bearer)) {
+      try {
+        const claims = await this.tokenVerifier.verify(bearer);
+        return { authenticated: true, method: 'oidc', principal: claims.email };
+      } catch (error) {
+        if (error instanceof OidcVerificationError) {
+          return { authenticated: false, reason: `OIDC ${error.reason}: ${error.message}` };
+        }
+        throw error;
+      }
+    }
+
+    if (!this.config.webhookSecret) {
+      return { authenticated: false, reason: 'Missing OIDC bearer token' };
+    }
+
+    return this.validateWebhookSecret(req, this.config.webhookSecret)
+      ? { authenticated: true, method: 'secret' }
+      : { authenticated: false, reason: 'Invalid or missing webhook secret' };
+  }
+
+  /**
+   * Validate webhook secret authentication
    */
-  private validateAuthentication(req: HttpRequest): boolean {
+  private validateWebhookSecret(req: HttpRequest, webhookSecret: string): boolean {
     // Check for webhook secret in headers
     const authHeader = req.headers['x-webhook-secret'] ??
                        req.headers['authorization'] ??
@@ -416,7 +853,7 @@ export class GmailIngressHandler {
       : authHeader;
 
     // Constant-time comparison to prevent timing attacks
-    return timingSafeEqual(secret, this.config.webhookSecret);
+    return timingSafeEqual(secret, webhookSecret);
   }
 
   /**
@@ -428,7 +865,7 @@ export class GmailIngressHandler {
   }
 
   /**
-   * Serialize envelope for JSON response (handle Date objects)
+   * Serialize envelope for JSON response (handle Date objects, drop hidden text)
    */
   private serializeEnvelope(envelope: SanitizedEnvelope): Record<string, unknown> {
     return {
@@ -441,6 +878,13 @@ export class GmailIngressHandler {
         ...envelope.provenance,
         receivedAt: envelope.provenance.receivedAt.toISOString(),
       },
+      // Hidden text stays with operators; the agent only learns what was removed
+      sanitizationMetadata: {
+        ...envelope.sanitizationMetadata,
+        hiddenContent: envelope.sanitizationMetadata.hiddenContent.map(
+          ({ text: _text, textTruncated: _truncated, ...finding }) => finding
+        ),
+      },
     };
   }
 
@@ -504,9 +948,11 @@ export function createGmailIngressHandler(
   config: MailGuardConfig,
   logger: Logger,
   storage: PluginStorage,
-  toolFirewall: ToolFirewall
+  toolFirewall: ToolFirewall,
+  messageFetcher?: GmailMessageFetcher,
+  classifiers?: RiskClassifier[]
 ): { method: 'POST'; handler: (req: HttpRequest, res: HttpResponse) => Promise<void> } {
-  const handler = new GmailIngressHandler(config, logger, storage, toolFirewall);
+  const handler = new GmailIngressHandler(config, logger, storage, toolFirewall, messageFetcher, classifiers);
 
   return {
     method: 'POST',
@@ -0,0 +1,382 @@
+/**
+ * Pub/Sub OIDC Token Verifier
+ * Validates the signed bearer tokens Google Pub/Sub attaches to push requests
+ */
+
+import { createPublicKey, verify as cryptoVerify, type JsonWebKey, type KeyObject } from 'crypto';
+import { readFile } from 'fs/promises';
+
+import type { Logger, PubSubOidcConfig } from '../types.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const JWKS_FETCH_TIMEOUT_MS = 5000;
+
+// Unknown key IDs trigger a refresh, but never more often than this so that
+// forged tokens cannot turn the verifier into a JWKS request amplifier
+const MIN_REFRESH_INTERVAL_MS = 30000;
+
+const SUPPORTED_ALGORITHMS: Record<string, { digest: string; keyType: string }> = {
+  RS256: { digest: 'sha256', keyType: 'RSA' },
+  RS384: { digest: 'sha384', keyType: 'RSA' },
+  RS512: { digest: 'sha512', keyType: 'RSA' },
+  ES256: { digest: 'sha256', keyType: 'EC' },
+};
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type OidcFailureReason =
+  | 'malformed_token'
+  | 'unsupported_algorithm'
+  | 'unknown_key'
+  | 'invalid_signature'
+  | 'token_expired'
+  | 'token_not_yet_valid'
+  | 'audience_mismatch'
+  | 'issuer_mismatch'
+  | 'email_mismatch'
+  | 'email_unverified'
+  | 'jwks_unavailable';
+
+export class OidcVerificationError extends Error {
+  constructor(
+    message: string,
+    readonly reason: OidcFailureReason
+  ) {
+    super(message);
+    this.name = 'OidcVerificationError';
+  }
+}
+
+export interface OidcTokenClaims {
+  iss: string;
+  aud: string | string[];
+  sub: string;
+  exp: number;
+  iat?: number;
+  nbf?: number;
+  email?: string;
+  email_verified?: boolean;
+  [claim: string]: unknown;
+}
+
+interface JwtHeader {
+  alg?: string;
+  kid?: string;
+  typ?: string;
+}
+
+interface JwksDocument {
+  keys: Array<JsonWebKey & { kid?: string; alg?: string; use?: string }>;
+}
+
+/**
+ * Where signing keys come from. `maxAgeSeconds` lets a source override the
+ * configured cache lifetime (e.g. from an HTTP Cache-Control header).
+ */
+export interface JwksSource {
+  readonly description: string;
+  load(): Promise<{ document: JwksDocument; maxAgeSeconds?: number }>;
+}
+
+// ============================================================================
+// JWKS Sources
+// ============================================================================
+
+export class JwksFileSource implements JwksSource {
+  readonly description: string;
+
+  constructor(private path: string) {
+    this.description = `file:${path}`;
+  }
+
+  async load(): Promise<{ document: JwksDocument }> {
+    const content = await readFile(this.path, 'utf-8');
+    return { document: parseJwksDocument(JSON.parse(content)) };
+  }
+}
+
+export class JwksUrlSource implements JwksSource {
+  readonly description: string;
+
+  constructor(private url: string) {
+    this.description = url;
+  }
+
+  async load(): Promise<{ document: JwksDocument; maxAgeSeconds?: number }> {
+    const response = await fetch(this.url, {
+      headers: { Accept: 'application/json' },
+      signal: AbortSignal.timeout(JWKS_FETCH_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      throw new Error(`JWKS request failed with status ${response.status}`);
+    }
+
+    const cacheControl = response.headers.get('cache-control') ?? '';
+    const maxAgeMatch = cacheControl.match(/max-age=(\d+)/i);
+
+    return {
+      document: parseJwksDocument(await response.json()),
+      maxAgeSeconds: maxAgeMatch?.[1] ? parseInt(maxAgeMatch[1], 10) : undefined,
+    };
+  }
+}
+
+// ============================================================================
+// Key Store
+// ============================================================================
+
+export interface JwksKeyStoreOptions {
+  cacheSeconds: number;
+  minRefreshIntervalMs?: number;
+}
+
+/**
+ * Caches signing keys by key ID and reloads them when the cache expires or a
+ * token names a key we have not seen (Google rotates its keys regularly).
+ * A failed reload keeps serving the previously loaded keys.
+ */
+export class JwksKeyStore {
+  private keys: Map<string, KeyObject> = new Map();
+  private expiresAt = 0;
+  private lastRefresh = 0;
+  private pendingRefresh: Promise<void> | null = null;
+  private cacheSeconds: number;
+  private minRefreshIntervalMs: number;
+
+  constructor(
+    private source: JwksSource,
+    private logger: Logger,
+    options: JwksKeyStoreOptions
+  ) {
+    this.cacheSeconds = options.cacheSeconds;
+    this.minRefreshIntervalMs = options.minRefreshIntervalMs ?? MIN_REFRESH_INTERVAL_MS;
+  }
+
+  /**
+   * Resolve the public key for a key ID, refreshing the key set if needed
+   */
+  async getKey(kid: string): Promise<KeyObject> {
+    const now = Date.now();
+
+    if (now >= this.expiresAt) {
+      await this.refresh();
+    } else if (!this.keys.has(kid) && now - this.lastRefresh >= this.minRefreshIntervalMs) {
+      this.logger.info('Unknown signing key, refreshing JWKS', { kid, source: this.source.description });
+      await this.refresh();
+    }
+
+    const key = this.keys.get(kid);
+    if (!key) {
+      if (this.keys.size === 0) {
+        throw new OidcVerificationError('No signing keys available', 'jwks_unavailable');
+      }
+      throw new OidcVerificationError(`Unknown signing key: ${kid}`, 'unknown_key');
+    }
+
+    return key;
+  }
+
+  private async refresh(): Promise<void> {
+    // Concurrent requests share a single reload
+    if (!this.pendingRefresh) {
+      this.pendingRefresh = this.load().finally(() => {
+        this.pendingRefresh = null;
+      });
+    }
+    await this.pendingRefresh;
+  }
+
+  private async load(): Promise<void> {
+    this.lastRefresh = Date.now();
+
+    try {
+      const { document, maxAgeSeconds } = await this.source.load();
+      const keys = new Map<string, KeyObject>();
+
+      for (const jwk of document.keys) {
+        if (!jwk.kid || (jwk.use && jwk.use !== 'sig')) continue;
+        try {
+          keys.set(jwk.kid, createPublicKey({ key: jwk, format: 'jwk' }));
+        } catch (error) {
+          this.logger.warn('Skipping unusable JWKS key', {
+            kid: jwk.kid,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+      }
+
+      this.keys = keys;
+      // A short or zero max-age must not turn every request into a fetch
+      this.expiresAt = Date.now() + Math.max((maxAgeSeconds ?? this.cacheSeconds) * 1000, this.minRefreshIntervalMs);
+
+      this.logger.debug('Loaded JWKS', { source: this.source.description, keyCount: keys.size });
+    } catch (error) {
+      // Retry on the next request once the refresh interval has passed
+      this.expiresAt = Date.now() + this.minRefreshIntervalMs;
+      this.logger.error('Failed to load JWKS', {
+        source: this.source.description,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        cachedKeys: this.keys.size,
+      });
+    }
+  }
+}
+
+// ============================================================================
+// Token Verifier
+// ============================================================================
+
+export interface PubSubTokenVerifierOptions {
+  audience: string;
+  serviceAccountEmail: string;
+  issuers: string[];
+  clockSkewSeconds: number;
+}
+
+/**
+ * Verifies Pub/Sub push OIDC tokens: signature against the JWKS, then
+ * audience, issuer, validity window and the push service account email.
+ */
+export class PubSubTokenVerifier {
+  constructor(
+    private keyStore: JwksKeyStore,
+    private options: PubSubTokenVerifierOptions
+  ) {}
+
+  async verify(token: string): Promise<OidcTokenClaims> {
+    const segments = token.split('.');
+    if (segments.length !== 3) {
+      throw new OidcVerificationError('Token is not a compact JWS', 'malformed_token');
+    }
+    const [encodedHeader = '', encodedPayload = '', encodedSignature = ''] = segments;
+
+    const header = decodeSegment<JwtHeader>(encodedHeader);
+    const claims = decodeSegment<OidcTokenClaims>(encodedPayload);
+
+    const algorithm = header.alg ? SUPPORTED_ALGORITHMS[header.alg] : undefined;
+    if (!algorithm) {
+      throw new OidcVerificationError(`Unsupported algorithm: ${header.alg ?? 'none'}`, 'unsupported_algorithm');
+    }
+    if (!header.kid) {
+      throw new OidcVerificationError('Token header has no key ID', 'malformed_token');
+    }
+
+    const key = await this.keyStore.getKey(header.kid);
+    if (key.asymmetricKeyType?.toUpperCase() !== algorithm.keyType) {
+      throw new OidcVerificationError('Key type does not match token algorithm', 'invalid_signature');
+    }
+
+    const signedData = Buffer.from(`${encodedHeader}.${encodedPayload}`);
+    const signature = Buffer.from(encodedSignature, 'base64url');
+    const valid = cryptoVerify(
+      algorithm.digest,
+      signedData,
+      algorithm.keyType === 'EC' ? { key, dsaEncoding: 'ieee-p1363' } : key,
+      signature
+    );
+    if (!valid) {
+      throw new OidcVerificationError('Token signature is invalid', 'invalid_signature');
+    }
+
+    this.validateClaims(claims);
+    return claims;
+  }
+
+  private validateClaims(claims: OidcTokenClaims): void {
+    const now = Math.floor(Date.now() / 1000);
+    const skew = this.options.clockSkewSeconds;
+
+    if (typeof claims.exp !== 'number' || now - skew >= claims.exp) {
+      throw new OidcVerificationError('Token has expired', 'token_expired');
+    }
+    if (typeof claims.nbf === 'number' && now + skew < claims.nbf) {
+      throw new OidcVerificationError('Token is not yet valid', 'token_not_yet_valid');
+    }
+    if (typeof claims.iat === 'number' && now + skew < claims.iat) {
+      throw new OidcVerificationError('Token was issued in the future', 'token_not_yet_valid');
+    }
+
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!audiences.includes(this.options.audience)) {
+      throw new OidcVerificationError('Token audience does not match', 'audience_mismatch');
+    }
+
+    if (!this.options.issuers.includes(claims.iss)) {
+      throw new OidcVerificationError('Token issuer is not trusted', 'issuer_mismatch');
+    }
+
+    if (claims.email?.toLowerCase() !== this.options.serviceAccountEmail.toLowerCase()) {
+      throw new OidcVerificationError('Token was not issued to the push service account', 'email_mismatch');
+    }
+    if (claims.email_verified !== true) {
+      throw new OidcVerificationError('Service account email is not verified', 'email_unverified');
+    }
+  }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Check whether a bearer credential has the shape of a compact JWT
+ */
+export function looksLikeJwt(token: string): boolean {
+  return /^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*$/.test(token);
+}
+
+function decodeSegment<T>(segment: string): T {
+  try {
+    const decoded: unknown = JSON.parse(Buffer.from(segment, 'base64url').toString('utf-8'));
+    if (typeof decoded !== 'object' || decoded === null || Array.isArray(decoded)) {
+      throw new Error('Segment is not a JSON object');
+    }
+    return decoded as T;
+  } catch {
+    throw new OidcVerificationError('Token segment is not valid base64url JSON', 'malformed_token');
+  }
+}
+
+function parseJwksDocument(value: unknown): JwksDocument {
+  const keys = (value as { keys?: unknown } | null)?.keys;
+  if (!Array.isArray(keys)) {
+    throw new Error('JWKS document has no keys array');
+  }
+  return { keys: keys as JwksDocument['keys'] };
+}
+
+// ============================================================================
+// Factory Function
+// ============================================================================
+
+/**
+ * Create a token verifier when OIDC verification is enabled.
+ * A configured JWKS file takes precedence over the JWKS URL.
+ */
+export function createPubSubTokenVerifier(
+  config: PubSubOidcConfig | undefined,
+  logger: Logger
+): PubSubTokenVerifier | undefined {
+  if (!config?.enabled) {
+    return undefined;
+  }
+
+  const source = config.jwksFile
+    ? new JwksFileSource(config.jwksFile)
+    : new JwksUrlSource(config.jwksUrl);
+
+  const keyStore = new JwksKeyStore(source, logger, { cacheSeconds: config.keyCacheSeconds });
+
+  return new PubSubTokenVerifier(keyStore, {
+    audience: config.audience,
+    serviceAccountEmail: config.serviceAccountEmail,
+    issuers: config.issuers,
+    clockSkewSeconds: config.clockSkewSeconds,
+  });
+}
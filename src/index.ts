@@ -11,14 +11,21 @@ import type {
   SanitizedEnvelope,
   MailGuardReport,
   ToolContext,
+  ParameterRuleResult,
+  TaintMatch,
 } from './types.js';
 
-import { MailGuardConfigSchema } from './types.js';
+import { MailGuardConfigSchema, PatternExecutionConfigSchema } from './types.js';
 import { createGmailIngressHandler } from './http/gmail_ingress.js';
+import { createGmailMessageFetcher, GmailHistorySync } from './http/gmail_fetcher.js';
 import { ToolFirewall, policyCheckTool } from './policy/tool_firewall.js';
 import { createLobsterAdapter } from './workflows/lobster_adapter.js';
+import { createApprovalPipeline, type ApprovalPipeline } from './workflows/approval_pipeline.js';
 import { createCliCommands } from './cli/mailguard.js';
-import { generateRiskSummary } from './risk/heuristics.js';
+import { generateRiskSummary, getPatternExecutor, setPatternExecutor } from './risk/heuristics.js';
+import { createPatternRegistry, PatternPackError, type PatternRegistry } from './risk/pattern_packs.js';
+import { createPatternExecutor } from './risk/pattern_executor.js';
+import { ClassifierModelError, createRiskClassifiers, type RiskClassifier } from './risk/classifiers.js';
 import { createRequire } from 'module';
 
 const require = createRequire(import.meta.url);
@@ -62,21 +69,59 @@ export function activate(context: OpenClawPluginContext): Promise<MailGuardPlugi
     lobsterEnabled: config.lobsterIntegration.enabled,
   });
 
+  // Run patterns under time budgets; patterns that overrun are skipped for the current message only
+  setPatternExecutor(createPatternExecutor(config.patternExecution ?? PatternExecutionConfigSchema.parse({}), logger));
+
+  // Load pattern packs before any message is assessed
+  const patternRegistry = createPatternRegistry(config, logger);
+  try {
+    patternRegistry.load();
+  } catch (error) {
+    if (error instanceof PatternPackError) {
+      logger.error('Invalid MailGuard pattern pack', { path: error.path, reason: error.reason });
+      throw new Error(`Invalid MailGuard pattern pack: ${error.message}`);
+    }
+    throw error;
+  }
+  if (config.patternPacks?.watch ?? true) {
+    patternRegistry.watch();
+  }
+
+  // Load local classifier models up front so a bad model fails activation
+  let classifiers: RiskClassifier[];
+  try {
+    classifiers = createRiskClassifiers(config, logger);
+  } catch (error) {
+    if (error instanceof ClassifierModelError) {
+      logger.error('Invalid MailGuard classifier model', { path: error.path, reason: error.reason });
+      throw new Error(`Invalid MailGuard classifier model: ${error.message}`);
+    }
+    throw error;
+  }
+
   // Initialize core components
   const toolFirewall = new ToolFirewall(config, logger);
   const lobsterAdapter = createLobsterAdapter(config, logger, storage);
+  const approvalPipeline = createApprovalPipeline(config, logger, storage, toolFirewall, lobsterAdapter);
 
   // Create plugin instance
-  const plugin = new MailGuardPlugin(config, logger, storage, toolFirewall, lobsterAdapter);
+  const plugin = new MailGuardPlugin(config, logger, storage, toolFirewall, lobsterAdapter, approvalPipeline, patternRegistry);
 
   // Register HTTP handler for Gmail ingress
-  const gmailHandler = createGmailIngressHandler(config, logger, storage, toolFirewall);
+  const messageFetcher = createGmailMessageFetcher(config.gmailApi);
+  const gmailHandler = createGmailIngressHandler(config, logger, storage, toolFirewall, messageFetcher, classifiers);
   gateway.registerHttpHandler(config.endpoint, {
     method: 'POST',
     handler: gmailHandler.handler,
   });
 
-  logger.info('Registered Gmail ingress handler', { endpoint: config.endpoint });
+  logger.info('Registered Gmail ingress handler', {
+    endpoint: config.endpoint,
+    messageFetch: messageFetcher ? 'gmail_api' : 'disabled',
+    authentication: config.pubsubOidc?.enabled
+      ? (config.webhookSecret ? 'oidc_or_secret' : 'oidc')
+      : 'secret',
+  });
 
   // Register policy check tool
   gateway.registerTool({
@@ -84,7 +129,7 @@ export function activate(context: OpenClawPluginContext): Promise<MailGuardPlugi
     description: policyCheckTool.description,
     inputSchema: policyCheckTool.inputSchema,
     handler: (input: unknown, toolContext: ToolContext) => {
-      return Promise.resolve(plugin.handlePolicyCheck(input as { action: string; parameters?: Record<string, unknown> }, toolContext));
+      return plugin.handlePolicyCheck(input as PolicyCheckInput, toolContext);
     },
   });
 
@@ -136,7 +181,7 @@ export function activate(context: OpenClawPluginContext): Promise<MailGuardPlugi
   });
 
   // Register CLI commands
-  const cliCommands = createCliCommands(config, logger, storage, toolFirewall, lobsterAdapter);
+  const cliCommands = createCliCommands(config, logger, storage, toolFirewall, approvalPipeline, patternRegistry);
   for (const command of cliCommands) {
     gateway.registerCliCommand(command);
   }
@@ -146,7 +191,26 @@ export function activate(context: OpenClawPluginContext): Promise<MailGuardPlugi
     registeredCommands: cliCommands.map(c => c.name),
   });
 
-  return Promise.resolve(plugin);
+  // Seed history cursors so the first notification fetches the change it announces
+  if (!messageFetcher || !config.gmailApi?.mailboxes.length) {
+    return Promise.resolve(plugin);
+  }
+  const historySync = new GmailHistorySync(
+    messageFetcher,
+    storage,
+    logger,
+    config.gmailApi.maxMessagesPerNotification
+  );
+  return Promise.all(config.gmailApi.mailboxes.map(async emailAddress => {
+    try {
+      await historySync.seed(emailAddress);
+    } catch (error) {
+      logger.warn('Could not seed Gmail history cursor', {
+        emailAddress,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  })).then(() => plugin);
 }
 
 /**
@@ -155,18 +219,48 @@ export function activate(context: OpenClawPluginContext): Promise<MailGuardPlugi
 export function deactivate(plugin: MailGuardPlugin): void {
   plugin.logger.info('Deactivating MailGuard plugin');
   plugin.performCleanup();
+  plugin.patternRegistry.close();
+  getPatternExecutor().close();
 }
 
 // ============================================================================
 // Plugin Class
 // ============================================================================
 
+export interface PolicyCheckInput {
+  action: string;
+  parameters?: Record<string, unknown>;
+  /** Fetch the approval token for an approval request */
+  approvalId?: string;
+  /** Execute under an approval token; must match the approved action and parameters */
+  approvalToken?: string;
+}
+
+export interface PolicyCheckResult {
+  allowed: boolean;
+  reason: string;
+  requiresApproval: boolean;
+  approvalType?: string;
+  alternatives?: string[];
+  riskTier?: string;
+  parameterRules?: ParameterRuleResult[];
+  taint?: TaintMatch[];
+  /** Approval opened for a soft-denied action */
+  approvalId?: string;
+  approvalExpiresAt?: string;
+  /** Single-use token issued once the approval is granted */
+  approvalToken?: string;
+  approvalTokenExpiresAt?: string;
+}
+
 export class MailGuardPlugin {
   readonly config: MailGuardConfig;
   readonly logger: OpenClawPluginContext['logger'];
+  readonly patternRegistry: PatternRegistry;
   private storage: OpenClawPluginContext['storage'];
   private toolFirewall: ToolFirewall;
   private lobsterAdapter: ReturnType<typeof createLobsterAdapter>;
+  private approvalPipeline: ApprovalPipeline;
   private sessionEnvelopes: Map<string, SanitizedEnvelope> = new Map();
 
   constructor(
@@ -174,28 +268,44 @@ export class MailGuardPlugin {
     logger: OpenClawPluginContext['logger'],
     storage: OpenClawPluginContext['storage'],
     toolFirewall: ToolFirewall,
-    lobsterAdapter: ReturnType<typeof createLobsterAdapter>
+    lobsterAdapter: ReturnType<typeof createLobsterAdapter>,
+    approvalPipeline: ApprovalPipeline,
+    patternRegistry: PatternRegistry
   ) {
     this.config = config;
     this.logger = logger;
     this.storage = storage;
     this.toolFirewall = toolFirewall;
     this.lobsterAdapter = lobsterAdapter;
+    this.approvalPipeline = approvalPipeline;
+    this.patternRegistry = patternRegistry;
   }
 
   /**
-   * Handle policy check requests
+   * Handle policy check requests. Soft denials open an approval; once it is
+   * approved the approval ID yields a token that allows the action once.
    */
-  handlePolicyCheck(
-    input: { action: string; parameters?: Record<string, unknown> },
-    context: ToolContext
-  ): {
-    allowed: boolean;
-    reason: string;
-    requiresApproval: boolean;
-    approvalType?: string;
-    alternatives?: string[];
-  } {
+  async handlePolicyCheck(input: PolicyCheckInput, context: ToolContext): Promise<PolicyCheckResult> {
+    if (input.approvalId && !input.approvalToken) {
+      const issue = this.toolFirewall.issueApprovalToken(context.sessionId, input.approvalId);
+      if (issue.status === 'issued') {
+        return {
+          allowed: false,
+          reason: `Approved by ${issue.resolvedBy ?? 'an operator'}. Check again with approvalToken and the approved parameters to execute.`,
+          requiresApproval: false,
+          approvalId: input.approvalId,
+          approvalToken: issue.token,
+          approvalTokenExpiresAt: issue.expiresAt.toISOString(),
+        };
+      }
+      return {
+        allowed: false,
+        reason: issue.reason,
+        requiresApproval: issue.status === 'pending',
+        approvalId: input.approvalId,
+      };
+    }
+
     const decision = this.toolFirewall.checkToolAccess({
       source: context.provenance?.source ?? 'direct',
       riskScore: context.riskScore ?? 0,
@@ -203,14 +313,30 @@ export class MailGuardPlugin {
       isAllowlistedSender: false,
       sessionId: context.sessionId,
       requestedTool: input.action,
+      parameters: input.parameters,
+      approvalToken: input.approvalToken,
     });
 
+    const ticket = decision.requiresApproval
+      ? await this.approvalPipeline.requestApproval(
+        context.sessionId,
+        input.action,
+        input.parameters ?? {},
+        decision.reason
+      )
+      : undefined;
+
     return {
       allowed: decision.allowed,
       reason: decision.reason,
       requiresApproval: decision.requiresApproval,
       approvalType: decision.approvalType,
       alternatives: decision.alternatives,
+      riskTier: decision.riskTier,
+      parameterRules: decision.parameterRules,
+      taint: decision.taint,
+      approvalId: ticket?.approvalId,
+      approvalExpiresAt: ticket?.expiresAt.toISOString(),
     };
   }
 
@@ -361,12 +487,34 @@ export type {
   MailGuardReport,
   RiskScore,
   RiskSignal,
+  CalendarEvent,
   EmailProvenance,
   ApprovalRequest,
 } from './types.js';
 
 // Re-export key utilities
 export { assessRisk, generateRiskSummary } from './risk/heuristics.js';
+export { scoreContributions } from './risk/scoring.js';
 export { sanitizeEmailContent } from './sanitize/html_to_text.js';
+export { scanAttachments } from './sanitize/attachment_scanner.js';
+export { scanCalendarInvites } from './sanitize/calendar_scanner.js';
+export { assessAttachmentPolicy, applyAttachmentPolicy } from './risk/attachment_policy.js';
+export { assessQuotedContent } from './risk/quote_provenance.js';
+export { PatternRegistry, PatternPackError, loadPatternPack, diffPatternSets } from './risk/pattern_packs.js';
+export { evaluateCorpus, compareEvaluations, loadEvaluationCorpus } from './risk/evaluation.js';
+export { PatternExecutor } from './risk/pattern_executor.js';
+export { lintPattern } from './risk/pattern_lint.js';
+export {
+  HttpRiskClassifier,
+  LocalRiskClassifier,
+  ClassifierModelError,
+  createRiskClassifiers,
+  loadClassifierModel,
+  type RiskClassifier,
+} from './risk/classifiers.js';
 export { ToolFirewall, SAFE_TOOLS, HARD_DENIED_TOOLS } from './policy/tool_firewall.js';
 export { LobsterAdapter, createLobsterAdapter } from './workflows/lobster_adapter.js';
+export { ApprovalPipeline, createApprovalPipeline } from './workflows/approval_pipeline.js';
+export { GmailApiClient, GmailHistorySync, OAuthTokenProvider, type GmailMessageFetcher } from './http/gmail_fetcher.js';
+export { PubSubTokenVerifier, JwksKeyStore, OidcVerificationError } from './http/oidc_verifier.js';
+export { ApprovalTokenSigner, ApprovalTokenError } from './policy/approval_tokens.js';
@@ -0,0 +1,141 @@
+/**
+ * Approval Tokens
+ * HMAC-signed proof that an operator approved one exact tool call
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const TOKEN_PREFIX = 'mgat1';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ApprovalTokenFailureReason =
+  | 'malformed_token'
+  | 'invalid_signature'
+  | 'token_expired'
+  | 'session_mismatch'
+  | 'action_mismatch'
+  | 'parameters_mismatch';
+
+export class ApprovalTokenError extends Error {
+  constructor(
+    message: string,
+    readonly reason: ApprovalTokenFailureReason
+  ) {
+    super(message);
+    this.name = 'ApprovalTokenError';
+  }
+}
+
+export interface ApprovalTokenClaims {
+  approvalId: string;
+  sessionId: string;
+  /** Normalized tool name */
+  action: string;
+  /** Hash of the approved parameters (see hashParameters) */
+  parametersHash: string;
+  /** Expiry in epoch seconds */
+  expiresAt: number;
+}
+
+export interface ApprovalTokenBinding {
+  sessionId: string;
+  action: string;
+  parametersHash: string;
+}
+
+// ============================================================================
+// Token Signer
+// ============================================================================
+
+/**
+ * Issues and verifies approval tokens of the form
+ * `mgat1.<base64url claims>.<base64url HMAC-SHA256>`.
+ * Without a configured secret a random per-process key is used, so tokens
+ * do not survive a restart (neither do the approvals they refer to).
+ */
+export class ApprovalTokenSigner {
+  private key: Buffer;
+
+  constructor(secret?: string) {
+    this.key = secret ? Buffer.from(secret, 'utf-8') : randomBytes(32);
+  }
+
+  issue(claims: ApprovalTokenClaims): string {
+    const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+    return `${TOKEN_PREFIX}.${payload}.${this.sign(payload)}`;
+  }
+
+  /**
+   * Verify the signature and expiry, then check the token is bound to this
+   * session, tool and parameter set
+   */
+  verify(token: string, binding: ApprovalTokenBinding, now: number = Date.now()): ApprovalTokenClaims {
+    const [prefix, payload, signature, ...rest] = token.split('.');
+    if (prefix !== TOKEN_PREFIX || !payload || !signature || rest.length > 0) {
+      throw new ApprovalTokenError('Approval token is malformed', 'malformed_token');
+    }
+
+    const expected = Buffer.from(this.sign(payload));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      throw new ApprovalTokenError('Approval token signature is invalid', 'invalid_signature');
+    }
+
+    const claims = decodeClaims(payload);
+
+    if (now >= claims.expiresAt * 1000) {
+      throw new ApprovalTokenError('Approval token has expired', 'token_expired');
+    }
+    if (claims.sessionId !== binding.sessionId) {
+      throw new ApprovalTokenError('Approval token belongs to another session', 'session_mismatch');
+    }
+    if (claims.action !== binding.action) {
+      throw new ApprovalTokenError(`Approval token was issued for "${claims.action}"`, 'action_mismatch');
+    }
+    if (claims.parametersHash !== binding.parametersHash) {
+      throw new ApprovalTokenError(
+        'Parameters differ from the ones that were approved',
+        'parameters_mismatch'
+      );
+    }
+
+    return claims;
+  }
+
+  private sign(payload: string): string {
+    return createHmac('sha256', this.key).update(`${TOKEN_PREFIX}.${payload}`).digest('base64url');
+  }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function decodeClaims(payload: string): ApprovalTokenClaims {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'));
+  } catch {
+    throw new ApprovalTokenError('Approval token payload is not valid JSON', 'malformed_token');
+  }
+
+  const claims = decoded as Partial<ApprovalTokenClaims> | null;
+  if (
+    typeof claims?.approvalId !== 'string'
+    || typeof claims.sessionId !== 'string'
+    || typeof claims.action !== 'string'
+    || typeof claims.parametersHash !== 'string'
+    || typeof claims.expiresAt !== 'number'
+  ) {
+    throw new ApprovalTokenError('Approval token is missing claims', 'malformed_token');
+  }
+
+  return claims as ApprovalTokenClaims;
+}
@@ -0,0 +1,204 @@
+/**
+ * Parameter Rule Evaluation
+ * Declarative checks over tool arguments (recipients, attendee counts, etc.)
+ */
+
+import type {
+  ParameterCondition,
+  ParameterRule,
+  ParameterRuleResult,
+} from '../types.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ParameterRuleContext {
+  allowedRecipientDomains: string[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const EMAIL_ADDRESS = /[A-Za-z0-9._%+'-]+@([A-Za-z0-9.-]+\.[A-Za-z]{2,})/g;
+
+// Object keys that commonly hold an address inside attendee/recipient objects
+const ADDRESS_KEYS = ['email', 'address', 'emailAddress'];
+
+// ============================================================================
+// Rule Evaluation
+// ============================================================================
+
+/**
+ * Evaluate every rule that targets `tool` against the tool parameters.
+ * Tool names in `rules` must already be normalized like `tool`.
+ */
+export function evaluateParameterRules(
+  rules: ParameterRule[],
+  tool: string,
+  parameters: Record<string, unknown>,
+  context: ParameterRuleContext
+): ParameterRuleResult[] {
+  const results: ParameterRuleResult[] = [];
+
+  for (const rule of rules) {
+    if (!rule.tools.includes(tool)) continue;
+
+    const violations = rule.conditions.flatMap(condition =>
+      evaluateCondition(condition, parameters, context)
+    );
+
+    results.push({
+      ruleId: rule.id,
+      description: rule.description,
+      effect: rule.effect,
+      passed: violations.length === 0,
+      violations,
+    });
+  }
+
+  return results;
+}
+
+function evaluateCondition(
+  condition: ParameterCondition,
+  parameters: Record<string, unknown>,
+  context: ParameterRuleContext
+): string[] {
+  const violations: string[] = [];
+
+  for (const field of condition.fields) {
+    const values = resolveField(parameters, field);
+
+    switch (condition.operator) {
+      case 'recipients_in_domains': {
+        const domains = (condition.domains === '$allowedRecipientDomains'
+          ? context.allowedRecipientDomains
+          : condition.domains
+        ).map(d => d.toLowerCase());
+
+        if (domains.length === 0 && condition.onEmptyDomainList === 'skip') break;
+
+        for (const address of extractAddresses(values)) {
+          if (!domainAllowed(address.domain, domains)) {
+            violations.push(`${field}: ${address.address} is outside the allowed domains`);
+          }
+        }
+        break;
+      }
+
+      case 'max_items': {
+        const count = values.reduce<number>((sum, value) => sum + countItems(value), 0);
+        if (count > condition.limit) {
+          violations.push(`${field}: ${count} items exceeds the limit of ${condition.limit}`);
+        }
+        break;
+      }
+
+      case 'max_length': {
+        for (const value of values) {
+          const length = typeof value === 'string' ? value.length : JSON.stringify(value)?.length ?? 0;
+          if (length > condition.limit) {
+            violations.push(`${field}: length ${length} exceeds the limit of ${condition.limit}`);
+          }
+        }
+        break;
+      }
+
+      case 'one_of':
+        for (const value of flatten(values)) {
+          if (!condition.values.includes(value as string | number | boolean)) {
+            violations.push(`${field}: ${String(value)} is not a permitted value`);
+          }
+        }
+        break;
+
+      case 'not_one_of':
+        for (const value of flatten(values)) {
+          if (condition.values.includes(value as string | number | boolean)) {
+            violations.push(`${field}: ${String(value)} is a forbidden value`);
+          }
+        }
+        break;
+
+      case 'required':
+        if (values.length === 0) {
+          violations.push(`${field}: is required`);
+        }
+        break;
+    }
+  }
+
+  return violations;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Resolve a dot path, mapping over arrays ("attendees.email" yields every
+ * attendee's email). Missing and null values are dropped.
+ */
+function resolveField(parameters: Record<string, unknown>, path: string): unknown[] {
+  let current: unknown[] = [parameters];
+
+  for (const segment of path.split('.')) {
+    const next: unknown[] = [];
+    for (const value of current) {
+      for (const item of Array.isArray(value) ? value : [value]) {
+        if (item !== null && typeof item === 'object' && segment in item) {
+          const child = (item as Record<string, unknown>)[segment];
+          if (child !== undefined && child !== null) next.push(child);
+        }
+      }
+    }
+    current = next;
+  }
+
+  return current;
+}
+
+function flatten(values: unknown[]): unknown[] {
+  return values.flatMap(value => (Array.isArray(value) ? flatten(value) : [value]));
+}
+
+/**
+ * Collect email addresses from strings ("a@x.com, B <b@y.com>"), arrays and
+ * attendee-style objects
+ */
+function extractAddresses(values: unknown[]): Array<{ address: string; domain: string }> {
+  const addresses: Array<{ address: string; domain: string }> = [];
+
+  for (const value of flatten(values)) {
+    if (typeof value === 'string') {
+      const matches = [...value.matchAll(EMAIL_ADDRESS)];
+      for (const match of matches) {
+        addresses.push({ address: match[0].toLowerCase(), domain: (match[1] ?? '').toLowerCase() });
+      }
+      // A non-empty value with no recognisable address cannot be vetted
+      if (matches.length === 0 && value.trim()) {
+        addresses.push({ address: value.trim(), domain: '' });
+      }
+    } else if (value !== null && typeof value === 'object') {
+      const record = value as Record<string, unknown>;
+      addresses.push(...extractAddresses(ADDRESS_KEYS.map(key => record[key]).filter(v => v !== undefined)));
+    }
+  }
+
+  return addresses;
+}
+
+function countItems(value: unknown): number {
+  if (Array.isArray(value)) return value.length;
+  if (typeof value === 'string') {
+    return value.split(/[,;]/).filter(part => part.trim()).length;
+  }
+  return 1;
+}
+
+function domainAllowed(domain: string, allowed: string[]): boolean {
+  if (!domain) return false;
+  return allowed.some(d => domain === d || domain.endsWith(`.${d}`));
+}
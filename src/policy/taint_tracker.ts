@@ -0,0 +1,256 @@
+/**
+ * Taint Tracking
+ * Fingerprints untrusted email content and finds it again in tool arguments
+ */
+
+import { createHash } from 'crypto';
+
+import type {
+  SanitizedEnvelope,
+  TaintKind,
+  TaintMatch,
+  TaintTrackingConfig,
+} from '../types.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type TaintOrigin = TaintMatch['origin'];
+
+export type TaintSource = Pick<SanitizedEnvelope, 'headers' | 'bodyText' | 'links' | 'quotedBlocks' | 'calendarEvents'>;
+
+interface Candidate {
+  kind: Exclude<TaintKind, 'text'>;
+  value: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const EMAIL_PATTERN = /[A-Za-z0-9._%+'-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g;
+const URL_PATTERN = /\bhttps?:\/\/[^\s<>"'`)\]]+/gi;
+const DOMAIN_PATTERN = /\b(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,24}\b/gi;
+const PATH_PATTERN = /(?:^|[\s"'(=])((?:~|\.{1,2})?\/(?:[\w.-]+\/)*[\w.-]+|[A-Za-z]:\\(?:[\w .-]+\\)*[\w .-]+)/g;
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+const MAX_EVIDENCE_LENGTH = 80;
+
+// ============================================================================
+// Taint Index
+// ============================================================================
+
+/**
+ * Hashed fingerprints of the values and text spans an email introduced.
+ * Values that also appear in the message headers (the sender, the original
+ * recipients) are treated as trusted context rather than taint.
+ */
+export class TaintIndex {
+  private values: Map<string, TaintOrigin> = new Map();
+  private shingles: Map<string, TaintOrigin> = new Map();
+
+  private constructor(private shingleSize: number) {}
+
+  static fromEnvelope(source: TaintSource, shingleSize: number): TaintIndex {
+    const index = new TaintIndex(shingleSize);
+    const trusted = trustedValues(source);
+
+    const addText = (text: string, origin: TaintOrigin): void => {
+      for (const candidate of extractCandidates(text)) {
+        index.addValue(candidate, origin, trusted);
+      }
+      for (const shingle of wordShingles(text, shingleSize)) {
+        const key = fingerprint('text', shingle);
+        if (!index.shingles.has(key)) index.shingles.set(key, origin);
+      }
+    };
+
+    addText(source.bodyText, 'body');
+    for (const block of source.quotedBlocks) {
+      addText(block.content, 'quoted');
+    }
+    for (const link of source.links) {
+      index.addValue({ kind: 'url', value: normalizeUrl(link.url) }, 'link', trusted);
+      index.addValue({ kind: 'url', value: normalizeUrl(link.normalizedUrl) }, 'link', trusted);
+      if (link.domain) {
+        index.addValue({ kind: 'domain', value: link.domain.toLowerCase() }, 'link', trusted);
+      }
+    }
+
+    // Invite links and participants reach the agent on the envelope as well
+    for (const event of source.calendarEvents ?? []) {
+      const participants = event.organizer ? [event.organizer, ...event.attendees] : event.attendees;
+      const values = [...event.urls, ...participants.flatMap(p => [p.address, p.sentBy ?? ''])];
+      for (const candidate of values.flatMap(extractCandidates)) {
+        index.addValue(candidate, 'calendar', trusted);
+      }
+    }
+
+    return index;
+  }
+
+  /**
+   * Find tainted values inside tool arguments. Returns one match per
+   * argument field and taint kind.
+   */
+  scan(parameters: Record<string, unknown>): Array<Omit<TaintMatch, 'effect'>> {
+    const matches: Array<Omit<TaintMatch, 'effect'>> = [];
+
+    for (const { field, value } of walkStrings(parameters)) {
+      const seen = new Set<TaintKind>();
+      const record = (kind: TaintKind, origin: TaintOrigin, evidence: string): void => {
+        if (seen.has(kind)) return;
+        seen.add(kind);
+        matches.push({ field, kind, origin, evidence: truncate(evidence) });
+      };
+
+      for (const candidate of extractCandidates(value)) {
+        const origin = this.values.get(fingerprint(candidate.kind, candidate.value));
+        if (origin) record(candidate.kind, origin, candidate.value);
+      }
+
+      for (const shingle of wordShingles(value, this.shingleSize)) {
+        const origin = this.shingles.get(fingerprint('text', shingle));
+        if (origin) {
+          record('text', origin, shingle);
+          break;
+        }
+      }
+    }
+
+    return matches;
+  }
+
+  private addValue(candidate: Candidate, origin: TaintOrigin, trusted: Set<string>): void {
+    if (trusted.has(`${candidate.kind}:${candidate.value}`)) return;
+    const key = fingerprint(candidate.kind, candidate.value);
+    if (!this.values.has(key)) this.values.set(key, origin);
+  }
+}
+
+/**
+ * Pick the effect for a tainted field: the first configured entry naming the
+ * field (by key or dot path) and kind wins, otherwise the default effect
+ */
+export function resolveTaintEffect(
+  field: string,
+  kind: TaintKind,
+  config: TaintTrackingConfig
+): TaintMatch['effect'] {
+  const path = field.toLowerCase();
+  const key = path.split('.').pop() ?? path;
+
+  for (const entry of config.fieldEffects) {
+    const named = entry.fields.some(f => {
+      const candidate = f.toLowerCase();
+      return candidate === key || candidate === path;
+    });
+    if (named && (!entry.kinds || entry.kinds.includes(kind))) {
+      return entry.effect;
+    }
+  }
+
+  return config.defaultEffect;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function extractCandidates(text: string): Candidate[] {
+  const candidates: Candidate[] = [];
+
+  for (const match of text.matchAll(EMAIL_PATTERN)) {
+    candidates.push({ kind: 'email_address', value: match[0].toLowerCase() });
+  }
+
+  const urls = [...text.matchAll(URL_PATTERN)].map(match => match[0]);
+  for (const url of urls) {
+    candidates.push({ kind: 'url', value: normalizeUrl(url) });
+  }
+
+  // Domains are matched on their own so a re-typed URL to the same host is
+  // caught; names inside an address or a path segment are not hosts
+  for (const match of text.matchAll(DOMAIN_PATTERN)) {
+    const start = match.index ?? 0;
+    const preceding = text[start - 1];
+    if (preceding === '@' || preceding === '\\') continue;
+    if (preceding === '/' && text[start - 2] !== '/') continue;
+    candidates.push({ kind: 'domain', value: match[0].toLowerCase() });
+  }
+
+  const withoutUrls = urls.reduce((remaining, url) => remaining.replace(url, ' '), text);
+  for (const match of withoutUrls.matchAll(PATH_PATTERN)) {
+    const path = match[1]?.replace(/[.,;:!?]+$/, '');
+    if (path) candidates.push({ kind: 'file_path', value: path });
+  }
+
+  return candidates;
+}
+
+/**
+ * Values from the headers are the legitimate conversation participants
+ */
+function trustedValues(source: TaintSource): Set<string> {
+  const trusted = new Set<string>();
+  const headerText = [
+    source.headers.from,
+    ...source.headers.to,
+    ...(source.headers.cc ?? []),
+  ].join(' ');
+
+  for (const match of headerText.matchAll(EMAIL_PATTERN)) {
+    const address = match[0].toLowerCase();
+    trusted.add(`email_address:${address}`);
+    const domain = address.split('@')[1];
+    if (domain) trusted.add(`domain:${domain}`);
+  }
+
+  return trusted;
+}
+
+function wordShingles(text: string, size: number): string[] {
+  const words = (text.toLowerCase().match(WORD_PATTERN) ?? []);
+  const shingles: string[] = [];
+  for (let i = 0; i + size <= words.length; i++) {
+    shingles.push(words.slice(i, i + size).join(' '));
+  }
+  return shingles;
+}
+
+/**
+ * Yield every string in the arguments with its dot path (array indices omitted)
+ */
+function walkStrings(value: unknown, path: string = ''): Array<{ field: string; value: string }> {
+  if (typeof value === 'string') {
+    return path ? [{ field: path, value }] : [];
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap(item => walkStrings(item, path));
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.entries(value as Record<string, unknown>).flatMap(([key, child]) =>
+      walkStrings(child, path ? `${path}.${key}` : key)
+    );
+  }
+  return [];
+}
+
+function normalizeUrl(url: string): string {
+  const trimmed = url.replace(/[.,;:!?]+$/, '');
+  try {
+    const parsed = new URL(trimmed);
+    return `${parsed.protocol}//${parsed.host.toLowerCase()}${parsed.pathname.replace(/\/+$/, '')}${parsed.search}`;
+  } catch {
+    return trimmed.toLowerCase();
+  }
+}
+
+function fingerprint(kind: TaintKind, value: string): string {
+  return createHash('sha256').update(`${kind}\0${value}`).digest('hex').substring(0, 32);
+}
+
+function truncate(value: string): string {
+  return value.length > MAX_EVIDENCE_LENGTH ? `${value.substring(0, MAX_EVIDENCE_LENGTH)}...` : value;
+}
@@ -13,8 +13,23 @@ import type {
   PlannedAction,
   SideEffectPlan,
   Logger,
+  RiskTier,
+  ParameterRule,
+  ParameterRuleResult,
+  TaintMatch,
+  TaintTrackingConfig,
+  ApprovalTokensConfig,
 } from '../types.js';
-import { randomUUID } from 'crypto';
+import {
+  RiskTiersConfigSchema,
+  ParameterRulesSchema,
+  TaintTrackingConfigSchema,
+  ApprovalTokensConfigSchema,
+} from '../types.js';
+import { evaluateParameterRules } from './parameter_rules.js';
+import { TaintIndex, resolveTaintEffect, type TaintSource } from './taint_tracker.js';
+import { ApprovalTokenSigner, ApprovalTokenError, type ApprovalTokenClaims } from './approval_tokens.js';
+import { createHash, randomUUID } from 'crypto';
 
 // ============================================================================
 // Rate Limiter
@@ -183,20 +198,33 @@ export class ToolFirewall {
   private logger: Logger;
   private sessionPolicies: Map<string, SessionPolicy> = new Map();
   private approvalRateLimiter = new ApprovalRateLimiter();
+  private parameterRules: ParameterRule[];
+  private taintTracking: TaintTrackingConfig;
+  private approvalTokens: ApprovalTokensConfig;
+  private tokenSigner: ApprovalTokenSigner;
   private readonly maxSessions = 10000;
 
   constructor(config: MailGuardConfig, logger: Logger) {
     this.config = config;
     this.logger = logger;
+    this.parameterRules = (config.parameterRules ?? ParameterRulesSchema.parse(undefined)).map(rule => ({
+      ...rule,
+      tools: rule.tools.map(normalizeToolName),
+    }));
+    this.taintTracking = config.taintTracking ?? TaintTrackingConfigSchema.parse({});
+    this.approvalTokens = config.approvalTokens ?? ApprovalTokensConfigSchema.parse({});
+    this.tokenSigner = new ApprovalTokenSigner(this.approvalTokens.secret);
   }
 
   /**
-   * Initialize session policy based on provenance
+   * Initialize session policy based on provenance.
+   * Passing the envelope enables taint tracking of its content.
    */
   initializeSession(
     sessionId: string,
     provenance: EmailProvenance | undefined,
-    riskScore: RiskScore | undefined
+    riskScore: RiskScore | undefined,
+    envelope?: TaintSource
   ): void {
     // Evict oldest session if at capacity
     if (this.sessionPolicies.size >= this.maxSessions) {
@@ -219,13 +247,24 @@ export class ToolFirewall {
       sessionId,
       source: provenance?.source ?? 'direct',
       riskScore: riskScore?.score ?? 0,
-      isGmailOrigin: provenance?.source === 'gmail',
+      // Raw RFC 822 ingress carries the same untrusted content as Gmail
+      isGmailOrigin: provenance?.source === 'gmail' || provenance?.source === 'rfc822',
       isAllowlistedSender: provenance?.isAllowlistedDomain ?? false,
+      riskTiers: [],
       createdAt: new Date(),
       deniedTools: new Set(this.config.deniedTools),
       approvalRequiredActions: new Set(this.config.approvalRequiredActions),
       pendingApprovals: [],
       toolCallHistory: [],
+      emailContext: {
+        emailFrom: envelope?.headers.from ?? '',
+        emailSubject: envelope?.headers.subject ?? '',
+        riskScore: riskScore?.score ?? 0,
+        signals: riskScore?.signals ?? [],
+      },
+      taintIndex: envelope && this.taintTracking.enabled
+        ? TaintIndex.fromEnvelope(envelope, this.taintTracking.shingleSize)
+        : undefined,
     };
 
     // Add hard-denied tools
@@ -233,12 +272,18 @@ export class ToolFirewall {
       policy.deniedTools.add(tool);
     }
 
+    // Allowlisted senders get their own, more lenient tier table
+    const tierConfig = this.config.riskTiers ?? RiskTiersConfigSchema.parse({});
+    policy.riskTiers = [...(policy.isAllowlistedSender ? tierConfig.allowlisted : tierConfig.default)]
+      .sort((a, b) => b.minRiskScore - a.minRiskScore);
+
     this.sessionPolicies.set(sessionId, policy);
 
     this.logger.info('Session policy initialized', {
       sessionId,
       source: policy.source,
       riskScore: policy.riskScore,
+      riskTier: resolveRiskTier(policy).name,
       deniedToolCount: policy.deniedTools.size,
     });
   }
@@ -259,6 +304,7 @@ export class ToolFirewall {
     }
 
     const tool = normalizeToolName(context.requestedTool);
+    const tier = resolveRiskTier(policy);
 
     // Check hard denials first (cannot be bypassed)
     if (HARD_DENIED_TOOLS.has(tool) || policy.deniedTools.has(tool)) {
@@ -273,6 +319,7 @@ export class ToolFirewall {
         timestamp: new Date(),
         decision: 'denied',
         reason: 'hard_denial',
+        riskTier: tier.name,
       });
 
       return {
@@ -281,55 +328,124 @@ export class ToolFirewall {
         requiresApproval: false,
         denialType: 'hard',
         alternatives: getSafeAlternatives(tool),
+        riskTier: tier.name,
       };
     }
 
+    const parameters = context.parameters ?? {};
+
+    // Check tool arguments against parameter rules
+    const ruleResults = evaluateParameterRules(this.parameterRules, tool, parameters, {
+      allowedRecipientDomains: this.config.allowedRecipientDomains,
+    });
+
+    // Find email-derived values in the arguments
+    const taint: TaintMatch[] = (policy.taintIndex?.scan(parameters) ?? []).map(match => ({
+      ...match,
+      effect: resolveTaintEffect(match.field, match.kind, this.taintTracking),
+    }));
+
+    const evidence: Pick<ToolPolicyDecision, 'parameterRules' | 'taint'> = {
+      ...(ruleResults.length > 0 ? { parameterRules: ruleResults } : {}),
+      ...(taint.length > 0 ? { taint } : {}),
+    };
+
+    const violated = ruleResults.filter(result => !result.passed);
+    if (violated.some(result => result.effect === 'deny')) {
+      return { ...this.denyForParameterRules(policy, tool, tier, ruleResults), ...evidence };
+    }
+    if (taint.some(match => match.effect === 'deny')) {
+      return { ...this.denyForTaint(policy, tool, tier, taint), ...evidence };
+    }
+
+    if (context.approvalToken) {
+      return { ...this.redeemApprovalToken(policy, tool, tier, context.approvalToken, parameters), ...evidence };
+    }
+
+    let escalation: string | undefined;
+    if (violated.some(result => result.effect === 'require_approval')) {
+      escalation = `Tool "${tool}" requires operator approval because its parameters matched a policy rule`;
+    } else if (taint.some(match => match.effect === 'require_approval')) {
+      escalation = `Tool "${tool}" requires operator approval because its arguments contain values taken from the email`;
+    }
+
+    if (taint.length > 0) {
+      this.logger.info('Tainted tool arguments', {
+        sessionId: policy.sessionId,
+        tool,
+        fields: taint.map(match => `${match.field}:${match.kind}:${match.effect}`),
+      });
+    }
+
+    return { ...this.checkToolCategory(policy, tool, tier, escalation), ...evidence };
+  }
+
+  /**
+   * Decide by tool category and risk tier once hard denials and parameter
+   * rules have been applied
+   */
+  private checkToolCategory(
+    policy: SessionPolicy,
+    tool: string,
+    tier: RiskTier,
+    escalation: string | undefined
+  ): ToolPolicyDecision {
+    const sessionId = policy.sessionId;
+
     // Check if tool is in the safe list
     if (SAFE_TOOLS.has(tool)) {
+      if (tier.safeTools === 'deny') {
+        return this.denyForRiskTier(policy, tool, tier);
+      }
+      if (escalation) {
+        return this.requireApproval(policy, tool, tier, escalation);
+      }
+      if (tier.safeTools === 'approval') {
+        return this.requireApproval(
+          policy,
+          tool,
+          tier,
+          `Tool "${tool}" requires operator approval at risk tier "${tier.name}" (risk ${policy.riskScore}/100)`
+        );
+      }
+
       policy.toolCallHistory.push({
         tool,
         timestamp: new Date(),
         decision: 'allowed',
         reason: 'safe_tool',
+        riskTier: tier.name,
       });
 
       return {
         allowed: true,
         reason: 'Tool is approved for Gmail-origin sessions',
         requiresApproval: false,
+        riskTier: tier.name,
       };
     }
 
     // Check if tool requires approval
     if (APPROVAL_REQUIRED_TOOLS.has(tool) || policy.approvalRequiredActions.has(tool)) {
-      this.logger.info('Tool requires approval', {
-        sessionId: context.sessionId,
-        tool,
-      });
-
-      policy.toolCallHistory.push({
+      if (tier.sideEffects === 'deny') {
+        return this.denyForRiskTier(policy, tool, tier);
+      }
+      return this.requireApproval(
+        policy,
         tool,
-        timestamp: new Date(),
-        decision: 'pending_approval',
-        reason: 'requires_approval',
-      });
-
-      // Determine approval type based on config
-      const approvalType = this.config.lobsterIntegration.enabled ? 'lobster' : 'exec-approval';
-
-      return {
-        allowed: false,
-        reason: `Tool "${tool}" requires operator approval before execution`,
-        requiresApproval: true,
-        approvalType,
-        denialType: 'soft',
-      };
+        tier,
+        `Tool "${tool}" requires operator approval before execution`
+      );
     }
 
     // For Gmail-origin sessions, deny unknown tools by default (fail-secure)
     if (policy.isGmailOrigin) {
+      if (tier.sideEffects === 'deny') {
+        return this.denyForRiskTier(policy, tool, tier);
+      }
+
       this.logger.warn('Tool denied (not in allowlist for Gmail-origin)', {
-        sessionId: context.sessionId,
+        sessionId,
         tool,
       });
 
@@ -338,6 +454,7 @@ export class ToolFirewall {
         timestamp: new Date(),
         decision: 'denied',
         reason: 'not_in_allowlist',
+        riskTier: tier.name,
       });
 
       return {
@@ -345,12 +462,17 @@ export class ToolFirewall {
         reason: `Tool "${tool}" is not in the allowlist for email-triggered sessions. Only explicitly approved tools are permitted.`,
         requiresApproval: true,
         denialType: 'soft',
+        riskTier: tier.name,
       };
     }
 
+    if (escalation) {
+      return this.requireApproval(policy, tool, tier, escalation);
+    }
+
     // For non-Gmail sessions, allow with logging
     this.logger.info('Tool allowed (non-Gmail session)', {
-      sessionId: context.sessionId,
+      sessionId,
       tool,
     });
 
@@ -359,12 +481,225 @@ export class ToolFirewall {
       timestamp: new Date(),
       decision: 'allowed',
       reason: 'non_gmail_session',
+      riskTier: tier.name,
     });
 
     return {
       allowed: true,
       reason: 'Tool allowed for non-email-triggered sessions',
       requiresApproval: false,
+      riskTier: tier.name,
+    };
+  }
+
+  /**
+   * Soft-deny a tool pending operator approval
+   */
+  private requireApproval(
+    policy: SessionPolicy,
+    tool: string,
+    tier: RiskTier,
+    reason: string
+  ): ToolPolicyDecision {
+    this.logger.info('Tool requires approval', {
+      sessionId: policy.sessionId,
+      tool,
+      riskTier: tier.name,
+    });
+
+    policy.toolCallHistory.push({
+      tool,
+      timestamp: new Date(),
+      decision: 'pending_approval',
+      reason: 'requires_approval',
+      riskTier: tier.name,
+    });
+
+    // Determine approval type based on config
+    const approvalType = this.config.lobsterIntegration.enabled ? 'lobster' : 'exec-approval';
+
+    return {
+      allowed: false,
+      reason,
+      requiresApproval: true,
+      approvalType,
+      denialType: 'soft',
+      riskTier: tier.name,
+    };
+  }
+
+  /**
+   * Hard-deny a tool whose parameters violate a deny rule
+   */
+  private denyForParameterRules(
+    policy: SessionPolicy,
+    tool: string,
+    tier: RiskTier,
+    ruleResults: ParameterRuleResult[]
+  ): ToolPolicyDecision {
+    const violations = ruleResults
+      .filter(result => !result.passed && result.effect === 'deny')
+      .flatMap(result => result.violations.map(v => `${result.ruleId}: ${v}`));
+
+    this.logger.warn('Tool access denied (parameter rule)', {
+      sessionId: policy.sessionId,
+      tool,
+      violations,
+    });
+
+    policy.toolCallHistory.push({
+      tool,
+      timestamp: new Date(),
+      decision: 'denied',
+      reason: 'parameter_rule_denial',
+      riskTier: tier.name,
+    });
+
+    return {
+      allowed: false,
+      reason: `Tool "${tool}" was called with parameters that policy does not permit: ${violations.join('; ')}`,
+      requiresApproval: false,
+      denialType: 'hard',
+      riskTier: tier.name,
+      parameterRules: ruleResults,
+    };
+  }
+
+  /**
+   * Allow a call covered by an approval token, consuming the approval.
+   * Any failure is a hard denial: the token cannot be fixed by retrying.
+   */
+  private redeemApprovalToken(
+    policy: SessionPolicy,
+    tool: string,
+    tier: RiskTier,
+    token: string,
+    parameters: Record<string, unknown>
+  ): ToolPolicyDecision {
+    const reject = (reason: string, historyReason: string): ToolPolicyDecision => {
+      this.logger.warn('Approval token rejected', { sessionId: policy.sessionId, tool, reason: historyReason });
+      policy.toolCallHistory.push({
+        tool,
+        timestamp: new Date(),
+        decision: 'denied',
+        reason: historyReason,
+        riskTier: tier.name,
+      });
+      return { allowed: false, reason, requiresApproval: false, denialType: 'hard', riskTier: tier.name };
+    };
+
+    let claims: ApprovalTokenClaims;
+    try {
+      claims = this.tokenSigner.verify(token, {
+        sessionId: policy.sessionId,
+        action: tool,
+        parametersHash: hashParameters(parameters),
+      });
+    } catch (error) {
+      if (error instanceof ApprovalTokenError) {
+        return reject(`Approval token rejected: ${error.message}`, `approval_token_${error.reason}`);
+      }
+      throw error;
+    }
+
+    const approval = policy.pendingApprovals.find(a => a.id === claims.approvalId);
+    if (!approval || approval.status !== 'approved') {
+      return reject('Approval token refers to an approval that is not granted', 'approval_token_not_approved');
+    }
+    if (approval.executedAt) {
+      return reject('Approval token has already been used', 'approval_token_used');
+    }
+
+    // The risk score may have risen since the approval was granted
+    if (SAFE_TOOLS.has(tool) ? tier.safeTools === 'deny' : tier.sideEffects === 'deny') {
+      return this.denyForRiskTier(policy, tool, tier);
+    }
+
+    approval.executedAt = new Date();
+    policy.toolCallHistory.push({
+      tool,
+      timestamp: approval.executedAt,
+      decision: 'allowed',
+      reason: 'approval_token',
+      riskTier: tier.name,
+    });
+
+    this.logger.info('Approved action allowed', {
+      sessionId: policy.sessionId,
+      approvalId: approval.id,
+      tool,
+      resolvedBy: approval.resolvedBy,
+    });
+
+    return {
+      allowed: true,
+      reason: `Tool "${tool}" was approved by ${approval.resolvedBy ?? 'an operator'} (single use)`,
+      requiresApproval: false,
+      riskTier: tier.name,
+    };
+  }
+
+  /**
+   * Hard-deny a tool whose arguments carry email-derived values into a
+   * sensitive field
+   */
+  private denyForTaint(
+    policy: SessionPolicy,
+    tool: string,
+    tier: RiskTier,
+    taint: TaintMatch[]
+  ): ToolPolicyDecision {
+    const fields = [...new Set(taint.filter(match => match.effect === 'deny').map(match => match.field))];
+
+    this.logger.warn('Tool access denied (tainted arguments)', {
+      sessionId: policy.sessionId,
+      tool,
+      fields,
+    });
+
+    policy.toolCallHistory.push({
+      tool,
+      timestamp: new Date(),
+      decision: 'denied',
+      reason: 'tainted_arguments',
+      riskTier: tier.name,
+    });
+
+    return {
+      allowed: false,
+      reason: `Tool "${tool}" cannot use values taken from the email in ${fields.map(f => `"${f}"`).join(', ')}. Confirm the value with the user instead.`,
+      requiresApproval: false,
+      denialType: 'hard',
+      riskTier: tier.name,
+    };
+  }
+
+  /**
+   * Hard-deny a tool because the session's risk tier forbids it
+   */
+  private denyForRiskTier(policy: SessionPolicy, tool: string, tier: RiskTier): ToolPolicyDecision {
+    this.logger.warn('Tool access denied (risk tier)', {
+      sessionId: policy.sessionId,
+      tool,
+      riskTier: tier.name,
+      riskScore: policy.riskScore,
+    });
+
+    policy.toolCallHistory.push({
+      tool,
+      timestamp: new Date(),
+      decision: 'denied',
+      reason: 'risk_tier_denial',
+      riskTier: tier.name,
+    });
+
+    return {
+      allowed: false,
+      reason: `Tool "${tool}" is blocked at risk tier "${tier.name}" (risk ${policy.riskScore}/100). This email is too risky to trigger this action.`,
+      requiresApproval: false,
+      denialType: 'hard',
+      alternatives: getSafeAlternatives(tool),
+      riskTier: tier.name,
     };
   }
 
@@ -392,12 +727,7 @@ export class ToolFirewall {
             type: 'side_effect',
             action: action.type,
             details: action.parameters,
-            riskContext: {
-              emailFrom: '',
-              emailSubject: '',
-              riskScore: policy.riskScore,
-              signals: [],
-            },
+            riskContext: { ...policy.emailContext },
             preview: action.description,
             createdAt: new Date(),
             expiresAt: new Date(Date.now() + this.config.lobsterIntegration.timeout * 1000),
@@ -431,7 +761,7 @@ export class ToolFirewall {
     }
 
     const approval = policy.pendingApprovals.find(a => a.id === approvalId);
-    if (!approval) return false;
+    if (!approval || approval.status !== 'pending') return false;
 
     approval.status = approved ? 'approved' : 'denied';
     approval.resolvedBy = resolvedBy;
@@ -448,6 +778,53 @@ export class ToolFirewall {
     return true;
   }
 
+  /**
+   * Issue a signed token for an approved request. The token is bound to the
+   * session, the tool and the exact parameters, and can be redeemed once.
+   */
+  issueApprovalToken(sessionId: string, approvalId: string): ApprovalTokenIssue {
+    const approval = this.getApproval(sessionId, approvalId);
+    if (!approval) {
+      return { status: 'unavailable', reason: `Approval ${approvalId} does not exist for this session` };
+    }
+
+    if (approval.status === 'pending' && approval.expiresAt.getTime() > Date.now()) {
+      return { status: 'pending', reason: `Approval ${approvalId} is still waiting for an operator decision` };
+    }
+    if (approval.status !== 'approved') {
+      return { status: 'unavailable', reason: `Approval ${approvalId} was not granted (${approval.status})` };
+    }
+    if (approval.executedAt) {
+      return { status: 'unavailable', reason: `Approval ${approvalId} has already been used` };
+    }
+    if (approval.expiresAt.getTime() <= Date.now()) {
+      return { status: 'unavailable', reason: `Approval ${approvalId} has expired` };
+    }
+
+    const expiresAt = new Date(Math.min(
+      approval.expiresAt.getTime(),
+      Date.now() + this.approvalTokens.ttlSeconds * 1000
+    ));
+    const token = this.tokenSigner.issue({
+      approvalId,
+      sessionId,
+      action: normalizeToolName(approval.action),
+      parametersHash: hashParameters(approval.details),
+      expiresAt: Math.floor(expiresAt.getTime() / 1000),
+    });
+
+    this.logger.info('Approval token issued', { sessionId, approvalId, action: approval.action, expiresAt });
+
+    return { status: 'issued', token, expiresAt, resolvedBy: approval.resolvedBy };
+  }
+
+  /**
+   * Look up an approval request by ID
+   */
+  getApproval(sessionId: string, approvalId: string): ApprovalRequest | undefined {
+    return this.sessionPolicies.get(sessionId)?.pendingApprovals.find(a => a.id === approvalId);
+  }
+
   /**
    * Get pending approvals for a session
    */
@@ -500,28 +877,50 @@ export class ToolFirewall {
 
 interface SessionPolicy {
   sessionId: string;
-  source: 'gmail' | 'direct' | 'api' | 'hook';
+  source: 'gmail' | 'rfc822' | 'direct' | 'api' | 'hook';
   riskScore: number;
   isGmailOrigin: boolean;
   isAllowlistedSender: boolean;
+  /** Tier table for this session, highest threshold first */
+  riskTiers: RiskTier[];
   createdAt: Date;
   deniedTools: Set<string>;
   approvalRequiredActions: Set<string>;
   pendingApprovals: ApprovalRequest[];
   toolCallHistory: ToolCallRecord[];
+  /** Email context attached to approval requests */
+  emailContext: ApprovalRequest['riskContext'];
+  taintIndex?: TaintIndex;
 }
 
+export type ApprovalTokenIssue =
+  | { status: 'issued'; token: string; expiresAt: Date; resolvedBy?: string }
+  | { status: 'pending' | 'unavailable'; reason: string };
+
 interface ToolCallRecord {
   tool: string;
   timestamp: Date;
   decision: 'allowed' | 'denied' | 'pending_approval';
   reason: string;
+  riskTier?: string;
 }
 
 // ============================================================================
 // Helper Functions
 // ============================================================================
 
+/**
+ * Pick the tier with the highest threshold the session's risk score reaches
+ */
+function resolveRiskTier(policy: SessionPolicy): RiskTier {
+  const tier = policy.riskTiers.find(t => policy.riskScore >= t.minRiskScore)
+    ?? policy.riskTiers[policy.riskTiers.length - 1];
+  if (!tier) {
+    throw new Error('Session policy has no risk tiers');
+  }
+  return tier;
+}
+
 function normalizeToolName(tool: string): string {
   return tool.toLowerCase().replace(/[^a-z0-9_]/g, '_');
 }
@@ -530,6 +929,26 @@ function generateId(): string {
   return randomUUID();
 }
 
+/**
+ * Hash tool parameters independently of key order
+ */
+export function hashParameters(parameters: Record<string, unknown>): string {
+  return createHash('sha256').update(canonicalJson(parameters)).digest('hex');
+}
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, child]) => child !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, child]) => `${JSON.stringify(key)}:${canonicalJson(child)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
 /**
  * Suggest safe alternatives for denied tools
  */
@@ -567,6 +986,14 @@ export const policyCheckTool = {
         type: 'object',
         description: 'Parameters for the action',
       },
+      approvalId: {
+        type: 'string',
+        description: 'ID of an approval request; returns an approval token once it is approved',
+      },
+      approvalToken: {
+        type: 'string',
+        description: 'Approval token for this exact action and parameters; consumed on use',
+      },
     },
     required: ['action'],
   },
@@ -0,0 +1,323 @@
+/**
+ * Attachment Policy Module
+ * Flags dangerous file types, deceptive filenames, content that does not
+ * match its declared type, and encrypted archives
+ */
+
+import type {
+  GmailMessagePart,
+  GmailMessagePayload,
+  MailGuardConfig,
+  RiskScore,
+  RiskSignal,
+  RiskSignalType,
+} from '../types.js';
+import { AttachmentPolicyConfigSchema } from '../types.js';
+import { collectAttachmentParts } from '../sanitize/html_to_text.js';
+import { addRiskSignals } from './heuristics.js';
+import type { RiskContribution } from './scoring.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const SIGNAL_WEIGHTS: Partial<Record<RiskSignalType, number>> = {
+  dangerous_attachment: 50,
+  deceptive_filename: 50,
+  attachment_type_mismatch: 30,
+  encrypted_archive: 30,
+};
+
+/** Direction overrides and isolates that can reverse how a filename reads */
+const BIDI_CONTROLS = /[\u202A-\u202E\u2066-\u2069\u200E\u200F\u061C]/;
+
+/** Extensions a disguised file commonly pretends to be */
+const DECOY_EXTENSIONS = new Set([
+  'pdf', 'doc', 'docx', 'xls', 'xlsx', 'ppt', 'pptx', 'odt', 'rtf', 'txt', 'csv',
+  'jpg', 'jpeg', 'png', 'gif', 'bmp', 'mp3', 'mp4', 'mov', 'wav', 'zip', 'htm', 'html',
+]);
+
+/** Runs of spaces or underscores used to push the real extension out of view */
+const EXTENSION_PADDING = /[\s_]{5,}\.[a-z0-9]+$/i;
+
+type FileFamily =
+  | 'executable'
+  | 'pdf'
+  | 'zip'
+  | 'ole'
+  | 'png'
+  | 'jpeg'
+  | 'gif'
+  | 'gzip'
+  | '7z'
+  | 'rar'
+  | 'iso';
+
+interface MagicSignature {
+  family: FileFamily;
+  offset: number;
+  bytes: number[];
+}
+
+const MAGIC_SIGNATURES: MagicSignature[] = [
+  { family: 'executable', offset: 0, bytes: [0x4d, 0x5a] }, // MZ
+  { family: 'executable', offset: 0, bytes: [0x7f, 0x45, 0x4c, 0x46] }, // ELF
+  { family: 'executable', offset: 0, bytes: [0xcf, 0xfa, 0xed, 0xfe] }, // Mach-O
+  { family: 'pdf', offset: 0, bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] }, // %PDF-
+  { family: 'zip', offset: 0, bytes: [0x50, 0x4b, 0x03, 0x04] },
+  { family: 'zip', offset: 0, bytes: [0x50, 0x4b, 0x05, 0x06] }, // empty archive
+  { family: 'ole', offset: 0, bytes: [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1] },
+  { family: 'png', offset: 0, bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { family: 'jpeg', offset: 0, bytes: [0xff, 0xd8, 0xff] },
+  { family: 'gif', offset: 0, bytes: [0x47, 0x49, 0x46, 0x38] },
+  { family: 'gzip', offset: 0, bytes: [0x1f, 0x8b] },
+  { family: '7z', offset: 0, bytes: [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c] },
+  { family: 'rar', offset: 0, bytes: [0x52, 0x61, 0x72, 0x21, 0x1a, 0x07] },
+  { family: 'iso', offset: 0x8001, bytes: [0x43, 0x44, 0x30, 0x30, 0x31] }, // CD001
+];
+
+const ZIP_LOCAL_HEADER = Buffer.from([0x50, 0x4b, 0x03, 0x04]);
+
+/** Method ID of the 7z AES-256 + SHA-256 coder */
+const SEVEN_ZIP_AES = Buffer.from([0x06, 0xf1, 0x07, 0x01]);
+
+/** Families each declared MIME type may legitimately contain; text types contain none */
+const MIME_FAMILIES: Record<string, FileFamily[]> = {
+  'application/pdf': ['pdf'],
+  'application/zip': ['zip'],
+  'application/x-zip-compressed': ['zip'],
+  'application/java-archive': ['zip'],
+  'application/epub+zip': ['zip'],
+  'application/msword': ['ole'],
+  'application/vnd.ms-excel': ['ole'],
+  'application/vnd.ms-powerpoint': ['ole'],
+  'application/vnd.ms-outlook': ['ole'],
+  'application/x-msi': ['ole'],
+  'application/gzip': ['gzip'],
+  'application/x-gzip': ['gzip'],
+  'application/x-7z-compressed': ['7z'],
+  'application/vnd.rar': ['rar'],
+  'application/x-rar-compressed': ['rar'],
+  'application/x-iso9660-image': ['iso'],
+  'application/x-msdownload': ['executable'],
+  'application/x-dosexec': ['executable'],
+  'application/vnd.microsoft.portable-executable': ['executable'],
+  'image/png': ['png'],
+  'image/jpeg': ['jpeg'],
+  'image/gif': ['gif'],
+};
+
+/** Prefixes for document formats that are ZIP containers */
+const ZIP_MIME_PREFIXES = [
+  'application/vnd.openxmlformats-officedocument.',
+  'application/vnd.ms-word.',
+  'application/vnd.ms-excel.',
+  'application/vnd.ms-powerpoint.',
+  'application/vnd.oasis.opendocument.',
+];
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface AttachmentPolicyResult {
+  signals: RiskSignal[];
+  /** What the signals add to the message score, each with its own weight */
+  contributions: RiskContribution[];
+  /** A signal listed in `quarantineOn` was raised */
+  forceQuarantine: boolean;
+}
+
+// ============================================================================
+// Policy Assessment
+// ============================================================================
+
+/**
+ * Check every attachment's filename and, when its content is in the payload,
+ * its leading bytes. Attachments fetched separately are judged by name only.
+ */
+export function assessAttachmentPolicy(
+  payload: GmailMessagePayload,
+  config: MailGuardConfig
+): AttachmentPolicyResult {
+  const policy = config.attachmentPolicy ?? AttachmentPolicyConfigSchema.parse({});
+  const result: AttachmentPolicyResult = { signals: [], contributions: [], forceQuarantine: false };
+  if (!policy.enabled) {
+    return result;
+  }
+
+  const blocked = new Set(policy.blockedExtensions.map(e => e.toLowerCase().replace(/^\./, '')));
+
+  for (const part of collectAttachmentParts(payload)) {
+    for (const signal of checkAttachment(part, blocked)) {
+      result.signals.push({ ...signal, description: `${signal.description} (attachment ${printableName(part.filename)})` });
+      result.contributions.push({ type: signal.type, severity: signal.severity, weight: SIGNAL_WEIGHTS[signal.type] ?? 0 });
+      if ((policy.quarantineOn as RiskSignalType[]).includes(signal.type)) {
+        result.forceQuarantine = true;
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Add attachment policy signals to a message score. A forced quarantine
+ * raises the recommendation even when the combined score stays low.
+ */
+export function applyAttachmentPolicy(
+  riskScore: RiskScore,
+  result: AttachmentPolicyResult,
+  config: MailGuardConfig
+): RiskScore {
+  const updated = addRiskSignals(riskScore, result.signals, result.contributions, config);
+  if (result.forceQuarantine && (updated.recommendation === 'allow' || updated.recommendation === 'review')) {
+    return { ...updated, recommendation: 'quarantine' };
+  }
+  return updated;
+}
+
+function checkAttachment(part: GmailMessagePart, blocked: Set<string>): RiskSignal[] {
+  const signals: RiskSignal[] = [];
+  const filename = part.filename;
+
+  // The extension Windows acts on ignores trailing dots and spaces
+  const visibleName = filename.replace(new RegExp(BIDI_CONTROLS.source, 'g'), '').replace(/[\s.]+$/, '');
+  const segments = visibleName.toLowerCase().split('.');
+  const extension = segments.length > 1 ? segments[segments.length - 1]! : '';
+  const innerExtension = segments.length > 2 ? segments[segments.length - 2]!.trim() : '';
+
+  if (extension && blocked.has(extension)) {
+    signals.push({
+      type: 'dangerous_attachment',
+      severity: 'critical',
+      description: `Blocked attachment type .${extension}`,
+      evidence: printableName(filename),
+    });
+  }
+
+  if (BIDI_CONTROLS.test(filename)) {
+    signals.push({
+      type: 'deceptive_filename',
+      severity: 'critical',
+      description: 'Attachment name contains direction override characters',
+      evidence: printableName(filename),
+    });
+  } else if (blocked.has(extension) && DECOY_EXTENSIONS.has(innerExtension)) {
+    signals.push({
+      type: 'deceptive_filename',
+      severity: 'critical',
+      description: `Attachment disguised as .${innerExtension}`,
+      evidence: printableName(filename),
+    });
+  } else if (EXTENSION_PADDING.test(visibleName)) {
+    signals.push({
+      type: 'deceptive_filename',
+      severity: 'high',
+      description: 'Attachment extension hidden behind padding',
+      evidence: printableName(filename),
+    });
+  }
+
+  if (!part.body.data) {
+    return signals;
+  }
+
+  const content = Buffer.from(part.body.data, 'base64');
+  const family = detectFamily(content);
+  const expected = expectedFamilies(part.mimeType);
+
+  if (family && expected && !expected.includes(family)) {
+    signals.push({
+      type: 'attachment_type_mismatch',
+      severity: family === 'executable' ? 'critical' : 'high',
+      description: `Attachment declared as ${part.mimeType} contains ${family} data`,
+      evidence: printableName(filename),
+    });
+  }
+
+  if ((family === 'zip' && isEncryptedZip(content)) || (family === '7z' && isEncrypted7z(content))) {
+    signals.push({
+      type: 'encrypted_archive',
+      severity: 'high',
+      description: 'Attachment is an encrypted archive that cannot be inspected',
+      evidence: printableName(filename),
+    });
+  }
+
+  return signals;
+}
+
+// ============================================================================
+// Content Inspection
+// ============================================================================
+
+function detectFamily(content: Buffer): FileFamily | undefined {
+  return MAGIC_SIGNATURES.find(sig =>
+    content.length >= sig.offset + sig.bytes.length &&
+    sig.bytes.every((byte, i) => content[sig.offset + i] === byte)
+  )?.family;
+}
+
+/**
+ * Families a declared MIME type may contain, or undefined when the type says
+ * nothing checkable (e.g. application/octet-stream)
+ */
+function expectedFamilies(mimeType: string): FileFamily[] | undefined {
+  const type = mimeType.toLowerCase().split(';')[0]!.trim();
+  if (MIME_FAMILIES[type]) return MIME_FAMILIES[type];
+  if (ZIP_MIME_PREFIXES.some(prefix => type.startsWith(prefix))) return ['zip'];
+  if (type.startsWith('text/')) return [];
+  return undefined;
+}
+
+/**
+ * Any local file header with general-purpose flag bit 0 set holds an
+ * encrypted entry (traditional PKWARE or AES)
+ */
+function isEncryptedZip(content: Buffer): boolean {
+  let offset = content.indexOf(ZIP_LOCAL_HEADER);
+  while (offset !== -1 && offset + 8 <= content.length) {
+    if ((content.readUInt16LE(offset + 6) & 0x0001) !== 0) {
+      return true;
+    }
+    offset = content.indexOf(ZIP_LOCAL_HEADER, offset + 4);
+  }
+  return false;
+}
+
+/**
+ * A 7z archive is encrypted when its header, located by the start header,
+ * names the AES coder. Encrypted headers are themselves wrapped in an AES
+ * coder, so one check covers both modes.
+ */
+function isEncrypted7z(content: Buffer): boolean {
+  if (content.length < 32) return false;
+  const headerOffset = 32 + Number(content.readBigUInt64LE(12));
+  const headerSize = Number(content.readBigUInt64LE(20));
+  if (headerOffset >= content.length) return false;
+
+  return content.subarray(headerOffset, headerOffset + headerSize).includes(SEVEN_ZIP_AES);
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/** Show invisible and direction characters in filenames as code points */
+function printableName(filename: string): string {
+  return Array.from(filename, ch => {
+    const code = ch.codePointAt(0)!;
+    return isInvisible(code) ? `<U+${code.toString(16).toUpperCase().padStart(4, '0')}>` : ch;
+  }).join('');
+}
+
+/** Controls, zero-width characters and direction marks, overrides and isolates */
+function isInvisible(code: number): boolean {
+  return code < 0x20
+    || code === 0x7F
+    || code === 0x061C
+    || (code >= 0x200B && code <= 0x200F)
+    || (code >= 0x202A && code <= 0x202E)
+    || (code >= 0x2066 && code <= 0x2069);
+}
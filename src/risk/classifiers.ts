@@ -0,0 +1,380 @@
+/**
+ * Risk Classifier Module
+ * Classifiers score message text alongside the heuristics. The HTTP
+ * classifier posts to a remote service or a local sidecar; the local one runs
+ * a linear model over word tokens and character trigrams loaded from a JSON
+ * weights file, with no network access.
+ */
+
+import { lookup } from 'dns/promises';
+import { readFileSync } from 'fs';
+import { BlockList, isIP } from 'net';
+import { z } from 'zod';
+import type {
+  HttpClassifierConfig,
+  LocalClassifierConfig,
+  Logger,
+  MailGuardConfig,
+} from '../types.js';
+import { HttpClassifierConfigSchema } from '../types.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface MLClassifierResult {
+  score: number;
+  confidence: number;
+  labels: string[];
+}
+
+export interface RiskClassifier {
+  readonly name: string;
+  /** Share of the combined score this classifier decides, 0-1 */
+  readonly weight: number;
+  /** Resolves to null when the text could not be classified */
+  classify(text: string): Promise<MLClassifierResult | null>;
+}
+
+export type ClassifierModelFailureReason =
+  | 'unreadable'
+  | 'invalid_syntax'
+  | 'invalid_model';
+
+export class ClassifierModelError extends Error {
+  constructor(
+    message: string,
+    readonly reason: ClassifierModelFailureReason,
+    readonly path?: string
+  ) {
+    super(message);
+    this.name = 'ClassifierModelError';
+  }
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Classifiers see at most this much of the body
+const MAX_CLASSIFIED_LENGTH = 10000;
+
+// Weight the legacy mlClassifierEndpoint setting has always had
+const LEGACY_ML_WEIGHT = 0.3;
+
+const MLClassifierResultSchema = z.object({
+  score: z.number().min(0).max(100),
+  confidence: z.number().min(0).max(1),
+  labels: z.array(z.string()),
+});
+
+const FeatureWeightsSchema = z.record(z.string(), z.number().finite());
+
+/** Always refused: link-local, including cloud metadata services */
+const LINK_LOCAL_ADDRESSES = createBlockList([
+  ['169.254.0.0', 16, 'ipv4'],
+  ['fe80::', 10, 'ipv6'],
+]);
+
+/** Refused unless `allowLocal` is set: unspecified, loopback and private ranges */
+const LOCAL_ADDRESSES = createBlockList([
+  ['0.0.0.0', 8, 'ipv4'],
+  ['127.0.0.0', 8, 'ipv4'],
+  ['10.0.0.0', 8, 'ipv4'],
+  ['172.16.0.0', 12, 'ipv4'],
+  ['192.168.0.0', 16, 'ipv4'],
+  ['::', 128, 'ipv6'],
+  ['::1', 128, 'ipv6'],
+  ['fc00::', 7, 'ipv6'],
+]);
+
+const LOCAL_HOST_NAME = /(?:^|\.)(?:localhost|local|internal)$/;
+
+const ClassifierModelSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('logistic_regression'),
+    bias: z.number().finite().default(0),
+    /** By feature: "w:<word>" or "c:<trigram>" */
+    weights: FeatureWeightsSchema,
+  }),
+  z.object({
+    type: z.literal('naive_bayes'),
+    priors: z.object({
+      malicious: z.number().gt(0).lt(1),
+      benign: z.number().gt(0).lt(1),
+    }),
+    /** Log-probability of each feature under each class */
+    logLikelihoods: z.record(z.string(), z.object({
+      malicious: z.number().finite(),
+      benign: z.number().finite(),
+    })),
+  }),
+]);
+
+// ============================================================================
+// HTTP Classifier
+// ============================================================================
+
+/**
+ * Posts `{ text }` to an endpoint and expects `{ score, confidence, labels }`.
+ * The host is resolved before each request and refused if any of its
+ * addresses, IPv4-mapped IPv6 forms included, is private, loopback or
+ * unique-local (fc00::/7), or its name is localhost, .local or .internal,
+ * unless `allowLocal` is set for a sidecar; link-local addresses (cloud
+ * metadata) are always refused. The request resolves the name again, so a DNS
+ * answer that changes in between is not caught.
+ */
+export class HttpRiskClassifier implements RiskClassifier {
+  readonly name: string;
+  readonly weight: number;
+
+  constructor(
+    private config: HttpClassifierConfig,
+    private logger?: Logger
+  ) {
+    this.name = config.name;
+    this.weight = config.weight;
+  }
+
+  async classify(text: string): Promise<MLClassifierResult | null> {
+    let url: URL;
+    try {
+      url = new URL(this.config.endpoint);
+    } catch {
+      return null;
+    }
+    if (await isBlockedHost(url.hostname, this.config.allowLocal)) {
+      this.logger?.warn('MailGuard classifier endpoint refused', { classifier: this.name, host: url.hostname });
+      return null;
+    }
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.config.authHeader) {
+      headers[this.config.authHeaderName] = this.config.authHeader;
+    }
+    const body = JSON.stringify({ text: text.substring(0, MAX_CLASSIFIED_LENGTH) });
+
+    for (let attempt = 0; attempt <= this.config.retries; attempt++) {
+      if (attempt > 0) {
+        await new Promise(resolve => setTimeout(resolve, this.config.retryDelayMs));
+      }
+
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method: 'POST',
+          headers,
+          body,
+          redirect: 'error',
+          signal: AbortSignal.timeout(this.config.timeoutMs),
+        });
+      } catch (error) {
+        this.logger?.debug('MailGuard classifier request failed', {
+          classifier: this.name,
+          attempt,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        continue;
+      }
+
+      if (response.status >= 500 || response.status === 429) {
+        this.logger?.debug('MailGuard classifier unavailable', { classifier: this.name, attempt, status: response.status });
+        continue;
+      }
+      if (!response.ok) {
+        this.logger?.warn('MailGuard classifier rejected the request', { classifier: this.name, status: response.status });
+        return null;
+      }
+
+      try {
+        const parsed = MLClassifierResultSchema.safeParse(await response.json());
+        return parsed.success ? parsed.data : null;
+      } catch {
+        return null;
+      }
+    }
+
+    return null;
+  }
+}
+
+async function isBlockedHost(hostname: string, allowLocal: boolean): Promise<boolean> {
+  // URL keeps IPv6 literals in brackets and already writes integer, octal
+  // and hex IPv4 forms as dotted decimal
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, '').replace(/\.$/, '');
+  if (isIP(host)) {
+    return isBlockedAddress(host, allowLocal);
+  }
+  if (!allowLocal && LOCAL_HOST_NAME.test(host)) {
+    return true;
+  }
+
+  let addresses: Array<{ address: string }>;
+  try {
+    addresses = await lookup(host, { all: true, verbatim: true });
+  } catch {
+    // Unresolvable hosts fail at the request, which reports them
+    return false;
+  }
+  return addresses.some(({ address }) => isBlockedAddress(address, allowLocal));
+}
+
+function isBlockedAddress(address: string, allowLocal: boolean): boolean {
+  const type = isIP(address) === 6 ? 'ipv6' : 'ipv4';
+  if (LINK_LOCAL_ADDRESSES.check(address, type)) return true;
+  return !allowLocal && LOCAL_ADDRESSES.check(address, type);
+}
+
+function createBlockList(subnets: Array<[string, number, 'ipv4' | 'ipv6']>): BlockList {
+  const blockList = new BlockList();
+  for (const [network, prefix, type] of subnets) {
+    blockList.addSubnet(network, prefix, type);
+  }
+  return blockList;
+}
+
+// ============================================================================
+// Local Classifier
+// ============================================================================
+
+export interface LinearModel {
+  bias: number;
+  weights: Map<string, number>;
+}
+
+/**
+ * Scores text with a linear model over the words and character trigrams it
+ * contains. Naive-Bayes models are reduced to the same log-odds form when
+ * loaded.
+ */
+export class LocalRiskClassifier implements RiskClassifier {
+  readonly name: string;
+  readonly weight: number;
+
+  constructor(
+    config: Pick<LocalClassifierConfig, 'name' | 'weight'>,
+    private model: LinearModel
+  ) {
+    this.name = config.name;
+    this.weight = config.weight;
+  }
+
+  classify(text: string): Promise<MLClassifierResult | null> {
+    let logOdds = this.model.bias;
+    for (const feature of extractFeatures(text)) {
+      logOdds += this.model.weights.get(feature) ?? 0;
+    }
+
+    const probability = 1 / (1 + Math.exp(-logOdds));
+    return Promise.resolve({
+      score: Math.round(probability * 100),
+      confidence: Math.round(Math.abs(probability - 0.5) * 2 * 100) / 100,
+      labels: [probability >= 0.5 ? 'malicious' : 'benign'],
+    });
+  }
+}
+
+/**
+ * Features present in the text: "w:<word>" for each word and "c:<trigram>"
+ * for each character trigram, lowercased with whitespace collapsed
+ */
+export function extractFeatures(text: string): Set<string> {
+  const normalized = text
+    .substring(0, MAX_CLASSIFIED_LENGTH)
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  const features = new Set<string>();
+  for (const word of normalized.match(/[\p{L}\p{N}]+/gu) ?? []) {
+    features.add(`w:${word}`);
+  }
+  const chars = [...normalized];
+  for (let i = 0; i + 3 <= chars.length; i++) {
+    features.add(`c:${chars.slice(i, i + 3).join('')}`);
+  }
+  return features;
+}
+
+export function parseClassifierModel(content: string, path?: string): LinearModel {
+  const where = path ? ` ${path}` : '';
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch (error) {
+    throw new ClassifierModelError(
+      `Classifier model${where} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+      'invalid_syntax',
+      path
+    );
+  }
+
+  const result = ClassifierModelSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    throw new ClassifierModelError(
+      `Classifier model${where} is invalid: ${issues.join('; ')}`,
+      'invalid_model',
+      path
+    );
+  }
+
+  const model = result.data;
+  if (model.type === 'logistic_regression') {
+    return { bias: model.bias, weights: new Map(Object.entries(model.weights)) };
+  }
+
+  return {
+    bias: Math.log(model.priors.malicious / model.priors.benign),
+    weights: new Map(
+      Object.entries(model.logLikelihoods).map(([feature, logs]) => [feature, logs.malicious - logs.benign])
+    ),
+  };
+}
+
+export function loadClassifierModel(path: string): LinearModel {
+  let content: string;
+  try {
+    content = readFileSync(path, 'utf-8');
+  } catch (error) {
+    throw new ClassifierModelError(
+      `Classifier model ${path} could not be read: ${error instanceof Error ? error.message : String(error)}`,
+      'unreadable',
+      path
+    );
+  }
+
+  return parseClassifierModel(content, path);
+}
+
+// ============================================================================
+// Factory
+// ============================================================================
+
+/**
+ * Classifiers to run for each message: none unless enableMLClassifier is
+ * set, then `mlClassifierEndpoint` followed by `classifiers`. Throws
+ * ClassifierModelError when a local model cannot be loaded.
+ */
+export function createRiskClassifiers(config: MailGuardConfig, logger?: Logger): RiskClassifier[] {
+  if (!config.enableMLClassifier) {
+    return [];
+  }
+
+  const classifiers: RiskClassifier[] = [];
+  if (config.mlClassifierEndpoint) {
+    classifiers.push(new HttpRiskClassifier(
+      HttpClassifierConfigSchema.parse({ type: 'http', endpoint: config.mlClassifierEndpoint, weight: LEGACY_ML_WEIGHT }),
+      logger
+    ));
+  }
+
+  for (const entry of config.classifiers ?? []) {
+    classifiers.push(entry.type === 'http'
+      ? new HttpRiskClassifier(entry, logger)
+      : new LocalRiskClassifier(entry, loadClassifierModel(entry.modelPath)));
+  }
+
+  return classifiers;
+}
@@ -0,0 +1,409 @@
+/**
+ * Pattern Evaluation Module
+ * Runs sanitization and risk scoring over a labeled corpus of emails and
+ * reports precision, recall and per-pattern hits, so pattern packs and
+ * thresholds can be tuned and compared
+ */
+
+import { readFileSync } from 'fs';
+import { extname } from 'path';
+import { load as parseYaml, CORE_SCHEMA } from 'js-yaml';
+import { z } from 'zod';
+import type { EmailHeaders, MailGuardConfig, RiskSignalType } from '../types.js';
+import { RiskSignalTypeSchema } from '../types.js';
+import { sanitizeEmailContent } from '../sanitize/html_to_text.js';
+import { detectLanguage, isLikelyNonEnglish } from '../sanitize/language_detector.js';
+import { assessRisk, getActivePatterns, type CompiledPattern } from './heuristics.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Width of a score histogram bucket; the last bucket includes 100 */
+const HISTOGRAM_BUCKET = 10;
+
+/** Metrics are rounded so reports diff cleanly */
+const METRIC_DECIMALS = 4;
+
+// ============================================================================
+// Corpus Schema
+// ============================================================================
+
+export const EvaluationVerdictSchema = z.enum(['malicious', 'benign']);
+
+export const CorpusEmailSchema = z.object({
+  id: z.string().min(1),
+  from: z.string().default('sender@example.com'),
+  subject: z.string().default(''),
+  text: z.string().optional(),
+  html: z.string().optional(),
+  /** Detected from the body when omitted */
+  language: z.string().optional(),
+  expected: z.object({
+    verdict: EvaluationVerdictSchema,
+    /** Signal types the email should raise */
+    signalTypes: z.array(RiskSignalTypeSchema).default([]),
+  }),
+}).refine(email => email.text !== undefined || email.html !== undefined, {
+  message: 'An email needs text or html',
+  path: ['text'],
+});
+
+export const EvaluationCorpusSchema = z.object({
+  name: z.string().min(1),
+  version: z.string().optional(),
+  emails: z.array(CorpusEmailSchema).min(1),
+}).superRefine((corpus, ctx) => {
+  const seen = new Set<string>();
+  corpus.emails.forEach((email, index) => {
+    if (seen.has(email.id)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['emails', index, 'id'],
+        message: `Duplicate email ID "${email.id}"`,
+      });
+    }
+    seen.add(email.id);
+  });
+});
+
+export type EvaluationVerdict = z.infer<typeof EvaluationVerdictSchema>;
+export type CorpusEmail = z.infer<typeof CorpusEmailSchema>;
+export type EvaluationCorpus = z.infer<typeof EvaluationCorpusSchema>;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export class EvaluationCorpusError extends Error {
+  constructor(
+    message: string,
+    readonly path: string
+  ) {
+    super(message);
+    this.name = 'EvaluationCorpusError';
+  }
+}
+
+export interface ClassificationMetrics {
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  trueNegatives: number;
+  precision: number;
+  recall: number;
+  f1: number;
+}
+
+export interface PatternHits {
+  description: string;
+  /** Malicious emails the pattern fired on */
+  truePositives: number;
+  /** Benign emails the pattern fired on */
+  falsePositives: number;
+}
+
+export interface SignalTypeHits {
+  /** Emails expected to raise the type */
+  expected: number;
+  /** Of those, emails that raised it */
+  detected: number;
+  /** Benign emails that raised it */
+  onBenign: number;
+}
+
+export interface HistogramBucket {
+  from: number;
+  to: number;
+  malicious: number;
+  benign: number;
+}
+
+export interface EmailEvaluation {
+  id: string;
+  language: string;
+  expected: EvaluationVerdict;
+  predicted: EvaluationVerdict;
+  score: number;
+  /** Expected signal types the email did not raise */
+  missingSignalTypes: RiskSignalType[];
+  patternIds: string[];
+}
+
+export interface EvaluationReport {
+  corpus: { name: string; version?: string; emails: number };
+  /** What was evaluated, e.g. the pack or config version */
+  label?: string;
+  threshold: number;
+  overall: ClassificationMetrics;
+  languages: Record<string, ClassificationMetrics>;
+  patterns: Record<string, PatternHits>;
+  signalTypes: Record<string, SignalTypeHits>;
+  histogram: HistogramBucket[];
+  /** Lowest threshold with the highest F1 */
+  bestThreshold: { threshold: number; precision: number; recall: number; f1: number };
+  emails: EmailEvaluation[];
+}
+
+export interface MetricChange {
+  before: number;
+  after: number;
+}
+
+export interface EvaluationComparison {
+  overall: Record<'precision' | 'recall' | 'f1', MetricChange>;
+  languages: Record<string, Record<'precision' | 'recall' | 'f1', MetricChange>>;
+  bestThreshold: MetricChange;
+  /** Patterns whose hits changed */
+  patterns: Array<{ id: string; truePositives: MetricChange; falsePositives: MetricChange }>;
+  /** Emails whose predicted verdict changed */
+  flipped: Array<{ id: string; expected: EvaluationVerdict; before: EvaluationVerdict; after: EvaluationVerdict }>;
+}
+
+export interface EvaluationOptions {
+  /** Patterns to run instead of the active ones */
+  patterns?: readonly CompiledPattern[];
+  label?: string;
+}
+
+// ============================================================================
+// Corpus Loading
+// ============================================================================
+
+export function loadEvaluationCorpus(path: string): EvaluationCorpus {
+  let data: unknown;
+  try {
+    const content = readFileSync(path, 'utf-8');
+    data = extname(path).toLowerCase() === '.json'
+      ? JSON.parse(content)
+      : parseYaml(content, { schema: CORE_SCHEMA });
+  } catch (error) {
+    throw new EvaluationCorpusError(
+      `Corpus ${path} could not be read: ${error instanceof Error ? error.message : String(error)}`,
+      path
+    );
+  }
+
+  const result = EvaluationCorpusSchema.safeParse(data);
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    throw new EvaluationCorpusError(`Corpus ${path} is invalid: ${issues.join('; ')}`, path);
+  }
+  return result.data;
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+/**
+ * Score every email the way ingress does (sanitizeEmailContent, then
+ * assessRisk over the body, hidden content and encoded text) and measure
+ * the verdicts against the labels. An email is predicted malicious when its
+ * score reaches `config.riskThreshold`.
+ */
+export function evaluateCorpus(
+  corpus: EvaluationCorpus,
+  config: MailGuardConfig,
+  options: EvaluationOptions = {}
+): EvaluationReport {
+  const emails: EmailEvaluation[] = [];
+  const patterns: Record<string, PatternHits> = {};
+  const signalTypes: Record<string, SignalTypeHits> = {};
+  const descriptions = new Map((options.patterns ?? getActivePatterns()).map(p => [p.id, p.description]));
+
+  for (const email of corpus.emails) {
+    const sanitized = sanitizeEmailContent(email.html, email.text, config.maxBodyLength);
+    const headers: EmailHeaders = {
+      messageId: email.id,
+      from: email.from,
+      to: [],
+      subject: email.subject,
+      date: new Date(0),
+    };
+    const riskScore = assessRisk(sanitized.bodyText, sanitized.links, headers, config, {
+      hiddenContent: sanitized.hiddenContent,
+      encodedText: sanitized.encodedText,
+      contentOnly: true,
+      patterns: options.patterns,
+    });
+
+    const expected = email.expected.verdict;
+    const raised = new Set(riskScore.signals.map(signal => signal.type));
+    const patternIds = [...new Set(riskScore.signals.flatMap(signal => signal.patternId ? [signal.patternId] : []))].sort();
+
+    for (const id of patternIds) {
+      const hits = patterns[id] ?? { description: descriptions.get(id) ?? id, truePositives: 0, falsePositives: 0 };
+      if (expected === 'malicious') hits.truePositives++;
+      else hits.falsePositives++;
+      patterns[id] = hits;
+    }
+
+    for (const type of email.expected.signalTypes) {
+      const hits = signalTypes[type] ?? { expected: 0, detected: 0, onBenign: 0 };
+      hits.expected++;
+      if (raised.has(type)) hits.detected++;
+      signalTypes[type] = hits;
+    }
+    if (expected === 'benign') {
+      for (const type of raised) {
+        const hits = signalTypes[type] ?? { expected: 0, detected: 0, onBenign: 0 };
+        hits.onBenign++;
+        signalTypes[type] = hits;
+      }
+    }
+
+    emails.push({
+      id: email.id,
+      language: email.language ?? languageOf(sanitized.bodyText),
+      expected,
+      predicted: riskScore.score >= config.riskThreshold ? 'malicious' : 'benign',
+      score: riskScore.score,
+      missingSignalTypes: email.expected.signalTypes.filter(type => !raised.has(type)),
+      patternIds,
+    });
+  }
+
+  const languages: Record<string, ClassificationMetrics> = {};
+  for (const language of [...new Set(emails.map(email => email.language))].sort()) {
+    languages[language] = measure(emails.filter(email => email.language === language), config.riskThreshold);
+  }
+
+  return {
+    corpus: { name: corpus.name, version: corpus.version, emails: emails.length },
+    label: options.label,
+    threshold: config.riskThreshold,
+    overall: measure(emails, config.riskThreshold),
+    languages,
+    patterns: sortKeys(patterns),
+    signalTypes: sortKeys(signalTypes),
+    histogram: histogram(emails),
+    bestThreshold: bestThreshold(emails),
+    emails,
+  };
+}
+
+/**
+ * What changed between two reports of the same corpus
+ */
+export function compareEvaluations(before: EvaluationReport, after: EvaluationReport): EvaluationComparison {
+  const headline = (a: ClassificationMetrics | undefined, b: ClassificationMetrics | undefined): Record<'precision' | 'recall' | 'f1', MetricChange> => ({
+    precision: { before: a?.precision ?? 0, after: b?.precision ?? 0 },
+    recall: { before: a?.recall ?? 0, after: b?.recall ?? 0 },
+    f1: { before: a?.f1 ?? 0, after: b?.f1 ?? 0 },
+  });
+
+  const languages: EvaluationComparison['languages'] = {};
+  for (const language of [...new Set([...Object.keys(before.languages), ...Object.keys(after.languages)])].sort()) {
+    languages[language] = headline(before.languages[language], after.languages[language]);
+  }
+
+  const patterns: EvaluationComparison['patterns'] = [];
+  for (const id of [...new Set([...Object.keys(before.patterns), ...Object.keys(after.patterns)])].sort()) {
+    const a = before.patterns[id];
+    const b = after.patterns[id];
+    if (a?.truePositives === b?.truePositives && a?.falsePositives === b?.falsePositives) continue;
+    patterns.push({
+      id,
+      truePositives: { before: a?.truePositives ?? 0, after: b?.truePositives ?? 0 },
+      falsePositives: { before: a?.falsePositives ?? 0, after: b?.falsePositives ?? 0 },
+    });
+  }
+
+  const previous = new Map(before.emails.map(email => [email.id, email]));
+  const flipped: EvaluationComparison['flipped'] = [];
+  for (const email of after.emails) {
+    const old = previous.get(email.id);
+    if (old && old.predicted !== email.predicted) {
+      flipped.push({ id: email.id, expected: email.expected, before: old.predicted, after: email.predicted });
+    }
+  }
+
+  return {
+    overall: headline(before.overall, after.overall),
+    languages,
+    bestThreshold: { before: before.bestThreshold.threshold, after: after.bestThreshold.threshold },
+    patterns,
+    flipped,
+  };
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+function languageOf(text: string): string {
+  return isLikelyNonEnglish(text) ? detectLanguage(text).primary : 'en';
+}
+
+function measure(emails: EmailEvaluation[], threshold: number): ClassificationMetrics {
+  let truePositives = 0;
+  let falsePositives = 0;
+  let falseNegatives = 0;
+  let trueNegatives = 0;
+
+  for (const email of emails) {
+    const flagged = email.score >= threshold;
+    if (email.expected === 'malicious') {
+      if (flagged) truePositives++;
+      else falseNegatives++;
+    } else if (flagged) {
+      falsePositives++;
+    } else {
+      trueNegatives++;
+    }
+  }
+
+  const precision = ratio(truePositives, truePositives + falsePositives);
+  const recall = ratio(truePositives, truePositives + falseNegatives);
+  return {
+    truePositives,
+    falsePositives,
+    falseNegatives,
+    trueNegatives,
+    precision: round(precision),
+    recall: round(recall),
+    f1: round(ratio(2 * precision * recall, precision + recall)),
+  };
+}
+
+function histogram(emails: EmailEvaluation[]): HistogramBucket[] {
+  const buckets: HistogramBucket[] = [];
+  for (let from = 0; from < 100; from += HISTOGRAM_BUCKET) {
+    buckets.push({ from, to: Math.min(from + HISTOGRAM_BUCKET - 1, 100), malicious: 0, benign: 0 });
+  }
+  const last = buckets[buckets.length - 1];
+  if (last) last.to = 100;
+
+  for (const email of emails) {
+    const bucket = buckets[Math.min(Math.floor(email.score / HISTOGRAM_BUCKET), buckets.length - 1)];
+    if (!bucket) continue;
+    if (email.expected === 'malicious') bucket.malicious++;
+    else bucket.benign++;
+  }
+  return buckets;
+}
+
+function bestThreshold(emails: EmailEvaluation[]): EvaluationReport['bestThreshold'] {
+  let best = { threshold: 0, precision: 0, recall: 0, f1: -1 };
+  for (let threshold = 0; threshold <= 100; threshold++) {
+    const metrics = measure(emails, threshold);
+    if (metrics.f1 > best.f1) {
+      best = { threshold, precision: metrics.precision, recall: metrics.recall, f1: metrics.f1 };
+    }
+  }
+  return best;
+}
+
+function ratio(numerator: number, denominator: number): number {
+  return denominator === 0 ? 0 : numerator / denominator;
+}
+
+function round(value: number): number {
+  const factor = 10 ** METRIC_DECIMALS;
+  return Math.round(value * factor) / factor;
+}
+
+function sortKeys<T>(record: Record<string, T>): Record<string, T> {
+  return Object.fromEntries(Object.entries(record).sort(([a], [b]) => a.localeCompare(b)));
+}
@@ -10,23 +10,65 @@ import type {
   ExtractedLink,
   EmailHeaders,
   MailGuardConfig,
+  HiddenContentFinding,
+  EncodedTextFinding,
+  AttachmentMetadata,
 } from '../types.js';
+import { HttpClassifierConfigSchema, RiskScoringConfigSchema } from '../types.js';
 import { ALL_MULTILINGUAL_PATTERNS } from '../data/multilingual-patterns.js';
 import { detectLanguage, isLikelyNonEnglish } from '../sanitize/language_detector.js';
-import { z } from 'zod';
+import { buildSkeleton, type Skeleton } from '../sanitize/skeleton.js';
+import { decodeEmbeddedPayloads, type DecodedPayload, type PayloadEncoding } from './payload_decoder.js';
+import { PatternExecutor, type PatternBudget, type PatternMatch } from './pattern_executor.js';
+import { breakdownContributions, scoreContributions, type RiskContribution } from './scoring.js';
+import { HttpRiskClassifier, type MLClassifierResult } from './classifiers.js';
 
 // ============================================================================
 // Constants
 // ============================================================================
 
-// Maximum input length to prevent ReDoS attacks
+// Maximum input length to limit the work any one pattern can do
 const MAX_BODY_LENGTH_FOR_PATTERNS = 100000; // 100KB
 
+// Extra weight for an injection pattern found in content hidden from the reader
+const HIDDEN_CONTENT_WEIGHT_BONUS = 15;
+
+// Extra weight for an injection pattern spelled with character references or hidden in an encoded payload
+const ENCODED_TEXT_WEIGHT_BONUS = 10;
+
+// Extra weight for an injection pattern written with look-alike characters
+const LOOKALIKE_WEIGHT_BONUS = 10;
+
+// Substituted characters listed in a look-alike signal's description
+const MAX_LISTED_SUBSTITUTIONS = 5;
+
+// Signals per pattern, to bound memory on hostile input
+const MAX_SIGNALS_PER_PATTERN = 10;
+
+// Allowlisted senders' scores are halved
+const ALLOWLISTED_TRUST_FACTOR = 0.5;
+
+// Skeleton matches that overlap a match in the original are skipped, so look further
+const MAX_SKELETON_MATCHES = 50;
+
+// Enough on its own to send a message for review
+const SCAN_INCOMPLETE_WEIGHT = 40;
+
+const PAYLOAD_ENCODING_LABELS: Record<PayloadEncoding, string> = {
+  base64: 'base64',
+  hex: 'hex',
+  percent: 'URL',
+  quoted_printable: 'quoted-printable',
+  rot13: 'ROT13',
+};
+
 // ============================================================================
 // Pattern Definitions
 // ============================================================================
 
 export interface PatternDefinition {
+  /** Stable identifier used by pattern packs to disable or reweight the pattern */
+  id: string;
   pattern: RegExp;
   type: RiskSignalType;
   severity: 'low' | 'medium' | 'high' | 'critical';
@@ -39,6 +81,7 @@ export interface PatternDefinition {
 // Instruction override patterns - attempts to override system/developer instructions
 const INSTRUCTION_OVERRIDE_PATTERNS: PatternDefinition[] = [
   {
+    id: 'en.attempt-to-ignore-previous-instructions',
     pattern: /ignore\s+(all\s+)?(previous|prior|above|earlier)\s+(instructions?|prompts?|rules?|guidelines?)/i,
     type: 'instruction_override',
     severity: 'critical',
@@ -46,6 +89,7 @@ const INSTRUCTION_OVERRIDE_PATTERNS: PatternDefinition[] = [
     weight: 30,
   },
   {
+    id: 'en.attempt-to-disregard-instructions',
     pattern: /disregard\s+(all\s+)?(your\s+)?(previous|prior|above|earlier)?\s*(instructions?|prompts?|rules?|programming)/i,
     type: 'instruction_override',
     severity: 'critical',
@@ -53,6 +97,7 @@ const INSTRUCTION_OVERRIDE_PATTERNS: PatternDefinition[] = [
     weight: 30,
   },
   {
+    id: 'en.attempt-to-reset-context',
     pattern: /forget\s+(everything|all|what)\s+(you|i)\s+(told|said|know)/i,
     type: 'instruction_override',
     severity: 'high',
@@ -60,6 +105,7 @@ const INSTRUCTION_OVERRIDE_PATTERNS: PatternDefinition[] = [
     weight: 25,
   },
   {
+    id: 'en.attempt-to-set-new-instructions',
     pattern: /new\s+(instructions?|rules?|mode|persona|role):/i,
     type: 'instruction_override',
     severity: 'high',
@@ -67,6 +113,7 @@ const INSTRUCTION_OVERRIDE_PATTERNS: PatternDefinition[] = [
     weight: 25,
   },
   {
+    id: 'en.attempt-to-change-ai-role-identity',
     pattern: /you\s+are\s+(now|actually|really)\s+(a|an|my)/i,
     type: 'role_impersonation',
     severity: 'high',
@@ -74,6 +121,7 @@ const INSTRUCTION_OVERRIDE_PATTERNS: PatternDefinition[] = [
     weight: 25,
   },
   {
+    id: 'en.role-pretend-instruction',
     pattern: /pretend\s+(you\s+are|to\s+be|that)/i,
     type: 'role_impersonation',
     severity: 'medium',
@@ -81,6 +129,7 @@ const INSTRUCTION_OVERRIDE_PATTERNS: PatternDefinition[] = [
     weight: 15,
   },
   {
+    id: 'en.act-as-instruction',
     pattern: /act\s+as\s+(if|though|a|an|my)/i,
     type: 'role_impersonation',
     severity: 'medium',
@@ -88,6 +137,7 @@ const INSTRUCTION_OVERRIDE_PATTERNS: PatternDefinition[] = [
     weight: 15,
   },
   {
+    id: 'en.fake-system-developer-message-marker',
     pattern: /system\s*:\s*|developer\s*:\s*|admin\s*:\s*/i,
     type: 'instruction_override',
     severity: 'critical',
@@ -95,6 +145,7 @@ const INSTRUCTION_OVERRIDE_PATTERNS: PatternDefinition[] = [
     weight: 35,
   },
   {
+    id: 'en.fake-bracketed-authority-marker',
     pattern: /\[SYSTEM\]|\[ADMIN\]|\[DEVELOPER\]|\[INTERNAL\]/i,
     type: 'instruction_override',
     severity: 'critical',
@@ -102,6 +153,7 @@ const INSTRUCTION_OVERRIDE_PATTERNS: PatternDefinition[] = [
     weight: 35,
   },
   {
+    id: 'en.explicit-override-attempt',
     pattern: /override\s+(safety|security|restrictions?|filters?|guardrails?)/i,
     type: 'instruction_override',
     severity: 'critical',
@@ -109,6 +161,7 @@ const INSTRUCTION_OVERRIDE_PATTERNS: PatternDefinition[] = [
     weight: 40,
   },
   {
+    id: 'en.explicit-bypass-attempt',
     pattern: /bypass\s+(safety|security|restrictions?|filters?|guardrails?|protection)/i,
     type: 'instruction_override',
     severity: 'critical',
@@ -116,6 +169,7 @@ const INSTRUCTION_OVERRIDE_PATTERNS: PatternDefinition[] = [
     weight: 40,
   },
   {
+    id: 'en.known-jailbreak-pattern',
     pattern: /jailbreak|DAN\s*mode|do\s+anything\s+now/i,
     type: 'instruction_override',
     severity: 'critical',
@@ -127,6 +181,7 @@ const INSTRUCTION_OVERRIDE_PATTERNS: PatternDefinition[] = [
 // Tool baiting patterns - attempts to get AI to use specific tools
 const TOOL_BAITING_PATTERNS: PatternDefinition[] = [
   {
+    id: 'en.command-execution-request',
     pattern: /run\s+(this|the\s+following)?\s*(command|script|code)/i,
     type: 'tool_baiting',
     severity: 'high',
@@ -134,6 +189,7 @@ const TOOL_BAITING_PATTERNS: PatternDefinition[] = [
     weight: 25,
   },
   {
+    id: 'en.execution-request',
     pattern: /execute\s+(this|the\s+following)?\s*(command|script|code|program)/i,
     type: 'tool_baiting',
     severity: 'high',
@@ -141,6 +197,7 @@ const TOOL_BAITING_PATTERNS: PatternDefinition[] = [
     weight: 25,
   },
   {
+    id: 'en.pipe-to-shell-pattern',
     pattern: /curl\s+.*\|\s*(ba)?sh/i,
     type: 'tool_baiting',
     severity: 'critical',
@@ -148,6 +205,7 @@ const TOOL_BAITING_PATTERNS: PatternDefinition[] = [
     weight: 40,
   },
   {
+    id: 'en.download-and-execute-pattern',
     pattern: /wget\s+.*&&\s*(ba)?sh/i,
     type: 'tool_baiting',
     severity: 'critical',
@@ -155,6 +213,7 @@ const TOOL_BAITING_PATTERNS: PatternDefinition[] = [
     weight: 40,
   },
   {
+    id: 'en.credential-phishing-attempt',
     pattern: /open\s+(this|the)?\s*(link|url|website)\s+(and|then)\s+(login|sign\s*in|enter)/i,
     type: 'tool_baiting',
     severity: 'high',
@@ -162,6 +221,7 @@ const TOOL_BAITING_PATTERNS: PatternDefinition[] = [
     weight: 30,
   },
   {
+    id: 'en.download-bait',
     pattern: /visit\s+(this|the)?\s*(link|url|website)\s+(and|then)\s+(download|install)/i,
     type: 'tool_baiting',
     severity: 'high',
@@ -169,6 +229,7 @@ const TOOL_BAITING_PATTERNS: PatternDefinition[] = [
     weight: 25,
   },
   {
+    id: 'en.email-sending-request',
     pattern: /send\s+(this|an?)?\s*(email|message|reply)\s+to/i,
     type: 'tool_baiting',
     severity: 'medium',
@@ -176,6 +237,7 @@ const TOOL_BAITING_PATTERNS: PatternDefinition[] = [
     weight: 15,
   },
   {
+    id: 'en.email-forwarding-request',
     pattern: /forward\s+(this|the)?\s*(email|message)\s+to/i,
     type: 'tool_baiting',
     severity: 'medium',
@@ -183,6 +245,7 @@ const TOOL_BAITING_PATTERNS: PatternDefinition[] = [
     weight: 15,
   },
   {
+    id: 'en.deletion-request',
     pattern: /delete\s+(all|this|the|my)\s*(emails?|messages?|files?)/i,
     type: 'tool_baiting',
     severity: 'high',
@@ -190,6 +253,7 @@ const TOOL_BAITING_PATTERNS: PatternDefinition[] = [
     weight: 25,
   },
   {
+    id: 'en.file-write-request',
     pattern: /write\s+(this|the\s+following)?\s*\w*\s*(to|into)\s+(a\s+)?file/i,
     type: 'tool_baiting',
     severity: 'high',
@@ -197,6 +261,7 @@ const TOOL_BAITING_PATTERNS: PatternDefinition[] = [
     weight: 20,
   },
   {
+    id: 'en.file-creation-request',
     pattern: /create\s+(a\s+)?(new\s+)?(file|script|program)\s+(called|named|at)/i,
     type: 'tool_baiting',
     severity: 'high',
@@ -204,6 +269,7 @@ const TOOL_BAITING_PATTERNS: PatternDefinition[] = [
     weight: 20,
   },
   {
+    id: 'en.download-and-execute-request',
     pattern: /download\s+(and\s+)?(run|execute|open|install)/i,
     type: 'tool_baiting',
     severity: 'critical',
@@ -211,6 +277,7 @@ const TOOL_BAITING_PATTERNS: PatternDefinition[] = [
     weight: 35,
   },
   {
+    id: 'en.installation-request',
     pattern: /install\s+(this|the)?\s*(package|module|software|program|extension)/i,
     type: 'tool_baiting',
     severity: 'high',
@@ -222,6 +289,7 @@ const TOOL_BAITING_PATTERNS: PatternDefinition[] = [
 // Data exfiltration patterns
 const DATA_EXFILTRATION_PATTERNS: PatternDefinition[] = [
   {
+    id: 'en.credential-exfiltration-attempt',
     pattern: /send\s+(me|to\s+\S+@\S+)\s+(your|the|all)?\s*(api\s*key|secret|password|credential|token)/i,
     type: 'data_exfiltration',
     severity: 'critical',
@@ -229,6 +297,7 @@ const DATA_EXFILTRATION_PATTERNS: PatternDefinition[] = [
     weight: 45,
   },
   {
+    id: 'en.credential-disclosure-request',
     pattern: /include\s+(your|the|all)?\s*(api\s*key|secret|password|credential|token)\s+in\s+(your|the)\s+(response|reply)/i,
     type: 'data_exfiltration',
     severity: 'critical',
@@ -236,6 +305,7 @@ const DATA_EXFILTRATION_PATTERNS: PatternDefinition[] = [
     weight: 45,
   },
   {
+    id: 'en.system-information-disclosure-attempt',
     pattern: /what\s+(is|are)\s+(your|the)\s*(api\s*key|secret|password|credential|token|system\s*prompt)/i,
     type: 'prompt_leak_attempt',
     severity: 'high',
@@ -243,6 +313,7 @@ const DATA_EXFILTRATION_PATTERNS: PatternDefinition[] = [
     weight: 30,
   },
   {
+    id: 'en.prompt-leak-attempt',
     pattern: /reveal\s+(your|the)\s*(instructions?|prompt|rules?|guidelines?|system)/i,
     type: 'prompt_leak_attempt',
     severity: 'high',
@@ -250,6 +321,7 @@ const DATA_EXFILTRATION_PATTERNS: PatternDefinition[] = [
     weight: 30,
   },
   {
+    id: 'en.prompt-disclosure-attempt',
     pattern: /print\s+(your|the)\s*(instructions?|prompt|rules?|guidelines?|system)/i,
     type: 'prompt_leak_attempt',
     severity: 'high',
@@ -257,6 +329,7 @@ const DATA_EXFILTRATION_PATTERNS: PatternDefinition[] = [
     weight: 30,
   },
   {
+    id: 'en.data-output-to-external-destination',
     pattern: /output\s+(all|your|the)\s*(files?|data|content|information)\s+(to|at)\s+\S+/i,
     type: 'data_exfiltration',
     severity: 'high',
@@ -264,6 +337,7 @@ const DATA_EXFILTRATION_PATTERNS: PatternDefinition[] = [
     weight: 30,
   },
   {
+    id: 'en.upload-request',
     pattern: /upload\s+(all|your|the|my)?\s*(files?|data|documents?)\s+(to|at)/i,
     type: 'data_exfiltration',
     severity: 'high',
@@ -275,6 +349,7 @@ const DATA_EXFILTRATION_PATTERNS: PatternDefinition[] = [
 // Obfuscation patterns
 const OBFUSCATION_PATTERNS: PatternDefinition[] = [
   {
+    id: 'universal.potential-base64-encoded-content',
     pattern: /[A-Za-z0-9+/]{32,}={0,2}/,
     type: 'obfuscation',
     severity: 'medium',
@@ -282,6 +357,7 @@ const OBFUSCATION_PATTERNS: PatternDefinition[] = [
     weight: 10,
   },
   {
+    id: 'universal.hex-escape-sequence',
     pattern: /\\x[0-9a-f]{2}(\\x[0-9a-f]{2}){5,}/i,
     type: 'obfuscation',
     severity: 'high',
@@ -289,6 +365,7 @@ const OBFUSCATION_PATTERNS: PatternDefinition[] = [
     weight: 20,
   },
   {
+    id: 'universal.unicode-escape-sequence',
     pattern: /\\u[0-9a-f]{4}(\\u[0-9a-f]{4}){5,}/i,
     type: 'obfuscation',
     severity: 'high',
@@ -296,6 +373,7 @@ const OBFUSCATION_PATTERNS: PatternDefinition[] = [
     weight: 20,
   },
   {
+    id: 'universal.html-numeric-entities',
     pattern: /&#\d{2,3};(&#\d{2,3};){5,}/,
     type: 'encoding_abuse',
     severity: 'medium',
@@ -303,6 +381,7 @@ const OBFUSCATION_PATTERNS: PatternDefinition[] = [
     weight: 15,
   },
   {
+    id: 'universal.url-encoded-sequence',
     pattern: /(%[0-9a-f]{2}){5,}/i,
     type: 'encoding_abuse',
     severity: 'medium',
@@ -310,6 +389,7 @@ const OBFUSCATION_PATTERNS: PatternDefinition[] = [
     weight: 15,
   },
   {
+    id: 'universal.zero-width-characters-detected',
     pattern: /[\u200B-\u200D\uFEFF\u2060\u180E]/,
     type: 'hidden_content',
     severity: 'high',
@@ -317,6 +397,7 @@ const OBFUSCATION_PATTERNS: PatternDefinition[] = [
     weight: 25,
   },
   {
+    id: 'universal.unicode-directional-override-characters',
     pattern: /[\u202A-\u202E\u2066-\u2069]/,
     type: 'hidden_content',
     severity: 'high',
@@ -328,6 +409,7 @@ const OBFUSCATION_PATTERNS: PatternDefinition[] = [
 // Command injection patterns
 const COMMAND_INJECTION_PATTERNS: PatternDefinition[] = [
   {
+    id: 'universal.destructive-command-injection',
     pattern: /;\s*(rm|del|format|fdisk|dd|mkfs)\s/i,
     type: 'command_injection',
     severity: 'critical',
@@ -335,6 +417,7 @@ const COMMAND_INJECTION_PATTERNS: PatternDefinition[] = [
     weight: 45,
   },
   {
+    id: 'universal.pipe-to-shell',
     pattern: /\|\s*(ba)?sh\s*$/im,
     type: 'command_injection',
     severity: 'critical',
@@ -342,6 +425,7 @@ const COMMAND_INJECTION_PATTERNS: PatternDefinition[] = [
     weight: 40,
   },
   {
+    id: 'universal.backtick-command-substitution',
     pattern: /`[^`]+`/,
     type: 'command_injection',
     severity: 'medium',
@@ -349,6 +433,7 @@ const COMMAND_INJECTION_PATTERNS: PatternDefinition[] = [
     weight: 15,
   },
   {
+    id: 'universal.command-substitution',
     pattern: /\$\([^)]+\)/,
     type: 'command_injection',
     severity: 'medium',
@@ -356,6 +441,7 @@ const COMMAND_INJECTION_PATTERNS: PatternDefinition[] = [
     weight: 15,
   },
   {
+    id: 'universal.network-command-injection',
     pattern: /;\s*(curl|wget|nc|netcat)\s+/i,
     type: 'command_injection',
     severity: 'high',
@@ -363,6 +449,7 @@ const COMMAND_INJECTION_PATTERNS: PatternDefinition[] = [
     weight: 30,
   },
   {
+    id: 'universal.privilege-escalation-attempt',
     pattern: /&&\s*(sudo|su|chmod|chown)\s+/i,
     type: 'command_injection',
     severity: 'high',
@@ -374,6 +461,7 @@ const COMMAND_INJECTION_PATTERNS: PatternDefinition[] = [
 // Urgency and social engineering patterns
 const URGENCY_PATTERNS: PatternDefinition[] = [
   {
+    id: 'en.urgency-language',
     pattern: /urgent|immediately|right\s+now|asap|time\s+sensitive|act\s+(fast|now|quickly)/i,
     type: 'urgency_manipulation',
     severity: 'low',
@@ -381,6 +469,7 @@ const URGENCY_PATTERNS: PatternDefinition[] = [
     weight: 5,
   },
   {
+    id: 'en.account-threat-language',
     pattern: /your\s+account\s+(will\s+be|has\s+been)\s+(suspended|locked|closed|terminated)/i,
     type: 'urgency_manipulation',
     severity: 'medium',
@@ -388,6 +477,7 @@ const URGENCY_PATTERNS: PatternDefinition[] = [
     weight: 15,
   },
   {
+    id: 'en.verification-urgency',
     pattern: /verify\s+your\s+(identity|account|information)\s+(immediately|now|within)/i,
     type: 'urgency_manipulation',
     severity: 'medium',
@@ -395,6 +485,7 @@ const URGENCY_PATTERNS: PatternDefinition[] = [
     weight: 15,
   },
   {
+    id: 'en.scarcity-language',
     pattern: /limited\s+time|expires?\s+(soon|today|in\s+\d+)|only\s+\d+\s+(left|remaining)/i,
     type: 'urgency_manipulation',
     severity: 'low',
@@ -406,6 +497,7 @@ const URGENCY_PATTERNS: PatternDefinition[] = [
 // Financial keywords
 const FINANCIAL_PATTERNS: PatternDefinition[] = [
   {
+    id: 'en.wire-transfer-request',
     pattern: /wire\s+transfer|bank\s+transfer|send\s+money|payment\s+details/i,
     type: 'financial_keywords',
     severity: 'medium',
@@ -413,6 +505,7 @@ const FINANCIAL_PATTERNS: PatternDefinition[] = [
     weight: 15,
   },
   {
+    id: 'en.cryptocurrency-reference',
     pattern: /bitcoin|cryptocurrency|crypto\s+wallet|btc\s+address/i,
     type: 'financial_keywords',
     severity: 'medium',
@@ -420,6 +513,7 @@ const FINANCIAL_PATTERNS: PatternDefinition[] = [
     weight: 10,
   },
   {
+    id: 'en.gift-card-scam-indicator',
     pattern: /gift\s+card|itunes\s+card|google\s+play\s+card|amazon\s+card/i,
     type: 'financial_keywords',
     severity: 'high',
@@ -427,6 +521,7 @@ const FINANCIAL_PATTERNS: PatternDefinition[] = [
     weight: 25,
   },
   {
+    id: 'en.invoice-payment-language',
     pattern: /invoice\s+attached|payment\s+(overdue|due)|outstanding\s+balance/i,
     type: 'financial_keywords',
     severity: 'low',
@@ -435,8 +530,8 @@ const FINANCIAL_PATTERNS: PatternDefinition[] = [
   },
 ];
 
-// All patterns combined (English + Multilingual)
-const ALL_PATTERNS: PatternDefinition[] = [
+// All built-in patterns (English + Multilingual)
+export const BUILTIN_PATTERNS: PatternDefinition[] = [
   // English patterns (default language)
   ...INSTRUCTION_OVERRIDE_PATTERNS.map(p => ({ ...p, language: p.language ?? 'en' })),
   ...TOOL_BAITING_PATTERNS.map(p => ({ ...p, language: p.language ?? 'en' })),
@@ -449,24 +544,81 @@ const ALL_PATTERNS: PatternDefinition[] = [
   ...ALL_MULTILINGUAL_PATTERNS,
 ];
 
+export interface CompiledPattern extends PatternDefinition {
+  /** Global copy of `pattern` */
+  compiled: RegExp;
+}
+
 // Pre-compile patterns for performance and safety
-const COMPILED_PATTERNS = ALL_PATTERNS.map(p => ({
-  ...p,
-  compiled: new RegExp(p.pattern.source, p.pattern.flags + (p.pattern.flags.includes('g') ? '' : 'g')),
-}));
+export function compilePatterns(patterns: PatternDefinition[]): CompiledPattern[] {
+  return patterns.map(p => ({
+    ...p,
+    compiled: new RegExp(p.pattern.source, p.pattern.flags + (p.pattern.flags.includes('g') ? '' : 'g')),
+  }));
+}
+
+// Patterns used by assessRisk; replaced when pattern packs are loaded
+let activePatterns = compilePatterns(BUILTIN_PATTERNS);
+
+/**
+ * Replace the patterns used by assessRisk
+ */
+export function setActivePatterns(patterns: PatternDefinition[]): void {
+  activePatterns = compilePatterns(patterns);
+}
+
+export function getActivePatterns(): readonly CompiledPattern[] {
+  return activePatterns;
+}
+
+// Runs patterns for assessRisk; replaced when the plugin is configured
+let activeExecutor = new PatternExecutor();
+
+/**
+ * Replace the executor used by assessRisk, closing the previous one
+ */
+export function setPatternExecutor(executor: PatternExecutor): void {
+  if (executor !== activeExecutor) activeExecutor.close();
+  activeExecutor = executor;
+}
+
+export function getPatternExecutor(): PatternExecutor {
+  return activeExecutor;
+}
 
 // ============================================================================
 // Risk Assessment Functions
 // ============================================================================
 
+export interface RiskAssessmentOptions {
+  /** Findings from sanitization; their removed text is scanned as a separate corpus */
+  hiddenContent?: HiddenContentFinding[];
+  /** Text that spelled ordinary characters with character references */
+  encodedText?: EncodedTextFinding[];
+  /** Score the text alone; sender authentication and blocklist checks belong to the whole message */
+  contentOnly?: boolean;
+  /** Patterns to run instead of the active ones */
+  patterns?: readonly CompiledPattern[];
+  /** Executor to run them with instead of the active one */
+  executor?: PatternExecutor;
+}
+
 export function assessRisk(
   bodyText: string,
   links: ExtractedLink[],
   headers: EmailHeaders,
-  config: MailGuardConfig
+  config: MailGuardConfig,
+  options: RiskAssessmentOptions = {}
 ): RiskScore {
   const signals: RiskSignal[] = [];
-  let totalWeight = 0;
+  const contributions: RiskContribution[] = [];
+  const add = (signal: RiskSignal, weight: number): void => {
+    signals.push(signal);
+    contributions.push({ type: signal.type, severity: signal.severity, weight });
+  };
+  const addAll = (scored: WeightedSignals): void => {
+    scored.signals.forEach((signal, i) => add(signal, scored.weights[i] ?? 0));
+  };
 
   // Truncate input to prevent ReDoS
   const truncatedText = bodyText.length > MAX_BODY_LENGTH_FOR_PATTERNS
@@ -478,121 +630,121 @@ export function assessRisk(
   const detectedLanguage = langResult.primary;
 
   // Sort patterns to prioritize detected language and universal patterns
-  const sortedPatterns = [...COMPILED_PATTERNS].sort((a, b) => {
+  const patterns = options.patterns ?? activePatterns;
+  const sortedPatterns = [...patterns].sort((a, b) => {
     const aMatch = a.language === detectedLanguage || a.language === 'universal' ? 0 : 1;
     const bMatch = b.language === detectedLanguage || b.language === 'universal' ? 0 : 1;
     return aMatch - bMatch;
   });
 
-  // Scan for patterns using pre-compiled regex
-  for (const patternDef of sortedPatterns) {
-    try {
-      // Reset lastIndex for global patterns
-      patternDef.compiled.lastIndex = 0;
-      const matches = truncatedText.matchAll(patternDef.compiled);
-      for (const match of matches) {
-        signals.push({
-          type: patternDef.type,
-          severity: patternDef.severity,
-          description: patternDef.description,
-          evidence: match[0].substring(0, 100),
-          location: match.index !== undefined ? {
-            start: match.index,
-            end: match.index + match[0].length,
-          } : undefined,
-        });
-        totalWeight += patternDef.weight;
-
-        // Limit signals per pattern to prevent memory issues
-        if (signals.filter(s => s.description === patternDef.description).length >= 10) {
-          break;
-        }
+  // Patterns also run on the confusable skeleton, which only differs when look-alikes are present
+  const skeleton = buildSkeleton(truncatedText);
+  const hasLookalikes = skeleton.substitutions.length > 0;
+
+  // Every scan below draws on one time budget, enforced by the executor
+  const executor = options.executor ?? activeExecutor;
+  const scanner: PatternScanner = { executor, budget: executor.createBudget() };
+  const bodyMatches = scan(scanner, truncatedText, sortedPatterns, MAX_SIGNALS_PER_PATTERN);
+  const skeletonMatches = hasLookalikes ? scan(scanner, skeleton.text, sortedPatterns, MAX_SKELETON_MATCHES) : [];
+
+  sortedPatterns.forEach((patternDef, i) => {
+    const spans: Array<[number, number]> = [];
+
+    for (const match of bodyMatches[i] ?? []) {
+      spans.push([match.index, match.index + match.length]);
+      add({
+        type: patternDef.type,
+        severity: patternDef.severity,
+        description: patternDef.description,
+        patternId: patternDef.id,
+        evidence: match.text,
+        location: {
+          start: match.index,
+          end: match.index + match.length,
+        },
+      }, patternDef.weight);
+
+      // Limit signals per pattern to prevent memory issues
+      if (signals.filter(s => s.description === patternDef.description).length >= MAX_SIGNALS_PER_PATTERN) {
+        break;
       }
-    } catch {
-      // Skip patterns that cause errors (e.g., timeout)
-      continue;
     }
+
+    if (hasLookalikes) {
+      addAll(assessSkeletonMatches(patternDef, skeletonMatches[i] ?? [], skeleton, truncatedText, spans));
+    }
+  });
+
+  // Scan text that was hidden from the reader
+  addAll(assessHiddenContent(options.hiddenContent ?? [], patterns, scanner));
+
+  // Scan text whose keywords only appear once references are decoded
+  addAll(assessEncodedText(options.encodedText ?? [], patterns, scanner));
+
+  // Scan base64, hex, URL-encoded, quoted-printable and ROT13 runs once decoded
+  addAll(assessEncodedPayloads(decodeEmbeddedPayloads(truncatedText), patterns, scanner));
+
+  // Patterns that were stopped or skipped leave the scan incomplete
+  const incomplete = describeIncompleteScan(scanner.budget);
+  if (incomplete) {
+    add(incomplete, SCAN_INCOMPLETE_WEIGHT);
   }
 
   // Assess suspicious links
   for (const link of links) {
     if (link.suspicious) {
-      signals.push({
+      // An IP-address host or look-alike domain makes the link riskier
+      const aggravating = (link.suspicionReasons ?? [])
+        .filter(reason => reason.includes('IP address') || reason.includes('lookalike')).length;
+      add({
         type: 'suspicious_link',
         severity: 'medium',
         description: `Suspicious link detected: ${link.domain}`,
         evidence: link.url.substring(0, 100),
-      });
-      totalWeight += 15;
-
-      if (link.suspicionReasons) {
-        for (const reason of link.suspicionReasons) {
-          if (reason.includes('IP address') || reason.includes('lookalike')) {
-            totalWeight += 10;
-          }
-        }
-      }
+      }, 15 + aggravating * 10);
     }
   }
 
   // Check authentication results
-  if (headers.authResults) {
+  if (headers.authResults && !options.contentOnly) {
     if (headers.authResults.spf === 'fail') {
-      signals.push({
+      add({
         type: 'suspicious_link',
         severity: 'high',
         description: 'SPF authentication failed',
-      });
-      totalWeight += 20;
+      }, 20);
     }
     if (headers.authResults.dkim === 'fail') {
-      signals.push({
+      add({
         type: 'suspicious_link',
         severity: 'high',
         description: 'DKIM authentication failed',
-      });
-      totalWeight += 20;
+      }, 20);
     }
     if (headers.authResults.dmarc === 'fail') {
-      signals.push({
+      add({
         type: 'suspicious_link',
         severity: 'high',
         description: 'DMARC authentication failed',
-      });
-      totalWeight += 25;
+      }, 25);
     }
   }
 
   // Check sender domain against blocklist
   const senderDomain = extractSenderDomain(headers.from);
-  if (config.blockedSenderDomains.includes(senderDomain)) {
-    signals.push({
+  if (config.blockedSenderDomains.includes(senderDomain) && !options.contentOnly) {
+    add({
       type: 'suspicious_link',
       severity: 'critical',
       description: 'Sender domain is blocklisted',
-    });
-    totalWeight += 50;
+    }, 50);
   }
 
   // Apply trust discount for allowlisted domains
-  if (config.allowedSenderDomains.includes(senderDomain)) {
-    totalWeight = Math.floor(totalWeight * 0.5);
-  }
+  const trustFactor = config.allowedSenderDomains.includes(senderDomain) ? ALLOWLISTED_TRUST_FACTOR : 1;
+  const { score, breakdown } = scoreContributions(contributions, config, trustFactor);
 
-  // Cap the score at 100
-  const score = Math.min(100, totalWeight);
-
-  // Determine recommendation
-  let recommendation: RiskScore['recommendation'];
-  if (score >= 80) {
-    recommendation = 'block';
-  } else if (score >= config.riskThreshold) {
-    recommendation = 'quarantine';
-  } else if (score >= 30) {
-    recommendation = 'review';
-  } else {
-    recommendation = 'allow';
-  }
+  const recommendation = recommendationForSignals(score, signals, config);
 
   // Compile reasons
   const reasons = signals.map(s => s.description);
@@ -603,88 +755,242 @@ export function assessRisk(
     reasons: uniqueReasons,
     signals,
     recommendation,
+    breakdown,
   };
 }
 
-// ============================================================================
-// ML Classifier Integration (Optional)
-// ============================================================================
+/**
+ * A pattern that matches the skeleton where it did not match the original
+ * only reads that way because look-alike characters (Cyrillic "і" for "i")
+ * were substituted to get past keyword checks. The signal quotes the original
+ * span and names the substituted characters.
+ */
+function assessSkeletonMatches(
+  patternDef: CompiledPattern,
+  matches: PatternMatch[],
+  skeleton: Skeleton,
+  originalText: string,
+  originalSpans: Array<[number, number]>
+): WeightedSignals {
+  const signals: RiskSignal[] = [];
+  const weights: number[] = [];
+
+  for (const match of matches) {
+    const start = skeleton.offsets[match.index] ?? 0;
+    const end = skeleton.offsets[match.index + match.length] ?? originalText.length;
+
+    const substitutions = skeleton.substitutions.filter(sub => sub.index >= start && sub.index < end);
+    if (substitutions.length === 0) continue;
+    if (originalSpans.some(([spanStart, spanEnd]) => spanStart < end && start < spanEnd)) continue;
 
-export interface MLClassifierResult {
-  score: number;
-  confidence: number;
-  labels: string[];
+    const listed = [...new Map(substitutions.map(sub => [sub.char, sub])).values()]
+      .slice(0, MAX_LISTED_SUBSTITUTIONS)
+      .map(sub => `U+${(sub.char.codePointAt(0) ?? 0).toString(16).toUpperCase().padStart(4, '0')} as "${sub.prototype}"`);
+
+    signals.push({
+      type: 'obfuscation',
+      severity: patternDef.severity,
+      description: `${patternDef.description} written with look-alike characters (${listed.join(', ')})`,
+      patternId: patternDef.id,
+      evidence: originalText.slice(start, end).substring(0, 100),
+      decodedEvidence: match.text,
+      location: { start, end },
+    });
+    weights.push(patternDef.weight + LOOKALIKE_WEIGHT_BONUS);
+
+    if (signals.length >= MAX_SIGNALS_PER_PATTERN) break;
+  }
+
+  return { signals, weights };
 }
 
-const MLClassifierResultSchema = z.object({
-  score: z.number().min(0).max(100),
-  confidence: z.number().min(0).max(1),
-  labels: z.array(z.string()),
-});
+/**
+ * Injection patterns in hidden text target the agent rather than the reader,
+ * so high and critical matches there become hidden_content signals of at
+ * least high severity. Lower-severity patterns (urgency, money) are common
+ * in legitimate hidden preheaders and are ignored.
+ */
+function assessHiddenContent(
+  findings: HiddenContentFinding[],
+  patterns: readonly CompiledPattern[],
+  scanner: PatternScanner
+): WeightedSignals {
+  const signals: RiskSignal[] = [];
+  const weights: number[] = [];
+  const severe = patterns.filter(isSevere);
 
-export async function classifyWithML(
-  bodyText: string,
-  endpoint: string
-): Promise<MLClassifierResult | null> {
-  try {
-    // SSRF protection - validate endpoint is not internal/private
-    const url = new URL(endpoint);
-    const hostname = url.hostname.toLowerCase();
-
-    // Block localhost and loopback
-    if (
-      hostname === 'localhost' ||
-      hostname === '127.0.0.1' ||
-      hostname === '[::1]' ||
-      hostname === '::1'
-    ) {
-      return null;
-    }
+  for (const finding of findings) {
+    if (!finding.text) continue;
 
-    // Block private IP ranges
-    const ipMatch = hostname.match(/^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/);
-    if (ipMatch) {
-      const [, a, b] = ipMatch.map(Number);
-      // 10.0.0.0/8
-      if (a === 10) return null;
-      // 172.16.0.0/12
-      if (a === 172 && b !== undefined && b >= 16 && b <= 31) return null;
-      // 192.168.0.0/16
-      if (a === 192 && b === 168) return null;
-      // 169.254.0.0/16 (link-local)
-      if (a === 169 && b === 254) return null;
-    }
+    const matches = scan(scanner, finding.text, severe, 1);
+    severe.forEach((patternDef, i) => {
+      const match = matches[i]?.[0];
+      if (!match) return;
 
-    // Block .local domains
-    if (hostname.endsWith('.local') || hostname.endsWith('.internal')) {
-      return null;
-    }
+      signals.push({
+        type: 'hidden_content',
+        severity: patternDef.severity,
+        description: `${patternDef.description} in hidden content (${finding.detail ?? finding.reason})`,
+        patternId: patternDef.id,
+        evidence: match.text,
+      });
+      weights.push(patternDef.weight + HIDDEN_CONTENT_WEIGHT_BONUS);
+    });
+  }
+
+  return { signals, weights };
+}
+
+/**
+ * A high or critical pattern that matches a window only after its character
+ * references are decoded was spelled that way to slip past keyword checks.
+ * Each pattern is reported once however many windows it appears in.
+ */
+function assessEncodedText(
+  findings: EncodedTextFinding[],
+  patterns: readonly CompiledPattern[],
+  scanner: PatternScanner
+): WeightedSignals {
+  const signals: RiskSignal[] = [];
+  const weights: number[] = [];
+  const reported = new Set<string>();
+
+  for (const finding of findings) {
+    const candidates = patterns.filter(p => isSevere(p) && !reported.has(p.description));
+    const decodedMatches = scan(scanner, finding.decoded, candidates, 1);
+    const matched = candidates
+      .map((patternDef, i) => ({ patternDef, match: decodedMatches[i]?.[0] }))
+      .filter((entry): entry is { patternDef: CompiledPattern; match: PatternMatch } => entry.match !== undefined);
+    const encodedMatches = scan(scanner, finding.encoded, matched.map(entry => entry.patternDef), 1);
 
-    const response = await fetch(endpoint, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        text: bodyText.substring(0, 10000), // Limit input size
-      }),
+    matched.forEach(({ patternDef, match }, i) => {
+      if (encodedMatches[i]?.length) return;
+      if (reported.has(patternDef.description)) return;
+
+      reported.add(patternDef.description);
+      signals.push({
+        type: 'encoding_abuse',
+        severity: patternDef.severity,
+        description: `${patternDef.description} spelled with character references`,
+        patternId: patternDef.id,
+        evidence: match.text,
+      });
+      weights.push(patternDef.weight + ENCODED_TEXT_WEIGHT_BONUS);
     });
+  }
 
-    if (!response.ok) {
-      return null;
-    }
+  return { signals, weights };
+}
 
-    const rawResult = await response.json();
-    const parseResult = MLClassifierResultSchema.safeParse(rawResult);
+/**
+ * Text the reader has to decode before it says anything is aimed at a model
+ * asked to decode it. Signals quote the encoded run and the decoded match;
+ * each pattern is reported once per encoding chain.
+ */
+function assessEncodedPayloads(
+  payloads: DecodedPayload[],
+  patterns: readonly CompiledPattern[],
+  scanner: PatternScanner
+): WeightedSignals {
+  const signals: RiskSignal[] = [];
+  const weights: number[] = [];
+  const reported = new Set<string>();
 
-    if (!parseResult.success) {
-      return null;
-    }
+  for (const payload of payloads) {
+    // "hex-encoded text inside base64" for hex wrapped in base64
+    const [innermost, ...outer] = payload.encodings.map(encoding => PAYLOAD_ENCODING_LABELS[encoding]).reverse();
+    const label = `${innermost}-encoded text${outer.map(encoding => ` inside ${encoding}`).join('')}`;
+
+    const candidates = patterns.filter(p => isSevere(p) && !reported.has(`${p.description}|${label}`));
+    const matches = scan(scanner, payload.decoded, candidates, 1);
+
+    candidates.forEach((patternDef, i) => {
+      const key = `${patternDef.description}|${label}`;
+      const match = matches[i]?.[0];
+      if (!match || reported.has(key)) return;
+
+      reported.add(key);
+      signals.push({
+        type: 'encoding_abuse',
+        severity: patternDef.severity,
+        description: `${patternDef.description} in ${label}`,
+        patternId: patternDef.id,
+        evidence: payload.encoded.substring(0, 100),
+        decodedEvidence: match.text,
+      });
+      weights.push(patternDef.weight + ENCODED_TEXT_WEIGHT_BONUS);
+    });
+  }
+
+  return { signals, weights };
+}
+
+interface WeightedSignals {
+  signals: RiskSignal[];
+  /** Aligned with `signals` */
+  weights: number[];
+}
+
+interface PatternScanner {
+  executor: PatternExecutor;
+  budget: PatternBudget;
+}
 
-    return parseResult.data;
-  } catch {
+function scan(scanner: PatternScanner, text: string, patterns: readonly CompiledPattern[], limit: number): PatternMatch[][] {
+  return patterns.length > 0 ? scanner.executor.scan(text, patterns, limit, scanner.budget) : [];
+}
+
+// Only injection-grade patterns run on hidden, encoded and decoded text
+function isSevere(patternDef: CompiledPattern): boolean {
+  return patternDef.severity === 'high' || patternDef.severity === 'critical';
+}
+
+// ============================================================================
+// ML Classifier Integration (Optional)
+// ============================================================================
+
+export type { MLClassifierResult };
+
+/**
+ * Classify with a remote HTTP classifier under the default timeout and
+ * retries; internal and private endpoints are refused
+ */
+export async function classifyWithML(
+  bodyText: string,
+  endpoint: string
+): Promise<MLClassifierResult | null> {
+  const config = HttpClassifierConfigSchema.safeParse({ type: 'http', endpoint });
+  if (!config.success) {
     return null;
   }
+  return new HttpRiskClassifier(config.data).classify(bodyText);
+}
+
+export interface WeightedClassifierResult {
+  result: MLClassifierResult;
+  weight: number;
+}
+
+/**
+ * Blend classifier scores into the heuristic score. Each classifier decides
+ * its weight's share of the result and the heuristics the rest; weights that
+ * add up to more than 1 are scaled down to share the whole result.
+ */
+export function combineClassifierScores(
+  heuristicScore: number,
+  results: WeightedClassifierResult[]
+): number {
+  const totalWeight = results.reduce((sum, entry) => sum + entry.weight, 0);
+  if (totalWeight === 0) {
+    return heuristicScore;
+  }
+
+  const scale = Math.max(1, totalWeight);
+  const combined = results.reduce(
+    (sum, entry) => sum + entry.result.score * (entry.weight / scale),
+    heuristicScore * (1 - totalWeight / scale)
+  );
+  return Math.min(100, Math.round(combined));
 }
 
 export function combineScores(
@@ -692,19 +998,129 @@ export function combineScores(
   mlResult: MLClassifierResult | null,
   mlWeight: number = 0.3
 ): number {
-  if (!mlResult) {
-    return heuristicScore;
+  return combineClassifierScores(heuristicScore, mlResult ? [{ result: mlResult, weight: mlWeight }] : []);
+}
+
+/**
+ * Fold scanned attachments into the message score: their contributions are
+ * scored with the body's, so the message is at least as risky as its
+ * riskiest part, and attachment signals are labelled with their file
+ */
+export function foldAttachmentRisk(
+  riskScore: RiskScore,
+  attachments: AttachmentMetadata[],
+  config: MailGuardConfig
+): RiskScore {
+  const scored = attachments.filter(a => a.riskScore && a.riskScore.signals.length > 0);
+  if (scored.length === 0) {
+    return riskScore;
   }
 
-  // Weighted combination, with ML having configurable influence
-  const combined = (heuristicScore * (1 - mlWeight)) + (mlResult.score * mlWeight);
-  return Math.min(100, Math.round(combined));
+  const signals = [
+    ...riskScore.signals,
+    ...scored.flatMap(attachment => attachment.riskScore!.signals.map(signal => ({
+      ...signal,
+      description: `${signal.description} (attachment ${attachment.filename})`,
+    }))),
+  ];
+
+  const previous = riskScore.breakdown ? breakdownContributions(riskScore.breakdown) : [];
+  const trustFactor = riskScore.breakdown?.trustFactor ?? 1;
+  const before = scoreContributions(previous, config, trustFactor);
+  const after = scoreContributions([
+    ...previous,
+    ...scored.flatMap(({ riskScore: part }) => (part!.breakdown ? breakdownContributions(part!.breakdown) : [])),
+  ], config, trustFactor);
+
+  const riskiest = Math.max(...scored.map(attachment => attachment.riskScore!.score));
+  const score = Math.min(100, Math.max(riskiest, riskScore.score + after.score - before.score));
+
+  return {
+    ...riskScore,
+    score,
+    reasons: [...new Set(signals.map(s => s.description))],
+    signals,
+    recommendation: recommendationForSignals(score, signals, config),
+    breakdown: after.breakdown,
+  };
+}
+
+/**
+ * Add signals assessed outside the body (attachment policy, calendar
+ * invites) to a message score. Each of `contributions` keeps its own weight
+ * and severity and is scored with the ones already in the breakdown; the
+ * score rises by as much as the combined category scores do, so adjustments
+ * made since (an ML classifier's blend) are kept.
+ */
+export function addRiskSignals(
+  riskScore: RiskScore,
+  signals: RiskSignal[],
+  contributions: RiskContribution[],
+  config: MailGuardConfig
+): RiskScore {
+  if (signals.length === 0) {
+    return riskScore;
+  }
+
+  const previous = riskScore.breakdown ? breakdownContributions(riskScore.breakdown) : [];
+  const trustFactor = riskScore.breakdown?.trustFactor ?? 1;
+  const before = scoreContributions(previous, config, trustFactor);
+  const after = scoreContributions([...previous, ...contributions], config, trustFactor);
+
+  const score = Math.min(100, riskScore.score + after.score - before.score);
+  const allSignals = [...riskScore.signals, ...signals];
+
+  return {
+    ...riskScore,
+    score,
+    reasons: [...new Set(allSignals.map(s => s.description))],
+    signals: allSignals,
+    recommendation: recommendationForSignals(score, allSignals, config),
+    breakdown: after.breakdown,
+  };
+}
+
+export function recommendationForScore(score: number, config: MailGuardConfig): RiskScore['recommendation'] {
+  const scoring = config.riskScoring ?? RiskScoringConfigSchema.parse({});
+  if (score >= scoring.blockThreshold) return 'block';
+  if (score >= config.riskThreshold) return 'quarantine';
+  if (score >= scoring.reviewThreshold) return 'review';
+  return 'allow';
+}
+
+/**
+ * A message whose pattern scan was cut short is reviewed at least, whatever
+ * the patterns that did run found
+ */
+export function recommendationForSignals(score: number, signals: RiskSignal[], config: MailGuardConfig): RiskScore['recommendation'] {
+  const recommendation = recommendationForScore(score, config);
+  return recommendation === 'allow' && signals.some(s => s.type === 'scan_incomplete') ? 'review' : recommendation;
 }
 
 // ============================================================================
 // Helper Functions
 // ============================================================================
 
+function describeIncompleteScan(budget: PatternBudget): RiskSignal | undefined {
+  if (budget.timedOut.length > 0) {
+    const ids = [...new Set(budget.timedOut)];
+    return {
+      type: 'scan_incomplete',
+      severity: 'high',
+      description: `Pattern scan incomplete: ${ids.length} pattern(s) exceeded their time budget`,
+      evidence: ids.join(', ').substring(0, 100),
+    };
+  }
+  if (budget.exhausted) {
+    return {
+      type: 'scan_incomplete',
+      severity: 'high',
+      description: 'Pattern scan incomplete: the assessment ran out of time and remaining patterns were skipped',
+    };
+  }
+  return undefined;
+}
+
 function extractSenderDomain(from: string): string {
   const match = from.match(/@([^\s>]+)/);
   return match?.[1]?.toLowerCase() ?? '';
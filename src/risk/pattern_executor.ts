@@ -0,0 +1,336 @@
+/**
+ * Pattern Executor Module
+ * Runs detection patterns under a time budget per pattern and per assessment.
+ * In worker mode the patterns run in a worker thread that the caller waits on
+ * synchronously and terminates when a budget runs out, so a pattern that
+ * backtracks catastrophically is stopped rather than hanging the gateway.
+ * A stopped pattern is only skipped for the rest of that assessment: message
+ * content must not be able to switch detection off for later messages.
+ */
+
+import { Worker, MessageChannel, receiveMessageOnPort, type MessagePort } from 'worker_threads';
+import { performance } from 'perf_hooks';
+import { PatternExecutionConfigSchema, type Logger, type PatternExecutionConfig } from '../types.js';
+import type { CompiledPattern } from './heuristics.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface PatternMatch {
+  index: number;
+  length: number;
+  /** First 100 characters of the match */
+  text: string;
+}
+
+/** Time left for one assessment, shared by all of its scans */
+export interface PatternBudget {
+  deadline: number;
+  /** IDs of patterns stopped during this assessment; they are skipped for the rest of it */
+  timedOut: string[];
+  /** Set when patterns were skipped because the assessment ran out of time */
+  exhausted: boolean;
+}
+
+export interface PatternTimeout {
+  id: string;
+  description: string;
+  /** Longest time the pattern ran before it was stopped */
+  elapsedMs: number;
+  /** Assessments the pattern was stopped in */
+  count: number;
+  lastTimedOutAt: number;
+}
+
+interface WorkerHandle {
+  worker: Worker;
+  port: MessagePort;
+  /** [0] patterns completed in the current job, [1] set once the worker is listening */
+  state: Int32Array;
+}
+
+type WorkerMatch = [number, number, string];
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const COMPLETED = 0;
+const READY = 1;
+
+// Worker startup is not charged to any pattern
+const WORKER_STARTUP_TIMEOUT_MS = 5000;
+
+const EVIDENCE_LENGTH = 100;
+
+// Plain JavaScript so the worker runs the same from source and from dist
+const WORKER_SOURCE = `
+const { workerData } = require('worker_threads');
+const { port, state } = workerData;
+const cache = new Map();
+
+port.on('message', ({ text, patterns, limit }) => {
+  patterns.forEach(({ source, flags }, i) => {
+    const matches = [];
+    try {
+      const key = flags + '/' + source;
+      let regex = cache.get(key);
+      if (!regex) {
+        regex = new RegExp(source, flags);
+        cache.set(key, regex);
+      }
+      regex.lastIndex = 0;
+      let match;
+      while (matches.length < limit && (match = regex.exec(text)) !== null) {
+        matches.push([match.index, match[0].length, match[0].slice(0, ${EVIDENCE_LENGTH})]);
+        if (match[0].length === 0) regex.lastIndex++;
+      }
+    } catch {
+      matches.length = 0;
+    }
+    port.postMessage(matches);
+    Atomics.store(state, ${COMPLETED}, i + 1);
+    Atomics.notify(state, ${COMPLETED});
+  });
+});
+
+Atomics.store(state, ${READY}, 1);
+Atomics.notify(state, ${READY});
+`;
+
+// ============================================================================
+// Pattern Executor
+// ============================================================================
+
+export class PatternExecutor {
+  private config: PatternExecutionConfig;
+  private logger?: Logger;
+  private handle?: WorkerHandle;
+  private timedOut = new Map<string, PatternTimeout>();
+
+  constructor(config: PatternExecutionConfig = PatternExecutionConfigSchema.parse({}), logger?: Logger) {
+    this.config = config;
+    this.logger = logger;
+  }
+
+  /**
+   * Budget for one assessment
+   */
+  createBudget(): PatternBudget {
+    return { deadline: performance.now() + this.config.messageTimeoutMs, timedOut: [], exhausted: false };
+  }
+
+  /**
+   * Up to `limit` matches of each pattern in `text`, aligned with `patterns`.
+   * Patterns stopped earlier in the assessment, and patterns skipped once the
+   * budget is spent, match nothing; callers report both from the budget.
+   */
+  scan(text: string, patterns: readonly CompiledPattern[], limit: number, budget: PatternBudget): PatternMatch[][] {
+    const results: PatternMatch[][] = patterns.map(() => []);
+    const pending = patterns
+      .map((pattern, index) => ({ pattern, index }))
+      .filter(({ pattern }) => !budget.timedOut.includes(pattern.id));
+
+    if (this.config.mode === 'worker') {
+      this.scanInWorker(text, pending, limit, budget, results);
+    } else {
+      this.scanInline(text, pending, limit, budget, results);
+    }
+
+    return results;
+  }
+
+  /**
+   * Patterns that have run past their budget, for operators to fix or
+   * disable with an override. A pattern reloaded with a new source is
+   * recorded afresh.
+   */
+  timeouts(): PatternTimeout[] {
+    return [...this.timedOut.values()];
+  }
+
+  close(): void {
+    this.stopWorker();
+  }
+
+  private scanInline(
+    text: string,
+    pending: Array<{ pattern: CompiledPattern; index: number }>,
+    limit: number,
+    budget: PatternBudget,
+    results: PatternMatch[][]
+  ): void {
+    for (const { pattern, index } of pending) {
+      if (!this.withinBudget(budget)) return;
+
+      const started = performance.now();
+      results[index] = collectMatches(pattern.compiled, text, limit);
+      const elapsed = performance.now() - started;
+
+      // Inline matching cannot be interrupted, only reported
+      if (elapsed > this.config.patternTimeoutMs) {
+        this.recordTimeout(pattern, elapsed, budget);
+      }
+    }
+  }
+
+  private scanInWorker(
+    text: string,
+    pending: Array<{ pattern: CompiledPattern; index: number }>,
+    limit: number,
+    budget: PatternBudget,
+    results: PatternMatch[][]
+  ): void {
+    let position = 0;
+
+    while (position < pending.length) {
+      if (!this.withinBudget(budget)) return;
+
+      const handle = this.startWorker();
+      if (!handle) {
+        this.scanInline(text, pending.slice(position), limit, budget, results);
+        return;
+      }
+
+      const job = pending.slice(position);
+      Atomics.store(handle.state, COMPLETED, 0);
+      handle.port.postMessage({
+        text,
+        limit,
+        patterns: job.map(({ pattern }) => ({ source: pattern.compiled.source, flags: pattern.compiled.flags })),
+      });
+
+      let completed = 0;
+      let started = performance.now();
+      while (completed < job.length) {
+        const now = performance.now();
+        const wait = Math.min(this.config.patternTimeoutMs - (now - started), budget.deadline - now);
+        if (wait > 0) {
+          Atomics.wait(handle.state, COMPLETED, completed, wait);
+        }
+
+        // Each pattern's matches are posted before its completion is counted
+        let message = receiveMessageOnPort(handle.port);
+        if (message) {
+          while (message) {
+            const current = job[completed];
+            if (current) {
+              results[current.index] = (message.message as WorkerMatch[]).map(([index, length, matched]) => ({ index, length, text: matched }));
+            }
+            completed++;
+            message = receiveMessageOnPort(handle.port);
+          }
+          started = performance.now();
+          continue;
+        }
+
+        const elapsed = performance.now() - started;
+        const running = job[completed];
+        if (elapsed >= this.config.patternTimeoutMs && running) {
+          this.stopWorker();
+          this.recordTimeout(running.pattern, elapsed, budget);
+          break;
+        }
+        if (!this.withinBudget(budget)) {
+          this.stopWorker();
+          return;
+        }
+      }
+
+      position += completed + (completed < job.length ? 1 : 0);
+    }
+  }
+
+  private withinBudget(budget: PatternBudget): boolean {
+    if (budget.exhausted) return false;
+    if (performance.now() < budget.deadline) return true;
+
+    budget.exhausted = true;
+    this.logger?.warn('MailGuard pattern budget exhausted; remaining patterns skipped', {
+      messageTimeoutMs: this.config.messageTimeoutMs,
+    });
+    return false;
+  }
+
+  private recordTimeout(pattern: CompiledPattern, elapsedMs: number, budget: PatternBudget): void {
+    const key = timeoutKey(pattern);
+    const previous = this.timedOut.get(key);
+    this.timedOut.set(key, {
+      id: pattern.id,
+      description: pattern.description,
+      elapsedMs: Math.max(previous?.elapsedMs ?? 0, Math.round(elapsedMs)),
+      count: (previous?.count ?? 0) + 1,
+      lastTimedOutAt: Date.now(),
+    });
+    budget.timedOut.push(pattern.id);
+    this.logger?.warn('MailGuard pattern exceeded its time budget and was skipped for this message', {
+      patternId: pattern.id,
+      elapsedMs: Math.round(elapsedMs),
+      patternTimeoutMs: this.config.patternTimeoutMs,
+    });
+  }
+
+  private startWorker(): WorkerHandle | undefined {
+    if (this.handle) return this.handle;
+
+    const { port1, port2 } = new MessageChannel();
+    const state = new Int32Array(new SharedArrayBuffer(2 * Int32Array.BYTES_PER_ELEMENT));
+    const worker = new Worker(WORKER_SOURCE, {
+      eval: true,
+      workerData: { port: port2, state },
+      transferList: [port2],
+    });
+    worker.unref();
+    worker.on('error', error => {
+      this.logger?.error('MailGuard pattern worker failed', { error: String(error) });
+      if (this.handle?.worker === worker) this.handle = undefined;
+    });
+
+    Atomics.wait(state, READY, 0, WORKER_STARTUP_TIMEOUT_MS);
+    if (Atomics.load(state, READY) !== 1) {
+      this.logger?.warn('MailGuard pattern worker did not start; matching inline');
+      void worker.terminate();
+      port1.close();
+      return undefined;
+    }
+
+    this.handle = { worker, port: port1, state };
+    return this.handle;
+  }
+
+  private stopWorker(): void {
+    if (!this.handle) return;
+    void this.handle.worker.terminate();
+    this.handle.port.close();
+    this.handle = undefined;
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+// A reloaded pattern with a new source starts a fresh record
+function timeoutKey(pattern: CompiledPattern): string {
+  return `${pattern.id}\u0000${pattern.compiled.source}\u0000${pattern.compiled.flags}`;
+}
+
+function collectMatches(regex: RegExp, text: string, limit: number): PatternMatch[] {
+  const matches: PatternMatch[] = [];
+  regex.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while (matches.length < limit && (match = regex.exec(text)) !== null) {
+    matches.push({ index: match.index, length: match[0].length, text: match[0].slice(0, EVIDENCE_LENGTH) });
+    if (match[0].length === 0) regex.lastIndex++;
+  }
+  return matches;
+}
+
+// ============================================================================
+// Factory Function
+// ============================================================================
+
+export function createPatternExecutor(config: PatternExecutionConfig, logger?: Logger): PatternExecutor {
+  return new PatternExecutor(config, logger);
+}
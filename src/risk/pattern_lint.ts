@@ -0,0 +1,441 @@
+/**
+ * Pattern Lint Module
+ * Static checks for regular expressions that can backtrack catastrophically:
+ * nested unbounded quantifiers (star height above one), repeated
+ * alternatives that can match the same text, and adjacent quantifiers that
+ * compete for the same characters
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type PatternLintRule =
+  | 'nested_quantifier'
+  | 'ambiguous_alternation'
+  | 'overlapping_quantifiers'
+  | 'unparseable';
+
+export interface PatternLintIssue {
+  rule: PatternLintRule;
+  /** Errors disable the pattern; warnings are reported */
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+/** Character codes 0-127, with 128 standing for every non-ASCII character */
+type CharSet = Set<number>;
+
+type RegexNode =
+  | { kind: 'char'; chars: CharSet }
+  | { kind: 'assert' }
+  | { kind: 'seq'; items: RegexNode[] }
+  | { kind: 'alt'; options: RegexNode[] }
+  | { kind: 'repeat'; body: RegexNode; min: number; max: number; source: string };
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const NON_ASCII = 128;
+
+const ANY: CharSet = new Set(Array.from({ length: 129 }, (_, i) => i));
+const DIGITS: CharSet = range(48, 57);
+const WORD: CharSet = new Set([...range(48, 57), ...range(65, 90), ...range(97, 122), 95]);
+const SPACE: CharSet = new Set([9, 10, 11, 12, 13, 32, NON_ASCII]);
+
+// ============================================================================
+// Linting
+// ============================================================================
+
+/**
+ * Issues found in `source`, most severe first. Sources the linter cannot
+ * parse are reported as errors so they are never run unchecked.
+ */
+export function lintPattern(source: string, flags = ''): PatternLintIssue[] {
+  let tree: RegexNode;
+  try {
+    tree = new RegexParser(source, flags.includes('i')).parse();
+  } catch (error) {
+    return [{
+      rule: 'unparseable',
+      severity: 'error',
+      message: `Pattern could not be checked: ${error instanceof Error ? error.message : String(error)}`,
+    }];
+  }
+
+  const issues: PatternLintIssue[] = [];
+  visit(tree, node => {
+    if (node.kind === 'repeat' && node.max > 1) {
+      checkRepeatedBody(node, issues);
+    }
+    if (node.kind === 'seq') {
+      checkAdjacentRepeats(node, issues);
+    }
+  });
+
+  return issues.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1));
+}
+
+export function hasLintErrors(issues: PatternLintIssue[]): boolean {
+  return issues.some(issue => issue.severity === 'error');
+}
+
+/**
+ * A repeat must not contain an unbounded repeat, and an unbounded repeat's
+ * alternatives must not start with the same characters: either lets the
+ * engine split one input into iterations in exponentially many ways (or, for
+ * a bounded outer repeat, polynomially many).
+ */
+function checkRepeatedBody(repeat: Extract<RegexNode, { kind: 'repeat' }>, issues: PatternLintIssue[]): void {
+  let nested: Extract<RegexNode, { kind: 'repeat' }> | undefined;
+  visit(repeat.body, node => {
+    if (!nested && node.kind === 'repeat' && node.max === Infinity && !isEmptyOnly(node.body)) {
+      nested = node;
+    }
+  });
+  if (nested) {
+    issues.push({
+      rule: 'nested_quantifier',
+      severity: repeat.max === Infinity ? 'error' : 'warning',
+      message: `Repeated group ${repeat.source} contains the quantifier ${nested.source}`,
+    });
+  }
+
+  const alternation = unwrapAlternation(repeat.body);
+  if (alternation && repeat.max === Infinity) {
+    const firsts = alternation.options.map(option => first(option));
+    for (let i = 0; i < firsts.length; i++) {
+      for (let j = i + 1; j < firsts.length; j++) {
+        if (intersects(firsts[i], firsts[j])) {
+          issues.push({
+            rule: 'ambiguous_alternation',
+            severity: 'error',
+            message: `Alternatives ${i + 1} and ${j + 1} of repeated group ${repeat.source} can start with the same character`,
+          });
+          return;
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Neighbouring unbounded repeats over overlapping characters (`\s*\s*`,
+ * `\w+\d+`) backtrack polynomially on input that fails just after them
+ */
+function checkAdjacentRepeats(sequence: Extract<RegexNode, { kind: 'seq' }>, issues: PatternLintIssue[]): void {
+  let previous: Extract<RegexNode, { kind: 'repeat' }> | undefined;
+  for (const item of sequence.items) {
+    if (item.kind === 'repeat' && item.max === Infinity) {
+      if (previous && intersects(chars(previous.body), chars(item.body))) {
+        issues.push({
+          rule: 'overlapping_quantifiers',
+          severity: 'warning',
+          message: `Adjacent quantifiers ${previous.source} and ${item.source} can match the same characters`,
+        });
+      }
+      previous = item;
+    } else if (!nullable(item)) {
+      previous = undefined;
+    }
+  }
+}
+
+// ============================================================================
+// Analysis Helpers
+// ============================================================================
+
+function visit(node: RegexNode, callback: (node: RegexNode) => void): void {
+  callback(node);
+  if (node.kind === 'seq') node.items.forEach(item => visit(item, callback));
+  if (node.kind === 'alt') node.options.forEach(option => visit(option, callback));
+  if (node.kind === 'repeat') visit(node.body, callback);
+}
+
+function unwrapAlternation(node: RegexNode): Extract<RegexNode, { kind: 'alt' }> | undefined {
+  if (node.kind === 'alt') return node;
+  if (node.kind === 'seq' && node.items.length === 1 && node.items[0]) return unwrapAlternation(node.items[0]);
+  return undefined;
+}
+
+function nullable(node: RegexNode): boolean {
+  switch (node.kind) {
+    case 'char': return false;
+    case 'assert': return true;
+    case 'seq': return node.items.every(nullable);
+    case 'alt': return node.options.some(nullable);
+    case 'repeat': return node.min === 0 || nullable(node.body);
+  }
+}
+
+/** Matches nothing but the empty string, e.g. a repeated assertion */
+function isEmptyOnly(node: RegexNode): boolean {
+  return chars(node).size === 0;
+}
+
+/** Characters that can begin a match */
+function first(node: RegexNode): CharSet {
+  switch (node.kind) {
+    case 'char': return node.chars;
+    case 'assert': return new Set();
+    case 'alt': return union(node.options.map(first));
+    case 'repeat': return first(node.body);
+    case 'seq': {
+      const sets: CharSet[] = [];
+      for (const item of node.items) {
+        sets.push(first(item));
+        if (!nullable(item)) break;
+      }
+      return union(sets);
+    }
+  }
+}
+
+/** Characters that can appear anywhere in a match */
+function chars(node: RegexNode): CharSet {
+  switch (node.kind) {
+    case 'char': return node.chars;
+    case 'assert': return new Set();
+    case 'seq': return union(node.items.map(chars));
+    case 'alt': return union(node.options.map(chars));
+    case 'repeat': return chars(node.body);
+  }
+}
+
+function range(from: number, to: number): CharSet {
+  return new Set(Array.from({ length: to - from + 1 }, (_, i) => from + i));
+}
+
+function union(sets: CharSet[]): CharSet {
+  const result: CharSet = new Set();
+  for (const set of sets) {
+    for (const code of set) result.add(code);
+  }
+  return result;
+}
+
+function intersects(a: CharSet | undefined, b: CharSet | undefined): boolean {
+  if (!a || !b) return false;
+  for (const code of a) {
+    if (b.has(code)) return true;
+  }
+  return false;
+}
+
+function complement(set: CharSet): CharSet {
+  return new Set([...ANY].filter(code => !set.has(code)));
+}
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+/**
+ * Recursive-descent parser for the JavaScript regex syntax, precise about
+ * structure and approximate about characters outside ASCII
+ */
+class RegexParser {
+  private position = 0;
+
+  constructor(
+    private source: string,
+    private ignoreCase: boolean
+  ) {}
+
+  parse(): RegexNode {
+    const node = this.parseAlternation();
+    if (this.position < this.source.length) {
+      throw new Error(`Unexpected "${this.source[this.position]}" at ${this.position}`);
+    }
+    return node;
+  }
+
+  private parseAlternation(): RegexNode {
+    const options = [this.parseSequence()];
+    while (this.peek() === '|') {
+      this.position++;
+      options.push(this.parseSequence());
+    }
+    return options.length === 1 && options[0] ? options[0] : { kind: 'alt', options };
+  }
+
+  private parseSequence(): RegexNode {
+    const items: RegexNode[] = [];
+    while (this.position < this.source.length && this.peek() !== '|' && this.peek() !== ')') {
+      const start = this.position;
+      const atom = this.parseAtom();
+      items.push(this.parseQuantifier(atom, start));
+    }
+    return { kind: 'seq', items };
+  }
+
+  private parseQuantifier(atom: RegexNode, start: number): RegexNode {
+    let min: number;
+    let max: number;
+    const char = this.peek();
+
+    if (char === '*' || char === '+' || char === '?') {
+      this.position++;
+      min = char === '+' ? 1 : 0;
+      max = char === '?' ? 1 : Infinity;
+    } else if (char === '{') {
+      const bounds = /^\{(\d+)(,(\d*))?\}/.exec(this.source.slice(this.position));
+      if (!bounds) return atom;
+      this.position += bounds[0].length;
+      min = Number(bounds[1]);
+      max = bounds[2] === undefined ? min : bounds[3] ? Number(bounds[3]) : Infinity;
+    } else {
+      return atom;
+    }
+
+    if (this.peek() === '?') this.position++;
+    const repeat: RegexNode = { kind: 'repeat', body: atom, min, max, source: this.source.slice(start, this.position) };
+    return this.parseQuantifier(repeat, start);
+  }
+
+  private parseAtom(): RegexNode {
+    const char = this.source[this.position++] ?? '';
+    switch (char) {
+      case '(': return this.parseGroup();
+      case '[': return { kind: 'char', chars: this.parseClass() };
+      case '\\': return this.parseEscape(false);
+      case '.': return { kind: 'char', chars: ANY };
+      case '^':
+      case '$':
+        return { kind: 'assert' };
+      case '*':
+      case '+':
+      case '?':
+        throw new Error(`Nothing to repeat at ${this.position - 1}`);
+      default:
+        return { kind: 'char', chars: this.literal(char) };
+    }
+  }
+
+  private parseGroup(): RegexNode {
+    const rest = this.source.slice(this.position);
+    const lookaround = /^\?(?:=|!|<=|<!)/.exec(rest);
+    const named = /^\?<[A-Za-z_$][\w$]*>/.exec(rest);
+    if (lookaround) this.position += lookaround[0].length;
+    else if (named) this.position += named[0].length;
+    else if (rest.startsWith('?:')) this.position += 2;
+
+    const body = this.parseAlternation();
+    if (this.source[this.position++] !== ')') {
+      throw new Error('Unterminated group');
+    }
+    // A lookaround's content is checked but consumes nothing
+    return lookaround ? { kind: 'seq', items: [{ kind: 'assert' }, { kind: 'repeat', body, min: 0, max: 1, source: '' }] } : body;
+  }
+
+  private parseClass(): CharSet {
+    const negated = this.peek() === '^';
+    if (negated) this.position++;
+
+    const set: CharSet = new Set();
+    let first = true;
+    while (this.position < this.source.length && (this.peek() !== ']' || first)) {
+      first = false;
+      const from = this.classAtom();
+      if (this.peek() === '-' && this.source[this.position + 1] !== ']' && from.size === 1) {
+        this.position++;
+        const to = this.classAtom();
+        const [start] = from;
+        const [end] = to;
+        if (start !== undefined && end !== undefined && to.size === 1) {
+          for (const code of range(Math.min(start, NON_ASCII), Math.min(end, NON_ASCII))) set.add(code);
+          if (this.ignoreCase) this.addCaseVariants(set);
+          continue;
+        }
+        for (const code of to) set.add(code);
+        set.add(45);
+      }
+      for (const code of from) set.add(code);
+    }
+    if (this.source[this.position++] !== ']') {
+      throw new Error('Unterminated character class');
+    }
+    return negated ? complement(set) : set;
+  }
+
+  private classAtom(): CharSet {
+    const char = this.source[this.position++] ?? '';
+    return char === '\\' ? (this.parseEscape(true) as { chars: CharSet }).chars : this.literal(char);
+  }
+
+  private parseEscape(inClass: boolean): RegexNode {
+    const char = this.source[this.position++] ?? '';
+    switch (char) {
+      case 'd': return { kind: 'char', chars: DIGITS };
+      case 'D': return { kind: 'char', chars: complement(DIGITS) };
+      case 'w': return { kind: 'char', chars: WORD };
+      case 'W': return { kind: 'char', chars: complement(WORD) };
+      case 's': return { kind: 'char', chars: SPACE };
+      case 'S': return { kind: 'char', chars: complement(SPACE) };
+      case 'b':
+      case 'B':
+        return inClass ? { kind: 'char', chars: new Set([8]) } : { kind: 'assert' };
+      case 'n': return { kind: 'char', chars: new Set([10]) };
+      case 'r': return { kind: 'char', chars: new Set([13]) };
+      case 't': return { kind: 'char', chars: new Set([9]) };
+      case 'f': return { kind: 'char', chars: new Set([12]) };
+      case 'v': return { kind: 'char', chars: new Set([11]) };
+      case 'x': return { kind: 'char', chars: this.literal(this.hexEscape(2)) };
+      case 'u': {
+        if (this.peek() === '{') {
+          const end = this.source.indexOf('}', this.position);
+          const code = parseInt(this.source.slice(this.position + 1, end), 16);
+          this.position = end + 1;
+          return { kind: 'char', chars: this.literal(String.fromCodePoint(code)) };
+        }
+        return { kind: 'char', chars: this.literal(this.hexEscape(4)) };
+      }
+      case 'c':
+        this.position++;
+        return { kind: 'char', chars: range(0, 31) };
+      case 'p':
+      case 'P': {
+        const end = this.source.indexOf('}', this.position);
+        this.position = end === -1 ? this.position : end + 1;
+        return { kind: 'char', chars: ANY };
+      }
+      case 'k': {
+        const end = this.source.indexOf('>', this.position);
+        this.position = end === -1 ? this.position : end + 1;
+        return { kind: 'char', chars: ANY };
+      }
+      default:
+        if (/[1-9]/.test(char) && !inClass) {
+          while (/\d/.test(this.peek())) this.position++;
+          return { kind: 'char', chars: ANY };
+        }
+        return { kind: 'char', chars: char === '0' ? new Set([0]) : this.literal(char) };
+    }
+  }
+
+  private hexEscape(length: number): string {
+    const hex = this.source.slice(this.position, this.position + length);
+    this.position += length;
+    return String.fromCharCode(parseInt(hex, 16));
+  }
+
+  private literal(char: string): CharSet {
+    const code = char.codePointAt(0) ?? 0;
+    if (code >= NON_ASCII) return new Set([NON_ASCII]);
+    const set: CharSet = new Set([code]);
+    if (this.ignoreCase) this.addCaseVariants(set);
+    return set;
+  }
+
+  private addCaseVariants(set: CharSet): void {
+    for (const code of [...set]) {
+      if (code >= 65 && code <= 90) set.add(code + 32);
+      if (code >= 97 && code <= 122) set.add(code - 32);
+    }
+  }
+
+  private peek(): string {
+    return this.source[this.position] ?? '';
+  }
+}
@@ -0,0 +1,488 @@
+/**
+ * Pattern Pack Module
+ * Loads versioned pattern packs from JSON or YAML files, applies per-pattern
+ * overrides and hands the result to the heuristic engine, reloading the packs
+ * when their files change
+ */
+
+import { readFileSync, watch, type FSWatcher } from 'fs';
+import { basename, dirname, extname, resolve } from 'path';
+import { createRequire } from 'module';
+import { load as parseYaml, CORE_SCHEMA } from 'js-yaml';
+import { z } from 'zod';
+import type { Logger, MailGuardConfig, PatternOverride, PatternPacksConfig } from '../types.js';
+import { PatternOverrideSchema, PatternPacksConfigSchema, RiskSignalTypeSchema } from '../types.js';
+import { BUILTIN_PATTERNS, setActivePatterns, type PatternDefinition } from './heuristics.js';
+import { hasLintErrors, lintPattern, type PatternLintIssue } from './pattern_lint.js';
+
+const require = createRequire(import.meta.url);
+const packageJson = require('../../package.json') as { version: string };
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const BUILTIN_PACK_NAME = 'builtin';
+
+/** Editors save in several writes; reload once they have finished */
+const RELOAD_DEBOUNCE_MS = 250;
+
+const IDENTIFIER = /^[A-Za-z0-9][\w.-]*$/;
+const SEMVER = /^\d+\.\d+\.\d+(?:[-+][\w.-]+)?$/;
+
+/** `g` and `y` are managed by the engine */
+const REGEX_FLAGS = /^(?!.*(.).*\1)[imsu]*$/;
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+export const PatternPackEntrySchema = z.object({
+  id: z.string().regex(IDENTIFIER, 'Pattern IDs are letters, digits, ".", "_" and "-"'),
+  /** Regular expression source, without delimiters */
+  pattern: z.string().min(1),
+  flags: z.string().regex(REGEX_FLAGS, 'Allowed flags are i, m, s and u').default('i'),
+  type: RiskSignalTypeSchema,
+  severity: z.enum(['low', 'medium', 'high', 'critical']),
+  description: z.string().min(1),
+  weight: z.number().min(0).max(100),
+  language: z.string().min(1).default('en'),
+}).superRefine((entry, ctx) => {
+  try {
+    new RegExp(entry.pattern, entry.flags);
+  } catch (error) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['pattern'],
+      message: error instanceof Error ? error.message : 'Invalid regular expression',
+    });
+  }
+});
+
+export const PatternPackSchema = z.object({
+  name: z.string().regex(IDENTIFIER, 'Pack names are letters, digits, ".", "_" and "-"'),
+  version: z.string().regex(SEMVER, 'Pack versions are semantic versions (1.2.0)'),
+  description: z.string().optional(),
+  patterns: z.array(PatternPackEntrySchema).default([]),
+  /** By pattern ID; may refer to patterns from earlier packs */
+  overrides: z.record(z.string(), PatternOverrideSchema).default({}),
+}).superRefine((pack, ctx) => {
+  const seen = new Set<string>();
+  pack.patterns.forEach((entry, index) => {
+    if (seen.has(entry.id)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['patterns', index, 'id'],
+        message: `Duplicate pattern ID "${entry.id}"`,
+      });
+    }
+    seen.add(entry.id);
+  });
+});
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type PatternPackFailureReason =
+  | 'unreadable'
+  | 'unsupported_format'
+  | 'invalid_syntax'
+  | 'invalid_pack';
+
+export class PatternPackError extends Error {
+  constructor(
+    message: string,
+    readonly reason: PatternPackFailureReason,
+    readonly path?: string
+  ) {
+    super(message);
+    this.name = 'PatternPackError';
+  }
+}
+
+export interface PatternPack {
+  name: string;
+  version: string;
+  description?: string;
+  /** File the pack was loaded from; absent for the built-in pack */
+  path?: string;
+  patterns: PatternDefinition[];
+  overrides: Record<string, PatternOverride>;
+}
+
+export interface ResolvedPattern {
+  definition: PatternDefinition;
+  /** Name of the pack that defined the pattern */
+  pack: string;
+  /** False when disabled by an override or by a lint error */
+  enabled: boolean;
+  /** Backtracking hazards found in the pattern */
+  lint: PatternLintIssue[];
+}
+
+export interface PatternSet {
+  packs: Array<Pick<PatternPack, 'name' | 'version' | 'path'>>;
+  patterns: ResolvedPattern[];
+  /** Override IDs that match no pattern */
+  unknownOverrides: string[];
+}
+
+export interface PatternChange {
+  id: string;
+  before: ResolvedPattern;
+  after: ResolvedPattern;
+  /** Fields that differ: pattern, type, severity, weight, ... */
+  fields: string[];
+}
+
+export interface PatternSetDiff {
+  added: ResolvedPattern[];
+  removed: ResolvedPattern[];
+  changed: PatternChange[];
+}
+
+export type PatternReloadResult =
+  | { status: 'loaded'; patternSet: PatternSet }
+  | { status: 'failed'; error: PatternPackError };
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+/**
+ * The patterns that ship with the plugin, as a pack
+ */
+export function builtinPatternPack(): PatternPack {
+  return {
+    name: BUILTIN_PACK_NAME,
+    version: packageJson.version,
+    patterns: BUILTIN_PATTERNS,
+    overrides: {},
+  };
+}
+
+/**
+ * Parse and validate a pack. `format` is taken from the file extension when
+ * loading from disk.
+ */
+export function parsePatternPack(content: string, format: 'json' | 'yaml', path?: string): PatternPack {
+  const where = path ? ` ${path}` : '';
+
+  let data: unknown;
+  try {
+    data = format === 'json' ? JSON.parse(content) : parseYaml(content, { schema: CORE_SCHEMA });
+  } catch (error) {
+    throw new PatternPackError(
+      `Pattern pack${where} is not valid ${format.toUpperCase()}: ${error instanceof Error ? error.message : String(error)}`,
+      'invalid_syntax',
+      path
+    );
+  }
+
+  const result = PatternPackSchema.safeParse(data);
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    throw new PatternPackError(
+      `Pattern pack${where} is invalid: ${issues.join('; ')}`,
+      'invalid_pack',
+      path
+    );
+  }
+
+  const pack = result.data;
+  return {
+    name: pack.name,
+    version: pack.version,
+    description: pack.description,
+    path,
+    patterns: pack.patterns.map(({ pattern, flags, ...entry }) => ({
+      ...entry,
+      pattern: new RegExp(pattern, flags),
+    })),
+    overrides: pack.overrides,
+  };
+}
+
+export function loadPatternPack(path: string): PatternPack {
+  const extension = extname(path).toLowerCase();
+  const format = extension === '.json' ? 'json' : extension === '.yaml' || extension === '.yml' ? 'yaml' : undefined;
+  if (!format) {
+    throw new PatternPackError(`Pattern pack ${path} must be a .json, .yaml or .yml file`, 'unsupported_format', path);
+  }
+
+  let content: string;
+  try {
+    content = readFileSync(path, 'utf-8');
+  } catch (error) {
+    throw new PatternPackError(
+      `Pattern pack ${path} could not be read: ${error instanceof Error ? error.message : String(error)}`,
+      'unreadable',
+      path
+    );
+  }
+
+  return parsePatternPack(content, format, path);
+}
+
+// ============================================================================
+// Resolution
+// ============================================================================
+
+/**
+ * Apply packs in order. A pattern whose ID is already defined replaces the
+ * earlier definition in place; each pack's overrides apply to everything
+ * defined so far, and `overrides` apply last. Patterns with lint errors are
+ * disabled.
+ */
+export function resolvePatternSet(
+  packs: PatternPack[],
+  overrides: Record<string, PatternOverride> = {}
+): PatternSet {
+  const patterns = new Map<string, ResolvedPattern>();
+  const unknownOverrides = new Set<string>();
+
+  const applyOverrides = (entries: Record<string, PatternOverride>): void => {
+    for (const [id, override] of Object.entries(entries)) {
+      const resolved = patterns.get(id);
+      if (!resolved) {
+        unknownOverrides.add(id);
+        continue;
+      }
+      unknownOverrides.delete(id);
+      patterns.set(id, {
+        ...resolved,
+        enabled: override.enabled ?? resolved.enabled,
+        definition: override.weight === undefined
+          ? resolved.definition
+          : { ...resolved.definition, weight: override.weight },
+      });
+    }
+  };
+
+  for (const pack of packs) {
+    for (const definition of pack.patterns) {
+      const lint = lintPattern(definition.pattern.source, definition.pattern.flags);
+      patterns.set(definition.id, { definition, pack: pack.name, enabled: true, lint });
+    }
+    applyOverrides(pack.overrides);
+  }
+  applyOverrides(overrides);
+
+  return {
+    packs: packs.map(({ name, version, path }) => ({ name, version, path })),
+    // No override can enable a pattern that may backtrack catastrophically
+    patterns: [...patterns.values()].map(pattern => (
+      hasLintErrors(pattern.lint) ? { ...pattern, enabled: false } : pattern
+    )),
+    unknownOverrides: [...unknownOverrides],
+  };
+}
+
+/**
+ * The definitions assessRisk should run, with overridden weights applied
+ */
+export function enabledPatterns(patternSet: PatternSet): PatternDefinition[] {
+  return patternSet.patterns
+    .filter(pattern => pattern.enabled)
+    .map(pattern => pattern.definition);
+}
+
+/**
+ * Patterns added, removed or changed between two sets, by ID
+ */
+export function diffPatternSets(before: PatternSet, after: PatternSet): PatternSetDiff {
+  const previous = new Map(before.patterns.map(p => [p.definition.id, p]));
+  const next = new Map(after.patterns.map(p => [p.definition.id, p]));
+
+  const diff: PatternSetDiff = { added: [], removed: [], changed: [] };
+  for (const [id, pattern] of next) {
+    const old = previous.get(id);
+    if (!old) {
+      diff.added.push(pattern);
+      continue;
+    }
+    const fields = changedFields(old, pattern);
+    if (fields.length > 0) {
+      diff.changed.push({ id, before: old, after: pattern, fields });
+    }
+  }
+  for (const [id, pattern] of previous) {
+    if (!next.has(id)) diff.removed.push(pattern);
+  }
+
+  return diff;
+}
+
+function changedFields(before: ResolvedPattern, after: ResolvedPattern): string[] {
+  const a = before.definition;
+  const b = after.definition;
+  const fields: string[] = [];
+
+  if (a.pattern.source !== b.pattern.source || a.pattern.flags !== b.pattern.flags) fields.push('pattern');
+  if (a.type !== b.type) fields.push('type');
+  if (a.severity !== b.severity) fields.push('severity');
+  if (a.weight !== b.weight) fields.push('weight');
+  if (a.description !== b.description) fields.push('description');
+  if ((a.language ?? 'en') !== (b.language ?? 'en')) fields.push('language');
+  if (before.enabled !== after.enabled) fields.push('enabled');
+  if (before.pack !== after.pack) fields.push('pack');
+
+  return fields;
+}
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+/**
+ * Owns the configured packs and the patterns assessRisk uses. A reload that
+ * fails leaves the previous patterns active.
+ */
+export class PatternRegistry {
+  private config: PatternPacksConfig;
+  private logger: Logger;
+  private current: PatternSet;
+  private watchers: FSWatcher[] = [];
+  private reloadTimer: NodeJS.Timeout | undefined;
+
+  constructor(config: MailGuardConfig, logger: Logger) {
+    this.config = config.patternPacks ?? PatternPacksConfigSchema.parse({});
+    this.logger = logger;
+    this.current = resolvePatternSet([builtinPatternPack()]);
+  }
+
+  get patternSet(): PatternSet {
+    return this.current;
+  }
+
+  /**
+   * Load the configured packs and activate them; throws PatternPackError
+   */
+  load(): PatternSet {
+    const patternSet = resolvePatternSet(this.loadPacks(), this.config.overrides);
+    setActivePatterns(enabledPatterns(patternSet));
+    this.current = patternSet;
+
+    if (patternSet.unknownOverrides.length > 0) {
+      this.logger.warn('Pattern overrides match no pattern', { ids: patternSet.unknownOverrides });
+    }
+    for (const pattern of patternSet.patterns.filter(p => p.lint.length > 0)) {
+      const meta = {
+        patternId: pattern.definition.id,
+        pack: pattern.pack,
+        issues: pattern.lint.map(issue => issue.message),
+      };
+      if (hasLintErrors(pattern.lint)) {
+        this.logger.warn('Pattern disabled: it may backtrack catastrophically', meta);
+      } else {
+        this.logger.debug('Pattern lint warnings', meta);
+      }
+    }
+    this.logger.info('Pattern packs loaded', {
+      packs: patternSet.packs.map(pack => `${pack.name}@${pack.version}`),
+      patterns: patternSet.patterns.length,
+      disabled: patternSet.patterns.filter(pattern => !pattern.enabled).length,
+    });
+
+    return patternSet;
+  }
+
+  /**
+   * Load the packs again, keeping the active patterns if any pack fails
+   */
+  reload(): PatternReloadResult {
+    try {
+      return { status: 'loaded', patternSet: this.load() };
+    } catch (error) {
+      if (!(error instanceof PatternPackError)) throw error;
+      this.logger.error('Pattern pack reload failed; keeping the active patterns', {
+        path: error.path,
+        reason: error.reason,
+        error: error.message,
+      });
+      return { status: 'failed', error };
+    }
+  }
+
+  /**
+   * The patterns the configured packs would give with `pack` in place of the
+   * configured pack of the same name, or after them when there is none.
+   * Nothing is activated; throws PatternPackError.
+   */
+  preview(pack: PatternPack): PatternSet {
+    const packs = this.loadPacks();
+    const index = packs.findIndex(p => p.name === pack.name);
+    if (index === -1) {
+      packs.push(pack);
+    } else {
+      packs[index] = pack;
+    }
+    return resolvePatternSet(packs, this.config.overrides);
+  }
+
+  /**
+   * Reload when a pack file changes. Directories are watched rather than the
+   * files, so packs replaced by a rename (as most editors save) are noticed.
+   */
+  watch(): void {
+    if (this.watchers.length > 0) return;
+
+    const files = new Map<string, Set<string>>();
+    for (const path of this.config.paths.map(p => resolve(p))) {
+      const names = files.get(dirname(path)) ?? new Set<string>();
+      names.add(basename(path));
+      files.set(dirname(path), names);
+    }
+
+    for (const [directory, names] of files) {
+      try {
+        const watcher = watch(directory, (_event, filename) => {
+          if (filename && names.has(filename.toString())) {
+            this.scheduleReload();
+          }
+        });
+        watcher.on('error', error => {
+          this.logger.warn('Pattern pack watcher failed', { directory, error: error.message });
+        });
+        watcher.unref();
+        this.watchers.push(watcher);
+      } catch (error) {
+        this.logger.warn('Pattern pack directory cannot be watched', {
+          directory,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
+  close(): void {
+    for (const watcher of this.watchers) {
+      watcher.close();
+    }
+    this.watchers = [];
+    clearTimeout(this.reloadTimer);
+    this.reloadTimer = undefined;
+  }
+
+  private loadPacks(): PatternPack[] {
+    const packs = this.config.builtin ? [builtinPatternPack()] : [];
+    for (const path of this.config.paths) {
+      packs.push(loadPatternPack(resolve(path)));
+    }
+    return packs;
+  }
+
+  private scheduleReload(): void {
+    clearTimeout(this.reloadTimer);
+    this.reloadTimer = setTimeout(() => {
+      this.reloadTimer = undefined;
+      this.reload();
+    }, RELOAD_DEBOUNCE_MS);
+    this.reloadTimer.unref();
+  }
+}
+
+export function createPatternRegistry(config: MailGuardConfig, logger: Logger): PatternRegistry {
+  return new PatternRegistry(config, logger);
+}
@@ -0,0 +1,168 @@
+/**
+ * Embedded Payload Decoder Module
+ * Finds base64, hex, URL-encoded, quoted-printable and ROT13 runs in text
+ * and decodes them, within bounded size and depth, so they can be scanned
+ */
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Encodings unwrapped from one run, e.g. hex inside base64 */
+const MAX_DECODE_DEPTH = 3;
+
+const MAX_RUN_LENGTH = 16384;
+const MAX_PAYLOADS = 50;
+const MAX_DECODED_TOTAL = 65536;
+
+/** Shorter decodings cannot hold an instruction worth reporting */
+const MIN_DECODED_LENGTH = 8;
+
+/** Share of decoded characters that must be printable for a run to count as text */
+const MIN_PRINTABLE_RATIO = 0.9;
+
+const BASE64_RUN = /[A-Za-z0-9+/_-]{16,}={0,2}/g;
+const HEX_RUN = /(?:(?:\\x|0x)?[0-9a-fA-F]{2}[\s:,]?){8,}/g;
+// Runs only start at a boundary, so a long word without escapes is read once
+const PERCENT_RUN = /(?<![\w.~+-])(?:[\w.~+-]*%[0-9a-fA-F]{2}){2,}[\w.~+-]*/g;
+const QUOTED_PRINTABLE_RUN = /(?<!\S)(?:[^\s=]*=(?:[0-9A-Fa-f]{2}|\r?\n)){3,}[^\s=]*/g;
+/** Three or more words; every word is a ROT13 candidate */
+const WORD_RUN = /[A-Za-z]+(?:[\s,'-]+[A-Za-z]+){2,}/g;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type PayloadEncoding = 'base64' | 'hex' | 'percent' | 'quoted_printable' | 'rot13';
+
+export interface DecodedPayload {
+  /** Encodings applied to reach `decoded`, outermost first */
+  encodings: PayloadEncoding[];
+  /** The outermost run as it appears in the text */
+  encoded: string;
+  decoded: string;
+}
+
+interface Decoder {
+  encoding: PayloadEncoding;
+  run: RegExp;
+  decode: (run: string) => string | undefined;
+}
+
+// ============================================================================
+// Decoders
+// ============================================================================
+
+const DECODERS: Decoder[] = [
+  { encoding: 'base64', run: BASE64_RUN, decode: decodeBase64 },
+  { encoding: 'hex', run: HEX_RUN, decode: decodeHex },
+  { encoding: 'percent', run: PERCENT_RUN, decode: decodePercent },
+  { encoding: 'quoted_printable', run: QUOTED_PRINTABLE_RUN, decode: decodeQuotedPrintable },
+  { encoding: 'rot13', run: WORD_RUN, decode: rot13 },
+];
+
+function decodeBase64(run: string): string | undefined {
+  const normalized = run.replace(/-/g, '+').replace(/_/g, '/').replace(/=+$/, '');
+  if (normalized.length % 4 === 1) return undefined;
+  return asText(Buffer.from(normalized, 'base64'));
+}
+
+function decodeHex(run: string): string | undefined {
+  const digits = run.replace(/\\x|0x|[\s:,]/g, '');
+  if (digits.length % 2 !== 0) return undefined;
+  return asText(Buffer.from(digits, 'hex'));
+}
+
+function decodePercent(run: string): string | undefined {
+  return asText(Buffer.from(
+    run.replace(/\+/g, ' ').replace(/%([0-9a-fA-F]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16))),
+    'latin1'
+  ));
+}
+
+function decodeQuotedPrintable(run: string): string | undefined {
+  return asText(Buffer.from(
+    run.replace(/=\r?\n/g, '').replace(/=([0-9A-Fa-f]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16))),
+    'latin1'
+  ));
+}
+
+function rot13(run: string): string {
+  return run.replace(/[A-Za-z]/g, char => {
+    const base = char <= 'Z' ? 65 : 97;
+    return String.fromCharCode(((char.charCodeAt(0) - base + 13) % 26) + base);
+  });
+}
+
+/**
+ * Decoded bytes as UTF-8, or undefined when they do not read as text
+ */
+function asText(bytes: Buffer): string | undefined {
+  const text = bytes.toString('utf-8');
+  if (text.length < MIN_DECODED_LENGTH) return undefined;
+
+  let unprintable = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (isUnprintable(text.charCodeAt(i))) unprintable++;
+  }
+  return unprintable <= text.length * (1 - MIN_PRINTABLE_RATIO) ? text : undefined;
+}
+
+/**
+ * C0 controls other than tab, line feed and carriage return, DEL, and the
+ * replacement character left by invalid UTF-8
+ */
+function isUnprintable(code: number): boolean {
+  return (code < 0x20 && code !== 0x09 && code !== 0x0A && code !== 0x0D) || code === 0x7F || code === 0xFFFD;
+}
+
+// ============================================================================
+// Payload Discovery
+// ============================================================================
+
+/**
+ * Every run in `text` that decodes to readable text, and every run inside
+ * those, up to MAX_DECODE_DEPTH levels. Structured decoding stops once
+ * MAX_PAYLOADS runs or MAX_DECODED_TOTAL characters have been produced.
+ * ROT13 is tried on every run of words; it never grows the text, so it is
+ * bounded by its input and is not decoded further.
+ */
+export function decodeEmbeddedPayloads(text: string): DecodedPayload[] {
+  const payloads: DecodedPayload[] = [];
+  let structuredCount = 0;
+  let budget = MAX_DECODED_TOTAL;
+
+  const visit = (source: string, outer: DecodedPayload | undefined): void => {
+    for (const decoder of DECODERS) {
+      const isRot13 = decoder.encoding === 'rot13';
+      // Runs are found with a fresh pattern; visiting a decoded run recurses mid-scan
+      const runPattern = new RegExp(decoder.run.source, 'g');
+
+      let match: RegExpExecArray | null;
+      while ((match = runPattern.exec(source)) !== null) {
+        if (!isRot13 && (structuredCount >= MAX_PAYLOADS || budget <= 0)) break;
+
+        const run = match[0].substring(0, MAX_RUN_LENGTH).trim();
+        const decoded = decoder.decode(run);
+        if (decoded === undefined || decoded === run) continue;
+
+        const payload: DecodedPayload = {
+          encodings: [...(outer?.encodings ?? []), decoder.encoding],
+          encoded: outer?.encoded ?? run,
+          decoded,
+        };
+        payloads.push(payload);
+        if (isRot13) continue;
+
+        structuredCount++;
+        budget -= decoded.length;
+        if (payload.encodings.length < MAX_DECODE_DEPTH) {
+          visit(decoded, payload);
+        }
+      }
+    }
+  };
+
+  visit(text, undefined);
+  return payloads;
+}
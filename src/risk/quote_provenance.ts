@@ -0,0 +1,160 @@
+/**
+ * Quote Provenance Module
+ * Scores quoted blocks and their attribution lines apart from the body and
+ * checks attributions against the message's participants
+ */
+
+import type {
+  EmailHeaders,
+  MailGuardConfig,
+  QuotedBlock,
+  RiskSignal,
+  RiskSignalSource,
+} from '../types.js';
+import { assessRisk } from './heuristics.js';
+import { breakdownContributions, type RiskContribution } from './scoring.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const UNKNOWN_AUTHOR_WEIGHT = 20;
+const NOT_A_REPLY_WEIGHT = 10;
+
+/** "On <date>, <name> <address> wrote:" as written by reply quoting */
+const REPLY_ATTRIBUTION = /^On .+ wrote:$/i;
+
+/** The "On" and "wrote:" around the date and author */
+const REPLY_ATTRIBUTION_AFFIXES = /^On\s+|\s*wrote:$/gi;
+
+const EMAIL_ADDRESS = /[\w.+'-]+@[\w-]+(?:\.[\w-]+)+/g;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface QuotedContentResult {
+  signals: RiskSignal[];
+  /** What the signals add to the message score, each with its own weight */
+  contributions: RiskContribution[];
+}
+
+// ============================================================================
+// Quote Assessment
+// ============================================================================
+
+/**
+ * Quoted text is shown to the agent alongside the body, so a payload placed
+ * in a fake quote must be scored like one in the body. Signals keep their
+ * provenance so a reviewer can tell who the text claims to come from.
+ */
+export function assessQuotedContent(
+  quotedBlocks: QuotedBlock[],
+  headers: EmailHeaders,
+  config: MailGuardConfig
+): QuotedContentResult {
+  const result: QuotedContentResult = { signals: [], contributions: [] };
+
+  for (const block of quotedBlocks) {
+    scoreText(block.content, 'quoted', 'quoted text', headers, config, result);
+  }
+
+  const attributions = [...new Set(quotedBlocks.flatMap(block => (block.attribution ? [block.attribution] : [])))];
+  for (const attribution of attributions) {
+    scoreText(attribution, 'attribution', 'quote attribution', headers, config, result);
+  }
+
+  const replyAttributions = attributions.filter(a => REPLY_ATTRIBUTION.test(a));
+  const participants = collectParticipants(headers);
+  const participantNames = collectParticipantNames(headers);
+
+  for (const attribution of replyAttributions) {
+    const addresses = attribution.match(EMAIL_ADDRESS) ?? [];
+    let description: string | undefined;
+    if (addresses.length === 0) {
+      // "On Mon, Bob wrote:" names its author without an address
+      if (!nameWords(attribution.replace(REPLY_ATTRIBUTION_AFFIXES, '')).some(word => participantNames.has(word))) {
+        description = 'Quoted text attributed to a name that matches no participant in this message';
+      }
+    } else {
+      const stranger = addresses.map(address => address.toLowerCase()).find(address => !participants.has(address));
+      if (stranger) {
+        description = `Quoted text attributed to ${stranger}, who is not a participant in this message`;
+      }
+    }
+    if (!description) continue;
+
+    result.signals.push({
+      type: 'quote_attribution_mismatch',
+      severity: 'medium',
+      description,
+      evidence: attribution.substring(0, 100),
+      source: 'attribution',
+    });
+    result.contributions.push({ type: 'quote_attribution_mismatch', severity: 'medium', weight: UNKNOWN_AUTHOR_WEIGHT });
+  }
+
+  if (replyAttributions.length > 0 && !headers.inReplyTo && !headers.references?.length) {
+    result.signals.push({
+      type: 'quote_attribution_mismatch',
+      severity: 'low',
+      description: 'Quoted reply in a message that is not a reply',
+      evidence: replyAttributions[0]!.substring(0, 100),
+      source: 'attribution',
+    });
+    result.contributions.push({ type: 'quote_attribution_mismatch', severity: 'low', weight: NOT_A_REPLY_WEIGHT });
+  }
+
+  return result;
+}
+
+function scoreText(
+  text: string,
+  source: RiskSignalSource,
+  label: string,
+  headers: EmailHeaders,
+  config: MailGuardConfig,
+  result: QuotedContentResult
+): void {
+  const risk = assessRisk(text, [], headers, config, { contentOnly: true });
+  if (risk.signals.length === 0) return;
+
+  // Offsets are relative to the quote, not the body, so they are dropped
+  result.signals.push(...risk.signals.map(({ location: _location, ...signal }) => ({
+    ...signal,
+    description: `${signal.description} (${label})`,
+    source,
+  })));
+  // The quote's own contributions keep each signal's weight and severity
+  if (risk.breakdown) {
+    result.contributions.push(...breakdownContributions(risk.breakdown));
+  }
+}
+
+/**
+ * Addresses on the message; an earlier message in the thread was written by
+ * one of them
+ */
+function collectParticipants(headers: EmailHeaders): Set<string> {
+  const fields = [headers.from, headers.replyTo, ...headers.to, ...(headers.cc ?? [])];
+  return new Set(
+    fields.flatMap(field => (field ?? '').match(EMAIL_ADDRESS) ?? []).map(address => address.toLowerCase())
+  );
+}
+
+/**
+ * Words of the participants' display names and address local parts, so an
+ * attribution by first name ("Bob wrote:") still matches "Bob Smith <bs@...>"
+ */
+function collectParticipantNames(headers: EmailHeaders): Set<string> {
+  const fields = [headers.from, headers.replyTo, ...headers.to, ...(headers.cc ?? [])];
+  return new Set(fields.flatMap(field => {
+    const addresses = (field ?? '').match(EMAIL_ADDRESS) ?? [];
+    const displayName = (field ?? '').replace(EMAIL_ADDRESS, '');
+    return [...nameWords(displayName), ...addresses.flatMap(address => nameWords(address.split('@')[0]!))];
+  }));
+}
+
+function nameWords(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter(word => word.length > 1);
+}
@@ -0,0 +1,116 @@
+/**
+ * Risk Scoring Module
+ * Turns weighted signals into a 0-100 score. Signals are grouped by type;
+ * repeats of a low or medium type count for less each time and every type is
+ * capped, so many weak signals cannot outweigh one severe one. High and
+ * critical types, and types as severe as the most severe one, add up; less
+ * severe types only corroborate, adding their share of the risk left over.
+ */
+
+import {
+  RiskScoringConfigSchema,
+  type MailGuardConfig,
+  type RiskBreakdown,
+  type RiskCategoryScore,
+  type RiskSignal,
+  type RiskSignalType,
+} from '../types.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface RiskContribution {
+  type: RiskSignalType;
+  severity: RiskSignal['severity'];
+  weight: number;
+}
+
+export interface ScoredRisk {
+  score: number;
+  breakdown: RiskBreakdown;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const SEVERITY_RANK: Record<RiskSignal['severity'], number> = {
+  low: 0,
+  medium: 1,
+  high: 2,
+  critical: 3,
+};
+
+// High and critical signals are never decayed or discounted, so an attack
+// that trips several of them keeps the score their weights add up to
+const FULL_WEIGHT_RANK = SEVERITY_RANK.high;
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+/**
+ * Score weighted signals. `trustFactor` scales the combined score, and every
+ * category's contribution with it, for allowlisted senders.
+ */
+export function scoreContributions(
+  contributions: RiskContribution[],
+  config: MailGuardConfig,
+  trustFactor = 1
+): ScoredRisk {
+  const scoring = config.riskScoring ?? RiskScoringConfigSchema.parse({});
+  const byType = new Map<RiskSignalType, RiskContribution[]>();
+  for (const contribution of contributions) {
+    byType.set(contribution.type, [...(byType.get(contribution.type) ?? []), contribution]);
+  }
+
+  const categories = [...byType.entries()].map(([type, entries]) => {
+    const severity = entries.reduce<RiskSignal['severity']>(
+      (max, entry) => (SEVERITY_RANK[entry.severity] > SEVERITY_RANK[max] ? entry.severity : max),
+      'low'
+    );
+    const weights = entries.map(entry => entry.weight).sort((a, b) => b - a);
+    const decay = SEVERITY_RANK[severity] >= FULL_WEIGHT_RANK ? 1 : scoring.repeatDecay;
+    const decayed = weights.reduce((sum, weight, i) => sum + weight * decay ** i, 0);
+    const ceiling = Math.min(scoring.severityCeilings[severity], scoring.categoryCaps[type] ?? 100);
+    return { type, severity, weights, score: Math.min(decayed, ceiling) };
+  });
+
+  categories.sort((a, b) =>
+    SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity] || b.score - a.score || a.type.localeCompare(b.type)
+  );
+
+  const topSeverity = categories[0]?.severity;
+  let combined = 0;
+  const scored: RiskCategoryScore[] = categories.map(category => {
+    const full = category.severity === topSeverity || SEVERITY_RANK[category.severity] >= FULL_WEIGHT_RANK;
+    const share = full ? category.score : category.score * (1 - combined / 100);
+    const contribution = Math.min(share, 100 - combined);
+    combined += contribution;
+    return {
+      ...category,
+      score: round(category.score),
+      contribution: round(contribution * trustFactor),
+    };
+  });
+
+  return {
+    score: Math.round(combined * trustFactor),
+    breakdown: { categories: scored, trustFactor },
+  };
+}
+
+/**
+ * The contributions a breakdown was scored from, each with its category's
+ * severity, so more signals can be scored alongside them
+ */
+export function breakdownContributions(breakdown: RiskBreakdown): RiskContribution[] {
+  return breakdown.categories.flatMap(category =>
+    category.weights.map(weight => ({ type: category.type, severity: category.severity, weight }))
+  );
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,153 @@
+/**
+ * Unicode Analysis Scoring Module
+ * Turns the script mixing and BiDi analyses from sanitization into a report
+ * for the envelope and weighted signals
+ */
+
+import type {
+  MailGuardConfig,
+  RiskSignal,
+  UnicodeAnalysisReport,
+} from '../types.js';
+import { UnicodeAnalysisConfigSchema } from '../types.js';
+import type { SanitizationResult } from '../sanitize/html_to_text.js';
+import type { RiskContribution } from './scoring.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Mixed-script words reported per message */
+const MAX_REPORTED_WORDS = 20;
+
+/** More direction controls than this are suspicious whatever the text direction */
+const MAX_EXPECTED_BIDI_CONTROLS = 5;
+
+const BIDI_CONTROL_NAMES: Record<string, string> = {
+  'U+202A': 'Left-to-right embedding',
+  'U+202B': 'Right-to-left embedding',
+  'U+202D': 'Left-to-right override',
+  'U+202E': 'Right-to-left override',
+  'U+2066': 'Left-to-right isolate',
+  'U+2067': 'Right-to-left isolate',
+};
+
+const DIRECTION_NAMES: Record<UnicodeAnalysisReport['primaryDirection'], string> = {
+  ltr: 'left-to-right',
+  rtl: 'right-to-left',
+  mixed: 'mixed-direction',
+};
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface UnicodeAnalysisResult {
+  signals: RiskSignal[];
+  /** What the signals add to the message score, each with its own weight */
+  contributions: RiskContribution[];
+}
+
+// ============================================================================
+// Report
+// ============================================================================
+
+/**
+ * The analyses in a form that survives JSON serialization
+ */
+export function describeUnicodeAnalysis(result: SanitizationResult): UnicodeAnalysisReport {
+  return {
+    scripts: [...(result.scriptAnalysis?.scripts ?? [])],
+    mixedScriptWords: (result.scriptAnalysis?.mixedScriptWords ?? [])
+      .slice(0, MAX_REPORTED_WORDS)
+      .map(({ word, scripts, confidence }) => ({ word, scripts, confidence })),
+    primaryDirection: result.bidiAnalysis?.primaryDirection ?? 'ltr',
+    bidiControlCount: result.bidiAnalysis?.overrideCount ?? 0,
+    suspiciousBidiSpans: result.bidiAnalysis?.suspiciousSpans ?? [],
+  };
+}
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+/**
+ * One script_mixing signal per mixed-script word, weighted by its confidence,
+ * and one bidi_abuse signal per override that contradicts the text direction.
+ * Each kind is scaled down to its own cap, so many mixed-script words never
+ * dilute a direction override. Locations point into `bodyText` where the word
+ * or span text can be found.
+ */
+export function assessUnicodeAnalysis(
+  report: UnicodeAnalysisReport,
+  bodyText: string,
+  config: MailGuardConfig
+): UnicodeAnalysisResult {
+  const unicodeConfig = config.unicodeAnalysis ?? UnicodeAnalysisConfigSchema.parse({});
+  const result: UnicodeAnalysisResult = { signals: [], contributions: [] };
+  if (!unicodeConfig.enabled) {
+    return result;
+  }
+
+  const scriptContributions: RiskContribution[] = [];
+  let cursor = 0;
+  for (const word of report.mixedScriptWords) {
+    const start = bodyText.indexOf(word.word, cursor);
+    if (start !== -1) cursor = start + word.word.length;
+
+    const severity = word.confidence >= 0.8 ? 'high' : word.confidence >= 0.5 ? 'medium' : 'low';
+    result.signals.push({
+      type: 'script_mixing',
+      severity,
+      description: `Mixed-script word "${word.word}" (${word.scripts.join(', ')})`,
+      evidence: word.word,
+      location: start !== -1 ? { start, end: start + word.word.length } : undefined,
+    });
+    scriptContributions.push({
+      type: 'script_mixing',
+      severity,
+      weight: Math.round(unicodeConfig.mixedScriptWordWeight * word.confidence),
+    });
+  }
+
+  const bidiContributions: RiskContribution[] = [];
+  const direction = DIRECTION_NAMES[report.primaryDirection];
+  for (const span of report.suspiciousBidiSpans) {
+    const start = span.text ? bodyText.indexOf(span.text) : -1;
+
+    result.signals.push({
+      type: 'bidi_abuse',
+      severity: 'high',
+      description: `${BIDI_CONTROL_NAMES[span.control] ?? 'Direction control'} (${span.control}) in ${direction} text`,
+      evidence: span.text,
+      location: start !== -1 ? { start, end: start + span.text.length } : undefined,
+    });
+    bidiContributions.push({ type: 'bidi_abuse', severity: 'high', weight: unicodeConfig.bidiOverrideWeight });
+  }
+
+  if (report.suspiciousBidiSpans.length === 0 && report.bidiControlCount > MAX_EXPECTED_BIDI_CONTROLS) {
+    result.signals.push({
+      type: 'bidi_abuse',
+      severity: 'medium',
+      description: `${report.bidiControlCount} direction control characters`,
+    });
+    bidiContributions.push({ type: 'bidi_abuse', severity: 'medium', weight: unicodeConfig.bidiOverrideWeight });
+  }
+
+  result.contributions.push(
+    ...capWeights(scriptContributions, unicodeConfig.maxMixedScriptWeight),
+    ...capWeights(bidiContributions, unicodeConfig.maxBidiWeight)
+  );
+  return result;
+}
+
+/**
+ * Scale contributions down evenly so that their weights add up to at most `cap`
+ */
+function capWeights(contributions: RiskContribution[], cap: number): RiskContribution[] {
+  const total = contributions.reduce((sum, contribution) => sum + contribution.weight, 0);
+  if (total <= cap) {
+    return contributions;
+  }
+  return contributions.map(contribution => ({ ...contribution, weight: contribution.weight * cap / total }));
+}
@@ -0,0 +1,215 @@
+/**
+ * Attachment Scanner
+ * Extracts text from text-like attachments and scores it like a message body
+ */
+
+import type {
+  AttachmentMetadata,
+  AttachmentScanningConfig,
+  EmailHeaders,
+  GmailMessagePart,
+  GmailMessagePayload,
+  MailGuardConfig,
+} from '../types.js';
+import { AttachmentScanningConfigSchema, CalendarInvitesConfigSchema } from '../types.js';
+import { assessRisk, foldAttachmentRisk } from '../risk/heuristics.js';
+import {
+  collectAttachmentParts,
+  describeAttachment,
+  extractBodyContent,
+  sanitizeEmailContent,
+} from './html_to_text.js';
+import { parseMimeMessage } from './mime_parser.js';
+import { parseICalendar } from './icalendar.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Attached messages inside attached messages are followed this deep */
+const MAX_MESSAGE_DEPTH = 3;
+
+/** Bytes inspected when deciding whether content is text */
+const BINARY_SNIFF_BYTES = 8192;
+
+type TextFormat = 'html' | 'message' | 'calendar' | 'text';
+
+const FORMAT_BY_EXTENSION: Record<string, TextFormat> = {
+  html: 'html', htm: 'html', xhtml: 'html',
+  eml: 'message',
+  ics: 'calendar', ical: 'calendar', ifb: 'calendar',
+  txt: 'text', text: 'text', csv: 'text', tsv: 'text', md: 'text', log: 'text',
+  json: 'text', xml: 'text', yaml: 'text', yml: 'text', vcf: 'text',
+};
+
+const FORMAT_BY_MIME_TYPE: Record<string, TextFormat> = {
+  'text/html': 'html',
+  'application/xhtml+xml': 'html',
+  'message/rfc822': 'message',
+  'text/calendar': 'calendar',
+  'application/ics': 'calendar',
+  'application/json': 'text',
+  'application/xml': 'text',
+  'application/csv': 'text',
+};
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface ScanState {
+  config: AttachmentScanningConfig;
+  mailGuardConfig: MailGuardConfig;
+  headers: EmailHeaders;
+  /** Calendar attachments of the message itself are read by the calendar scanner */
+  calendarInvites: boolean;
+  scanned: number;
+}
+
+// ============================================================================
+// Attachment Scanning
+// ============================================================================
+
+/**
+ * Describe every attachment and, for text-like ones whose content is in the
+ * payload, sanitize and score the extracted text. Attachments fetched
+ * separately (Gmail `attachmentId`) are listed as not downloaded.
+ */
+export function scanAttachments(
+  payload: GmailMessagePayload,
+  headers: EmailHeaders,
+  config: MailGuardConfig
+): AttachmentMetadata[] {
+  const scanConfig = config.attachmentScanning ?? AttachmentScanningConfigSchema.parse({});
+  if (!scanConfig.enabled) {
+    return collectAttachmentParts(payload).map(describeAttachment);
+  }
+
+  const state: ScanState = {
+    config: scanConfig,
+    mailGuardConfig: config,
+    headers,
+    calendarInvites: (config.calendarInvites ?? CalendarInvitesConfigSchema.parse({})).enabled,
+    scanned: 0,
+  };
+
+  return collectAttachmentParts(payload).map(part => scanPart(part, state, 0));
+}
+
+function scanPart(part: GmailMessagePart, state: ScanState, depth: number): AttachmentMetadata {
+  const attachment = describeAttachment(part);
+
+  const format = detectTextFormat(part.mimeType, part.filename);
+  if (!format) {
+    return { ...attachment, scanStatus: 'unsupported' };
+  }
+  if (!part.body.data) {
+    return { ...attachment, scanStatus: 'not_downloaded' };
+  }
+  if (format === 'calendar' && depth === 0 && state.calendarInvites) {
+    return { ...attachment, scanStatus: 'calendar' };
+  }
+  if (part.body.size > state.config.maxAttachmentBytes) {
+    return { ...attachment, scanStatus: 'too_large' };
+  }
+  if (state.scanned >= state.config.maxAttachments) {
+    return { ...attachment, scanStatus: 'limit_reached' };
+  }
+  state.scanned++;
+
+  const content = Buffer.from(part.body.data, 'base64');
+  if (format !== 'message' && looksBinary(content)) {
+    return { ...attachment, scanStatus: 'unsupported' };
+  }
+
+  const { html, plain, nested } = extractText(format, content, depth);
+  const sanitized = sanitizeEmailContent(html, plain, state.mailGuardConfig.maxBodyLength);
+  const bodyRisk = assessRisk(
+    sanitized.bodyText,
+    sanitized.links,
+    state.headers,
+    state.mailGuardConfig,
+    // Sender checks describe the message, not its attachments, and are scored once
+    { hiddenContent: sanitized.hiddenContent, encodedText: sanitized.encodedText, contentOnly: true }
+  );
+
+  // An attached message is as risky as its riskiest attachment
+  const nestedAttachments = nested.map(nestedPart => scanPart(nestedPart, state, depth + 1));
+
+  return {
+    ...attachment,
+    scanStatus: 'scanned',
+    riskScore: foldAttachmentRisk(bodyRisk, nestedAttachments, state.mailGuardConfig),
+  };
+}
+
+// ============================================================================
+// Text Extraction
+// ============================================================================
+
+function detectTextFormat(mimeType: string, filename: string): TextFormat | undefined {
+  const type = mimeType.toLowerCase();
+  const byType = FORMAT_BY_MIME_TYPE[type];
+  if (byType) return byType;
+
+  const extension = filename.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1];
+  const byExtension = extension ? FORMAT_BY_EXTENSION[extension] : undefined;
+  if (byExtension) return byExtension;
+
+  return type.startsWith('text/') ? 'text' : undefined;
+}
+
+function extractText(
+  format: TextFormat,
+  content: Buffer,
+  depth: number
+): { html?: string; plain?: string; nested: GmailMessagePart[] } {
+  switch (format) {
+    case 'html':
+      return { html: decodeText(content), nested: [] };
+    case 'calendar':
+      return { plain: calendarText(decodeText(content)), nested: [] };
+    case 'message': {
+      const message = parseMimeMessage(content);
+      const { html, plain } = extractBodyContent(message);
+      const subject = message.payload.headers.find(h => h.name.toLowerCase() === 'subject')?.value;
+      return {
+        html: html && subject ? `<p>${escapeHtml(subject)}</p>${html}` : html,
+        plain: subject ? `${subject}\n\n${plain ?? ''}` : plain,
+        nested: depth + 1 < MAX_MESSAGE_DEPTH ? collectAttachmentParts(message) : [],
+      };
+    }
+    default:
+      return { plain: decodeText(content), nested: [] };
+  }
+}
+
+/**
+ * Attachment bytes carry no charset after Gmail delivery; prefer UTF-8 and
+ * fall back to Latin-1
+ */
+function decodeText(content: Buffer): string {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(content);
+  } catch {
+    return content.toString('latin1');
+  }
+}
+
+function looksBinary(content: Buffer): boolean {
+  return content.subarray(0, BINARY_SNIFF_BYTES).includes(0);
+}
+
+/**
+ * The text fields of every event, one after another
+ */
+function calendarText(ics: string): string {
+  return parseICalendar(ics)
+    .flatMap(event => [event.summary, event.location, event.description, event.comment])
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
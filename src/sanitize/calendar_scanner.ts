@@ -0,0 +1,267 @@
+/**
+ * Calendar Invite Scanner
+ * Parses text/calendar parts, sanitizes and scores their text fields, and
+ * checks organizers and attendees against the message
+ */
+
+import type {
+  CalendarEvent,
+  CalendarParticipant,
+  EmailHeaders,
+  GmailMessagePart,
+  GmailMessagePayload,
+  MailGuardConfig,
+  RiskScore,
+  RiskSignal,
+} from '../types.js';
+import { CalendarInvitesConfigSchema } from '../types.js';
+import { assessRisk } from '../risk/heuristics.js';
+import { breakdownContributions, type RiskContribution } from '../risk/scoring.js';
+import { createExtractedLink, sanitizeEmailContent } from './html_to_text.js';
+import { parseICalendar, type ICalendarEvent } from './icalendar.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const CALENDAR_MIME_TYPES = new Set(['text/calendar', 'application/ics']);
+
+const ORGANIZER_MISMATCH_WEIGHT = 20;
+const EXTERNAL_ATTENDEE_WEIGHT = 15;
+
+/** External addresses quoted as evidence */
+const MAX_EVIDENCE_ADDRESSES = 5;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface CalendarScanResult {
+  events: CalendarEvent[];
+  signals: RiskSignal[];
+  /** What the signals add to the message score, each with its own weight */
+  contributions: RiskContribution[];
+}
+
+// ============================================================================
+// Calendar Scanning
+// ============================================================================
+
+/**
+ * Read every calendar invite in the message, inline or attached. Clients
+ * usually send the same event twice (a text/calendar alternative and an
+ * invite.ics attachment), so events are deduplicated by UID and sequence.
+ */
+export function scanCalendarInvites(
+  payload: GmailMessagePayload,
+  headers: EmailHeaders,
+  config: MailGuardConfig
+): CalendarScanResult {
+  const calendarConfig = config.calendarInvites ?? CalendarInvitesConfigSchema.parse({});
+  const result: CalendarScanResult = { events: [], signals: [], contributions: [] };
+  if (!calendarConfig.enabled) {
+    return result;
+  }
+
+  const internalDomains = new Set(
+    (calendarConfig.internalDomains.length > 0
+      ? calendarConfig.internalDomains
+      : headers.to.map(domainOf)
+    ).map(d => d.toLowerCase()).filter(Boolean)
+  );
+
+  const seen = new Set<string>();
+  for (const content of collectCalendarContent(payload.payload)) {
+    for (const event of parseICalendar(content)) {
+      const key = event.uid
+        ? `${event.uid}|${event.recurrenceId ?? ''}|${event.sequence ?? 0}`
+        : `${event.summary ?? ''}|${event.start ?? ''}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      scanEvent(event, headers, internalDomains, config, result);
+    }
+  }
+
+  return result;
+}
+
+function scanEvent(
+  event: ICalendarEvent,
+  headers: EmailHeaders,
+  internalDomains: Set<string>,
+  config: MailGuardConfig,
+  result: CalendarScanResult
+): void {
+  const label = event.summary ? `"${event.summary.slice(0, 60)}"` : 'invite';
+
+  // Clients show either description, so an HTML one never stands in for the plain one.
+  // CN parameters are display names the sender chose, so they are scanned like text.
+  const fields: Array<[string, string | undefined, string | undefined]> = [
+    ['SUMMARY', undefined, event.summary],
+    ['DESCRIPTION', undefined, event.description],
+    ['X-ALT-DESC', event.htmlDescription, undefined],
+    ['LOCATION', undefined, event.location],
+    ['COMMENT', undefined, event.comment],
+    ['ORGANIZER CN', undefined, event.organizer?.name],
+    ['ATTENDEE CN', undefined, event.attendees.map(attendee => attendee.name).filter(Boolean).join('\n')],
+  ];
+  const sanitizedText: Record<string, string | undefined> = {};
+
+  for (const [field, html, plain] of fields) {
+    if (!html && !plain) continue;
+
+    const sanitized = sanitizeEmailContent(html, plain, config.maxBodyLength);
+    sanitizedText[field] = sanitized.bodyText;
+
+    addFieldRisk(field, assessRisk(sanitized.bodyText, sanitized.links, headers, config, {
+      hiddenContent: sanitized.hiddenContent,
+      encodedText: sanitized.encodedText,
+      contentOnly: true,
+    }), result);
+  }
+
+  // URL, ATTACH and conference links get the same checks as links in the body
+  if (event.urls.length > 0) {
+    addFieldRisk('URL', assessRisk('', event.urls.map(createExtractedLink), headers, config, {
+      contentOnly: true,
+    }), result);
+  }
+
+  const organizerSignal = checkOrganizer(event.organizer, headers, label);
+  if (organizerSignal) {
+    result.signals.push(organizerSignal);
+    result.contributions.push({ type: organizerSignal.type, severity: organizerSignal.severity, weight: ORGANIZER_MISMATCH_WEIGHT });
+  }
+
+  const attendeeSignal = checkAttendees(event, internalDomains, label);
+  if (attendeeSignal) {
+    result.signals.push(attendeeSignal);
+    result.contributions.push({ type: attendeeSignal.type, severity: attendeeSignal.severity, weight: EXTERNAL_ATTENDEE_WEIGHT });
+  }
+
+  result.events.push({
+    method: event.method,
+    uid: event.uid,
+    sequence: event.sequence,
+    summary: sanitizedText['SUMMARY'],
+    description: sanitizedText['DESCRIPTION'] ?? sanitizedText['X-ALT-DESC'],
+    location: sanitizedText['LOCATION'],
+    organizer: event.organizer && sanitizeParticipant(event.organizer, config),
+    attendees: event.attendees.map(attendee => sanitizeParticipant(attendee, config)),
+    start: event.start,
+    end: event.end,
+    timezone: event.timezone,
+    urls: event.urls,
+  });
+}
+
+/**
+ * Add a field's signals, labelled with the field they came from, and the
+ * contributions they were scored from
+ */
+function addFieldRisk(field: string, fieldRisk: RiskScore, result: CalendarScanResult): void {
+  result.signals.push(...fieldRisk.signals.map(signal => ({
+    ...signal,
+    description: `${signal.description} (calendar ${field})`,
+  })));
+  if (fieldRisk.breakdown) {
+    result.contributions.push(...breakdownContributions(fieldRisk.breakdown));
+  }
+}
+
+/**
+ * Sanitize a participant's display name the way the text fields are
+ */
+function sanitizeParticipant(participant: CalendarParticipant, config: MailGuardConfig): CalendarParticipant {
+  if (!participant.name) return participant;
+  const name = sanitizeEmailContent(undefined, participant.name, config.maxBodyLength).bodyText;
+  return { ...participant, name: name || undefined };
+}
+
+/**
+ * An invite whose organizer is in another domain than the sender claims a
+ * meeting on someone else's behalf, unless the sender is its SENT-BY delegate
+ */
+function checkOrganizer(
+  organizer: CalendarParticipant | undefined,
+  headers: EmailHeaders,
+  label: string
+): RiskSignal | undefined {
+  if (!organizer) return undefined;
+
+  const sender = addressOf(headers.from);
+  const senderDomain = domainOf(sender);
+  if (!senderDomain || domainOf(organizer.address) === senderDomain || organizer.sentBy === sender) {
+    return undefined;
+  }
+
+  return {
+    type: 'calendar_organizer_mismatch',
+    severity: 'medium',
+    description: `Invite ${label} organized by ${organizer.address} was sent by ${sender}`,
+    evidence: organizer.address,
+  };
+}
+
+/**
+ * External attendees on a meeting organized inside the recipients'
+ * organization can be used to pull outsiders into internal discussions
+ */
+function checkAttendees(
+  event: ICalendarEvent,
+  internalDomains: Set<string>,
+  label: string
+): RiskSignal | undefined {
+  if (!event.organizer || !internalDomains.has(domainOf(event.organizer.address))) {
+    return undefined;
+  }
+
+  const external = event.attendees
+    .map(attendee => attendee.address)
+    .filter(address => !internalDomains.has(domainOf(address)));
+  if (external.length === 0) return undefined;
+
+  return {
+    type: 'calendar_external_attendee',
+    severity: 'medium',
+    description: `Internal meeting ${label} includes ${external.length} external attendee${external.length === 1 ? '' : 's'}`,
+    evidence: external.slice(0, MAX_EVIDENCE_ADDRESSES).join(', '),
+  };
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Decoded calendar parts whose content is in the payload, in document order
+ */
+function collectCalendarContent(root: GmailMessagePart | GmailMessagePayload['payload']): string[] {
+  const contents: string[] = [];
+
+  function processPartRecursive(part: GmailMessagePart | GmailMessagePayload['payload']): void {
+    if (part.body.data && isCalendarPart(part.mimeType, part.filename)) {
+      contents.push(Buffer.from(part.body.data, 'base64').toString('utf-8'));
+    }
+    part.parts?.forEach(processPartRecursive);
+  }
+
+  processPartRecursive(root);
+  return contents;
+}
+
+function isCalendarPart(mimeType: string, filename: string): boolean {
+  return CALENDAR_MIME_TYPES.has(mimeType.toLowerCase().split(';')[0]!.trim())
+    || /\.(ics|ical|ifb)$/i.test(filename);
+}
+
+function addressOf(from: string): string {
+  const match = from.match(/<([^>]+)>/);
+  return (match?.[1] ?? from).trim().toLowerCase();
+}
+
+function domainOf(address: string): string {
+  const at = address.lastIndexOf('@');
+  return at === -1 ? '' : address.slice(at + 1).replace(/>$/, '').trim().toLowerCase();
+}
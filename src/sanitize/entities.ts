@@ -0,0 +1,108 @@
+/**
+ * Character Reference Decoding Module
+ * Decodes HTML character references the way a browser does and finds text
+ * that used them to spell ordinary characters
+ */
+
+import { decodeHTML } from 'entities';
+import type { EncodedTextFinding } from '../types.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Decoding passes; each one unwraps a level of `&amp;#105;`-style nesting */
+const MAX_DECODE_ROUNDS = 4;
+
+const CHARACTER_REFERENCE = /&(?:#[xX][0-9a-fA-F]{1,8}|#[0-9]{1,10}|[A-Za-z][A-Za-z0-9]{1,31});?/g;
+
+/** A reference whose own ampersand is escaped, e.g. `&amp;#105;` */
+const NESTED_REFERENCE = /^&amp;(?:amp;)*(?:#[xX]?[0-9a-fA-F]+;?|[A-Za-z][A-Za-z0-9]*;)/i;
+
+/**
+ * ASCII characters that never need escaping; markup-significant ones
+ * (& < > " ') are routinely written as references by legitimate mailers
+ */
+const PLAIN_ASCII = /^[\t\n !#-%(-;=?-~]$/;
+
+const TAG = /<[^>]*>/g;
+
+// Context kept around a reference, in source characters
+const WINDOW_BEFORE = 200;
+const WINDOW_AFTER = 400;
+const MAX_FINDINGS = 20;
+
+// ============================================================================
+// Decoding
+// ============================================================================
+
+export interface DecodeResult {
+  text: string;
+  /** Passes that changed the text */
+  rounds: number;
+}
+
+/**
+ * Decode named, decimal and hex references per the WHATWG tables, repeating
+ * until the text is stable so double-encoded references are unwrapped too
+ */
+export function decodeCharacterReferences(text: string): DecodeResult {
+  let result = text;
+  let rounds = 0;
+
+  while (rounds < MAX_DECODE_ROUNDS && result.includes('&')) {
+    const decoded = decodeHTML(result);
+    if (decoded === result) break;
+    result = decoded;
+    rounds++;
+  }
+
+  return { text: result, rounds };
+}
+
+// ============================================================================
+// Obfuscation Detection
+// ============================================================================
+
+/**
+ * Windows of the source around references that spell plain ASCII
+ * (`&#105;gnore`) or are nested (`&amp;#105;`). Nothing legitimate needs
+ * either, so the decoded windows are scanned as a separate corpus.
+ */
+export function findEncodedText(source: string): EncodedTextFinding[] {
+  const findings: EncodedTextFinding[] = [];
+  let coveredUntil = 0;
+
+  CHARACTER_REFERENCE.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = CHARACTER_REFERENCE.exec(source)) !== null && findings.length < MAX_FINDINGS) {
+    if (match.index < coveredUntil || !spellsOrdinaryText(source, match.index, match[0])) continue;
+
+    const start = windowStart(source, match.index);
+    const end = windowEnd(source, match.index + WINDOW_AFTER);
+    coveredUntil = end;
+
+    const encoded = source.slice(start, end).replace(TAG, ' ');
+    findings.push({ encoded, decoded: decodeCharacterReferences(encoded).text });
+  }
+
+  return findings;
+}
+
+function spellsOrdinaryText(source: string, index: number, reference: string): boolean {
+  if (NESTED_REFERENCE.test(source.slice(index, index + 48))) return true;
+  return PLAIN_ASCII.test(decodeHTML(reference));
+}
+
+/** Start of the line holding `index`, at most a window's width before it */
+function windowStart(source: string, index: number): number {
+  const lineStart = source.lastIndexOf('\n', index - 1) + 1;
+  return Math.max(lineStart, index - WINDOW_BEFORE);
+}
+
+/** `limit`, moved back so the window never ends inside a reference */
+function windowEnd(source: string, limit: number): number {
+  if (limit >= source.length) return source.length;
+  const ampersand = source.lastIndexOf('&', limit);
+  return ampersand > limit - 12 ? ampersand : limit;
+}
@@ -3,9 +3,6 @@
  * Converts email content to safe, canonical plaintext
  */
 
-import { readFileSync } from 'fs';
-import { fileURLToPath } from 'url';
-import { dirname, join } from 'path';
 import type {
   ExtractedLink,
   QuotedBlock,
@@ -14,49 +11,13 @@ import type {
   AuthenticationResults,
   GmailMessagePayload,
   GmailMessagePart,
+  HiddenContentFinding,
+  EncodedTextFinding,
+  BiDiSpan,
 } from '../types.js';
 import { analyzeScriptMixing, type ScriptAnalysis } from './script_analyzer.js';
-
-// ============================================================================
-// Confusables Database
-// ============================================================================
-
-interface ConfusablesData {
-  confusables: Record<string, Record<string, string>>;
-}
-
-// Load confusables database at module initialization
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
-const confusablesPath = join(__dirname, '..', 'data', 'confusables.json');
-
-function loadConfusables(): Map<string, string> {
-  const map = new Map<string, string>();
-  try {
-    const data = JSON.parse(readFileSync(confusablesPath, 'utf-8')) as ConfusablesData;
-    for (const category of Object.values(data.confusables)) {
-      for (const [confusable, ascii] of Object.entries(category)) {
-        // Skip metadata fields starting with underscore
-        if (!confusable.startsWith('_') && typeof ascii === 'string') {
-          map.set(confusable, ascii);
-        }
-      }
-    }
-  } catch {
-    // Fall back to minimal hardcoded set if file not found
-    const fallback: Record<string, string> = {
-      'а': 'a', 'е': 'e', 'о': 'o', 'р': 'p', 'с': 'c',
-      'у': 'y', 'х': 'x', 'ѕ': 's', 'і': 'i', 'ј': 'j',
-    };
-    for (const [k, v] of Object.entries(fallback)) {
-      map.set(k, v);
-    }
-  }
-  return map;
-}
-
-// Initialize confusables map
-const CONFUSABLES_MAP = loadConfusables();
+import { renderVisibleText } from './html_visibility.js';
+import { decodeCharacterReferences, findEncodedText } from './entities.js';
 
 // ============================================================================
 // Constants
@@ -67,6 +28,13 @@ const ZERO_WIDTH_CHARS = /[\u200B-\u200D\uFEFF\u2060\u180E]/g;
 const BIDI_OVERRIDE_CHARS = /[\u202A-\u202E\u2066-\u2069]/g;
 const HIDDEN_UNICODE = /[\u2028\u2029]/g; // Line/paragraph separators only
 
+// Text kept per suspicious BiDi span
+const MAX_BIDI_SPAN_LENGTH = 100;
+
+// Forensic budget for removed text kept on hidden-content findings
+const MAX_HIDDEN_FRAGMENT_LENGTH = 500;
+const MAX_HIDDEN_TEXT_LENGTH = 4000;
+
 // RTL script ranges for direction detection
 const RTL_SCRIPT_RANGES: Array<[number, number]> = [
   [0x0590, 0x05FF], // Hebrew
@@ -79,11 +47,6 @@ const RTL_SCRIPT_RANGES: Array<[number, number]> = [
 ];
 const EXCESSIVE_WHITESPACE = /[\t ]{3,}/g;
 const MULTIPLE_NEWLINES = /\n{4,}/g;
-const HTML_COMMENT = /<!--[\s\S]*?-->/g;
-const STYLE_TAG = /<style[^>]*>[\s\S]*?<\/style>/gi;
-const SCRIPT_TAG = /<script[^>]*>[\s\S]*?<\/script>/gi;
-const HIDDEN_ELEMENT = /<[^>]+(?:display\s*:\s*none|visibility\s*:\s*hidden|font-size\s*:\s*0|opacity\s*:\s*0)[^>]*>[\s\S]*?<\/[^>]+>/gi;
-const HTML_TAG = /<[^>]+>/g;
 
 // URL extraction patterns
 const URL_PATTERN = /https?:\/\/[^\s<>"')\]]+/gi;
@@ -128,13 +91,18 @@ export interface BiDiAnalysis {
   suspiciousOverrides: boolean;
   /** Locations of suspicious overrides */
   suspiciousLocations: number[];
+  /** Text each suspicious override applies to */
+  suspiciousSpans: BiDiSpan[];
 }
 
 export interface SanitizationResult {
   bodyText: string;
   quotedBlocks: QuotedBlock[];
   links: ExtractedLink[];
-  hiddenContentRemoved: boolean;
+  /** What was removed as invisible to a reader, and why */
+  hiddenContent: HiddenContentFinding[];
+  /** Text spelled with character references; scanned for keywords, never sent to the agent */
+  encodedText: EncodedTextFinding[];
   encodingNormalized: boolean;
   originalLength: number;
   sanitizedLength: number;
@@ -225,6 +193,27 @@ function analyzeBiDi(text: string): BiDiAnalysis {
     overrideCount: overrideMatches.length,
     suspiciousOverrides,
     suspiciousLocations,
+    suspiciousSpans: suspiciousLocations.map(location => describeBiDiSpan(text, location)),
+  };
+}
+
+/**
+ * An embedding or override runs to its PDF, an isolate to its PDI, and
+ * either ends at the end of the paragraph
+ */
+function describeBiDiSpan(text: string, location: number): BiDiSpan {
+  const codePoint = text.codePointAt(location) ?? 0;
+  const terminator = codePoint >= 0x2066 ? '\u2069' : '\u202C';
+
+  let end = text.length;
+  for (const stop of [terminator, '\n']) {
+    const index = text.indexOf(stop, location + 1);
+    if (index !== -1 && index < end) end = index;
+  }
+
+  return {
+    control: `U+${codePoint.toString(16).toUpperCase()}`,
+    text: text.slice(location + 1, end).replace(BIDI_OVERRIDE_CHARS, '').trim().substring(0, MAX_BIDI_SPAN_LENGTH),
   };
 }
 
@@ -248,7 +237,7 @@ export function sanitizeEmailContent(
   maxLength: number
 ): SanitizationResult {
   const startLength = (htmlContent?.length ?? 0) + (plainContent?.length ?? 0);
-  let hiddenContentRemoved = false;
+  const hiddenContent: HiddenContentFinding[] = [];
   let encodingNormalized = false;
 
   // Extract links from HTML before stripping tags
@@ -257,13 +246,18 @@ export function sanitizeEmailContent(
   // Convert HTML to text
   let text = '';
   if (htmlContent) {
-    const htmlResult = htmlToText(htmlContent);
+    const htmlResult = renderVisibleText(htmlContent);
     text = htmlResult.text;
-    hiddenContentRemoved = htmlResult.hiddenContentRemoved;
+    hiddenContent.push(...htmlResult.hiddenContent);
   } else if (plainContent) {
     text = plainContent;
   }
 
+  // The parser decodes one level of references; plain text and nested ones are decoded here
+  const decodeResult = decodeCharacterReferences(text);
+  text = decodeResult.text;
+  const encodedText = findEncodedText(htmlContent ?? plainContent ?? '');
+
   // Perform script mixing analysis BEFORE normalization to detect homoglyphs
   const scriptAnalysis = analyzeScriptMixing(text);
 
@@ -273,27 +267,40 @@ export function sanitizeEmailContent(
   // Normalize encoding
   const normalizedResult = normalizeEncoding(text);
   text = normalizedResult.text;
-  encodingNormalized = normalizedResult.modified;
+  encodingNormalized = normalizedResult.modified || decodeResult.rounds > 0;
 
   // Remove zero-width characters
   const beforeZeroWidth = text;
   text = text.replace(ZERO_WIDTH_CHARS, '');
   if (text !== beforeZeroWidth) {
-    hiddenContentRemoved = true;
+    hiddenContent.push({
+      reason: 'zero_width_chars',
+      length: beforeZeroWidth.length - text.length,
+      text: describeCharacters(beforeZeroWidth, ZERO_WIDTH_CHARS),
+    });
   }
 
   // Remove hidden unicode (line/paragraph separators)
   const beforeHiddenUnicode = text;
   text = text.replace(HIDDEN_UNICODE, '');
   if (text !== beforeHiddenUnicode) {
-    hiddenContentRemoved = true;
+    hiddenContent.push({
+      reason: 'line_separators',
+      length: beforeHiddenUnicode.length - text.length,
+      text: describeCharacters(beforeHiddenUnicode, HIDDEN_UNICODE),
+    });
   }
 
   // Sanitize BiDi overrides based on analysis (only remove if suspicious)
+  const beforeBidi = text;
   const bidiResult = sanitizeBiDi(text, bidiAnalysis);
   text = bidiResult.text;
   if (bidiResult.removed) {
-    hiddenContentRemoved = true;
+    hiddenContent.push({
+      reason: 'bidi_override',
+      length: beforeBidi.length - text.length,
+      text: describeCharacters(beforeBidi, BIDI_OVERRIDE_CHARS),
+    });
   }
 
   // Normalize whitespace
@@ -303,7 +310,7 @@ export function sanitizeEmailContent(
 
   // Extract quoted blocks
   const { mainContent, quotedBlocks } = extractQuotedBlocks(text);
-  text = mainContent;
+  text = mainContent.trim();
 
   // Extract links from plaintext
   const linksFromText = extractLinksFromText(text);
@@ -326,7 +333,8 @@ export function sanitizeEmailContent(
     bodyText: text,
     quotedBlocks,
     links: allLinks,
-    hiddenContentRemoved,
+    hiddenContent: boundHiddenText(hiddenContent),
+    encodedText,
     encodingNormalized,
     originalLength: startLength,
     sanitizedLength: text.length,
@@ -336,92 +344,33 @@ export function sanitizeEmailContent(
 }
 
 // ============================================================================
-// HTML Processing
+// Hidden Content Forensics
 // ============================================================================
 
-interface HtmlToTextResult {
-  text: string;
-  hiddenContentRemoved: boolean;
-}
-
-function htmlToText(html: string): HtmlToTextResult {
-  let text = html;
-  let hiddenContentRemoved = false;
-
-  // Remove comments
-  const beforeComments = text;
-  text = text.replace(HTML_COMMENT, '');
-  if (text !== beforeComments) hiddenContentRemoved = true;
-
-  // Remove style tags
-  const beforeStyle = text;
-  text = text.replace(STYLE_TAG, '');
-  if (text !== beforeStyle) hiddenContentRemoved = true;
-
-  // Remove script tags
-  const beforeScript = text;
-  text = text.replace(SCRIPT_TAG, '');
-  if (text !== beforeScript) hiddenContentRemoved = true;
-
-  // Remove hidden elements
-  const beforeHidden = text;
-  text = text.replace(HIDDEN_ELEMENT, '');
-  if (text !== beforeHidden) hiddenContentRemoved = true;
-
-  // Convert block elements to newlines
-  text = text.replace(/<\/?(p|div|br|hr|h[1-6]|li|tr|table|blockquote)[^>]*>/gi, '\n');
-
-  // Convert list items
-  text = text.replace(/<li[^>]*>/gi, '\n• ');
-
-  // Remove remaining HTML tags
-  text = text.replace(HTML_TAG, '');
-
-  // Decode HTML entities
-  text = decodeHtmlEntities(text);
-
-  return { text, hiddenContentRemoved };
+/**
+ * List removed invisible characters by code point, e.g. "U+200B U+200D"
+ */
+function describeCharacters(text: string, pattern: RegExp): string {
+  return (text.match(pattern) ?? [])
+    .map(char => `U+${(char.codePointAt(0) ?? 0).toString(16).toUpperCase().padStart(4, '0')}`)
+    .join(' ');
 }
 
-function decodeHtmlEntities(text: string): string {
-  const entities: Record<string, string> = {
-    '&nbsp;': ' ',
-    '&amp;': '&',
-    '&lt;': '<',
-    '&gt;': '>',
-    '&quot;': '"',
-    '&#39;': "'",
-    '&apos;': "'",
-    '&copy;': '©',
-    '&reg;': '®',
-    '&trade;': '™',
-    '&mdash;': '—',
-    '&ndash;': '–',
-    '&hellip;': '…',
-    '&lsquo;': "'",
-    '&rsquo;': "'",
-    '&ldquo;': '"',
-    '&rdquo;': '"',
-    '&bull;': '•',
-  };
+/**
+ * Cap the removed text kept per finding and across the message
+ */
+function boundHiddenText(findings: HiddenContentFinding[]): HiddenContentFinding[] {
+  let budget = MAX_HIDDEN_TEXT_LENGTH;
 
-  let result = text;
-  for (const [entity, char] of Object.entries(entities)) {
-    result = result.split(entity).join(char);
-  }
+  return findings.map(finding => {
+    if (finding.text === undefined) return finding;
 
-  // Decode numeric entities
-  result = result.replace(/&#(\d+);/g, (_, code: string) => {
-    const num = parseInt(code, 10);
-    return num > 0 && num < 65536 ? String.fromCharCode(num) : '';
-  });
+    const limit = Math.min(MAX_HIDDEN_FRAGMENT_LENGTH, budget);
+    budget -= Math.min(finding.text.length, limit);
+    if (finding.text.length <= limit) return finding;
 
-  result = result.replace(/&#x([0-9a-f]+);/gi, (_, code: string) => {
-    const num = parseInt(code, 16);
-    return num > 0 && num < 65536 ? String.fromCharCode(num) : '';
+    return { ...finding, text: finding.text.substring(0, limit), textTruncated: true };
   });
-
-  return result;
 }
 
 // ============================================================================
@@ -437,7 +386,7 @@ function normalizeEncoding(text: string): NormalizeResult {
   let modified = false;
   let result = text;
 
-  // Apply NFKC normalization first - handles fullwidth chars, compatibility characters, composed forms
+  // Apply NFKC normalization - handles fullwidth chars, compatibility characters, composed forms
   const beforeNfkc = result;
   result = result.normalize('NFKC');
   if (result !== beforeNfkc) {
@@ -460,14 +409,6 @@ function normalizeEncoding(text: string): NormalizeResult {
     }
   }
 
-  // Normalize unicode confusables to ASCII using comprehensive database
-  for (const [confusable, ascii] of CONFUSABLES_MAP) {
-    if (result.includes(confusable)) {
-      result = result.split(confusable).join(ascii);
-      modified = true;
-    }
-  }
-
   return { text: result, modified };
 }
 
@@ -487,8 +428,23 @@ function extractQuotedBlocks(text: string): QuoteExtractionResult {
   let currentQuote: string[] = [];
   let currentDepth = 0;
   let attribution: string | undefined;
+  // An attribution stays in the body unless a quote follows it
+  let pendingAttribution: { lines: string[]; index: number } | undefined;
+
+  const flushQuote = (): void => {
+    if (currentQuote.length > 0) {
+      quotedBlocks.push({
+        content: currentQuote.join('\n'),
+        depth: currentDepth,
+        attribution,
+      });
+      currentQuote = [];
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]!;
 
-  for (const line of lines) {
     // Check for quote markers
     const quoteMatch = line.match(/^(>+)\s*/);
 
@@ -498,50 +454,46 @@ function extractQuotedBlocks(text: string): QuoteExtractionResult {
 
       if (depth !== currentDepth && currentQuote.length > 0) {
         // Save current quote block
-        quotedBlocks.push({
-          content: currentQuote.join('\n'),
-          depth: currentDepth,
-          attribution,
-        });
-        currentQuote = [];
+        flushQuote();
         attribution = undefined;
       }
 
+      pendingAttribution = undefined;
       currentDepth = depth;
       currentQuote.push(content);
-    } else if (isQuoteAttribution(line)) {
-      if (currentQuote.length > 0) {
-        quotedBlocks.push({
-          content: currentQuote.join('\n'),
-          depth: currentDepth,
-          attribution,
-        });
-        currentQuote = [];
+      continue;
+    }
+
+    const attributionLines = matchQuoteAttribution(lines, i);
+    if (attributionLines > 0) {
+      flushQuote();
+      if (pendingAttribution) {
+        mainLines.splice(pendingAttribution.index, 0, ...pendingAttribution.lines);
       }
-      attribution = line;
+      pendingAttribution = { lines: lines.slice(i, i + attributionLines), index: mainLines.length };
+      attribution = pendingAttribution.lines.map(l => l.trim()).join(' ');
       currentDepth = 1;
-    } else {
-      if (currentQuote.length > 0) {
-        quotedBlocks.push({
-          content: currentQuote.join('\n'),
-          depth: currentDepth,
-          attribution,
-        });
-        currentQuote = [];
-        currentDepth = 0;
-        attribution = undefined;
-      }
-      mainLines.push(line);
+      i += attributionLines - 1;
+      continue;
+    }
+
+    if (currentQuote.length > 0) {
+      flushQuote();
+      currentDepth = 0;
+      attribution = undefined;
+    } else if (pendingAttribution && line.trim().length > 0) {
+      mainLines.splice(pendingAttribution.index, 0, ...pendingAttribution.lines);
+      pendingAttribution = undefined;
+      currentDepth = 0;
+      attribution = undefined;
     }
+    mainLines.push(line);
   }
 
   // Don't forget the last quote block
-  if (currentQuote.length > 0) {
-    quotedBlocks.push({
-      content: currentQuote.join('\n'),
-      depth: currentDepth,
-      attribution,
-    });
+  flushQuote();
+  if (pendingAttribution) {
+    mainLines.splice(pendingAttribution.index, 0, ...pendingAttribution.lines);
   }
 
   return {
@@ -550,15 +502,26 @@ function extractQuotedBlocks(text: string): QuoteExtractionResult {
   };
 }
 
-function isQuoteAttribution(line: string): boolean {
-  const patterns = [
-    /^On .+ wrote:$/i,
-    /^-{3,}\s*Original Message\s*-{3,}$/i,
-    /^_{3,}\s*$/,
-    /^From:\s+.+\[mailto:/i,
-  ];
+const QUOTE_ATTRIBUTION_PATTERNS = [
+  /^On .+ wrote:$/i,
+  /^-{3,}\s*Original Message\s*-{3,}$/i,
+  /^-{3,}\s*Forwarded message\s*-{3,}$/i,
+  /^_{3,}\s*$/,
+  /^From:\s+.+\[mailto:/i,
+];
+
+/**
+ * Number of lines (0, 1 or 2) forming a quote attribution at `index`.
+ * Plain-text clients wrap long "On <date> <name> wrote:" lines in two.
+ */
+function matchQuoteAttribution(lines: string[], index: number): number {
+  const line = lines[index]!.trim();
+  if (QUOTE_ATTRIBUTION_PATTERNS.some(pattern => pattern.test(line))) return 1;
 
-  return patterns.some(pattern => pattern.test(line.trim()));
+  const next = lines[index + 1]?.trim();
+  if (next && /^On\s/i.test(line) && /^On .+ wrote:$/i.test(`${line} ${next}`) && !/^>/.test(next)) return 2;
+
+  return 0;
 }
 
 // ============================================================================
@@ -593,7 +556,10 @@ function extractLinksFromText(text: string): ExtractedLink[] {
   return links;
 }
 
-function createExtractedLink(url: string): ExtractedLink {
+/**
+ * Normalize a URL and check it against the suspicious-link heuristics
+ */
+export function createExtractedLink(url: string): ExtractedLink {
   const normalizedUrl = normalizeUrl(url);
   const domain = extractDomain(normalizedUrl);
   const { suspicious, reasons } = checkSuspiciousUrl(normalizedUrl, domain);
@@ -732,20 +698,18 @@ export function parseEmailHeaders(payload: GmailMessagePayload): EmailHeaders {
 // ============================================================================
 
 export function extractAttachmentMetadata(payload: GmailMessagePayload): AttachmentMetadata[] {
-  const attachments: AttachmentMetadata[] = [];
+  return collectAttachmentParts(payload).map(describeAttachment);
+}
+
+/**
+ * Every named part of the message, depth first
+ */
+export function collectAttachmentParts(payload: GmailMessagePayload): GmailMessagePart[] {
+  const parts: GmailMessagePart[] = [];
 
   function processPartRecursive(part: GmailMessagePart): void {
     if (part.filename && part.filename.length > 0) {
-      attachments.push({
-        filename: part.filename,
-        mimeType: part.mimeType,
-        size: part.body.size,
-        contentId: part.headers.find(h => h.name.toLowerCase() === 'content-id')?.value,
-        isInline: part.headers.some(h =>
-          h.name.toLowerCase() === 'content-disposition' &&
-          h.value.toLowerCase().includes('inline')
-        ),
-      });
+      parts.push(part);
     }
 
     if (part.parts) {
@@ -757,7 +721,20 @@ export function extractAttachmentMetadata(payload: GmailMessagePayload): Attachm
     payload.payload.parts.forEach(processPartRecursive);
   }
 
-  return attachments;
+  return parts;
+}
+
+export function describeAttachment(part: GmailMessagePart): AttachmentMetadata {
+  return {
+    filename: part.filename,
+    mimeType: part.mimeType,
+    size: part.body.size,
+    contentId: part.headers.find(h => h.name.toLowerCase() === 'content-id')?.value,
+    isInline: part.headers.some(h =>
+      h.name.toLowerCase() === 'content-disposition' &&
+      h.value.toLowerCase().includes('inline')
+    ),
+  };
 }
 
 // ============================================================================
@@ -769,7 +746,8 @@ export function extractBodyContent(payload: GmailMessagePayload): { html?: strin
   let plain: string | undefined;
 
   function processPartRecursive(part: GmailMessagePart | GmailMessagePayload['payload']): void {
-    if (part.body.data) {
+    // Named parts are attachments, never the message body
+    if (part.body.data && !part.filename) {
       const content = Buffer.from(part.body.data, 'base64').toString('utf-8');
 
       if (part.mimeType === 'text/html') {
@@ -0,0 +1,732 @@
+/**
+ * HTML Visibility Module
+ * Renders HTML to the text a reader would actually see, computing effective
+ * visibility from attributes, inline styles and simple stylesheet rules
+ */
+
+import { parseDocument } from 'htmlparser2';
+import { isComment, isTag, isText, type AnyNode, type Element } from 'domhandler';
+import type { HiddenContentFinding, HiddenContentReason } from '../types.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Elements whose content is never rendered */
+const NON_RENDERED_TAGS = new Set(['script', 'style', 'template', 'title', 'object', 'embed', 'iframe']);
+
+const BLOCK_TAGS = new Set([
+  'p', 'div', 'br', 'hr', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'li', 'tr', 'table', 'blockquote',
+  'ul', 'ol', 'section', 'article', 'header', 'footer', 'pre',
+]);
+
+/** Presentational colour attributes still common in email markup */
+const COLOR_ATTRIBUTES: Record<string, string> = { font: 'color', body: 'text' };
+
+const DEFAULT_FONT_PX = 16;
+const MIN_VISIBLE_FONT_PX = 3;
+const MIN_VISIBLE_OPACITY = 0.05;
+/** Largest per-channel difference at which text and background count as the same colour */
+const COLOR_MATCH_TOLERANCE = 16;
+/** Negative offset beyond which positioned or indented content is off-screen */
+const OFF_SCREEN_PX = 500;
+
+/** Limits that keep hostile markup from making the pass expensive */
+const MAX_DEPTH = 256;
+const MAX_STYLE_RULES = 1000;
+const MAX_SELECTOR_PARTS = 8;
+
+const FONT_SIZE_KEYWORDS: Record<string, number> = {
+  'xx-small': 9, 'x-small': 10, 'small': 13, 'medium': 16,
+  'large': 18, 'x-large': 24, 'xx-large': 32, 'xxx-large': 48,
+};
+
+const NAMED_COLORS: Record<string, string> = {
+  white: '#ffffff', black: '#000000', red: '#ff0000', green: '#008000', blue: '#0000ff',
+  yellow: '#ffff00', gray: '#808080', grey: '#808080', silver: '#c0c0c0', navy: '#000080',
+  maroon: '#800000', purple: '#800080', orange: '#ffa500', whitesmoke: '#f5f5f5',
+  snow: '#fffafa', ivory: '#fffff0', ghostwhite: '#f8f8ff', azure: '#f0ffff',
+  mintcream: '#f5fffa', floralwhite: '#fffaf0', seashell: '#fff5ee', linen: '#faf0e6',
+};
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface VisibleTextResult {
+  text: string;
+  hiddenContent: HiddenContentFinding[];
+}
+
+interface Declaration {
+  value: string;
+  important: boolean;
+}
+
+interface CompoundSelector {
+  tag?: string;
+  ids: string[];
+  classes: string[];
+  attributes: Array<{ name: string; value?: string }>;
+}
+
+interface ComplexSelector {
+  text: string;
+  /** Compound selectors left to right; `combinator` links a part to the one before it */
+  parts: Array<{ compound: CompoundSelector; combinator: ' ' | '>' }>;
+  specificity: number;
+}
+
+interface StyleRule {
+  selectors: ComplexSelector[];
+  declarations: Map<string, Declaration>;
+  order: number;
+}
+
+interface ComputedValue {
+  value: string;
+  /** Selector of the winning stylesheet rule; undefined for inline styles and attributes */
+  selector?: string;
+}
+
+type ComputedStyle = Map<string, ComputedValue>;
+
+interface Rgba {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+/** A hiding element and the finding its hidden text accumulates into */
+interface HidingSource {
+  finding: HiddenContentFinding;
+  recorded: boolean;
+}
+
+interface RenderState {
+  fontPx: number;
+  color: Rgba;
+  background: Rgba;
+  visibilityHidden?: HidingSource;
+  tinyFont?: HidingSource;
+  colorMatch?: HidingSource;
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+/**
+ * Convert HTML to the text a reader would see, reporting everything that
+ * was dropped and why
+ */
+export function renderVisibleText(html: string): VisibleTextResult {
+  const document = parseDocument(html);
+  const renderer = new VisibleTextRenderer(collectStyleRules(document.children));
+
+  for (const child of document.children) {
+    renderer.render(child, {
+      fontPx: DEFAULT_FONT_PX,
+      color: { r: 0, g: 0, b: 0, a: 1 },
+      background: { r: 255, g: 255, b: 255, a: 1 },
+    }, 0);
+  }
+
+  return { text: renderer.output.join(''), hiddenContent: renderer.findings };
+}
+
+class VisibleTextRenderer {
+  output: string[] = [];
+  findings: HiddenContentFinding[] = [];
+
+  constructor(private rules: StyleRule[]) {}
+
+  render(node: AnyNode, state: RenderState, depth: number): void {
+    if (isText(node)) {
+      const hiddenBy = state.visibilityHidden ?? state.tinyFont ?? state.colorMatch;
+      if (hiddenBy) {
+        this.record(hiddenBy, node.data);
+      } else {
+        this.output.push(node.data);
+      }
+      return;
+    }
+
+    if (isComment(node)) {
+      this.record(createSource('comment'), node.data);
+      return;
+    }
+
+    if (!isTag(node)) {
+      return;
+    }
+
+    const tag = node.name.toLowerCase();
+    if (depth >= MAX_DEPTH) {
+      this.record(createSource('excessive_nesting', tag), collectText(node));
+      return;
+    }
+
+    const style = this.computeStyle(node);
+    const hidden = findSubtreeHiding(node, tag, style);
+    if (hidden) {
+      this.record(hidden, collectText(node));
+      return;
+    }
+
+    const childState = inheritState(node, tag, style, state);
+
+    if (isQuoteElement(node, tag)) {
+      this.renderQuote(node, childState, depth);
+      return;
+    }
+
+    if (tag === 'li') {
+      this.output.push('\n• ');
+    } else if (BLOCK_TAGS.has(tag)) {
+      this.output.push('\n');
+    }
+
+    for (const child of node.children) {
+      this.render(child, childState, depth + 1);
+    }
+
+    if (BLOCK_TAGS.has(tag) && tag !== 'br' && tag !== 'hr') {
+      this.output.push('\n');
+    }
+  }
+
+  /**
+   * Render a quoted section as `>`-prefixed lines so it is separated from
+   * the body exactly like a plain-text quote; nested quotes deepen the prefix
+   */
+  private renderQuote(element: Element, state: RenderState, depth: number): void {
+    const outer = this.output;
+    this.output = [];
+    for (const child of element.children) {
+      this.render(child, state, depth + 1);
+    }
+    const quoted = this.output.join('').replace(/^\s*\n|\n\s*$/g, '');
+    this.output = outer;
+
+    if (quoted.trim().length === 0) return;
+    const lines = quoted.split('\n').map(line => {
+      if (line.startsWith('>')) return `>${line}`;
+      return line.length > 0 ? `> ${line}` : '>';
+    });
+    this.output.push(`\n${lines.join('\n')}\n`);
+  }
+
+  private record(source: HidingSource, text: string): void {
+    const length = text.trim().length;
+    if (length === 0) return;
+
+    source.finding.length += length;
+    const fragment = text.replace(/\s+/g, ' ').trim();
+    source.finding.text = source.finding.text ? `${source.finding.text} ${fragment}` : fragment;
+    if (!source.recorded) {
+      source.recorded = true;
+      this.findings.push(source.finding);
+    }
+  }
+
+  /**
+   * Cascade matching stylesheet rules, then inline styles; `!important`
+   * stylesheet declarations beat non-important inline ones
+   */
+  private computeStyle(element: Element): ComputedStyle {
+    const matched: Array<{ rule: StyleRule; selector: ComplexSelector }> = [];
+    for (const rule of this.rules) {
+      let best: ComplexSelector | undefined;
+      for (const selector of rule.selectors) {
+        if ((!best || selector.specificity > best.specificity) && matchesSelector(element, selector)) {
+          best = selector;
+        }
+      }
+      if (best) matched.push({ rule, selector: best });
+    }
+    matched.sort((a, b) => a.selector.specificity - b.selector.specificity || a.rule.order - b.rule.order);
+
+    const inline = parseDeclarations(element.attribs.style ?? '');
+    const computed: ComputedStyle = new Map();
+
+    for (const important of [false, true]) {
+      for (const { rule, selector } of matched) {
+        for (const [property, declaration] of rule.declarations) {
+          if (declaration.important === important) {
+            computed.set(property, { value: declaration.value, selector: selector.text });
+          }
+        }
+      }
+      for (const [property, declaration] of inline) {
+        if (declaration.important === important) {
+          computed.set(property, { value: declaration.value });
+        }
+      }
+    }
+
+    return computed;
+  }
+}
+
+/**
+ * Hiding that applies to an element's whole subtree and cannot be undone
+ * by its descendants
+ */
+function findSubtreeHiding(element: Element, tag: string, style: ComputedStyle): HidingSource | undefined {
+  if (NON_RENDERED_TAGS.has(tag)) {
+    return createSource('non_rendered', tag);
+  }
+  if ('hidden' in element.attribs) {
+    return createSource('hidden_attribute', tag, 'hidden');
+  }
+  if (element.attribs['aria-hidden']?.trim().toLowerCase() === 'true') {
+    return createSource('aria_hidden', tag, 'aria-hidden=true');
+  }
+
+  const display = style.get('display');
+  if (display && keyword(display.value) === 'none') {
+    return createSource('display_none', tag, 'display:none', display.selector);
+  }
+
+  const opacity = style.get('opacity');
+  if (opacity && (parseNumber(opacity.value) ?? 1) < MIN_VISIBLE_OPACITY) {
+    return createSource('zero_opacity', tag, `opacity:${opacity.value}`, opacity.selector);
+  }
+
+  const overflow = style.get('overflow');
+  if (overflow && ['hidden', 'clip'].includes(keyword(overflow.value))) {
+    for (const property of ['max-height', 'height', 'max-width', 'width']) {
+      const size = style.get(property);
+      if (size && (parseLengthPx(size.value, DEFAULT_FONT_PX) ?? 1) <= 0) {
+        return createSource(
+          'collapsed',
+          tag,
+          `${property}:${size.value};overflow:${overflow.value}`,
+          size.selector ?? overflow.selector
+        );
+      }
+    }
+  }
+
+  const position = style.get('position');
+  if (position && ['absolute', 'fixed'].includes(keyword(position.value))) {
+    for (const property of ['left', 'top']) {
+      const offset = style.get(property);
+      if (offset && (parseLengthPx(offset.value, DEFAULT_FONT_PX) ?? 0) <= -OFF_SCREEN_PX) {
+        return createSource('off_screen', tag, `position:${position.value};${property}:${offset.value}`, offset.selector);
+      }
+    }
+  }
+  const indent = style.get('text-indent');
+  if (indent && (parseLengthPx(indent.value, DEFAULT_FONT_PX) ?? 0) <= -OFF_SCREEN_PX) {
+    return createSource('off_screen', tag, `text-indent:${indent.value}`, indent.selector);
+  }
+
+  const clip = style.get('clip');
+  if (clip && /^rect\(\s*0(?:px)?[\s,]+0(?:px)?[\s,]+0(?:px)?[\s,]+0(?:px)?\s*\)$/i.test(clip.value.trim())) {
+    return createSource('clipped', tag, `clip:${clip.value}`, clip.selector);
+  }
+  const clipPath = style.get('clip-path');
+  const inset = clipPath?.value.match(/^inset\(\s*(\d+(?:\.\d+)?)%/i);
+  if (clipPath && inset && parseFloat(inset[1] ?? '0') >= 50) {
+    return createSource('clipped', tag, `clip-path:${clipPath.value}`, clipPath.selector);
+  }
+  const transform = style.get('transform');
+  if (transform && /scale[xy]?\(\s*0(?:\.0+)?\s*[,)]/i.test(transform.value)) {
+    return createSource('clipped', tag, `transform:${transform.value}`, transform.selector);
+  }
+
+  return undefined;
+}
+
+/**
+ * Inherited properties that descendants can override: visibility,
+ * font size and colour
+ */
+function inheritState(element: Element, tag: string, style: ComputedStyle, parent: RenderState): RenderState {
+  const state: RenderState = { ...parent };
+
+  const visibility = style.get('visibility');
+  if (visibility) {
+    const value = keyword(visibility.value);
+    if (value === 'hidden' || value === 'collapse') {
+      state.visibilityHidden = createSource('visibility_hidden', tag, `visibility:${value}`, visibility.selector);
+    } else if (value === 'visible') {
+      state.visibilityHidden = undefined;
+    }
+  }
+
+  const fontSize = style.get('font-size') ?? fontSizeFromShorthand(style.get('font'));
+  if (fontSize) {
+    const px = parseFontSizePx(fontSize.value, parent.fontPx);
+    if (px !== undefined) {
+      state.fontPx = px;
+      state.tinyFont = px < MIN_VISIBLE_FONT_PX
+        ? createSource('tiny_font', tag, `font-size:${fontSize.value}`, fontSize.selector)
+        : undefined;
+    }
+  }
+
+  const color = style.get('color') ?? attributeValue(element, COLOR_ATTRIBUTES[tag]);
+  const background = style.get('background-color')
+    ?? style.get('background')
+    ?? attributeValue(element, 'bgcolor');
+  const textColor = color ? parseColor(color.value) : undefined;
+  const backgroundColor = background ? findColor(background.value) : undefined;
+
+  if (textColor) state.color = textColor;
+  if (backgroundColor && backgroundColor.a > 0) state.background = backgroundColor;
+
+  if (textColor || backgroundColor) {
+    const source = textColor ? color : background;
+    if (state.color.a < MIN_VISIBLE_OPACITY) {
+      state.colorMatch = createSource('color_match', tag, 'color:transparent', source?.selector);
+    } else if (colorsMatch(state.color, state.background)) {
+      state.colorMatch = createSource(
+        'color_match',
+        tag,
+        `color ${toHex(state.color)} on ${toHex(state.background)}`,
+        source?.selector
+      );
+    } else {
+      state.colorMatch = undefined;
+    }
+  }
+
+  return state;
+}
+
+function createSource(
+  reason: HiddenContentReason,
+  element?: string,
+  detail?: string,
+  selector?: string
+): HidingSource {
+  const finding: HiddenContentFinding = { reason, length: 0 };
+  if (element) finding.element = element;
+  if (detail) finding.detail = detail;
+  if (selector) finding.selector = selector;
+  return { finding, recorded: false };
+}
+
+/**
+ * Text content of a subtree, iteratively so deep nesting cannot exhaust the stack
+ */
+/**
+ * `<blockquote>`, or a Gmail `gmail_quote` wrapper that quotes without one
+ * (forwarded messages). When the wrapper holds a blockquote, only that is
+ * the quote and the attribution line before it stays unquoted.
+ */
+function isQuoteElement(element: Element, tag: string): boolean {
+  if (tag === 'blockquote') return true;
+  if (!(element.attribs.class ?? '').split(/\s+/).includes('gmail_quote')) return false;
+
+  const stack: AnyNode[] = [...element.children];
+  while (stack.length > 0) {
+    const node = stack.pop()!;
+    if (!isTag(node)) continue;
+    if (node.name.toLowerCase() === 'blockquote') return false;
+    stack.push(...node.children);
+  }
+  return true;
+}
+
+function collectText(root: Element): string {
+  const parts: string[] = [];
+  const stack: AnyNode[] = [root];
+
+  while (stack.length > 0) {
+    const node = stack.pop()!;
+    if (isText(node)) {
+      parts.push(node.data);
+    } else if (isTag(node)) {
+      for (let i = node.children.length - 1; i >= 0; i--) {
+        stack.push(node.children[i]!);
+      }
+    }
+  }
+
+  return parts.join(' ').replace(/\s+/g, ' ');
+}
+
+// ============================================================================
+// Stylesheets
+// ============================================================================
+
+/**
+ * Gather rules from every <style> element, wherever it appears
+ */
+function collectStyleRules(nodes: AnyNode[]): StyleRule[] {
+  const rules: StyleRule[] = [];
+  const stack = [...nodes].reverse();
+
+  while (stack.length > 0 && rules.length < MAX_STYLE_RULES) {
+    const node = stack.pop()!;
+    if (!isTag(node)) continue;
+
+    if (node.name.toLowerCase() === 'style') {
+      const css = node.children.map(child => (isText(child) ? child.data : '')).join('');
+      parseStylesheet(css, rules);
+    } else {
+      for (let i = node.children.length - 1; i >= 0; i--) {
+        stack.push(node.children[i]!);
+      }
+    }
+  }
+
+  return rules;
+}
+
+/**
+ * Parse style rules, descending into conditional group rules (@media,
+ * @supports) and skipping other at-rules. Selectors that cannot be
+ * evaluated without layout (pseudo-classes, sibling combinators) are ignored.
+ */
+function parseStylesheet(css: string, rules: StyleRule[]): void {
+  const source = css.replace(/\/\*[\s\S]*?\*\//g, '');
+  let position = 0;
+
+  while (position < source.length && rules.length < MAX_STYLE_RULES) {
+    const open = source.indexOf('{', position);
+    if (open === -1) break;
+
+    const close = findBlockEnd(source, open);
+    const prelude = source.slice(position, open).replace(/^[\s;]*(?:@[^;{]*;\s*)*/, '').trim();
+    const body = source.slice(open + 1, close);
+    position = close + 1;
+
+    if (prelude.startsWith('@')) {
+      if (/^@(?:media|supports|document)\b/i.test(prelude)) {
+        parseStylesheet(body, rules);
+      }
+      continue;
+    }
+
+    const selectors = prelude
+      .split(',')
+      .map(parseSelector)
+      .filter((selector): selector is ComplexSelector => selector !== undefined);
+    if (selectors.length > 0) {
+      rules.push({ selectors, declarations: parseDeclarations(body), order: rules.length });
+    }
+  }
+}
+
+function findBlockEnd(source: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < source.length; i++) {
+    if (source[i] === '{') depth++;
+    else if (source[i] === '}' && --depth === 0) return i;
+  }
+  return source.length;
+}
+
+function parseDeclarations(block: string): Map<string, Declaration> {
+  const declarations = new Map<string, Declaration>();
+
+  for (const part of block.split(';')) {
+    const colon = part.indexOf(':');
+    if (colon === -1) continue;
+
+    const property = part.slice(0, colon).trim().toLowerCase();
+    let value = part.slice(colon + 1).trim();
+    const important = /!\s*important\s*$/i.test(value);
+    if (important) value = value.replace(/!\s*important\s*$/i, '').trim();
+
+    if (property && value) {
+      declarations.set(property, { value, important });
+    }
+  }
+
+  return declarations;
+}
+
+function parseSelector(text: string): ComplexSelector | undefined {
+  const tokens = text.trim().replace(/\s*>\s*/g, ' > ').split(/\s+/).filter(Boolean);
+  const parts: ComplexSelector['parts'] = [];
+  let combinator: ' ' | '>' = ' ';
+  let specificity = 0;
+
+  for (const token of tokens) {
+    if (token === '>') {
+      combinator = '>';
+      continue;
+    }
+
+    const compound = parseCompound(token);
+    if (!compound) return undefined;
+
+    parts.push({ compound, combinator });
+    specificity += compound.ids.length * 10000
+      + (compound.classes.length + compound.attributes.length) * 100
+      + (compound.tag ? 1 : 0);
+    combinator = ' ';
+  }
+
+  if (parts.length === 0 || parts.length > MAX_SELECTOR_PARTS) return undefined;
+  return { text: text.trim(), parts, specificity };
+}
+
+function parseCompound(token: string): CompoundSelector | undefined {
+  const match = token.match(/^(\*|[a-z][a-z0-9-]*)?((?:[.#][\w-]+|\[[\w-]+(?:=(?:"[^"]*"|'[^']*'|[\w-]+))?\])*)$/i);
+  if (!match) return undefined;
+
+  const compound: CompoundSelector = { ids: [], classes: [], attributes: [] };
+  if (match[1] && match[1] !== '*') compound.tag = match[1].toLowerCase();
+
+  const piece = /([.#])([\w-]+)|\[([\w-]+)(?:=(?:"([^"]*)"|'([^']*)'|([\w-]+)))?\]/g;
+  let part: RegExpExecArray | null;
+  while ((part = piece.exec(match[2] ?? '')) !== null) {
+    if (part[1] === '.') compound.classes.push(part[2]!);
+    else if (part[1] === '#') compound.ids.push(part[2]!);
+    else compound.attributes.push({ name: part[3]!.toLowerCase(), value: part[4] ?? part[5] ?? part[6] });
+  }
+
+  return compound;
+}
+
+function matchesSelector(element: Element, selector: ComplexSelector): boolean {
+  return matchesFrom(element, selector.parts, selector.parts.length - 1);
+}
+
+function matchesFrom(element: Element, parts: ComplexSelector['parts'], index: number): boolean {
+  const part = parts[index];
+  if (!part || !matchesCompound(element, part.compound)) return false;
+  if (index === 0) return true;
+
+  let ancestor = parentElement(element);
+  if (part.combinator === '>') {
+    return ancestor !== undefined && matchesFrom(ancestor, parts, index - 1);
+  }
+  while (ancestor) {
+    if (matchesFrom(ancestor, parts, index - 1)) return true;
+    ancestor = parentElement(ancestor);
+  }
+  return false;
+}
+
+function matchesCompound(element: Element, compound: CompoundSelector): boolean {
+  if (compound.tag && element.name.toLowerCase() !== compound.tag) return false;
+  if (compound.ids.some(id => element.attribs.id !== id)) return false;
+
+  if (compound.classes.length > 0) {
+    const classes = (element.attribs.class ?? '').split(/\s+/);
+    if (compound.classes.some(name => !classes.includes(name))) return false;
+  }
+
+  return compound.attributes.every(({ name, value }) => {
+    const actual = element.attribs[name];
+    return actual !== undefined && (value === undefined || actual === value);
+  });
+}
+
+function parentElement(element: Element): Element | undefined {
+  return element.parent && isTag(element.parent) ? element.parent : undefined;
+}
+
+// ============================================================================
+// Value Parsing
+// ============================================================================
+
+function keyword(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+function parseNumber(value: string): number | undefined {
+  const match = value.trim().match(/^(-?\d*\.?\d+)(%)?$/);
+  if (!match) return undefined;
+  const number = parseFloat(match[1]!);
+  return match[2] ? number / 100 : number;
+}
+
+function parseLengthPx(value: string, fontPx: number): number | undefined {
+  const match = value.trim().toLowerCase().match(/^(-?\d*\.?\d+)(px|pt|em|rem|%|vw|vh)?$/);
+  if (!match) return undefined;
+
+  const number = parseFloat(match[1]!);
+  switch (match[2]) {
+    case 'pt': return number * (4 / 3);
+    case 'em': return number * fontPx;
+    case 'rem': return number * DEFAULT_FONT_PX;
+    case '%': return (number / 100) * fontPx;
+    default: return number;
+  }
+}
+
+function parseFontSizePx(value: string, parentPx: number): number | undefined {
+  const normalized = keyword(value);
+  if (normalized in FONT_SIZE_KEYWORDS) return FONT_SIZE_KEYWORDS[normalized];
+  if (normalized === 'smaller') return parentPx / 1.2;
+  if (normalized === 'larger') return parentPx * 1.2;
+  return parseLengthPx(normalized, parentPx);
+}
+
+function fontSizeFromShorthand(font: ComputedValue | undefined): ComputedValue | undefined {
+  const size = font?.value.match(/(?:^|\s)(\d*\.?\d+(?:px|pt|em|rem|%)?)(?:\/\S+)?(?=\s|$)/i);
+  return font && size?.[1] ? { value: size[1], selector: font.selector } : undefined;
+}
+
+function attributeValue(element: Element, name: string | undefined): ComputedValue | undefined {
+  const value = name ? element.attribs[name] : undefined;
+  return value ? { value } : undefined;
+}
+
+/**
+ * Parse a single colour value: hex, rgb()/rgba(), a named colour or transparent
+ */
+function parseColor(value: string): Rgba | undefined {
+  const normalized = keyword(value);
+  if (normalized === 'transparent') return { r: 0, g: 0, b: 0, a: 0 };
+
+  const hex = (NAMED_COLORS[normalized] ?? normalized).match(/^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/);
+  if (hex) {
+    let digits = hex[1]!;
+    if (digits.length <= 4) digits = [...digits].map(d => d + d).join('');
+    return {
+      r: parseInt(digits.slice(0, 2), 16),
+      g: parseInt(digits.slice(2, 4), 16),
+      b: parseInt(digits.slice(4, 6), 16),
+      a: digits.length === 8 ? parseInt(digits.slice(6, 8), 16) / 255 : 1,
+    };
+  }
+
+  const rgb = normalized.match(/^rgba?\(\s*([\d.]+)[\s,]+([\d.]+)[\s,]+([\d.]+)(?:\s*[,/]\s*([\d.]+%?))?\s*\)$/);
+  if (rgb) {
+    return {
+      r: Math.min(255, parseFloat(rgb[1]!)),
+      g: Math.min(255, parseFloat(rgb[2]!)),
+      b: Math.min(255, parseFloat(rgb[3]!)),
+      a: rgb[4] ? parseNumber(rgb[4]) ?? 1 : 1,
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * Find the colour within a `background` shorthand
+ */
+function findColor(value: string): Rgba | undefined {
+  const direct = parseColor(value);
+  if (direct) return direct;
+
+  for (const token of value.match(/rgba?\([^)]*\)|#[0-9a-f]+|[a-z]+/gi) ?? []) {
+    const color = parseColor(token);
+    if (color) return color;
+  }
+  return undefined;
+}
+
+function colorsMatch(text: Rgba, background: Rgba): boolean {
+  return Math.abs(text.r - background.r) <= COLOR_MATCH_TOLERANCE
+    && Math.abs(text.g - background.g) <= COLOR_MATCH_TOLERANCE
+    && Math.abs(text.b - background.b) <= COLOR_MATCH_TOLERANCE;
+}
+
+function toHex(color: Rgba): string {
+  return '#' + [color.r, color.g, color.b]
+    .map(channel => Math.round(channel).toString(16).padStart(2, '0'))
+    .join('');
+}
@@ -0,0 +1,220 @@
+/**
+ * iCalendar Parser
+ * Reads VEVENT components from text/calendar content (RFC 5545)
+ */
+
+import type { CalendarParticipant } from '../types.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Events read from one calendar object; invites carry one or a handful */
+const MAX_EVENTS = 50;
+
+/** Attendees kept per event */
+const MAX_ATTENDEES = 500;
+
+/** Properties whose value is a URI rather than text */
+const URL_PROPERTIES = new Set(['URL', 'ATTACH', 'CONFERENCE', 'X-GOOGLE-CONFERENCE']);
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface ICalendarProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+/** One VEVENT with text values unescaped but not yet sanitized */
+export interface ICalendarEvent {
+  method?: string;
+  uid?: string;
+  sequence?: number;
+  recurrenceId?: string;
+  summary?: string;
+  description?: string;
+  /** HTML description (X-ALT-DESC;FMTTYPE=text/html) some clients send alongside DESCRIPTION */
+  htmlDescription?: string;
+  location?: string;
+  comment?: string;
+  organizer?: CalendarParticipant;
+  attendees: CalendarParticipant[];
+  start?: string;
+  end?: string;
+  timezone?: string;
+  urls: string[];
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Parse every VEVENT in a calendar object. Properties of nested components
+ * (VALARM) are ignored; malformed lines are skipped rather than rejected.
+ */
+export function parseICalendar(content: string): ICalendarEvent[] {
+  const events: ICalendarEvent[] = [];
+  let method: string | undefined;
+  let current: ICalendarEvent | undefined;
+  let nestedDepth = 0;
+
+  for (const line of unfoldLines(content)) {
+    const property = parseContentLine(line);
+    if (!property) continue;
+
+    if (property.name === 'BEGIN') {
+      if (current) {
+        nestedDepth++;
+      } else if (property.value.toUpperCase() === 'VEVENT' && events.length < MAX_EVENTS) {
+        current = { method, attendees: [], urls: [] };
+      }
+      continue;
+    }
+
+    if (property.name === 'END') {
+      if (nestedDepth > 0) {
+        nestedDepth--;
+      } else if (current && property.value.toUpperCase() === 'VEVENT') {
+        events.push(current);
+        current = undefined;
+      }
+      continue;
+    }
+
+    if (!current) {
+      if (property.name === 'METHOD') method = property.value.toUpperCase();
+      continue;
+    }
+    if (nestedDepth === 0) {
+      applyProperty(current, property);
+    }
+  }
+
+  return events;
+}
+
+function applyProperty(event: ICalendarEvent, property: ICalendarProperty): void {
+  const { name, params, value } = property;
+
+  switch (name) {
+    case 'UID':
+      event.uid = value;
+      break;
+    case 'SEQUENCE': {
+      const sequence = parseInt(value, 10);
+      if (!isNaN(sequence)) event.sequence = sequence;
+      break;
+    }
+    case 'RECURRENCE-ID':
+      event.recurrenceId = value;
+      break;
+    case 'SUMMARY':
+      event.summary = unescapeText(value);
+      break;
+    case 'DESCRIPTION':
+      event.description = unescapeText(value);
+      break;
+    case 'X-ALT-DESC':
+      if ((params['FMTTYPE'] ?? '').toLowerCase() === 'text/html') {
+        event.htmlDescription = unescapeText(value);
+      }
+      break;
+    case 'LOCATION':
+      event.location = unescapeText(value);
+      break;
+    case 'COMMENT':
+      event.comment = event.comment ? `${event.comment}\n${unescapeText(value)}` : unescapeText(value);
+      break;
+    case 'ORGANIZER':
+      event.organizer = parseParticipant(params, value);
+      break;
+    case 'ATTENDEE':
+      if (event.attendees.length < MAX_ATTENDEES) {
+        event.attendees.push(parseParticipant(params, value));
+      }
+      break;
+    case 'DTSTART': {
+      const start = parseDateTime(value);
+      if (start) {
+        event.start = start;
+        if (params['TZID']) event.timezone = params['TZID'];
+      }
+      break;
+    }
+    case 'DTEND': {
+      const end = parseDateTime(value);
+      if (end) event.end = end;
+      break;
+    }
+    default:
+      if (URL_PROPERTIES.has(name) && params['VALUE']?.toUpperCase() !== 'BINARY' && /^[a-z][a-z0-9+.-]*:/i.test(value)) {
+        event.urls.push(value);
+      }
+  }
+}
+
+/**
+ * Join folded lines: a line break followed by a space or tab continues the
+ * previous line
+ */
+function unfoldLines(content: string): string[] {
+  return content.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+}
+
+/**
+ * Split `NAME;PARAM=a;PARAM="b:c":value`, honouring quoted parameter values
+ */
+function parseContentLine(line: string): ICalendarProperty | undefined {
+  const nameMatch = line.match(/^([A-Za-z0-9-]+)/);
+  if (!nameMatch) return undefined;
+
+  const params: Record<string, string> = {};
+  let pos = nameMatch[1]!.length;
+
+  while (line[pos] === ';') {
+    const paramMatch = line.slice(pos + 1).match(/^([A-Za-z0-9-]+)=((?:"[^"]*"|[^";:"])*)/);
+    if (!paramMatch) return undefined;
+    params[paramMatch[1]!.toUpperCase()] = paramMatch[2]!.replace(/"/g, '');
+    pos += 1 + paramMatch[0].length;
+  }
+
+  if (line[pos] !== ':') return undefined;
+
+  return { name: nameMatch[1]!.toUpperCase(), params, value: line.slice(pos + 1) };
+}
+
+function parseParticipant(params: Record<string, string>, value: string): CalendarParticipant {
+  return {
+    address: stripMailto(value),
+    name: params['CN'] ? unescapeText(params['CN']) : undefined,
+    role: params['ROLE'],
+    status: params['PARTSTAT'],
+    sentBy: params['SENT-BY'] ? stripMailto(params['SENT-BY']) : undefined,
+  };
+}
+
+function stripMailto(value: string): string {
+  return value.replace(/^mailto:/i, '').trim().toLowerCase();
+}
+
+/**
+ * Render DATE and DATE-TIME values as ISO 8601; floating and TZID times keep
+ * no offset. Unrecognised values are dropped so free text never passes as a date.
+ */
+function parseDateTime(value: string): string | undefined {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z?))?$/);
+  if (!match) return undefined;
+
+  const [, year, month, day, hour, minute, second, utc] = match;
+  if (hour === undefined) return `${year}-${month}-${day}`;
+  return `${year}-${month}-${day}T${hour}:${minute}:${second}${utc ?? ''}`;
+}
+
+/** Undo TEXT value escaping: `\n`, `\,`, `\;` and `\\` */
+function unescapeText(value: string): string {
+  return value.replace(/\\([nN,;\\])/g, (_, ch: string) => (ch === 'n' || ch === 'N' ? '\n' : ch));
+}
@@ -0,0 +1,383 @@
+/**
+ * RFC 5322 / MIME Parser
+ * Converts raw messages (SMTP relays, .eml exports) into the Gmail payload shape
+ */
+
+import { createHash } from 'crypto';
+import type { GmailMessagePayload, GmailMessagePart } from '../types.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Bounds to keep hostile MIME trees from exhausting resources
+const MAX_MIME_DEPTH = 10;
+const MAX_MIME_PARTS = 200;
+
+const ENCODED_WORD = /=\?([^?\s]+)\?([bBqQ])\?([^?\s]*)\?=/g;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type HeaderList = Array<{ name: string; value: string }>;
+
+interface ContentType {
+  mimeType: string;
+  params: Record<string, string>;
+}
+
+interface ParseState {
+  partCount: number;
+}
+
+// ============================================================================
+// Main Parsing Function
+// ============================================================================
+
+/**
+ * Parse a raw RFC 5322 message into a GmailMessagePayload so that the
+ * standard header, body and attachment extraction can be reused.
+ * Text parts are transfer-decoded and converted to UTF-8.
+ */
+export function parseMimeMessage(raw: Buffer | string): GmailMessagePayload {
+  const buffer = typeof raw === 'string' ? Buffer.from(raw, 'binary') : raw;
+  const state: ParseState = { partCount: 0 };
+
+  const root = parseEntity(buffer, '', 0, state);
+  const headers = root.headers;
+
+  const getHeader = (name: string): string | undefined =>
+    headers.find(h => h.name.toLowerCase() === name.toLowerCase())?.value;
+
+  const messageIdHeader = getHeader('Message-ID');
+  const threadRoot = getHeader('References')?.split(/\s+/).filter(Boolean)[0]
+    ?? getHeader('In-Reply-To')
+    ?? messageIdHeader;
+
+  const parsedDate = Date.parse(getHeader('Date') ?? '');
+  const internalDate = Number.isNaN(parsedDate) ? Date.now() : parsedDate;
+
+  return {
+    // The sender picks the Message-ID, so another message reusing it must not
+    // share this one's ID (and its recorded outcome)
+    id: `mime-${hashIdentifier(buffer)}`,
+    threadId: `mime-${hashIdentifier(threadRoot ?? buffer)}`,
+    labelIds: [],
+    snippet: '',
+    payload: {
+      partId: root.partId,
+      mimeType: root.mimeType,
+      filename: root.filename,
+      headers: root.headers,
+      body: root.body,
+      parts: root.parts,
+    },
+    sizeEstimate: buffer.length,
+    historyId: '',
+    internalDate: String(internalDate),
+  };
+}
+
+/**
+ * Check whether a request body should be treated as a raw RFC 822 message
+ */
+export function isRawMessageContentType(contentType: string | undefined): boolean {
+  if (!contentType) return false;
+  const mimeType = contentType.split(';')[0]?.trim().toLowerCase();
+  return mimeType === 'message/rfc822';
+}
+
+// ============================================================================
+// Entity Parsing
+// ============================================================================
+
+function parseEntity(buffer: Buffer, partId: string, depth: number, state: ParseState): GmailMessagePart {
+  state.partCount++;
+
+  const { headerBlock, body } = splitHeaderAndBody(buffer);
+  const headers = parseHeaderBlock(headerBlock);
+
+  const contentType = parseContentType(findHeader(headers, 'Content-Type'));
+  const transferEncoding = (findHeader(headers, 'Content-Transfer-Encoding') ?? '7bit').trim().toLowerCase();
+  const disposition = parseContentType(findHeader(headers, 'Content-Disposition'));
+  const filename = disposition.params.filename ?? contentType.params.name ?? '';
+
+  const part: GmailMessagePart = {
+    partId,
+    mimeType: contentType.mimeType,
+    filename,
+    headers,
+    body: { size: 0 },
+  };
+
+  const boundary = contentType.params.boundary;
+  if (contentType.mimeType.startsWith('multipart/') && boundary) {
+    if (depth >= MAX_MIME_DEPTH) {
+      return part;
+    }
+
+    part.parts = [];
+    const sections = splitMultipart(body, boundary);
+    sections.forEach((section, index) => {
+      if (state.partCount >= MAX_MIME_PARTS) return;
+      const childId = partId ? `${partId}.${index}` : String(index);
+      part.parts?.push(parseEntity(section, childId, depth + 1, state));
+    });
+    return part;
+  }
+
+  let content = decodeTransferEncoding(body, transferEncoding);
+
+  // Text bodies are normalized to UTF-8 so downstream decoding is uniform
+  if (contentType.mimeType.startsWith('text/')) {
+    const text = decodeCharset(content, contentType.params.charset ?? 'us-ascii');
+    content = Buffer.from(text, 'utf-8');
+  }
+
+  part.body = {
+    size: content.length,
+    data: content.toString('base64'),
+  };
+
+  return part;
+}
+
+function splitHeaderAndBody(buffer: Buffer): { headerBlock: string; body: Buffer } {
+  const crlf = buffer.indexOf('\r\n\r\n');
+  const lf = buffer.indexOf('\n\n');
+
+  let headerEnd: number;
+  let separatorLength: number;
+  if (crlf !== -1 && (lf === -1 || crlf < lf)) {
+    headerEnd = crlf;
+    separatorLength = 4;
+  } else if (lf !== -1) {
+    headerEnd = lf;
+    separatorLength = 2;
+  } else {
+    return { headerBlock: buffer.toString('binary'), body: Buffer.alloc(0) };
+  }
+
+  return {
+    headerBlock: buffer.subarray(0, headerEnd).toString('binary'),
+    body: buffer.subarray(headerEnd + separatorLength),
+  };
+}
+
+function splitMultipart(body: Buffer, boundary: string): Buffer[] {
+  const text = body.toString('binary');
+  const delimiter = `--${boundary}`;
+  const sections: Buffer[] = [];
+
+  const lines = text.split(/\r?\n/);
+  let current: string[] | null = null;
+
+  for (const line of lines) {
+    const trimmed = line.trimEnd();
+    if (trimmed === `${delimiter}--`) {
+      if (current) sections.push(Buffer.from(current.join('\r\n'), 'binary'));
+      current = null;
+      break;
+    }
+    if (trimmed === delimiter) {
+      if (current) sections.push(Buffer.from(current.join('\r\n'), 'binary'));
+      current = [];
+      continue;
+    }
+    // Lines before the first delimiter are the preamble and are ignored
+    current?.push(line);
+  }
+
+  // Tolerate a missing closing delimiter
+  if (current) {
+    sections.push(Buffer.from(current.join('\r\n'), 'binary'));
+  }
+
+  return sections;
+}
+
+// ============================================================================
+// Header Parsing
+// ============================================================================
+
+function parseHeaderBlock(block: string): HeaderList {
+  const headers: HeaderList = [];
+  const lines = block.split(/\r?\n/);
+
+  for (const line of lines) {
+    // Folded continuation line
+    if (/^[ \t]/.test(line) && headers.length > 0) {
+      const last = headers[headers.length - 1];
+      if (last) last.value += ' ' + line.trim();
+      continue;
+    }
+
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+
+    headers.push({
+      name: line.substring(0, colon).trim(),
+      value: line.substring(colon + 1).trim(),
+    });
+  }
+
+  for (const header of headers) {
+    header.value = decodeEncodedWords(Buffer.from(header.value, 'binary').toString('utf-8'));
+  }
+
+  return headers;
+}
+
+function findHeader(headers: HeaderList, name: string): string | undefined {
+  return headers.find(h => h.name.toLowerCase() === name.toLowerCase())?.value;
+}
+
+function parseContentType(value: string | undefined): ContentType {
+  if (!value) {
+    return { mimeType: 'text/plain', params: {} };
+  }
+
+  const [rawType, ...rawParams] = splitParams(value);
+  const params: Record<string, string> = {};
+
+  for (const rawParam of rawParams) {
+    const eq = rawParam.indexOf('=');
+    if (eq <= 0) continue;
+
+    let key = rawParam.substring(0, eq).trim().toLowerCase();
+    let paramValue = rawParam.substring(eq + 1).trim();
+
+    if (paramValue.startsWith('"') && paramValue.endsWith('"') && paramValue.length >= 2) {
+      paramValue = paramValue.slice(1, -1).replace(/\\(.)/g, '$1');
+    }
+
+    // RFC 2231 extended parameter: filename*=utf-8''encoded%20name
+    if (key.endsWith('*')) {
+      key = key.slice(0, -1);
+      const match = paramValue.match(/^([^']*)'[^']*'(.*)$/);
+      if (match) {
+        paramValue = decodeCharset(percentDecode(match[2] ?? ''), match[1] || 'utf-8');
+      }
+    }
+
+    params[key] = paramValue;
+  }
+
+  return {
+    mimeType: (rawType ?? 'text/plain').trim().toLowerCase() || 'text/plain',
+    params,
+  };
+}
+
+/**
+ * Split a structured header on semicolons outside quoted strings
+ */
+function splitParams(value: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (char === '"' && value[i - 1] !== '\\') {
+      inQuotes = !inQuotes;
+    }
+    if (char === ';' && !inQuotes) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+
+  return parts;
+}
+
+/**
+ * Decode RFC 2047 encoded-words in a header value
+ */
+function decodeEncodedWords(value: string): string {
+  // Whitespace between adjacent encoded-words is not displayed
+  const joined = value.replace(/(\?=)\s+(=\?)/g, '$1$2');
+
+  return joined.replace(ENCODED_WORD, (_, charset: string, encoding: string, text: string) => {
+    const bytes = encoding.toUpperCase() === 'B'
+      ? Buffer.from(text, 'base64')
+      : decodeQuotedPrintable(Buffer.from(text.replace(/_/g, ' '), 'binary'));
+    return decodeCharset(bytes, charset);
+  });
+}
+
+// ============================================================================
+// Content Decoding
+// ============================================================================
+
+function decodeTransferEncoding(body: Buffer, encoding: string): Buffer {
+  switch (encoding) {
+    case 'base64':
+      return Buffer.from(body.toString('binary').replace(/[^A-Za-z0-9+/=]/g, ''), 'base64');
+    case 'quoted-printable':
+      return decodeQuotedPrintable(body);
+    default:
+      return body;
+  }
+}
+
+function decodeQuotedPrintable(input: Buffer): Buffer {
+  // Remove soft line breaks first
+  const text = input.toString('binary').replace(/=\r?\n/g, '');
+  const bytes: number[] = [];
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '=' && /^[0-9A-Fa-f]{2}$/.test(text.substring(i + 1, i + 3))) {
+      bytes.push(parseInt(text.substring(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      bytes.push(text.charCodeAt(i) & 0xff);
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+function percentDecode(value: string): Buffer {
+  const bytes: number[] = [];
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '%' && /^[0-9A-Fa-f]{2}$/.test(value.substring(i + 1, i + 3))) {
+      bytes.push(parseInt(value.substring(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      bytes.push(value.charCodeAt(i) & 0xff);
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/**
+ * Convert bytes in the declared charset to a JS string.
+ * Unknown charsets fall back to UTF-8 when valid, otherwise Latin-1.
+ */
+function decodeCharset(bytes: Buffer, charset: string): string {
+  const label = charset.trim().toLowerCase();
+
+  if (label === 'us-ascii' || label === 'ascii' || label === 'utf-8' || label === 'utf8') {
+    return bytes.toString('utf-8');
+  }
+
+  try {
+    return new TextDecoder(label).decode(bytes);
+  } catch {
+    try {
+      return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    } catch {
+      return bytes.toString('latin1');
+    }
+  }
+}
+
+function hashIdentifier(value: string | Buffer): string {
+  return createHash('sha256').update(value).digest('hex').substring(0, 24);
+}
@@ -0,0 +1,102 @@
+/**
+ * Confusable Skeleton Module
+ * Builds the UTS #39 skeleton of a text, mapping look-alike characters to
+ * their prototypes while keeping track of where each came from
+ */
+
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+
+// ============================================================================
+// Confusables Database
+// ============================================================================
+
+interface ConfusablesData {
+  confusables: Record<string, Record<string, string>>;
+}
+
+// Load confusables database at module initialization
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const confusablesPath = join(__dirname, '..', 'data', 'confusables.json');
+
+function loadConfusables(): Map<string, string> {
+  const map = new Map<string, string>();
+  try {
+    const data = JSON.parse(readFileSync(confusablesPath, 'utf-8')) as ConfusablesData;
+    for (const category of Object.values(data.confusables)) {
+      for (const [confusable, ascii] of Object.entries(category)) {
+        // Skip metadata fields starting with underscore
+        if (!confusable.startsWith('_') && typeof ascii === 'string') {
+          map.set(confusable, ascii);
+        }
+      }
+    }
+  } catch {
+    // Fall back to minimal hardcoded set if file not found
+    const fallback: Record<string, string> = {
+      'а': 'a', 'е': 'e', 'о': 'o', 'р': 'p', 'с': 'c',
+      'у': 'y', 'х': 'x', 'ѕ': 's', 'і': 'i', 'ј': 'j',
+    };
+    for (const [k, v] of Object.entries(fallback)) {
+      map.set(k, v);
+    }
+  }
+  return map;
+}
+
+// Initialize confusables map
+const CONFUSABLES_MAP = loadConfusables();
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ConfusableSubstitution {
+  /** Offset of the character in the original text */
+  index: number;
+  char: string;
+  prototype: string;
+}
+
+export interface Skeleton {
+  text: string;
+  /** Original offset of each skeleton code unit, plus one entry for the end */
+  offsets: number[];
+  substitutions: ConfusableSubstitution[];
+}
+
+// ============================================================================
+// Skeleton Construction
+// ============================================================================
+
+/**
+ * skeleton(X) = NFD(map(NFD(X))), built in one pass over the code points so
+ * every skeleton position can be traced back to the original text
+ */
+export function buildSkeleton(text: string): Skeleton {
+  let skeleton = '';
+  const offsets: number[] = [];
+  const substitutions: ConfusableSubstitution[] = [];
+
+  let index = 0;
+  for (const char of text) {
+    for (const decomposed of char.normalize('NFD')) {
+      const prototype = CONFUSABLES_MAP.get(decomposed);
+      const output = prototype === undefined ? decomposed : prototype.normalize('NFD');
+      if (prototype !== undefined) {
+        substitutions.push({ index, char: decomposed, prototype });
+      }
+
+      skeleton += output;
+      for (let i = 0; i < output.length; i++) {
+        offsets.push(index);
+      }
+    }
+    index += char.length;
+  }
+  offsets.push(index);
+
+  return { text: skeleton, offsets, substitutions };
+}
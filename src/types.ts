@@ -15,14 +15,335 @@ export const LobsterConfigSchema = z.object({
   timeout: z.number().min(60).max(86400).default(3600),
 });
 
+export const ApprovalQuorumConfigSchema = z.object({
+  /** Identities allowed to approve; anyone may approve when neither this nor approverRole is set */
+  approvers: z.array(z.string().min(1)).default([]),
+  /** Named groups of approver identities */
+  roles: z.record(z.string().min(1), z.array(z.string().min(1))).default({}),
+  /** Members of this role may also approve */
+  approverRole: z.string().min(1).optional(),
+  requiredApprovals: z.number().int().min(1).max(10).default(1),
+  /** Raise the quorum for riskier sessions; the highest threshold reached applies */
+  escalation: z.array(z.object({
+    minRiskScore: z.number().min(0).max(100),
+    requiredApprovals: z.number().int().min(1).max(10),
+  })).default([{ minRiskScore: 50, requiredApprovals: 2 }]),
+  /** Let the sender of the triggering email approve its actions */
+  allowSelfApproval: z.boolean().default(false),
+}).refine(
+  quorum => !quorum.approverRole || quorum.approverRole in quorum.roles,
+  { message: 'approverRole must name a configured role', path: ['approverRole'] }
+);
+
+export const GmailOAuthConfigSchema = z.object({
+  clientId: z.string().min(1),
+  clientSecret: z.string().min(1),
+  refreshToken: z.string().min(1),
+  tokenUrl: z.string().url().default('https://oauth2.googleapis.com/token'),
+});
+
+export const GmailApiConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  baseUrl: z.string().url().default('https://gmail.googleapis.com'),
+  /** Static token; expires after about an hour, so prefer `oauth` */
+  accessToken: z.string().optional(),
+  /** Refresh-token credentials; access tokens are refreshed before they expire */
+  oauth: GmailOAuthConfigSchema.optional(),
+  timeoutMs: z.number().min(100).max(60000).default(10000),
+  maxMessagesPerNotification: z.number().min(1).max(500).default(25),
+  /** Mailboxes whose history cursor is seeded from users.getProfile at startup */
+  mailboxes: z.array(z.string().email()).default([]),
+});
+
+export const PubSubOidcConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  audience: z.string().min(1),
+  serviceAccountEmail: z.string().email(),
+  issuers: z.array(z.string()).min(1).default(['https://accounts.google.com', 'accounts.google.com']),
+  jwksUrl: z.string().url().default('https://www.googleapis.com/oauth2/v3/certs'),
+  jwksFile: z.string().optional(),
+  clockSkewSeconds: z.number().min(0).max(300).default(60),
+  keyCacheSeconds: z.number().min(60).max(86400).default(3600),
+});
+
+export const ReplayProtectionConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  ledgerTtlSeconds: z.number().min(3600).max(2592000).default(604800),
+  maxPublishAgeSeconds: z.number().min(60).max(2592000).default(604800),
+  maxFutureSkewSeconds: z.number().min(0).max(3600).default(300),
+});
+
+export const RiskTierSchema = z.object({
+  name: z.string().min(1),
+  minRiskScore: z.number().min(0).max(100),
+  safeTools: z.enum(['allow', 'approval', 'deny']).default('allow'),
+  sideEffects: z.enum(['approval', 'deny']).default('approval'),
+});
+
+const riskTierTable = z.array(RiskTierSchema).min(1).refine(
+  tiers => tiers.some(tier => tier.minRiskScore === 0),
+  { message: 'A risk tier table must include a tier starting at 0' }
+);
+
+export const RiskTiersConfigSchema = z.object({
+  default: riskTierTable.default([
+    { name: 'low', minRiskScore: 0, safeTools: 'allow', sideEffects: 'approval' },
+    { name: 'elevated', minRiskScore: 40, safeTools: 'approval', sideEffects: 'approval' },
+    { name: 'high', minRiskScore: 60, safeTools: 'approval', sideEffects: 'deny' },
+  ]),
+  allowlisted: riskTierTable.default([
+    { name: 'low', minRiskScore: 0, safeTools: 'allow', sideEffects: 'approval' },
+    { name: 'elevated', minRiskScore: 60, safeTools: 'approval', sideEffects: 'approval' },
+    { name: 'high', minRiskScore: 80, safeTools: 'approval', sideEffects: 'deny' },
+  ]),
+});
+
+export const ParameterConditionSchema = z.discriminatedUnion('operator', [
+  z.object({
+    operator: z.literal('recipients_in_domains'),
+    fields: z.array(z.string().min(1)).min(1),
+    /** Domain list, or "$allowedRecipientDomains" to use that config key */
+    domains: z.union([z.array(z.string()), z.literal('$allowedRecipientDomains')]),
+    /** With an empty domain list, either skip the check or treat every address as outside it */
+    onEmptyDomainList: z.enum(['skip', 'deny_all']).default('skip'),
+  }),
+  z.object({
+    operator: z.literal('max_items'),
+    fields: z.array(z.string().min(1)).min(1),
+    limit: z.number().int().min(0),
+  }),
+  z.object({
+    operator: z.literal('max_length'),
+    fields: z.array(z.string().min(1)).min(1),
+    limit: z.number().int().min(0),
+  }),
+  z.object({
+    operator: z.literal('one_of'),
+    fields: z.array(z.string().min(1)).min(1),
+    values: z.array(z.union([z.string(), z.number(), z.boolean()])),
+  }),
+  z.object({
+    operator: z.literal('not_one_of'),
+    fields: z.array(z.string().min(1)).min(1),
+    values: z.array(z.union([z.string(), z.number(), z.boolean()])),
+  }),
+  z.object({
+    operator: z.literal('required'),
+    fields: z.array(z.string().min(1)).min(1),
+  }),
+]);
+
+export const ParameterRuleSchema = z.object({
+  id: z.string().min(1),
+  description: z.string().optional(),
+  tools: z.array(z.string().min(1)).min(1),
+  /** Every condition must hold; any violation applies the effect */
+  conditions: z.array(ParameterConditionSchema).min(1),
+  effect: z.enum(['deny', 'require_approval']).default('deny'),
+});
+
+const RECIPIENT_FIELDS = ['to', 'cc', 'bcc', 'recipients'];
+
+export const ParameterRulesSchema = z.array(ParameterRuleSchema).default([
+  {
+    id: 'send-email-allowed-recipients',
+    description: 'Outgoing mail may only be addressed to allowedRecipientDomains',
+    tools: ['send_email', 'send_reply'],
+    conditions: [{
+      operator: 'recipients_in_domains',
+      fields: RECIPIENT_FIELDS,
+      domains: '$allowedRecipientDomains',
+      onEmptyDomainList: 'skip',
+    }],
+    effect: 'deny',
+  },
+  {
+    id: 'forward-email-internal-only',
+    description: 'Mail is never forwarded outside allowedRecipientDomains',
+    tools: ['forward_email'],
+    conditions: [{
+      operator: 'recipients_in_domains',
+      fields: RECIPIENT_FIELDS,
+      domains: '$allowedRecipientDomains',
+      onEmptyDomainList: 'deny_all',
+    }],
+    effect: 'deny',
+  },
+  {
+    id: 'calendar-event-attendee-limit',
+    description: 'Calendar events may invite at most 10 attendees',
+    tools: ['create_calendar_event', 'update_calendar_event'],
+    conditions: [{ operator: 'max_items', fields: ['attendees'], limit: 10 }],
+    effect: 'deny',
+  },
+]);
+
+export const TaintKindSchema = z.enum(['email_address', 'url', 'domain', 'file_path', 'text']);
+
+export const TaintFieldEffectSchema = z.object({
+  /** Parameter keys or dot paths (array indices omitted) this entry applies to */
+  fields: z.array(z.string().min(1)).min(1),
+  /** Restrict to these taint kinds; all kinds when omitted */
+  kinds: z.array(TaintKindSchema).optional(),
+  effect: z.enum(['deny', 'require_approval', 'flag']),
+});
+
+export const TaintTrackingConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  /** First matching entry wins */
+  fieldEffects: z.array(TaintFieldEffectSchema).default([
+    { fields: ['to', 'cc', 'bcc', 'recipients', 'recipient', 'attendees', 'email'], effect: 'deny' },
+    { fields: ['url', 'urls', 'link', 'href', 'endpoint', 'webhook', 'callback_url'], effect: 'deny' },
+    { fields: ['path', 'file', 'filename', 'filepath', 'file_path', 'destination', 'directory'], effect: 'deny' },
+    // Content fields of a reply or summary quote the email, links and addresses included
+    { fields: ['body', 'content', 'text', 'message', 'subject', 'summary', 'note'], effect: 'flag' },
+  ]),
+  defaultEffect: z.enum(['deny', 'require_approval', 'flag']).default('require_approval'),
+  /** Words per fingerprinted text span */
+  shingleSize: z.number().int().min(4).max(32).default(8),
+});
+
+export const ApprovalTokensConfigSchema = z.object({
+  /** HMAC key for approval tokens; a random per-process key is used when unset */
+  secret: z.string().min(32).optional(),
+  /** Token lifetime, never beyond the approval's own expiry */
+  ttlSeconds: z.number().int().min(60).max(86400).default(900),
+});
+
+export const AttachmentScanningConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  /** Larger attachments are listed but not scanned */
+  maxAttachmentBytes: z.number().int().min(1024).max(10485760).default(1048576),
+  /** Attachments beyond this count (including those in attached messages) are listed but not scanned */
+  maxAttachments: z.number().int().min(0).max(100).default(20),
+});
+
+export const AttachmentPolicyConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  /** Extensions (without the dot, case-insensitive) that are never safe to open */
+  blockedExtensions: z.array(z.string()).default([
+    'exe', 'scr', 'com', 'pif', 'cpl', 'dll', 'msi', 'msp', 'bat', 'cmd',
+    'ps1', 'psm1', 'vbs', 'vbe', 'js', 'jse', 'wsf', 'wsh', 'hta', 'jar',
+    'reg', 'lnk', 'url', 'scf', 'chm', 'iso', 'img', 'vhd', 'vhdx',
+    'docm', 'dotm', 'xlsm', 'xltm', 'xlam', 'pptm', 'potm', 'ppam', 'ppsm', 'sldm',
+  ]),
+  /** Signal types that quarantine the message whatever its score */
+  quarantineOn: z.array(z.enum([
+    'dangerous_attachment',
+    'deceptive_filename',
+    'attachment_type_mismatch',
+    'encrypted_archive',
+  ])).default(['dangerous_attachment', 'deceptive_filename']),
+});
+
+export const CalendarInvitesConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  /** Domains whose meetings are internal; the recipients' domains when empty */
+  internalDomains: z.array(z.string()).default([]),
+});
+
+export const UnicodeAnalysisConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  /** Weight of a mixed-script word, scaled by its confidence */
+  mixedScriptWordWeight: z.number().min(0).max(100).default(15),
+  /** Cap on the weight of all mixed-script words together */
+  maxMixedScriptWeight: z.number().min(0).max(100).default(45),
+  /** Weight of a direction override that contradicts the text direction */
+  bidiOverrideWeight: z.number().min(0).max(100).default(25),
+  /** Cap on the weight of all direction overrides together */
+  maxBidiWeight: z.number().min(0).max(100).default(50),
+});
+
+export const PatternOverrideSchema = z.object({
+  enabled: z.boolean().optional(),
+  weight: z.number().min(0).max(100).optional(),
+});
+
+export const PatternPacksConfigSchema = z.object({
+  /** Pack files (.json, .yaml, .yml), applied in order after the built-in patterns */
+  paths: z.array(z.string()).default([]),
+  /** Load the patterns that ship with the plugin */
+  builtin: z.boolean().default(true),
+  /** By pattern ID; applied after the packs' own overrides */
+  overrides: z.record(z.string(), PatternOverrideSchema).default({}),
+  /** Reload the packs when their files change */
+  watch: z.boolean().default(true),
+});
+
+export const RiskScoringConfigSchema = z.object({
+  /** Each further signal of a low or medium category counts this fraction of the one before it */
+  repeatDecay: z.number().min(0).max(1).default(0.5),
+  /** Most a category can score, by its most severe signal */
+  severityCeilings: z.object({
+    low: z.number().min(0).max(100).default(25),
+    medium: z.number().min(0).max(100).default(50),
+    high: z.number().min(0).max(100).default(80),
+    critical: z.number().min(0).max(100).default(100),
+  }).default({}),
+  /** Most a category can score, by signal type, where tighter than its severity ceiling */
+  categoryCaps: z.record(z.string(), z.number().min(0).max(100))
+    .refine(caps => Object.keys(caps).every(type => RiskSignalTypeSchema.safeParse(type).success), {
+      message: 'Category caps must be keyed by signal type',
+    })
+    .default({
+      urgency_manipulation: 30,
+      financial_keywords: 30,
+    }),
+  /** Scores from here are reviewed; quarantine starts at riskThreshold */
+  reviewThreshold: z.number().min(0).max(100).default(30),
+  /** Scores from here are blocked */
+  blockThreshold: z.number().min(0).max(100).default(80),
+});
+
+export const PatternExecutionConfigSchema = z.object({
+  /** `worker` runs patterns in a thread that is terminated when a budget runs out; `inline` only measures */
+  mode: z.enum(['worker', 'inline']).default('worker'),
+  /** A pattern that runs longer than this on one text is stopped and skipped for the rest of that message, which is reported as `scan_incomplete` */
+  patternTimeoutMs: z.number().min(1).max(10000).default(250),
+  /** Pattern matching for one assessment stops after this long */
+  messageTimeoutMs: z.number().min(1).max(60000).default(2000),
+});
+
+export const HttpClassifierConfigSchema = z.object({
+  type: z.literal('http'),
+  name: z.string().min(1).default('http'),
+  endpoint: z.string().url(),
+  /** Share of the combined score this classifier decides, 0-1 */
+  weight: z.number().min(0).max(1).default(0.3),
+  timeoutMs: z.number().min(100).max(60000).default(5000),
+  /** Further attempts after a network error, timeout or 5xx/429 response */
+  retries: z.number().int().min(0).max(5).default(1),
+  retryDelayMs: z.number().min(0).max(10000).default(250),
+  /** Sent as the value of `authHeaderName` */
+  authHeader: z.string().optional(),
+  authHeaderName: z.string().min(1).default('Authorization'),
+  /** Allow loopback and private addresses for a sidecar; link-local addresses stay blocked */
+  allowLocal: z.boolean().default(false),
+});
+
+export const LocalClassifierConfigSchema = z.object({
+  type: z.literal('local'),
+  name: z.string().min(1).default('local'),
+  /** JSON weights file for a logistic-regression or naive-Bayes model */
+  modelPath: z.string().min(1),
+  weight: z.number().min(0).max(1).default(0.3),
+});
+
+export const ClassifierConfigSchema = z.discriminatedUnion('type', [
+  HttpClassifierConfigSchema,
+  LocalClassifierConfigSchema,
+]);
+
 export const MailGuardConfigSchema = z.object({
   endpoint: z.string().default('/mailguard/gmail'),
-  webhookSecret: z.string().min(16),
+  webhookSecret: z.string().min(16).optional(),
   maxPayloadSize: z.number().min(1024).max(10485760).default(1048576),
   maxBodyLength: z.number().min(1000).max(500000).default(50000),
   riskThreshold: z.number().min(0).max(100).default(70),
   enableMLClassifier: z.boolean().default(false),
   mlClassifierEndpoint: z.string().url().optional(),
+  /** Run when enableMLClassifier is set, alongside mlClassifierEndpoint */
+  classifiers: z.array(ClassifierConfigSchema).optional(),
   allowedSenderDomains: z.array(z.string()).default([]),
   blockedSenderDomains: z.array(z.string()).default([]),
   allowedRecipientDomains: z.array(z.string()).default([]),
@@ -52,10 +373,51 @@ export const MailGuardConfigSchema = z.object({
   auditLogPath: z.string().optional(),
   allowUnsafeExternalContent: z.boolean().default(false),
   lobsterIntegration: LobsterConfigSchema.default({}),
-});
+  gmailApi: GmailApiConfigSchema.optional(),
+  pubsubOidc: PubSubOidcConfigSchema.optional(),
+  replayProtection: ReplayProtectionConfigSchema.optional(),
+  riskTiers: RiskTiersConfigSchema.optional(),
+  parameterRules: ParameterRulesSchema.optional(),
+  taintTracking: TaintTrackingConfigSchema.optional(),
+  approvalTokens: ApprovalTokensConfigSchema.optional(),
+  approvalQuorum: ApprovalQuorumConfigSchema.optional(),
+  attachmentScanning: AttachmentScanningConfigSchema.optional(),
+  attachmentPolicy: AttachmentPolicyConfigSchema.optional(),
+  calendarInvites: CalendarInvitesConfigSchema.optional(),
+  unicodeAnalysis: UnicodeAnalysisConfigSchema.optional(),
+  patternPacks: PatternPacksConfigSchema.optional(),
+  patternExecution: PatternExecutionConfigSchema.optional(),
+  riskScoring: RiskScoringConfigSchema.optional(),
+}).refine(
+  config => config.webhookSecret !== undefined || config.pubsubOidc?.enabled === true,
+  { message: 'Either webhookSecret or pubsubOidc must be configured', path: ['webhookSecret'] }
+);
 
 export type MailGuardConfig = z.infer<typeof MailGuardConfigSchema>;
 export type LobsterConfig = z.infer<typeof LobsterConfigSchema>;
+export type GmailApiConfig = z.infer<typeof GmailApiConfigSchema>;
+export type GmailOAuthConfig = z.infer<typeof GmailOAuthConfigSchema>;
+export type PubSubOidcConfig = z.infer<typeof PubSubOidcConfigSchema>;
+export type ReplayProtectionConfig = z.infer<typeof ReplayProtectionConfigSchema>;
+export type RiskTier = z.infer<typeof RiskTierSchema>;
+export type RiskTiersConfig = z.infer<typeof RiskTiersConfigSchema>;
+export type ParameterCondition = z.infer<typeof ParameterConditionSchema>;
+export type ParameterRule = z.infer<typeof ParameterRuleSchema>;
+export type TaintKind = z.infer<typeof TaintKindSchema>;
+export type TaintTrackingConfig = z.infer<typeof TaintTrackingConfigSchema>;
+export type ApprovalTokensConfig = z.infer<typeof ApprovalTokensConfigSchema>;
+export type ApprovalQuorumConfig = z.infer<typeof ApprovalQuorumConfigSchema>;
+export type AttachmentScanningConfig = z.infer<typeof AttachmentScanningConfigSchema>;
+export type AttachmentPolicyConfig = z.infer<typeof AttachmentPolicyConfigSchema>;
+export type CalendarInvitesConfig = z.infer<typeof CalendarInvitesConfigSchema>;
+export type UnicodeAnalysisConfig = z.infer<typeof UnicodeAnalysisConfigSchema>;
+export type PatternOverride = z.infer<typeof PatternOverrideSchema>;
+export type PatternPacksConfig = z.infer<typeof PatternPacksConfigSchema>;
+export type PatternExecutionConfig = z.infer<typeof PatternExecutionConfigSchema>;
+export type RiskScoringConfig = z.infer<typeof RiskScoringConfigSchema>;
+export type HttpClassifierConfig = z.infer<typeof HttpClassifierConfigSchema>;
+export type LocalClassifierConfig = z.infer<typeof LocalClassifierConfigSchema>;
+export type ClassifierConfig = z.infer<typeof ClassifierConfigSchema>;
 
 // ============================================================================
 // Email Envelope Types
@@ -98,47 +460,198 @@ export interface AttachmentMetadata {
   size: number;
   contentId?: string;
   isInline: boolean;
+  /** Outcome of the attachment content scan; absent when scanning is disabled */
+  scanStatus?: AttachmentScanStatus;
+  /** Risk of the attachment's extracted text, when scanned */
+  riskScore?: RiskScore;
 }
 
+export type AttachmentScanStatus =
+  | 'scanned'
+  | 'unsupported'
+  | 'not_downloaded'
+  | 'too_large'
+  | 'limit_reached'
+  | 'calendar';
+
 export interface QuotedBlock {
   content: string;
   depth: number;
   attribution?: string;
 }
 
+export type HiddenContentReason =
+  | 'comment'
+  | 'non_rendered'
+  | 'hidden_attribute'
+  | 'aria_hidden'
+  | 'display_none'
+  | 'visibility_hidden'
+  | 'zero_opacity'
+  | 'tiny_font'
+  | 'color_match'
+  | 'collapsed'
+  | 'off_screen'
+  | 'clipped'
+  | 'excessive_nesting'
+  | 'zero_width_chars'
+  | 'line_separators'
+  | 'bidi_override';
+
+/**
+ * Content removed because a reader would not see it
+ */
+export interface HiddenContentFinding {
+  reason: HiddenContentReason;
+  /** Element that hid the content; absent for comments and character-level findings */
+  element?: string;
+  /** Declaration or attribute responsible, e.g. "display:none" */
+  detail?: string;
+  /** Stylesheet selector the declaration came from, when not inline */
+  selector?: string;
+  /** Characters removed */
+  length: number;
+  /** The removed text, bounded; kept for operators and risk scoring, never sent to the agent */
+  text?: string;
+  /** True when `text` was cut to fit the forensic budget */
+  textTruncated?: boolean;
+}
+
+/** Text whose display order a direction control character changes */
+export interface BiDiSpan {
+  /** The control character, e.g. "U+202E" */
+  control: string;
+  /** Text from the control to its terminator or the end of the line, controls removed */
+  text: string;
+}
+
+/** Script mixing and text direction findings from sanitization */
+export interface UnicodeAnalysisReport {
+  scripts: string[];
+  mixedScriptWords: Array<{ word: string; scripts: string[]; confidence: number }>;
+  primaryDirection: 'ltr' | 'rtl' | 'mixed';
+  bidiControlCount: number;
+  suspiciousBidiSpans: BiDiSpan[];
+}
+
+/** Source text that spelled ordinary characters with character references */
+export interface EncodedTextFinding {
+  /** The source window, tags removed */
+  encoded: string;
+  /** The same window with every level of references decoded */
+  decoded: string;
+}
+
 export interface RiskSignal {
   type: RiskSignalType;
   severity: 'low' | 'medium' | 'high' | 'critical';
   description: string;
   evidence?: string;
+  /** What `evidence` reads as once decoded or with look-alike characters replaced */
+  decodedEvidence?: string;
   location?: {
     start: number;
     end: number;
   };
+  /** Where the signal was found when not in the message body */
+  source?: RiskSignalSource;
+  /** ID of the detection pattern that raised the signal */
+  patternId?: string;
+}
+
+export type RiskSignalSource = 'quoted' | 'attribution';
+
+export const RiskSignalTypeSchema = z.enum([
+  'instruction_override',
+  'tool_baiting',
+  'obfuscation',
+  'urgency_manipulation',
+  'financial_keywords',
+  'suspicious_link',
+  'hidden_content',
+  'encoding_abuse',
+  'prompt_leak_attempt',
+  'role_impersonation',
+  'data_exfiltration',
+  'command_injection',
+  'script_mixing',
+  'bidi_abuse',
+  'dangerous_attachment',
+  'deceptive_filename',
+  'attachment_type_mismatch',
+  'encrypted_archive',
+  'calendar_organizer_mismatch',
+  'calendar_external_attendee',
+  'quote_attribution_mismatch',
+  'scan_incomplete',
+]);
+
+export type RiskSignalType = z.infer<typeof RiskSignalTypeSchema>;
+
+export interface CalendarParticipant {
+  /** Lower-cased address without `mailto:` */
+  address: string;
+  name?: string;
+  role?: string;
+  status?: string;
+  /** Address acting on the participant's behalf (SENT-BY) */
+  sentBy?: string;
+}
+
+/** A meeting invite event; text fields are sanitized like the message body */
+export interface CalendarEvent {
+  method?: string;
+  uid?: string;
+  sequence?: number;
+  summary?: string;
+  description?: string;
+  location?: string;
+  organizer?: CalendarParticipant;
+  attendees: CalendarParticipant[];
+  /** ISO 8601; floating and TZID times carry no offset */
+  start?: string;
+  end?: string;
+  timezone?: string;
+  urls: string[];
 }
 
-export type RiskSignalType =
-  | 'instruction_override'
-  | 'tool_baiting'
-  | 'obfuscation'
-  | 'urgency_manipulation'
-  | 'financial_keywords'
-  | 'suspicious_link'
-  | 'hidden_content'
-  | 'encoding_abuse'
-  | 'prompt_leak_attempt'
-  | 'role_impersonation'
-  | 'data_exfiltration'
-  | 'command_injection'
-  | 'script_mixing'
-  | 'bidi_abuse';
-
 export interface RiskScore {
   score: number; // 0-100
   mlScore?: number; // Optional ML classifier score
+  /** Each classifier's result, when classifiers ran */
+  classifierScores?: ClassifierScore[];
   reasons: string[];
   signals: RiskSignal[];
   recommendation: 'allow' | 'review' | 'quarantine' | 'block';
+  /** How each signal type contributed to the score */
+  breakdown?: RiskBreakdown;
+}
+
+export interface ClassifierScore {
+  name: string;
+  score: number;
+  confidence: number;
+  /** Share of the combined score the classifier decided */
+  weight: number;
+}
+
+export interface RiskCategoryScore {
+  type: RiskSignalType;
+  /** Most severe signal of this type */
+  severity: RiskSignal['severity'];
+  /** Weights of the signals of this type, highest first */
+  weights: number[];
+  /** Category score after repeat decay and ceilings, 0-100 */
+  score: number;
+  /** Points of the final score this category added */
+  contribution: number;
+}
+
+export interface RiskBreakdown {
+  /** Most severe first, in the order they were combined */
+  categories: RiskCategoryScore[];
+  /** Multiplier applied to the combined score; below 1 for allowlisted senders */
+  trustFactor: number;
 }
 
 export interface SanitizedEnvelope {
@@ -147,6 +660,8 @@ export interface SanitizedEnvelope {
   quotedBlocks: QuotedBlock[];
   links: ExtractedLink[];
   attachments: AttachmentMetadata[];
+  /** Events from calendar invites in the message, when there are any */
+  calendarEvents?: CalendarEvent[];
   signals: RiskSignal[];
   riskScore: RiskScore;
   provenance: EmailProvenance;
@@ -154,14 +669,15 @@ export interface SanitizedEnvelope {
     originalLength: number;
     sanitizedLength: number;
     truncated: boolean;
-    hiddenContentRemoved: boolean;
+    hiddenContent: HiddenContentFinding[];
+    unicodeAnalysis: UnicodeAnalysisReport;
     encodingNormalized: boolean;
     processingTimeMs: number;
   };
 }
 
 export interface EmailProvenance {
-  source: 'gmail';
+  source: 'gmail' | 'rfc822';
   hookName: string;
   receivedAt: Date;
   senderDomain: string;
@@ -188,6 +704,23 @@ export interface GmailNotification {
   historyId: string;
 }
 
+export interface GmailHistoryRecord {
+  id: string;
+  messagesAdded?: Array<{
+    message: {
+      id: string;
+      threadId: string;
+      labelIds?: string[];
+    };
+  }>;
+}
+
+export interface GmailHistoryListResponse {
+  history?: GmailHistoryRecord[];
+  nextPageToken?: string;
+  historyId: string;
+}
+
 export interface GmailMessagePayload {
   id: string;
   threadId: string;
@@ -227,13 +760,16 @@ export interface GmailMessagePart {
 // ============================================================================
 
 export interface ToolPolicyContext {
-  source: 'gmail' | 'direct' | 'api' | 'hook';
+  source: 'gmail' | 'rfc822' | 'direct' | 'api' | 'hook';
   riskScore: number;
   senderDomain: string;
   isAllowlistedSender: boolean;
   sessionId: string;
   requestedTool: string;
   requestedAction?: string;
+  parameters?: Record<string, unknown>;
+  /** Token proving an operator approved this exact call; consumed on use */
+  approvalToken?: string;
 }
 
 export interface ToolPolicyDecision {
@@ -243,6 +779,28 @@ export interface ToolPolicyDecision {
   approvalType?: 'lobster' | 'exec-approval';
   denialType?: 'hard' | 'soft';
   alternatives?: string[];
+  /** Risk tier that governed the decision, when a session policy applied */
+  riskTier?: string;
+  /** Parameter rules that matched the requested tool */
+  parameterRules?: ParameterRuleResult[];
+  /** Tool arguments carrying values that originated in the email */
+  taint?: TaintMatch[];
+}
+
+export interface TaintMatch {
+  field: string;
+  kind: TaintKind;
+  origin: 'body' | 'link' | 'quoted' | 'calendar';
+  effect: 'deny' | 'require_approval' | 'flag';
+  evidence: string;
+}
+
+export interface ParameterRuleResult {
+  ruleId: string;
+  description?: string;
+  effect: 'deny' | 'require_approval';
+  passed: boolean;
+  violations: string[];
 }
 
 // ============================================================================
@@ -266,6 +824,8 @@ export interface ApprovalRequest {
   status: 'pending' | 'approved' | 'denied' | 'expired';
   resolvedBy?: string;
   resolvedAt?: Date;
+  /** Set once an approved action has been allowed through; approvals are single-use */
+  executedAt?: Date;
 }
 
 export interface SideEffectPlan {
@@ -309,6 +869,7 @@ export type AuditEventType =
   | 'tool_denied'
   | 'tool_allowed'
   | 'approval_requested'
+  | 'approval_vote'
   | 'approval_granted'
   | 'approval_denied'
   | 'quarantine'
@@ -0,0 +1,398 @@
+/**
+ * Approval Pipeline
+ * Connects firewall approval requests to Lobster workflows and operator decisions
+ */
+
+import { randomUUID } from 'crypto';
+import type {
+  MailGuardConfig,
+  ApprovalQuorumConfig,
+  ApprovalRequest,
+  AuditLogEntry,
+  Logger,
+  PluginStorage,
+} from '../types.js';
+import { ApprovalQuorumConfigSchema } from '../types.js';
+import { hashParameters, type ToolFirewall } from '../policy/tool_firewall.js';
+import type { LobsterAdapter, LobsterApprovalStep } from './lobster_adapter.js';
+import {
+  ApprovalVoteError,
+  checkApprover,
+  extractAddress,
+  resolveQuorum,
+  type ApprovalVote,
+  type ApprovalVoteFailureReason,
+} from './approval_quorum.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const APPROVAL_KEY_PREFIX = 'approval:';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Persisted link between an approval ID, its session and its Lobster step,
+ * so the CLI can resolve an approval from its ID alone
+ */
+interface ApprovalRecord {
+  approvalId: string;
+  sessionId: string;
+  planId: string;
+  action: string;
+  workflowId?: string;
+  stepId?: string;
+  createdAt: string;
+  expiresAt: string;
+  /** Votes cast so far when there is no Lobster step to hold them */
+  votes?: Array<Omit<ApprovalVote, 'votedAt'> & { votedAt: string }>;
+}
+
+export interface ApprovalTicket {
+  approvalId: string;
+  workflowId?: string;
+  expiresAt: Date;
+  /** True when an identical request was already pending */
+  reused: boolean;
+}
+
+export type ApprovalResolution =
+  | { status: 'approved' | 'denied'; approval: ApprovalRequest; sessionId: string }
+  | { status: 'vote_recorded'; approval: ApprovalRequest; sessionId: string; approvalsRemaining: number }
+  | {
+    status: 'rejected';
+    reason: 'not_found' | 'session_expired' | 'already_resolved' | 'expired' | 'rate_limited' | ApprovalVoteFailureReason;
+    message: string;
+  };
+
+export interface PendingApproval extends ApprovalRequest {
+  sessionId: string;
+  workflowId?: string;
+}
+
+// ============================================================================
+// Approval Pipeline
+// ============================================================================
+
+/**
+ * One approval path for soft-denied actions: the firewall creates the plan
+ * and approval request, Lobster carries the operator workflow, and the
+ * resolution is written back to the firewall where the approved action can
+ * then be used exactly once.
+ */
+export class ApprovalPipeline {
+  private quorumConfig: ApprovalQuorumConfig;
+
+  constructor(
+    private config: MailGuardConfig,
+    private logger: Logger,
+    private storage: PluginStorage,
+    private toolFirewall: ToolFirewall,
+    private lobsterAdapter: LobsterAdapter
+  ) {
+    this.quorumConfig = config.approvalQuorum ?? ApprovalQuorumConfigSchema.parse({});
+  }
+
+  /**
+   * Open an approval for a soft-denied action. Repeated requests for the same
+   * action and parameters share the pending approval.
+   */
+  async requestApproval(
+    sessionId: string,
+    tool: string,
+    parameters: Record<string, unknown>,
+    reason: string
+  ): Promise<ApprovalTicket | undefined> {
+    const parametersHash = hashParameters(parameters);
+    const existing = this.toolFirewall.getPendingApprovals(sessionId).find(approval =>
+      approval.action === tool && hashParameters(approval.details) === parametersHash
+    );
+    if (existing) {
+      const record = await this.storage.get<ApprovalRecord>(APPROVAL_KEY_PREFIX + existing.id);
+      return {
+        approvalId: existing.id,
+        workflowId: record?.workflowId,
+        expiresAt: existing.expiresAt,
+        reused: true,
+      };
+    }
+
+    const plan = this.toolFirewall.createSideEffectPlan(sessionId, [{
+      id: randomUUID(),
+      type: tool,
+      description: reason,
+      parameters,
+      requiresApproval: true,
+      approved: false,
+    }]);
+
+    const [approval] = plan.approvals;
+    const [action] = plan.actions;
+    if (!approval || !action) {
+      return undefined;
+    }
+
+    let workflowId: string | undefined;
+    let stepId: string | undefined;
+    if (this.config.lobsterIntegration.enabled) {
+      const workflow = await this.lobsterAdapter.createApprovalWorkflow(sessionId, plan, {
+        from: approval.riskContext.emailFrom,
+        subject: approval.riskContext.emailSubject,
+        riskScore: approval.riskContext.riskScore,
+        signals: approval.riskContext.signals,
+        initiator: extractAddress(approval.riskContext.emailFrom),
+      });
+      await this.lobsterAdapter.startWorkflow(workflow.id);
+      workflowId = workflow.id;
+      stepId = `step-${action.id}`;
+    }
+
+    const record: ApprovalRecord = {
+      approvalId: approval.id,
+      sessionId,
+      planId: plan.id,
+      action: tool,
+      workflowId,
+      stepId,
+      createdAt: approval.createdAt.toISOString(),
+      expiresAt: approval.expiresAt.toISOString(),
+    };
+    await this.storage.set(APPROVAL_KEY_PREFIX + approval.id, record, this.recordTtlSeconds());
+
+    await this.emitAuditLog({
+      timestamp: new Date(),
+      eventType: 'approval_requested',
+      sessionId,
+      details: { approvalId: approval.id, action: tool, workflowId, reason },
+      riskScore: approval.riskContext.riskScore,
+    });
+
+    this.logger.info('Approval requested', { sessionId, approvalId: approval.id, action: tool, workflowId });
+
+    return { approvalId: approval.id, workflowId, expiresAt: approval.expiresAt, reused: false };
+  }
+
+  /**
+   * Record an approve/deny decision by approval ID. With Lobster enabled the
+   * decision is a vote on the workflow step, and the firewall approval is
+   * only resolved once the step's quorum is reached or a vote rejects it.
+   * `caller` is the authenticated identity behind `resolvedBy`; one caller
+   * counts once towards a quorum whatever names it votes under.
+   */
+  async resolve(
+    approvalId: string,
+    approved: boolean,
+    resolvedBy: string,
+    comment?: string,
+    caller?: string
+  ): Promise<ApprovalResolution> {
+    const record = await this.storage.get<ApprovalRecord>(APPROVAL_KEY_PREFIX + approvalId);
+    if (!record) {
+      return { status: 'rejected', reason: 'not_found', message: `Approval not found: ${approvalId}` };
+    }
+
+    const approval = this.toolFirewall.getApproval(record.sessionId, approvalId);
+    if (!approval) {
+      return {
+        status: 'rejected',
+        reason: 'session_expired',
+        message: `Session ${record.sessionId} is no longer active`,
+      };
+    }
+    if (approval.status !== 'pending') {
+      return {
+        status: 'rejected',
+        reason: 'already_resolved',
+        message: `Approval ${approvalId} is already ${approval.status}`,
+      };
+    }
+
+    if (approval.expiresAt.getTime() <= Date.now()) {
+      approval.status = 'expired';
+      if (record.workflowId) {
+        await this.cancelWorkflow(record.workflowId, 'Approval expired');
+      }
+      return { status: 'rejected', reason: 'expired', message: `Approval ${approvalId} has expired` };
+    }
+
+    const step = record.workflowId && record.stepId
+      ? await this.findStep(record.workflowId, record.stepId)
+      : undefined;
+
+    let outcome: { approved: boolean; resolvedBy: string };
+    if (step && record.workflowId) {
+      // A step closed earlier whose outcome never reached the firewall
+      if (step.status === 'completed' || step.status === 'failed') {
+        outcome = { approved: step.status === 'completed', resolvedBy: step.result?.approvedBy ?? resolvedBy };
+      } else {
+        try {
+          const result = await this.lobsterAdapter.resolveApproval(
+            record.workflowId,
+            step.id,
+            approved,
+            resolvedBy,
+            comment,
+            caller
+          );
+          if (!result.stepComplete) {
+            await this.auditDecision(record, approval, 'approval_vote', resolvedBy, approved, comment, caller);
+            return {
+              status: 'vote_recorded',
+              approval,
+              sessionId: record.sessionId,
+              approvalsRemaining: result.approvalsRemaining,
+            };
+          }
+        } catch (error) {
+          if (error instanceof ApprovalVoteError) {
+            return { status: 'rejected', reason: error.reason, message: error.message };
+          }
+          throw error;
+        }
+        outcome = { approved, resolvedBy: step.result?.approvedBy ?? resolvedBy };
+      }
+    } else {
+      if (record.workflowId) {
+        this.logger.warn('Lobster workflow missing for approval', { approvalId, workflowId: record.workflowId });
+      }
+      // Without a workflow the votes are kept on the approval record instead
+      const quorum = resolveQuorum(this.quorumConfig, approval.riskContext.riskScore);
+      const votes = record.votes ?? [];
+      try {
+        checkApprover(resolvedBy, quorum, {
+          initiator: extractAddress(approval.riskContext.emailFrom),
+          allowSelfApproval: this.quorumConfig.allowSelfApproval,
+          votes,
+          caller,
+        });
+      } catch (error) {
+        if (error instanceof ApprovalVoteError) {
+          return { status: 'rejected', reason: error.reason, message: error.message };
+        }
+        throw error;
+      }
+
+      votes.push({ approver: resolvedBy, caller, approved, votedAt: new Date().toISOString(), comment });
+      const approvals = votes.filter(v => v.approved);
+      if (approved && approvals.length < quorum.requiredApprovals) {
+        await this.storage.set(APPROVAL_KEY_PREFIX + approvalId, { ...record, votes }, this.recordTtlSeconds());
+        await this.auditDecision(record, approval, 'approval_vote', resolvedBy, approved, comment, caller);
+        return {
+          status: 'vote_recorded',
+          approval,
+          sessionId: record.sessionId,
+          approvalsRemaining: quorum.requiredApprovals - approvals.length,
+        };
+      }
+      outcome = { approved, resolvedBy: approved ? approvals.map(v => v.approver).join(', ') : resolvedBy };
+    }
+
+    if (!this.toolFirewall.resolveApproval(record.sessionId, approvalId, outcome.approved, outcome.resolvedBy)) {
+      return {
+        status: 'rejected',
+        reason: 'rate_limited',
+        message: 'Too many approval decisions for this session; try again shortly',
+      };
+    }
+
+    await this.auditDecision(
+      record,
+      approval,
+      outcome.approved ? 'approval_granted' : 'approval_denied',
+      outcome.resolvedBy,
+      outcome.approved,
+      comment,
+      caller
+    );
+
+    return { status: outcome.approved ? 'approved' : 'denied', approval, sessionId: record.sessionId };
+  }
+
+  /**
+   * List pending approvals, optionally for one session
+   */
+  async listPending(sessionId?: string): Promise<PendingApproval[]> {
+    const pending: PendingApproval[] = [];
+
+    for (const key of await this.storage.list(APPROVAL_KEY_PREFIX)) {
+      const record = await this.storage.get<ApprovalRecord>(key);
+      if (!record || (sessionId && record.sessionId !== sessionId)) continue;
+
+      const approval = this.toolFirewall.getApproval(record.sessionId, record.approvalId);
+      if (approval?.status === 'pending') {
+        pending.push({ ...approval, sessionId: record.sessionId, workflowId: record.workflowId });
+      }
+    }
+
+    return pending.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  // ============================================================================
+  // Private Methods
+  // ============================================================================
+
+  private async findStep(workflowId: string, stepId: string): Promise<LobsterApprovalStep | undefined> {
+    // Loads the workflow from storage if it is not in memory
+    const workflow = await this.lobsterAdapter.getWorkflowStatus(workflowId);
+    const step = workflow?.steps.find(s => s.id === stepId);
+    return step?.type === 'approval' ? step as LobsterApprovalStep : undefined;
+  }
+
+  private async auditDecision(
+    record: ApprovalRecord,
+    approval: ApprovalRequest,
+    eventType: 'approval_vote' | 'approval_granted' | 'approval_denied',
+    resolvedBy: string,
+    approved: boolean,
+    comment: string | undefined,
+    caller: string | undefined
+  ): Promise<void> {
+    await this.emitAuditLog({
+      timestamp: new Date(),
+      eventType,
+      sessionId: record.sessionId,
+      details: {
+        approvalId: record.approvalId,
+        action: record.action,
+        workflowId: record.workflowId,
+        resolvedBy,
+        caller,
+        comment,
+      },
+      riskScore: approval.riskContext.riskScore,
+      decision: approved ? 'approved' : 'denied',
+    });
+  }
+
+  private async cancelWorkflow(workflowId: string, reason: string): Promise<void> {
+    if (await this.lobsterAdapter.getWorkflowStatus(workflowId)) {
+      await this.lobsterAdapter.cancelWorkflow(workflowId, reason);
+    }
+  }
+
+  private recordTtlSeconds(): number {
+    return this.config.lobsterIntegration.timeout + 3600; // Matches the workflow TTL
+  }
+
+  private async emitAuditLog(entry: AuditLogEntry): Promise<void> {
+    const logKey = `audit:${entry.timestamp.getTime()}-${Math.random().toString(36).slice(2)}`;
+    await this.storage.set(logKey, entry, 86400 * 30); // 30 days TTL
+  }
+}
+
+// ============================================================================
+// Factory
+// ============================================================================
+
+export function createApprovalPipeline(
+  config: MailGuardConfig,
+  logger: Logger,
+  storage: PluginStorage,
+  toolFirewall: ToolFirewall,
+  lobsterAdapter: LobsterAdapter
+): ApprovalPipeline {
+  return new ApprovalPipeline(config, logger, storage, toolFirewall, lobsterAdapter);
+}
@@ -0,0 +1,111 @@
+/**
+ * Approval Quorum
+ * Who may approve a step, and how many distinct approvers it needs
+ */
+
+import type { ApprovalQuorumConfig } from '../types.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ApprovalVoteFailureReason =
+  | 'not_authorized'
+  | 'self_approval'
+  | 'duplicate_vote'
+  | 'step_closed';
+
+export class ApprovalVoteError extends Error {
+  constructor(
+    message: string,
+    readonly reason: ApprovalVoteFailureReason
+  ) {
+    super(message);
+    this.name = 'ApprovalVoteError';
+  }
+}
+
+export interface ApprovalQuorum {
+  /** Eligible approvers (lowercased); undefined means anyone */
+  approvers?: string[];
+  requiredApprovals: number;
+}
+
+export interface ApprovalVote {
+  approver: string;
+  /** Authenticated identity that cast the vote (the OS user for the CLI) */
+  caller?: string;
+  approved: boolean;
+  votedAt: Date;
+  comment?: string;
+}
+
+// ============================================================================
+// Quorum Resolution
+// ============================================================================
+
+/**
+ * Resolve the eligible approvers and quorum size for a session's risk score
+ */
+export function resolveQuorum(config: ApprovalQuorumConfig, riskScore: number): ApprovalQuorum {
+  const members = config.approverRole ? config.roles[config.approverRole] ?? [] : [];
+  const approvers = [...new Set([...config.approvers, ...members].map(normalizeIdentity))];
+
+  const escalated = config.escalation
+    .filter(entry => riskScore >= entry.minRiskScore)
+    .reduce((max, entry) => Math.max(max, entry.requiredApprovals), 0);
+
+  return {
+    approvers: approvers.length > 0 || config.approverRole ? approvers : undefined,
+    requiredApprovals: Math.max(config.requiredApprovals, escalated),
+  };
+}
+
+/**
+ * Throw unless `approver` may vote: eligible, not the session initiator
+ * (unless allowed) and not voting twice, whether under the same name or,
+ * when the caller is known, as the same caller under another name
+ */
+export function checkApprover(
+  approver: string,
+  quorum: Pick<ApprovalQuorum, 'approvers'>,
+  options: {
+    initiator?: string;
+    allowSelfApproval: boolean;
+    votes?: Pick<ApprovalVote, 'approver' | 'caller'>[];
+    caller?: string;
+  }
+): void {
+  const identity = normalizeIdentity(approver);
+
+  if (quorum.approvers && !quorum.approvers.includes(identity)) {
+    throw new ApprovalVoteError(`${approver} is not an authorized approver`, 'not_authorized');
+  }
+  if (!options.allowSelfApproval && options.initiator && normalizeIdentity(options.initiator) === identity) {
+    throw new ApprovalVoteError('The session initiator cannot approve their own request', 'self_approval');
+  }
+  if (options.votes?.some(vote => normalizeIdentity(vote.approver) === identity)) {
+    throw new ApprovalVoteError(`${approver} has already voted on this step`, 'duplicate_vote');
+  }
+  const caller = options.caller;
+  const earlier = caller ? options.votes?.find(vote => vote.caller === caller) : undefined;
+  if (earlier) {
+    throw new ApprovalVoteError(`${caller} has already voted on this step as ${earlier.approver}`, 'duplicate_vote');
+  }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Extract the bare address from a From header ("Name <a@b.com>" -> "a@b.com")
+ */
+export function extractAddress(from: string): string {
+  const match = from.match(/<([^>]+)>/);
+  return (match?.[1] ?? from).trim();
+}
+
+function normalizeIdentity(identity: string): string {
+  return identity.trim().toLowerCase();
+}
@@ -6,6 +6,7 @@
 import { randomUUID } from 'crypto';
 import type {
   MailGuardConfig,
+  ApprovalQuorumConfig,
   ApprovalRequest,
   SideEffectPlan,
   PlannedAction,
@@ -13,6 +14,14 @@ import type {
   Logger,
   PluginStorage,
 } from '../types.js';
+import { ApprovalQuorumConfigSchema } from '../types.js';
+import {
+  ApprovalVoteError,
+  checkApprover,
+  extractAddress,
+  resolveQuorum,
+  type ApprovalVote,
+} from './approval_quorum.js';
 
 // ============================================================================
 // Lobster Workflow Types
@@ -50,13 +59,23 @@ export interface LobsterApprovalStep extends LobsterStep {
     requiredApprovals?: number;
   };
   result?: {
+    /** True once the quorum is reached; false while votes are outstanding or after a rejection */
     approved: boolean;
     approvedBy?: string;
     approvedAt?: Date;
     comment?: string;
+    votes?: ApprovalVote[];
   };
 }
 
+export interface ApprovalStepResolution {
+  workflowComplete: boolean;
+  allApproved: boolean;
+  /** Whether this vote closed the step */
+  stepComplete: boolean;
+  approvalsRemaining: number;
+}
+
 // ============================================================================
 // Lobster Adapter
 // ============================================================================
@@ -65,12 +84,14 @@ export class LobsterAdapter {
   private config: MailGuardConfig;
   private logger: Logger;
   private storage: PluginStorage;
+  private quorumConfig: ApprovalQuorumConfig;
   private activeWorkflows: Map<string, LobsterWorkflow> = new Map();
 
   constructor(config: MailGuardConfig, logger: Logger, storage: PluginStorage) {
     this.config = config;
     this.logger = logger;
     this.storage = storage;
+    this.quorumConfig = config.approvalQuorum ?? ApprovalQuorumConfigSchema.parse({});
   }
 
   /**
@@ -84,9 +105,21 @@ export class LobsterAdapter {
       subject: string;
       riskScore: number;
       signals: RiskSignal[];
+      /** Identity that may not approve; defaults to the sender address */
+      initiator?: string;
     }
   ): Promise<LobsterWorkflow> {
     const workflowId = `wf-${randomUUID()}`;
+    const quorum = resolveQuorum(this.quorumConfig, emailContext.riskScore);
+    const initiator = emailContext.initiator ?? extractAddress(emailContext.from);
+
+    if (quorum.approvers && quorum.approvers.length < quorum.requiredApprovals) {
+      this.logger.warn('Approval quorum cannot be reached with the configured approvers', {
+        workflowId,
+        approverCount: quorum.approvers.length,
+        requiredApprovals: quorum.requiredApprovals,
+      });
+    }
 
     // Build approval steps for each action requiring approval
     const steps: LobsterStep[] = [];
@@ -103,6 +136,8 @@ export class LobsterAdapter {
             description: this.buildApprovalDescription(action, emailContext),
             preview: action.description,
             timeout: this.config.lobsterIntegration.timeout,
+            approvers: quorum.approvers,
+            requiredApprovals: quorum.requiredApprovals,
           },
         };
         steps.push(approvalStep);
@@ -124,6 +159,7 @@ export class LobsterAdapter {
         emailSubject: emailContext.subject,
         riskScore: emailContext.riskScore,
         signalCount: emailContext.signals.length,
+        initiator,
       },
     };
 
@@ -136,6 +172,7 @@ export class LobsterAdapter {
       sessionId,
       stepCount: steps.length,
       riskScore: emailContext.riskScore,
+      requiredApprovals: quorum.requiredApprovals,
     });
 
     return workflow;
@@ -168,15 +205,19 @@ export class LobsterAdapter {
   }
 
   /**
-   * Resolve an approval step
+   * Record an approver's vote on a step. The step completes once the
+   * required number of distinct approvers have approved; any rejection
+   * fails it. Throws ApprovalVoteError for ineligible or repeated votes.
+   * `caller` is the authenticated identity behind `approvedBy`, when known.
    */
   async resolveApproval(
     workflowId: string,
     stepId: string,
     approved: boolean,
     approvedBy: string,
-    comment?: string
-  ): Promise<{ workflowComplete: boolean; allApproved: boolean }> {
+    comment?: string,
+    caller?: string
+  ): Promise<ApprovalStepResolution> {
     const workflow = this.activeWorkflows.get(workflowId);
     if (!workflow) {
       throw new Error(`Workflow not found: ${workflowId}`);
@@ -186,17 +227,55 @@ export class LobsterAdapter {
     if (!step || step.type !== 'approval') {
       throw new Error(`Approval step not found: ${stepId}`);
     }
+    if (step.status !== 'pending' && step.status !== 'in_progress') {
+      throw new ApprovalVoteError(`Approval step ${stepId} is already ${step.status}`, 'step_closed');
+    }
+
+    const votes = step.result?.votes ?? [];
+    checkApprover(approvedBy, step.config, {
+      initiator: workflow.context.initiator as string | undefined,
+      allowSelfApproval: this.quorumConfig.allowSelfApproval,
+      votes,
+      caller,
+    });
+
+    const now = new Date();
+    votes.push({ approver: approvedBy, caller, approved, votedAt: now, comment });
+    workflow.updatedAt = now;
+
+    const requiredApprovals = step.config.requiredApprovals ?? 1;
+    const approvals = votes.filter(v => v.approved);
+
+    if (approved && approvals.length < requiredApprovals) {
+      step.status = 'in_progress';
+      step.result = { approved: false, votes };
+      await this.persistWorkflow(workflow);
+
+      this.logger.info('Approval vote recorded', {
+        workflowId,
+        stepId,
+        approvedBy,
+        approvals: approvals.length,
+        requiredApprovals,
+      });
+
+      return {
+        workflowComplete: false,
+        allApproved: false,
+        stepComplete: false,
+        approvalsRemaining: requiredApprovals - approvals.length,
+      };
+    }
 
     step.status = approved ? 'completed' : 'failed';
     step.result = {
       approved,
-      approvedBy,
-      approvedAt: new Date(),
+      approvedBy: approved ? approvals.map(v => v.approver).join(', ') : approvedBy,
+      approvedAt: now,
       comment,
+      votes,
     };
 
-    workflow.updatedAt = new Date();
-
     // Check if all steps are resolved
     const pendingSteps = workflow.steps.filter(s => s.status === 'pending' || s.status === 'in_progress');
     const failedSteps = workflow.steps.filter(s => s.status === 'failed');
@@ -230,6 +309,8 @@ export class LobsterAdapter {
     return {
       workflowComplete: workflow.status === 'completed' || workflow.status === 'failed',
       allApproved: workflow.status === 'completed',
+      stepComplete: true,
+      approvalsRemaining: 0,
     };
   }
 
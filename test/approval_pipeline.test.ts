@@ -0,0 +1,312 @@
+/**
+ * Approval Pipeline Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ApprovalPipeline, createApprovalPipeline } from '../src/workflows/approval_pipeline.js';
+import { LobsterAdapter } from '../src/workflows/lobster_adapter.js';
+import { ToolFirewall } from '../src/policy/tool_firewall.js';
+import { ApprovalQuorumConfigSchema } from '../src/types.js';
+import type { MailGuardConfig, PluginStorage, Logger, AuditLogEntry } from '../src/types.js';
+
+// Mock logger
+function createMockLogger(): Logger {
+  return {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+}
+
+// Mock storage
+function createMockStorage(): PluginStorage & { _store: Map<string, unknown> } {
+  const store = new Map<string, unknown>();
+  return {
+    _store: store,
+    get: vi.fn(async (key: string) => store.get(key)) as <T>(key: string) => Promise<T | undefined>,
+    set: vi.fn(async (key: string, value: unknown) => { store.set(key, value); }),
+    delete: vi.fn(async (key: string) => { store.delete(key); }),
+    list: vi.fn(async (prefix: string) =>
+      Array.from(store.keys()).filter(k => k.startsWith(prefix))
+    ),
+  };
+}
+
+// Mock config
+function createMockConfig(overrides?: Partial<MailGuardConfig>): MailGuardConfig {
+  return {
+    endpoint: '/mailguard/gmail',
+    webhookSecret: 'test-secret-12345678',
+    maxPayloadSize: 1048576,
+    maxBodyLength: 50000,
+    riskThreshold: 70,
+    enableMLClassifier: false,
+    allowedSenderDomains: [],
+    blockedSenderDomains: [],
+    allowedRecipientDomains: [],
+    deniedTools: [],
+    approvalRequiredActions: ['send_email'],
+    quarantineEnabled: true,
+    rateLimitPerSender: 10,
+    logLevel: 'info',
+    allowUnsafeExternalContent: false,
+    lobsterIntegration: {
+      enabled: true,
+      workflowTemplate: 'mailguard-approval',
+      timeout: 3600,
+    },
+    ...overrides,
+  };
+}
+
+describe('ApprovalPipeline', () => {
+  let config: MailGuardConfig;
+  let storage: ReturnType<typeof createMockStorage>;
+  let firewall: ToolFirewall;
+  let lobster: LobsterAdapter;
+  let pipeline: ApprovalPipeline;
+
+  function setup(overrides?: Partial<MailGuardConfig>): void {
+    config = createMockConfig(overrides);
+    const logger = createMockLogger();
+    storage = createMockStorage();
+    firewall = new ToolFirewall(config, logger);
+    lobster = new LobsterAdapter(config, logger, storage);
+    pipeline = createApprovalPipeline(config, logger, storage, firewall, lobster);
+
+    firewall.initializeSession('session-1', {
+      source: 'gmail',
+      hookName: 'mailguard-gmail',
+      receivedAt: new Date(),
+      senderDomain: 'partner.com',
+      isAllowlistedDomain: false,
+      isBlocklistedDomain: false,
+      rateLimitRemaining: 10,
+    }, {
+      score: 45,
+      reasons: ['Urgent language'],
+      signals: [{ type: 'urgency_manipulation', severity: 'medium', description: 'Urgent language' }],
+      recommendation: 'review',
+    }, {
+      headers: {
+        messageId: '<m1@partner.com>',
+        from: 'Partner <ceo@partner.com>',
+        to: ['me@example.com'],
+        subject: 'Urgent wire request',
+        date: new Date(),
+      },
+      bodyText: 'Please reply today.',
+      links: [],
+      quotedBlocks: [],
+    });
+  }
+
+  function auditEvents(): string[] {
+    return [...storage._store.entries()]
+      .filter(([key]) => key.startsWith('audit:'))
+      .map(([, entry]) => (entry as AuditLogEntry).eventType);
+  }
+
+  beforeEach(() => setup());
+
+  describe('requestApproval', () => {
+    it('should open a Lobster workflow with the real email context', async () => {
+      const ticket = await pipeline.requestApproval('session-1', 'send_email', { to: 'ceo@partner.com' }, 'Needs approval');
+
+      expect(ticket).toMatchObject({ reused: false });
+      const workflow = await lobster.getWorkflowStatus(ticket!.workflowId!);
+      expect(workflow?.status).toBe('in_progress');
+      expect(workflow?.context).toMatchObject({
+        sessionId: 'session-1',
+        emailFrom: 'Partner <ceo@partner.com>',
+        emailSubject: 'Urgent wire request',
+        riskScore: 45,
+        signalCount: 1,
+      });
+      expect(firewall.getApproval('session-1', ticket!.approvalId)?.status).toBe('pending');
+      expect(auditEvents()).toEqual(['approval_requested']);
+    });
+
+    it('should reuse a pending approval for the same action and parameters', async () => {
+      const first = await pipeline.requestApproval('session-1', 'send_email', { to: 'a@partner.com', cc: 'b@partner.com' }, 'r');
+      const second = await pipeline.requestApproval('session-1', 'send_email', { cc: 'b@partner.com', to: 'a@partner.com' }, 'r');
+      const other = await pipeline.requestApproval('session-1', 'send_email', { to: 'c@partner.com' }, 'r');
+
+      expect(second).toMatchObject({ approvalId: first!.approvalId, workflowId: first!.workflowId, reused: true });
+      expect(other?.approvalId).not.toBe(first!.approvalId);
+    });
+
+    it('should skip the Lobster workflow when the integration is disabled', async () => {
+      setup({ lobsterIntegration: { enabled: false, workflowTemplate: 'mailguard-approval', timeout: 3600 } });
+
+      const ticket = await pipeline.requestApproval('session-1', 'send_email', {}, 'r');
+
+      expect(ticket?.workflowId).toBeUndefined();
+      expect(await pipeline.resolve(ticket!.approvalId, true, 'operator')).toMatchObject({ status: 'approved' });
+    });
+
+    it('should return nothing for sessions without a policy', async () => {
+      expect(await pipeline.requestApproval('unknown', 'send_email', {}, 'r')).toBeUndefined();
+    });
+  });
+
+  describe('resolve', () => {
+    it('should resolve the Lobster step and the firewall approval together', async () => {
+      const ticket = await pipeline.requestApproval('session-1', 'send_email', { to: 'ceo@partner.com' }, 'r');
+
+      const result = await pipeline.resolve(ticket!.approvalId, true, 'operator@example.com', 'Looks fine');
+
+      expect(result).toMatchObject({ status: 'approved', sessionId: 'session-1' });
+      expect(firewall.getApproval('session-1', ticket!.approvalId)).toMatchObject({
+        status: 'approved',
+        resolvedBy: 'operator@example.com',
+      });
+      const workflow = await lobster.getWorkflowStatus(ticket!.workflowId!);
+      expect(workflow?.status).toBe('completed');
+      expect(workflow?.steps[0]?.result).toMatchObject({ approved: true, comment: 'Looks fine' });
+      expect(auditEvents()).toContain('approval_granted');
+
+      expect(firewall.issueApprovalToken('session-1', ticket!.approvalId).status).toBe('issued');
+    });
+
+    it('should fail the workflow on denial', async () => {
+      const ticket = await pipeline.requestApproval('session-1', 'send_email', {}, 'r');
+
+      expect(await pipeline.resolve(ticket!.approvalId, false, 'operator')).toMatchObject({ status: 'denied' });
+      expect((await lobster.getWorkflowStatus(ticket!.workflowId!))?.status).toBe('failed');
+      expect(auditEvents()).toContain('approval_denied');
+    });
+
+    it('should reject unknown and already resolved approvals', async () => {
+      const ticket = await pipeline.requestApproval('session-1', 'send_email', {}, 'r');
+      await pipeline.resolve(ticket!.approvalId, true, 'operator');
+
+      expect(await pipeline.resolve('missing', true, 'operator')).toMatchObject({ status: 'rejected', reason: 'not_found' });
+      expect(await pipeline.resolve(ticket!.approvalId, false, 'operator')).toMatchObject({
+        status: 'rejected',
+        reason: 'already_resolved',
+      });
+    });
+
+    it('should expire approvals past their deadline and cancel the workflow', async () => {
+      const ticket = await pipeline.requestApproval('session-1', 'send_email', {}, 'r');
+      firewall.getApproval('session-1', ticket!.approvalId)!.expiresAt = new Date(Date.now() - 1000);
+
+      expect(await pipeline.resolve(ticket!.approvalId, true, 'operator')).toMatchObject({ reason: 'expired' });
+      expect((await lobster.getWorkflowStatus(ticket!.workflowId!))?.status).toBe('cancelled');
+    });
+  });
+
+  describe('quorum', () => {
+    it('should resolve the firewall approval only once the quorum is reached', async () => {
+      firewall.initializeSession('risky', undefined, { score: 60, reasons: [], signals: [], recommendation: 'review' });
+      const ticket = await pipeline.requestApproval('risky', 'send_email', {}, 'r');
+
+      const first = await pipeline.resolve(ticket!.approvalId, true, 'alice@example.com');
+      expect(first).toMatchObject({ status: 'vote_recorded', approvalsRemaining: 1 });
+      expect(firewall.getApproval('risky', ticket!.approvalId)?.status).toBe('pending');
+      expect(auditEvents()).toContain('approval_vote');
+
+      const second = await pipeline.resolve(ticket!.approvalId, true, 'bob@example.com');
+      expect(second).toMatchObject({ status: 'approved' });
+      expect(firewall.getApproval('risky', ticket!.approvalId)?.resolvedBy).toBe('alice@example.com, bob@example.com');
+    });
+
+    it('should reject self-approval by the email sender', async () => {
+      const ticket = await pipeline.requestApproval('session-1', 'send_email', {}, 'r');
+
+      expect(await pipeline.resolve(ticket!.approvalId, true, 'ceo@partner.com')).toMatchObject({
+        status: 'rejected',
+        reason: 'self_approval',
+      });
+      expect(firewall.getApproval('session-1', ticket!.approvalId)?.status).toBe('pending');
+    });
+
+    it('should check approver eligibility without Lobster', async () => {
+      setup({
+        lobsterIntegration: { enabled: false, workflowTemplate: 'mailguard-approval', timeout: 3600 },
+        approvalQuorum: ApprovalQuorumConfigSchema.parse({ approvers: ['alice@example.com'] }),
+      });
+      const ticket = await pipeline.requestApproval('session-1', 'send_email', {}, 'r');
+
+      expect(await pipeline.resolve(ticket!.approvalId, true, 'bob@example.com')).toMatchObject({
+        reason: 'not_authorized',
+      });
+      expect(await pipeline.resolve(ticket!.approvalId, true, 'alice@example.com')).toMatchObject({
+        status: 'approved',
+      });
+    });
+
+    it('should hold the quorum on the approval record without Lobster', async () => {
+      setup({ lobsterIntegration: { enabled: false, workflowTemplate: 'mailguard-approval', timeout: 3600 } });
+      firewall.initializeSession('risky', undefined, { score: 60, reasons: [], signals: [], recommendation: 'review' });
+      const ticket = await pipeline.requestApproval('risky', 'send_email', {}, 'r');
+
+      expect(await pipeline.resolve(ticket!.approvalId, true, 'alice@example.com')).toMatchObject({
+        status: 'vote_recorded',
+        approvalsRemaining: 1,
+      });
+      expect(await pipeline.resolve(ticket!.approvalId, true, 'Alice@example.com')).toMatchObject({
+        reason: 'duplicate_vote',
+      });
+      expect(firewall.getApproval('risky', ticket!.approvalId)?.status).toBe('pending');
+
+      expect(await pipeline.resolve(ticket!.approvalId, true, 'bob@example.com')).toMatchObject({ status: 'approved' });
+      expect(firewall.getApproval('risky', ticket!.approvalId)?.resolvedBy).toBe('alice@example.com, bob@example.com');
+      expect(auditEvents()).toEqual(expect.arrayContaining(['approval_vote', 'approval_granted']));
+    });
+
+    it('should count one caller once whatever names it votes under', async () => {
+      firewall.initializeSession('risky', undefined, { score: 60, reasons: [], signals: [], recommendation: 'review' });
+      const ticket = await pipeline.requestApproval('risky', 'send_email', {}, 'r');
+
+      await pipeline.resolve(ticket!.approvalId, true, 'alice@example.com', undefined, 'os:mallory');
+      expect(await pipeline.resolve(ticket!.approvalId, true, 'bob@example.com', undefined, 'os:mallory')).toMatchObject({
+        status: 'rejected',
+        reason: 'duplicate_vote',
+      });
+      expect(firewall.getApproval('risky', ticket!.approvalId)?.status).toBe('pending');
+
+      expect(await pipeline.resolve(ticket!.approvalId, true, 'bob@example.com', undefined, 'os:bob')).toMatchObject({
+        status: 'approved',
+      });
+    });
+
+    it('should count one caller once without Lobster', async () => {
+      setup({ lobsterIntegration: { enabled: false, workflowTemplate: 'mailguard-approval', timeout: 3600 } });
+      firewall.initializeSession('risky', undefined, { score: 60, reasons: [], signals: [], recommendation: 'review' });
+      const ticket = await pipeline.requestApproval('risky', 'send_email', {}, 'r');
+
+      await pipeline.resolve(ticket!.approvalId, true, 'alice@example.com', undefined, 'os:mallory');
+      expect(await pipeline.resolve(ticket!.approvalId, true, 'bob@example.com', undefined, 'os:mallory')).toMatchObject({
+        reason: 'duplicate_vote',
+      });
+      expect(firewall.getApproval('risky', ticket!.approvalId)?.status).toBe('pending');
+    });
+
+    it('should deny on the first denial without Lobster', async () => {
+      setup({ lobsterIntegration: { enabled: false, workflowTemplate: 'mailguard-approval', timeout: 3600 } });
+      firewall.initializeSession('risky', undefined, { score: 60, reasons: [], signals: [], recommendation: 'review' });
+      const ticket = await pipeline.requestApproval('risky', 'send_email', {}, 'r');
+
+      await pipeline.resolve(ticket!.approvalId, true, 'alice@example.com');
+      expect(await pipeline.resolve(ticket!.approvalId, false, 'bob@example.com')).toMatchObject({ status: 'denied' });
+      expect(firewall.getApproval('risky', ticket!.approvalId)?.resolvedBy).toBe('bob@example.com');
+    });
+  });
+
+  describe('listPending', () => {
+    it('should list pending approvals across sessions', async () => {
+      const first = await pipeline.requestApproval('session-1', 'send_email', { to: 'a@partner.com' }, 'r');
+      const second = await pipeline.requestApproval('session-1', 'send_email', { to: 'b@partner.com' }, 'r');
+      await pipeline.resolve(second!.approvalId, false, 'operator');
+
+      const pending = await pipeline.listPending();
+
+      expect(pending.map(p => p.id)).toEqual([first!.approvalId]);
+      expect(pending[0]).toMatchObject({ sessionId: 'session-1', workflowId: first!.workflowId });
+      expect(await pipeline.listPending('other-session')).toEqual([]);
+    });
+  });
+});
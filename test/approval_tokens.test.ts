@@ -0,0 +1,101 @@
+/**
+ * Approval Token Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ApprovalTokenSigner, ApprovalTokenError, type ApprovalTokenClaims } from '../src/policy/approval_tokens.js';
+import { hashParameters } from '../src/policy/tool_firewall.js';
+
+const SECRET = 'approval-token-secret-0123456789abcdef';
+
+function createClaims(overrides?: Partial<ApprovalTokenClaims>): ApprovalTokenClaims {
+  return {
+    approvalId: 'approval-1',
+    sessionId: 'session-1',
+    action: 'send_email',
+    parametersHash: hashParameters({ to: 'user@example.com' }),
+    expiresAt: Math.floor(Date.now() / 1000) + 600,
+    ...overrides,
+  };
+}
+
+const binding = {
+  sessionId: 'session-1',
+  action: 'send_email',
+  parametersHash: hashParameters({ to: 'user@example.com' }),
+};
+
+function expectFailure(fn: () => unknown, reason: string): void {
+  try {
+    fn();
+  } catch (error) {
+    expect(error).toBeInstanceOf(ApprovalTokenError);
+    expect((error as ApprovalTokenError).reason).toBe(reason);
+    return;
+  }
+  throw new Error(`Expected ApprovalTokenError with reason ${reason}`);
+}
+
+describe('ApprovalTokenSigner', () => {
+  const signer = new ApprovalTokenSigner(SECRET);
+
+  it('should round-trip claims', () => {
+    const claims = createClaims();
+
+    expect(signer.verify(signer.issue(claims), binding)).toEqual(claims);
+  });
+
+  it('should verify tokens from another signer with the same secret', () => {
+    const token = new ApprovalTokenSigner(SECRET).issue(createClaims());
+
+    expect(signer.verify(token, binding).approvalId).toBe('approval-1');
+  });
+
+  it('should reject tokens signed with another key', () => {
+    const token = new ApprovalTokenSigner('another-secret-0123456789abcdefghij').issue(createClaims());
+
+    expectFailure(() => signer.verify(token, binding), 'invalid_signature');
+    expectFailure(() => new ApprovalTokenSigner().verify(signer.issue(createClaims()), binding), 'invalid_signature');
+  });
+
+  it('should reject tampered claims', () => {
+    const [prefix, , signature] = signer.issue(createClaims()).split('.');
+    const forged = Buffer.from(JSON.stringify(createClaims({ parametersHash: 'x' }))).toString('base64url');
+
+    expectFailure(() => signer.verify(`${prefix}.${forged}.${signature}`, binding), 'invalid_signature');
+  });
+
+  it('should reject malformed tokens', () => {
+    expectFailure(() => signer.verify('garbage', binding), 'malformed_token');
+    expectFailure(() => signer.verify('mgat1.a.b.c', binding), 'malformed_token');
+  });
+
+  it('should reject expired tokens', () => {
+    const token = signer.issue(createClaims({ expiresAt: Math.floor(Date.now() / 1000) - 1 }));
+
+    expectFailure(() => signer.verify(token, binding), 'token_expired');
+  });
+
+  it('should bind tokens to the session, action and parameters', () => {
+    const token = signer.issue(createClaims());
+
+    expectFailure(() => signer.verify(token, { ...binding, sessionId: 'session-2' }), 'session_mismatch');
+    expectFailure(() => signer.verify(token, { ...binding, action: 'forward_email' }), 'action_mismatch');
+    expectFailure(() => signer.verify(token, {
+      ...binding,
+      parametersHash: hashParameters({ to: 'attacker@evil.com' }),
+    }), 'parameters_mismatch');
+  });
+});
+
+describe('hashParameters', () => {
+  it('should ignore key order and undefined values', () => {
+    expect(hashParameters({ a: 1, b: { c: [1, 2], d: 'x' } }))
+      .toBe(hashParameters({ b: { d: 'x', c: [1, 2] }, a: 1, e: undefined }));
+  });
+
+  it('should distinguish values and array order', () => {
+    expect(hashParameters({ to: ['a', 'b'] })).not.toBe(hashParameters({ to: ['b', 'a'] }));
+    expect(hashParameters({ n: 1 })).not.toBe(hashParameters({ n: '1' }));
+  });
+});
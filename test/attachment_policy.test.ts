@@ -0,0 +1,194 @@
+/**
+ * Attachment Policy Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { assessAttachmentPolicy, applyAttachmentPolicy } from '../src/risk/attachment_policy.js';
+import type { MailGuardConfig, GmailMessagePayload, GmailMessagePart, RiskScore } from '../src/types.js';
+
+function createMockConfig(overrides?: Partial<MailGuardConfig>): MailGuardConfig {
+  return {
+    endpoint: '/mailguard/gmail',
+    webhookSecret: 'test-secret-12345678',
+    maxPayloadSize: 1048576,
+    maxBodyLength: 50000,
+    riskThreshold: 70,
+    enableMLClassifier: false,
+    allowedSenderDomains: [],
+    blockedSenderDomains: [],
+    allowedRecipientDomains: [],
+    deniedTools: [],
+    approvalRequiredActions: [],
+    quarantineEnabled: true,
+    rateLimitPerSender: 10,
+    logLevel: 'info',
+    allowUnsafeExternalContent: false,
+    lobsterIntegration: {
+      enabled: true,
+      workflowTemplate: 'mailguard-approval',
+      timeout: 3600,
+    },
+    ...overrides,
+  };
+}
+
+function createPart(filename: string, mimeType: string, content?: Buffer): GmailMessagePart {
+  return {
+    partId: '1',
+    mimeType,
+    filename,
+    headers: [],
+    body: content
+      ? { size: content.length, data: content.toString('base64') }
+      : { size: 4096, attachmentId: 'att-1' },
+  };
+}
+
+function createPayload(...parts: GmailMessagePart[]): GmailMessagePayload {
+  return {
+    id: 'msg-1',
+    threadId: 'thread-1',
+    labelIds: [],
+    snippet: '',
+    payload: {
+      mimeType: 'multipart/mixed',
+      filename: '',
+      headers: [],
+      body: { size: 0 },
+      parts,
+    },
+    sizeEstimate: 0,
+    historyId: '',
+    internalDate: '0',
+  };
+}
+
+function signalTypes(...parts: GmailMessagePart[]): string[] {
+  return assessAttachmentPolicy(createPayload(...parts), createMockConfig()).signals.map(s => s.type);
+}
+
+/** Minimal ZIP local file header with the given general-purpose flags */
+function zipWithFlags(flags: number): Buffer {
+  const header = Buffer.alloc(30);
+  header.writeUInt32LE(0x04034b50, 0);
+  header.writeUInt16LE(20, 4);
+  header.writeUInt16LE(flags, 6);
+  return Buffer.concat([header, Buffer.from('PK\x05\x06')]);
+}
+
+const PDF = Buffer.from('%PDF-1.7\n');
+const EXE = Buffer.concat([Buffer.from('MZ'), Buffer.alloc(62)]);
+
+describe('assessAttachmentPolicy', () => {
+  describe('filenames', () => {
+    it('should flag blocked extensions whatever their case', () => {
+      expect(signalTypes(createPart('setup.EXE', 'application/octet-stream'))).toEqual(['dangerous_attachment']);
+      expect(signalTypes(createPart('budget.xlsm', 'application/vnd.ms-excel.sheet.macroEnabled.12'))).toEqual(['dangerous_attachment']);
+      expect(signalTypes(createPart('disk.iso', 'application/octet-stream'))).toEqual(['dangerous_attachment']);
+      expect(signalTypes(createPart('report.pdf', 'application/pdf'))).toEqual([]);
+    });
+
+    it('should flag double extensions and trailing padding', () => {
+      expect(signalTypes(createPart('invoice.pdf.exe', 'application/octet-stream')))
+        .toEqual(['dangerous_attachment', 'deceptive_filename']);
+      expect(signalTypes(createPart('invoice.pdf      .js. ', 'application/octet-stream')))
+        .toEqual(['dangerous_attachment', 'deceptive_filename']);
+      expect(signalTypes(createPart('photo.jpg            .zip', 'application/zip'))).toEqual(['deceptive_filename']);
+      expect(signalTypes(createPart('archive.tar.gz', 'application/gzip'))).toEqual([]);
+    });
+
+    it('should flag direction override characters', () => {
+      const result = assessAttachmentPolicy(createPayload(
+        createPart('invoice\u202Efdp.exe', 'application/pdf')
+      ), createMockConfig());
+
+      expect(result.signals[1]).toMatchObject({
+        type: 'deceptive_filename',
+        severity: 'critical',
+        evidence: 'invoice<U+202E>fdp.exe',
+      });
+    });
+  });
+
+  describe('content', () => {
+    it('should compare magic bytes with the declared type', () => {
+      expect(signalTypes(createPart('report.pdf', 'application/pdf', PDF))).toEqual([]);
+      expect(signalTypes(createPart('blob.bin', 'application/octet-stream', EXE))).toEqual([]);
+
+      const result = assessAttachmentPolicy(createPayload(createPart('report.pdf', 'application/pdf', EXE)), createMockConfig());
+      expect(result.signals).toEqual([expect.objectContaining({
+        type: 'attachment_type_mismatch',
+        severity: 'critical',
+        description: 'Attachment declared as application/pdf contains executable data (attachment report.pdf)',
+      })]);
+    });
+
+    it('should accept office documents as ZIP containers and reject binaries declared as text', () => {
+      expect(signalTypes(createPart('a.docx', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', zipWithFlags(0))))
+        .toEqual([]);
+      expect(signalTypes(createPart('notes.txt', 'text/plain', PDF))).toEqual(['attachment_type_mismatch']);
+    });
+
+    it('should flag encrypted ZIP archives', () => {
+      expect(signalTypes(createPart('a.zip', 'application/zip', zipWithFlags(0x0008)))).toEqual([]);
+      expect(signalTypes(createPart('a.zip', 'application/zip', zipWithFlags(0x0009)))).toEqual(['encrypted_archive']);
+    });
+
+    it('should flag 7z archives whose header uses the AES coder', () => {
+      const header = Buffer.from([0x17, 0x06, 0xf1, 0x07, 0x01]);
+      const start = Buffer.alloc(32);
+      Buffer.from([0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c]).copy(start);
+      start.writeBigUInt64LE(0n, 12);
+      start.writeBigUInt64LE(BigInt(header.length), 20);
+
+      expect(signalTypes(createPart('a.7z', 'application/x-7z-compressed', Buffer.concat([start, header]))))
+        .toEqual(['encrypted_archive']);
+    });
+  });
+
+  describe('configuration', () => {
+    it('should use the configured extension list and quarantine triggers', () => {
+      const config = createMockConfig({
+        attachmentPolicy: { enabled: true, blockedExtensions: ['.PDF'], quarantineOn: ['encrypted_archive'] },
+      });
+
+      const blocked = assessAttachmentPolicy(createPayload(createPart('a.pdf', 'application/pdf')), config);
+      expect(blocked.signals.map(s => s.type)).toEqual(['dangerous_attachment']);
+      expect(blocked.forceQuarantine).toBe(false);
+
+      const encrypted = assessAttachmentPolicy(createPayload(createPart('a.zip', 'application/zip', zipWithFlags(1))), config);
+      expect(encrypted.forceQuarantine).toBe(true);
+    });
+
+    it('should do nothing when disabled', () => {
+      const config = createMockConfig({
+        attachmentPolicy: { enabled: false, blockedExtensions: ['exe'], quarantineOn: ['dangerous_attachment'] },
+      });
+
+      expect(assessAttachmentPolicy(createPayload(createPart('a.exe', 'application/octet-stream')), config).signals).toEqual([]);
+    });
+  });
+});
+
+describe('applyAttachmentPolicy', () => {
+  const body: RiskScore = { score: 0, reasons: [], signals: [], recommendation: 'allow' };
+
+  it('should force quarantine regardless of the body score', () => {
+    const config = createMockConfig();
+    const result = assessAttachmentPolicy(createPayload(createPart('a.exe', 'application/octet-stream')), config);
+    const riskScore = applyAttachmentPolicy(body, result, config);
+
+    expect(riskScore).toMatchObject({
+      score: 50,
+      recommendation: 'quarantine',
+      reasons: ['Blocked attachment type .exe (attachment a.exe)'],
+    });
+  });
+
+  it('should add weight without forcing quarantine for other signals', () => {
+    const config = createMockConfig();
+    const result = assessAttachmentPolicy(createPayload(createPart('a.zip', 'application/zip', zipWithFlags(1))), config);
+
+    expect(applyAttachmentPolicy(body, result, config)).toMatchObject({ score: 30, recommendation: 'review' });
+  });
+});
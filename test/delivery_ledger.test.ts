@@ -0,0 +1,105 @@
+/**
+ * Delivery Ledger Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { DeliveryLedger, checkPublishTime } from '../src/http/delivery_ledger.js';
+import type { PluginStorage, Logger } from '../src/types.js';
+
+// Mock logger
+function createMockLogger(): Logger {
+  return {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+}
+
+// Mock storage
+function createMockStorage(): PluginStorage {
+  const store = new Map<string, unknown>();
+  return {
+    get: vi.fn(async (key: string) => store.get(key)) as <T>(key: string) => Promise<T | undefined>,
+    set: vi.fn(async (key: string, value: unknown) => { store.set(key, value); }) as <T>(key: string, value: T, ttlSeconds?: number) => Promise<void>,
+    delete: vi.fn(async (key: string) => { store.delete(key); }) as (key: string) => Promise<void>,
+    list: vi.fn(async (prefix: string) =>
+      Array.from(store.keys()).filter(k => k.startsWith(prefix))
+    ) as (prefix: string) => Promise<string[]>,
+  };
+}
+
+describe('DeliveryLedger', () => {
+  let storage: PluginStorage;
+  let ledger: DeliveryLedger;
+
+  beforeEach(() => {
+    storage = createMockStorage();
+    ledger = new DeliveryLedger(storage, createMockLogger(), 604800);
+  });
+
+  it('should hand back the recorded outcome for a completed key', async () => {
+    expect(await ledger.claim('pubsub:1', 'req-a')).toEqual({ state: 'claimed' });
+    await ledger.complete('pubsub:1', 'req-a', { httpStatus: 200, body: { status: 'processed' } });
+
+    expect(await ledger.claim('pubsub:1', 'req-b')).toEqual({
+      state: 'duplicate',
+      outcome: { httpStatus: 200, body: { status: 'processed' } },
+      originalRequestId: 'req-a',
+    });
+  });
+
+  it('should store completed entries with the configured TTL', async () => {
+    await ledger.claim('pubsub:1', 'req-a');
+    await ledger.complete('pubsub:1', 'req-a', { httpStatus: 200, body: {} });
+
+    expect(storage.set).toHaveBeenLastCalledWith(
+      'ledger:pubsub:1',
+      expect.objectContaining({ status: 'complete' }),
+      604800
+    );
+  });
+
+  it('should report pending claims as in flight', async () => {
+    await ledger.claim('pubsub:1', 'req-a');
+
+    expect(await ledger.claim('pubsub:1', 'req-b')).toMatchObject({ state: 'in_flight' });
+
+    // A second process sharing the storage sees the pending entry too
+    const other = new DeliveryLedger(storage, createMockLogger(), 604800);
+    expect(await other.claim('pubsub:1', 'req-c')).toEqual({ state: 'in_flight', originalRequestId: 'req-a' });
+  });
+
+  it('should allow reclaiming after release', async () => {
+    await ledger.claim('pubsub:1', 'req-a');
+    await ledger.release('pubsub:1');
+
+    expect(await ledger.claim('pubsub:1', 'req-b')).toEqual({ state: 'claimed' });
+  });
+
+  it('should take over stale pending claims left by a crashed request', async () => {
+    await storage.set('ledger:pubsub:1', {
+      status: 'pending',
+      requestId: 'req-crashed',
+      recordedAt: new Date(Date.now() - 600 * 1000).toISOString(),
+    });
+
+    expect(await ledger.claim('pubsub:1', 'req-b')).toEqual({ state: 'claimed' });
+  });
+});
+
+describe('checkPublishTime', () => {
+  const now = Date.parse('2024-06-01T12:00:00.000Z');
+
+  it('should accept publish times inside the window', () => {
+    expect(checkPublishTime('2024-06-01T11:00:00.000Z', 86400, 300, now)).toEqual({ valid: true });
+    expect(checkPublishTime('2024-06-01T12:04:00.000Z', 86400, 300, now)).toEqual({ valid: true });
+  });
+
+  it('should reject stale, future, missing and invalid publish times', () => {
+    expect(checkPublishTime('2024-05-30T12:00:00.000Z', 86400, 300, now).valid).toBe(false);
+    expect(checkPublishTime('2024-06-01T12:10:00.000Z', 86400, 300, now).valid).toBe(false);
+    expect(checkPublishTime(undefined, 86400, 300, now)).toEqual({ valid: false, reason: 'Missing publishTime' });
+    expect(checkPublishTime('yesterday', 86400, 300, now)).toEqual({ valid: false, reason: 'Invalid publishTime' });
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Pattern Evaluation Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  EvaluationCorpusError,
+  compareEvaluations,
+  evaluateCorpus,
+  loadEvaluationCorpus,
+  type EvaluationCorpus,
+} from '../src/risk/evaluation.js';
+import { BUILTIN_PATTERNS, compilePatterns } from '../src/risk/heuristics.js';
+import { enabledPatterns, parsePatternPack, resolvePatternSet, builtinPatternPack } from '../src/risk/pattern_packs.js';
+import type { MailGuardConfig } from '../src/types.js';
+
+function createMockConfig(overrides?: Partial<MailGuardConfig>): MailGuardConfig {
+  return {
+    endpoint: '/mailguard/gmail',
+    webhookSecret: 'test-secret-12345678',
+    maxPayloadSize: 1048576,
+    maxBodyLength: 50000,
+    riskThreshold: 70,
+    enableMLClassifier: false,
+    allowedSenderDomains: [],
+    blockedSenderDomains: [],
+    allowedRecipientDomains: [],
+    deniedTools: [],
+    approvalRequiredActions: [],
+    quarantineEnabled: true,
+    rateLimitPerSender: 10,
+    logLevel: 'info',
+    allowUnsafeExternalContent: false,
+    lobsterIntegration: {
+      enabled: true,
+      workflowTemplate: 'mailguard-approval',
+      timeout: 3600,
+    },
+    ...overrides,
+  };
+}
+
+const CORPUS_PATH = join(__dirname, 'fixtures', 'eval_corpus.yaml');
+
+const GRANDMA_PACK = `
+name: acme-jailbreaks
+version: 1.0.0
+patterns:
+  - id: acme.grandma-exploit
+    pattern: pretend\\s+to\\s+be\\s+my\\s+(late\\s+)?grandma
+    type: role_impersonation
+    severity: critical
+    description: Grandma jailbreak
+    weight: 65
+`;
+
+describe('loadEvaluationCorpus', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'mailguard-corpus-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should load a YAML corpus with defaults', () => {
+    const corpus = loadEvaluationCorpus(CORPUS_PATH);
+
+    expect(corpus.name).toBe('regression');
+    expect(corpus.emails.find(e => e.id === 'en-quarterly-report')?.expected.signalTypes).toEqual([]);
+  });
+
+  it('should reject emails without content, unknown signal types and duplicate IDs', () => {
+    const path = join(dir, 'corpus.json');
+    writeFileSync(path, JSON.stringify({
+      name: 'broken',
+      emails: [
+        { id: 'a', expected: { verdict: 'benign' } },
+        { id: 'b', text: 'x', expected: { verdict: 'malicious', signalTypes: ['made_up'] } },
+      ],
+    }));
+
+    expect(() => loadEvaluationCorpus(path)).toThrow(EvaluationCorpusError);
+    expect(() => loadEvaluationCorpus(path)).toThrow(/emails\.0\.text: An email needs text or html; emails\.1\.expected\.signalTypes\.0/);
+
+    writeFileSync(path, JSON.stringify({
+      name: 'duplicates',
+      emails: [
+        { id: 'b', text: 'x', expected: { verdict: 'benign' } },
+        { id: 'b', text: 'y', expected: { verdict: 'benign' } },
+      ],
+    }));
+    expect(() => loadEvaluationCorpus(path)).toThrow('Duplicate email ID "b"');
+  });
+});
+
+describe('evaluateCorpus', () => {
+  const corpus = loadEvaluationCorpus(CORPUS_PATH);
+
+  it('should measure verdicts at the configured threshold', () => {
+    const report = evaluateCorpus(corpus, createMockConfig({ riskThreshold: 30 }));
+
+    expect(report.threshold).toBe(30);
+    expect(report.overall).toMatchObject({ truePositives: 4, falsePositives: 0, falseNegatives: 1, trueNegatives: 3 });
+    expect(report.overall.precision).toBe(1);
+    expect(report.overall.recall).toBe(0.8);
+    expect(report.overall.f1).toBe(0.8889);
+  });
+
+  it('should report precision and recall per language', () => {
+    const report = evaluateCorpus(corpus, createMockConfig({ riskThreshold: 30 }));
+
+    expect(Object.keys(report.languages)).toEqual(['en', 'es']);
+    expect(report.languages.es).toMatchObject({ truePositives: 1, falseNegatives: 0, trueNegatives: 1, precision: 1, recall: 1 });
+    expect(report.languages.en).toMatchObject({ truePositives: 3, falseNegatives: 1, recall: 0.75 });
+  });
+
+  it('should quarantine the jailbreak and hidden instruction at the default threshold', () => {
+    const report = evaluateCorpus(corpus, createMockConfig());
+    const scores = Object.fromEntries(report.emails.map(e => [e.id, e.score]));
+
+    expect(scores['en-jailbreak']).toBe(100);
+    expect(scores['en-hidden-instruction']).toBe(100);
+  });
+
+  it('should count the emails each pattern fired on', () => {
+    const report = evaluateCorpus(corpus, createMockConfig());
+
+    expect(report.patterns['en.attempt-to-ignore-previous-instructions']).toEqual({
+      description: 'Attempt to ignore previous instructions',
+      truePositives: 2,
+      falsePositives: 0,
+    });
+    expect(report.patterns['es.attempt-to-ignore-previous-instructions']?.truePositives).toBe(1);
+    expect(report.emails.find(e => e.id === 'en-hidden-instruction')?.patternIds).toContain('en.attempt-to-ignore-previous-instructions');
+  });
+
+  it('should track expected signal types', () => {
+    const report = evaluateCorpus(corpus, createMockConfig());
+
+    expect(report.signalTypes.instruction_override).toEqual({ expected: 3, detected: 3, onBenign: 0 });
+    expect(report.emails.every(e => e.missingSignalTypes.length === 0)).toBe(true);
+  });
+
+  it('should build a score histogram and find the threshold with the best F1', () => {
+    const report = evaluateCorpus(corpus, createMockConfig());
+
+    expect(report.histogram).toHaveLength(10);
+    expect(report.histogram[9]).toMatchObject({ from: 90, to: 100 });
+    expect(report.histogram.reduce((n, b) => n + b.malicious + b.benign, 0)).toBe(8);
+    expect(report.bestThreshold.f1).toBe(1);
+    const lowestMalicious = Math.min(...report.emails.filter(e => e.expected === 'malicious').map(e => e.score));
+    expect(report.bestThreshold.threshold).toBeLessThanOrEqual(lowestMalicious);
+  });
+
+  it('should run the given patterns instead of the active ones', () => {
+    const packs = [builtinPatternPack(), parsePatternPack(GRANDMA_PACK, 'yaml')];
+    const patterns = compilePatterns(enabledPatterns(resolvePatternSet(packs)));
+
+    const before = evaluateCorpus(corpus, createMockConfig());
+    const after = evaluateCorpus(corpus, createMockConfig(), { patterns, label: 'acme-jailbreaks@1.0.0' });
+
+    expect(after.label).toBe('acme-jailbreaks@1.0.0');
+    expect(after.patterns['acme.grandma-exploit']).toMatchObject({ description: 'Grandma jailbreak', truePositives: 1 });
+    expect(before.patterns['acme.grandma-exploit']).toBeUndefined();
+
+    const comparison = compareEvaluations(before, after);
+    expect(comparison.flipped).toEqual([{ id: 'en-grandma', expected: 'malicious', before: 'benign', after: 'malicious' }]);
+    expect(comparison.patterns.map(p => p.id)).toEqual(['acme.grandma-exploit']);
+    expect(comparison.overall.recall.after).toBeGreaterThan(comparison.overall.recall.before);
+  });
+
+  it('should produce identical reports for identical runs', () => {
+    const small: EvaluationCorpus = { name: 'small', emails: corpus.emails.slice(0, 3) };
+    const patterns = compilePatterns(BUILTIN_PATTERNS);
+
+    expect(JSON.stringify(evaluateCorpus(small, createMockConfig(), { patterns })))
+      .toBe(JSON.stringify(evaluateCorpus(small, createMockConfig())));
+  });
+});
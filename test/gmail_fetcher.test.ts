@@ -0,0 +1,551 @@
+/**
+ * Gmail API Message Fetcher Tests
+ * Runs against a local HTTP stand-in for the Gmail API
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, type Server, type IncomingMessage, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { GmailApiClient, GmailHistorySync, OAuthTokenProvider, createGmailMessageFetcher } from '../src/http/gmail_fetcher.js';
+import { GmailIngressHandler } from '../src/http/gmail_ingress.js';
+import { ToolFirewall } from '../src/policy/tool_firewall.js';
+import type { MailGuardConfig, HttpRequest, HttpResponse, PluginStorage, Logger, GmailMessagePayload, AuditLogEntry } from '../src/types.js';
+import gmailPayloads from './fixtures/gmail_payloads.json';
+
+// Mock logger
+function createMockLogger(): Logger {
+  return {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+}
+
+// Mock storage
+function createMockStorage(): PluginStorage {
+  const store = new Map<string, unknown>();
+  return {
+    get: vi.fn(async (key: string) => store.get(key)) as <T>(key: string) => Promise<T | undefined>,
+    set: vi.fn(async (key: string, value: unknown) => { store.set(key, value); }) as <T>(key: string, value: T, ttlSeconds?: number) => Promise<void>,
+    delete: vi.fn(async (key: string) => { store.delete(key); }) as (key: string) => Promise<void>,
+    list: vi.fn(async (prefix: string) =>
+      Array.from(store.keys()).filter(k => k.startsWith(prefix))
+    ) as (prefix: string) => Promise<string[]>,
+  };
+}
+
+// Mock config
+function createMockConfig(overrides?: Partial<MailGuardConfig>): MailGuardConfig {
+  return {
+    endpoint: '/mailguard/gmail',
+    webhookSecret: 'test-secret-12345678',
+    maxPayloadSize: 1048576,
+    maxBodyLength: 50000,
+    riskThreshold: 70,
+    enableMLClassifier: false,
+    allowedSenderDomains: [],
+    blockedSenderDomains: [],
+    allowedRecipientDomains: [],
+    deniedTools: [],
+    approvalRequiredActions: [],
+    quarantineEnabled: true,
+    rateLimitPerSender: 10,
+    logLevel: 'info',
+    allowUnsafeExternalContent: false,
+    lobsterIntegration: {
+      enabled: true,
+      workflowTemplate: 'mailguard-approval',
+      timeout: 3600,
+    },
+    ...overrides,
+  };
+}
+
+// Mock response
+function createMockResponse(): HttpResponse & { _status: number; _body: unknown } {
+  const res = {
+    _status: 200,
+    _body: null as unknown,
+    status(code: number): HttpResponse {
+      this._status = code;
+      return this;
+    },
+    json(body: unknown): void {
+      this._body = body;
+    },
+    send(data: string | Buffer): void {
+      this._body = data;
+    },
+    header(_name: string, _value: string): HttpResponse {
+      return this;
+    },
+  };
+  return res as HttpResponse & { _status: number; _body: unknown };
+}
+
+function createNotificationRequest(emailAddress: string, historyId: string): HttpRequest {
+  const body = {
+    message: {
+      data: Buffer.from(JSON.stringify({ emailAddress, historyId })).toString('base64'),
+      messageId: `pubsub-${historyId}`,
+      publishTime: new Date().toISOString(),
+    },
+    subscription: 'projects/test/subscriptions/gmail',
+  };
+
+  return {
+    method: 'POST',
+    path: '/mailguard/gmail',
+    headers: {
+      'x-webhook-secret': 'test-secret-12345678',
+      'content-type': 'application/json',
+    },
+    query: {},
+    body,
+    rawBody: Buffer.from(JSON.stringify(body)),
+  };
+}
+
+// ============================================================================
+// Local Gmail API stand-in
+// ============================================================================
+
+interface FakeGmailState {
+  historyId: string;
+  added: Array<{ historyId: string; id: string; labelIds: string[] }>;
+  messages: Map<string, GmailMessagePayload>;
+  requests: string[];
+  expiredBefore?: string;
+}
+
+function createFakeGmail(state: FakeGmailState): Server {
+  return createServer((req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    state.requests.push(`${url.pathname}${url.search}`);
+
+    if (url.pathname === '/token') {
+      let form = '';
+      req.on('data', chunk => { form += String(chunk); });
+      req.on('end', () => {
+        const params = new URLSearchParams(form);
+        const valid = params.get('grant_type') === 'refresh_token' && params.get('refresh_token') === 'refresh-1';
+        res.writeHead(valid ? 200 : 400, { 'content-type': 'application/json' });
+        res.end(JSON.stringify(valid ? { access_token: 'test-token', expires_in: 3600 } : { error: 'invalid_grant' }));
+      });
+      return;
+    }
+
+    if (req.headers.authorization !== 'Bearer test-token') {
+      res.writeHead(401).end();
+      return;
+    }
+
+    const historyMatch = url.pathname.match(/^\/gmail\/v1\/users\/([^/]+)\/history$/);
+    if (historyMatch) {
+      const start = url.searchParams.get('startHistoryId') ?? '0';
+      if (state.expiredBefore && BigInt(start) < BigInt(state.expiredBefore)) {
+        res.writeHead(404).end();
+        return;
+      }
+      const history = state.added
+        .filter(entry => BigInt(entry.historyId) > BigInt(start))
+        .map(entry => ({
+          id: entry.historyId,
+          messagesAdded: [{ message: { id: entry.id, threadId: entry.id, labelIds: entry.labelIds } }],
+        }));
+      res.writeHead(200, { 'content-type': 'application/json' });
+      res.end(JSON.stringify({ history, historyId: state.historyId }));
+      return;
+    }
+
+    if (/^\/gmail\/v1\/users\/[^/]+\/profile$/.test(url.pathname)) {
+      res.writeHead(200, { 'content-type': 'application/json' });
+      res.end(JSON.stringify({ historyId: state.historyId }));
+      return;
+    }
+
+    const messageMatch = url.pathname.match(/^\/gmail\/v1\/users\/([^/]+)\/messages\/([^/]+)$/);
+    if (messageMatch) {
+      const message = state.messages.get(decodeURIComponent(messageMatch[2] ?? ''));
+      if (!message) {
+        res.writeHead(404).end();
+        return;
+      }
+      res.writeHead(200, { 'content-type': 'application/json' });
+      res.end(JSON.stringify(message));
+      return;
+    }
+
+    res.writeHead(404).end();
+  });
+}
+
+function messageWithId(id: string): GmailMessagePayload {
+  return { ...(gmailPayloads.valid_message_payload as GmailMessagePayload), id, threadId: id };
+}
+
+describe('Gmail message fetching', () => {
+  let server: Server;
+  let baseUrl: string;
+  let state: FakeGmailState;
+
+  beforeAll(async () => {
+    state = { historyId: '0', added: [], messages: new Map(), requests: [] };
+    server = createFakeGmail(state);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    state.historyId = '1000';
+    state.added = [];
+    state.messages.clear();
+    state.requests.length = 0;
+    state.expiredBefore = undefined;
+  });
+
+  function createClient(): GmailApiClient {
+    return new GmailApiClient({
+      baseUrl,
+      getAccessToken: () => Promise.resolve('test-token'),
+      timeoutMs: 2000,
+    });
+  }
+
+  describe('GmailHistorySync', () => {
+    it('should fetch the notified change on first notification', async () => {
+      state.historyId = '1002';
+      state.added = [
+        { historyId: '1001', id: 'msg-a', labelIds: ['INBOX'] },
+        { historyId: '1002', id: 'msg-b', labelIds: ['INBOX'] },
+      ];
+      state.messages.set('msg-a', messageWithId('msg-a'));
+      state.messages.set('msg-b', messageWithId('msg-b'));
+
+      const logger = createMockLogger();
+      const sync = new GmailHistorySync(createClient(), createMockStorage(), logger, 25);
+      const batch = await sync.collectNewMessages({ emailAddress: 'user@example.com', historyId: '1002' });
+
+      expect(batch.messages.map(m => m.id)).toEqual(['msg-b']);
+      expect(batch.historyId).toBe('1002');
+      expect(state.requests[0]).toContain('startHistoryId=1001');
+      expect(logger.warn).toHaveBeenCalledWith(
+        'No Gmail history cursor for mailbox; changes before the notification are not fetched',
+        expect.any(Object)
+      );
+    });
+
+    it('should fetch every change since the cursor was seeded', async () => {
+      const storage = createMockStorage();
+      const sync = new GmailHistorySync(createClient(), storage, createMockLogger(), 25);
+
+      expect(await sync.seed('user@example.com')).toBe('1000');
+
+      state.historyId = '1002';
+      state.added = [
+        { historyId: '1001', id: 'msg-a', labelIds: ['INBOX'] },
+        { historyId: '1002', id: 'msg-b', labelIds: ['INBOX'] },
+      ];
+      state.messages.set('msg-a', messageWithId('msg-a'));
+      state.messages.set('msg-b', messageWithId('msg-b'));
+
+      // Seeding again keeps the cursor
+      expect(await sync.seed('user@example.com')).toBe('1000');
+
+      const batch = await sync.collectNewMessages({ emailAddress: 'user@example.com', historyId: '1002' });
+      expect(batch.messages.map(m => m.id)).toEqual(['msg-a', 'msg-b']);
+      expect(state.requests.filter(r => r.endsWith('/profile'))).toHaveLength(1);
+    });
+
+    it('should resume from the committed historyId', async () => {
+      const storage = createMockStorage();
+      const sync = new GmailHistorySync(createClient(), storage, createMockLogger(), 25);
+
+      state.historyId = '1001';
+      state.added = [{ historyId: '1001', id: 'msg-a', labelIds: ['INBOX'] }];
+      state.messages.set('msg-a', messageWithId('msg-a'));
+
+      const first = await sync.collectNewMessages({ emailAddress: 'user@example.com', historyId: '1000' });
+      await sync.commit('user@example.com', first.historyId);
+
+      state.historyId = '1002';
+      state.added.push({ historyId: '1002', id: 'msg-b', labelIds: ['INBOX'] });
+      state.messages.set('msg-b', messageWithId('msg-b'));
+
+      const second = await sync.collectNewMessages({ emailAddress: 'user@example.com', historyId: '1002' });
+
+      expect(second.messages.map(m => m.id)).toEqual(['msg-b']);
+      expect(await storage.get('gmail:history:user@example.com')).toBe('1001');
+    });
+
+    it('should skip sent and draft messages', async () => {
+      state.added = [
+        { historyId: '1001', id: 'msg-sent', labelIds: ['SENT'] },
+        { historyId: '1002', id: 'msg-draft', labelIds: ['DRAFT'] },
+      ];
+
+      const sync = new GmailHistorySync(createClient(), createMockStorage(), createMockLogger(), 25);
+      const batch = await sync.collectNewMessages({ emailAddress: 'user@example.com', historyId: '1000' });
+
+      expect(batch.messages).toHaveLength(0);
+      expect(state.requests.some(r => r.includes('/messages/'))).toBe(false);
+    });
+
+    it('should fetch the notified change and report the skipped range when the cursor has expired', async () => {
+      const storage = createMockStorage();
+      await storage.set('gmail:history:user@example.com', '10');
+      state.expiredBefore = '500';
+      state.added = [
+        { historyId: '400', id: 'msg-lost', labelIds: ['INBOX'] },
+        { historyId: '1000', id: 'msg-n', labelIds: ['INBOX'] },
+      ];
+      state.messages.set('msg-n', messageWithId('msg-n'));
+
+      const logger = createMockLogger();
+      const sync = new GmailHistorySync(createClient(), storage, logger, 25);
+      const batch = await sync.collectNewMessages({ emailAddress: 'user@example.com', historyId: '1000' });
+
+      expect(batch.messages.map(m => m.id)).toEqual(['msg-n']);
+      expect(batch.historyId).toBe('1000');
+      expect(batch.skipped).toEqual({ afterHistoryId: '10', throughHistoryId: '999' });
+      expect(logger.warn).toHaveBeenCalledWith('Gmail history cursor expired, resetting', expect.any(Object));
+    });
+
+    it('should cap messages per notification', async () => {
+      for (let i = 1; i <= 5; i++) {
+        state.added.push({ historyId: String(1000 + i), id: `msg-${i}`, labelIds: ['INBOX'] });
+        state.messages.set(`msg-${i}`, messageWithId(`msg-${i}`));
+      }
+
+      const sync = new GmailHistorySync(createClient(), createMockStorage(), createMockLogger(), 2);
+      const batch = await sync.collectNewMessages({ emailAddress: 'user@example.com', historyId: '1000' });
+
+      expect(batch.messages).toHaveLength(2);
+      expect(batch).toMatchObject({ historyId: '1002', checkpoints: ['1001', '1002'], truncated: true });
+    });
+
+    it('should not checkpoint a history record until all of its messages are fetched', async () => {
+      const fetcher = {
+        listHistory: vi.fn().mockResolvedValue({
+          historyId: '1005',
+          history: [
+            { id: '1001', messagesAdded: [{ message: { id: 'msg-1', threadId: 't' } }] },
+            { id: '1002', messagesAdded: [{ message: { id: 'msg-2', threadId: 't' } }, { message: { id: 'msg-3', threadId: 't' } }] },
+          ],
+        }),
+        getMessage: vi.fn((_email: string, id: string) => Promise.resolve(messageWithId(id))),
+      };
+
+      const sync = new GmailHistorySync(fetcher, createMockStorage(), createMockLogger(), 2);
+      const batch = await sync.collectNewMessages({ emailAddress: 'user@example.com', historyId: '1000' });
+
+      expect(batch).toMatchObject({ historyId: '1001', checkpoints: ['1001', '1001'], truncated: true });
+    });
+  });
+
+  describe('OAuthTokenProvider', () => {
+    it('should refresh access tokens with the refresh token and cache them', async () => {
+      const fetcher = createGmailMessageFetcher({
+        enabled: true,
+        baseUrl,
+        timeoutMs: 2000,
+        maxMessagesPerNotification: 25,
+        mailboxes: [],
+        oauth: { clientId: 'client', clientSecret: 'secret', refreshToken: 'refresh-1', tokenUrl: `${baseUrl}/token` },
+      });
+      state.messages.set('msg-a', messageWithId('msg-a'));
+
+      await fetcher?.getMessage('user@example.com', 'msg-a');
+      await fetcher?.getMessage('user@example.com', 'msg-a');
+
+      expect(state.requests.filter(r => r === '/token')).toHaveLength(1);
+      expect(state.requests.filter(r => r.includes('/messages/msg-a'))).toHaveLength(2);
+    });
+
+    it('should fail requests when the refresh token is rejected', async () => {
+      const provider = new OAuthTokenProvider(
+        { clientId: 'client', clientSecret: 'secret', refreshToken: 'revoked', tokenUrl: `${baseUrl}/token` },
+        2000
+      );
+
+      await expect(provider.getAccessToken()).rejects.toMatchObject({ name: 'GmailApiError', status: 400 });
+    });
+  });
+
+  describe('GmailIngressHandler with fetcher', () => {
+    it('should fetch and process messages for a bare notification', async () => {
+      state.historyId = '1001';
+      state.added = [{ historyId: '1001', id: 'msg-a', labelIds: ['INBOX'] }];
+      state.messages.set('msg-a', messageWithId('msg-a'));
+
+      const config = createMockConfig();
+      const logger = createMockLogger();
+      const storage = createMockStorage();
+      const handler = new GmailIngressHandler(config, logger, storage, new ToolFirewall(config, logger), createClient());
+
+      const res = createMockResponse();
+      await handler.handle(createNotificationRequest('user@example.com', '1000'), res);
+
+      expect(res._status).toBe(200);
+      expect(res._body).toMatchObject({
+        status: 'fetched',
+        historyId: '1001',
+        messageCount: 1,
+        results: [
+          expect.objectContaining({
+            gmailMessageId: 'msg-a',
+            status: 'processed',
+            sessionId: expect.stringMatching(/^gmail-/),
+          }),
+        ],
+      });
+      expect(await storage.get('gmail:history:user@example.com')).toBe('1001');
+    });
+
+    it('should fetch a truncated batch over redeliveries, resuming from the cursor', async () => {
+      for (let i = 1; i <= 3; i++) {
+        state.added.push({ historyId: String(1000 + i), id: `msg-${i}`, labelIds: ['INBOX'] });
+        state.messages.set(`msg-${i}`, messageWithId(`msg-${i}`));
+      }
+      state.historyId = '1003';
+
+      const config = createMockConfig({ gmailApi: { enabled: true, baseUrl, timeoutMs: 2000, maxMessagesPerNotification: 2, mailboxes: [] } });
+      const logger = createMockLogger();
+      const storage = createMockStorage();
+      const handler = new GmailIngressHandler(config, logger, storage, new ToolFirewall(config, logger), createClient());
+
+      const first = createMockResponse();
+      await handler.handle(createNotificationRequest('user@example.com', '1000'), first);
+
+      expect(first._status).toBe(503);
+      expect(first._body).toMatchObject({ code: 'FETCH_INCOMPLETE', historyId: '1002', messageCount: 2 });
+      expect(await storage.get('gmail:history:user@example.com')).toBe('1002');
+
+      const redelivered = createMockResponse();
+      await handler.handle(createNotificationRequest('user@example.com', '1000'), redelivered);
+
+      expect(redelivered._status).toBe(200);
+      expect(redelivered._body).toMatchObject({ status: 'fetched', historyId: '1003', results: [expect.objectContaining({ gmailMessageId: 'msg-3' })] });
+      expect(await storage.get('gmail:history:user@example.com')).toBe('1003');
+    });
+
+    it('should move the cursor past blocked and rate-limited senders', async () => {
+      state.historyId = '1003';
+      state.added = [
+        { historyId: '1001', id: 'msg-a', labelIds: ['INBOX'] },
+        { historyId: '1002', id: 'msg-b', labelIds: ['INBOX'] },
+        { historyId: '1003', id: 'msg-c', labelIds: ['INBOX'] },
+      ];
+      const blocked = messageWithId('msg-a');
+      state.messages.set('msg-a', {
+        ...blocked,
+        payload: {
+          ...blocked.payload,
+          headers: blocked.payload.headers.map(h => (h.name === 'From' ? { ...h, value: 'mallory@blocked.example' } : h)),
+        },
+      });
+      state.messages.set('msg-b', messageWithId('msg-b'));
+      state.messages.set('msg-c', messageWithId('msg-c'));
+
+      const config = createMockConfig({ blockedSenderDomains: ['blocked.example'], rateLimitPerSender: 1 });
+      const logger = createMockLogger();
+      const storage = createMockStorage();
+      const handler = new GmailIngressHandler(config, logger, storage, new ToolFirewall(config, logger), createClient());
+
+      const res = createMockResponse();
+      await handler.handle(createNotificationRequest('user@example.com', '1000'), res);
+
+      expect(res._status).toBe(200);
+      expect(res._body).toMatchObject({
+        status: 'fetched',
+        historyId: '1003',
+        results: [
+          expect.objectContaining({ gmailMessageId: 'msg-a', code: 'SENDER_BLOCKED' }),
+          expect.objectContaining({ gmailMessageId: 'msg-b', status: 'processed' }),
+          expect.objectContaining({ gmailMessageId: 'msg-c', status: 'quarantined', code: 'RATE_LIMITED' }),
+        ],
+      });
+      expect(await storage.get('gmail:history:user@example.com')).toBe('1003');
+      // The cursor moved past the rate-limited message, so it is held rather than dropped
+      const quarantined = await storage.list('quarantine:');
+      expect(quarantined).toHaveLength(1);
+      expect(await storage.get(quarantined[0]!)).toMatchObject({ reason: 'rate_limited' });
+    });
+
+    it('should keep the cursor before a message that could not be processed', async () => {
+      state.historyId = '1002';
+      state.added = [
+        { historyId: '1001', id: 'msg-a', labelIds: ['INBOX'] },
+        { historyId: '1002', id: 'msg-b', labelIds: ['INBOX'] },
+      ];
+      state.messages.set('msg-a', messageWithId('msg-a'));
+      state.messages.set('msg-b', { id: 'msg-b' } as GmailMessagePayload);
+
+      const config = createMockConfig();
+      const logger = createMockLogger();
+      const storage = createMockStorage();
+      const handler = new GmailIngressHandler(config, logger, storage, new ToolFirewall(config, logger), createClient());
+
+      const res = createMockResponse();
+      await handler.handle(createNotificationRequest('user@example.com', '1000'), res);
+
+      expect(res._status).toBe(503);
+      expect(res._body).toMatchObject({
+        code: 'FETCH_INCOMPLETE',
+        historyId: '1001',
+        results: [
+          expect.objectContaining({ gmailMessageId: 'msg-a', status: 'processed' }),
+          expect.objectContaining({ gmailMessageId: 'msg-b', code: 'PROCESSING_FAILED' }),
+        ],
+      });
+      expect(await storage.get('gmail:history:user@example.com')).toBe('1001');
+    });
+
+    it('should audit the range skipped by an expired cursor', async () => {
+      state.expiredBefore = '500';
+      state.added = [{ historyId: '1000', id: 'msg-n', labelIds: ['INBOX'] }];
+      state.messages.set('msg-n', messageWithId('msg-n'));
+
+      const config = createMockConfig();
+      const logger = createMockLogger();
+      const storage = createMockStorage();
+      await storage.set('gmail:history:user@example.com', '10');
+      const handler = new GmailIngressHandler(config, logger, storage, new ToolFirewall(config, logger), createClient());
+
+      const res = createMockResponse();
+      await handler.handle(createNotificationRequest('user@example.com', '1000'), res);
+
+      expect(res._status).toBe(200);
+      expect(res._body).toMatchObject({ results: [expect.objectContaining({ gmailMessageId: 'msg-n', status: 'processed' })] });
+      expect(await storage.get('gmail:history:user@example.com')).toBe('1000');
+
+      const audits = await Promise.all((await storage.list('audit:')).map(key => storage.get<AuditLogEntry>(key)));
+      expect(audits).toContainEqual(expect.objectContaining({
+        eventType: 'payload_rejected',
+        details: expect.objectContaining({ emailAddress: 'user@example.com', afterHistoryId: '10', throughHistoryId: '999' }),
+      }));
+    });
+
+    it('should return an internal error when the Gmail API is unavailable', async () => {
+      const config = createMockConfig();
+      const logger = createMockLogger();
+      const client = new GmailApiClient({
+        baseUrl,
+        getAccessToken: () => Promise.resolve('wrong-token'),
+        timeoutMs: 2000,
+      });
+      const handler = new GmailIngressHandler(config, logger, createMockStorage(), new ToolFirewall(config, logger), client);
+
+      const res = createMockResponse();
+      await handler.handle(createNotificationRequest('user@example.com', '1000'), res);
+
+      expect(res._status).toBe(500);
+      expect(res._body).toEqual({ error: 'Internal server error', code: 'INTERNAL_ERROR' });
+    });
+  });
+});
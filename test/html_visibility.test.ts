@@ -0,0 +1,164 @@
+/**
+ * HTML Visibility Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { renderVisibleText } from '../src/sanitize/html_visibility.js';
+
+function visible(html: string): string {
+  return renderVisibleText(html).text.replace(/\s+/g, ' ').trim();
+}
+
+function reasons(html: string): string[] {
+  return renderVisibleText(html).hiddenContent.map(finding => finding.reason);
+}
+
+describe('renderVisibleText', () => {
+  describe('inline styles and attributes', () => {
+    it('should hide nested content under a hidden ancestor', () => {
+      const html = '<div style="display:none"><div><p>Deep <b>secret</b></p></div></div><p>Shown</p>';
+
+      expect(visible(html)).toBe('Shown');
+      expect(renderVisibleText(html).hiddenContent).toEqual([
+        { reason: 'display_none', element: 'div', detail: 'display:none', length: 11, text: 'Deep secret' },
+      ]);
+    });
+
+    it('should detect visibility, opacity, collapsed and off-screen content', () => {
+      expect(reasons('<span style="visibility:hidden">a</span>')).toEqual(['visibility_hidden']);
+      expect(reasons('<span style="opacity: 0">a</span>')).toEqual(['zero_opacity']);
+      expect(reasons('<div style="max-height:0;overflow:hidden">a</div>')).toEqual(['collapsed']);
+      expect(reasons('<div style="position:absolute;left:-9999px">a</div>')).toEqual(['off_screen']);
+      expect(reasons('<div style="text-indent:-10000px">a</div>')).toEqual(['off_screen']);
+      expect(reasons('<div style="clip:rect(0 0 0 0);position:absolute">a</div>')).toEqual(['clipped']);
+    });
+
+    it('should detect hidden and aria-hidden attributes', () => {
+      expect(reasons('<p hidden>a</p><p aria-hidden="true">b</p>')).toEqual(['hidden_attribute', 'aria_hidden']);
+    });
+
+    it('should let descendants override inherited visibility and font size', () => {
+      const html = '<div style="visibility:hidden">gone <span style="visibility:visible">back</span></div>'
+        + '<div style="font-size:0"><span style="font-size:14px">sized</span> tiny</div>';
+
+      expect(visible(html)).toBe('back sized');
+      expect(reasons(html)).toEqual(['visibility_hidden', 'tiny_font']);
+    });
+
+    it('should keep relative font sizes inside tiny text hidden', () => {
+      expect(visible('<div style="font-size:1px"><span style="font-size:200%">small</span></div>')).toBe('');
+    });
+
+    it('should not treat unrendered tags as visible text', () => {
+      const html = '<html><head><title>Hidden title</title><script>run()</script></head><body>Body</body></html>';
+
+      expect(visible(html)).toBe('Body');
+      expect(reasons(html)).toEqual(['non_rendered', 'non_rendered']);
+    });
+  });
+
+  describe('colour matching', () => {
+    it('should hide text matching the background', () => {
+      const html = '<div style="background-color:#000"><span style="color:rgb(0, 0, 0)">dark</span></div>'
+        + '<font color="#FFFFFF">white</font><p style="color:transparent">clear</p>';
+
+      expect(visible(html)).toBe('');
+      expect(renderVisibleText(html).hiddenContent.map(f => f.detail)).toEqual([
+        'color #000000 on #000000',
+        'color #ffffff on #ffffff',
+        'color:transparent',
+      ]);
+    });
+
+    it('should not confuse background-color with color', () => {
+      expect(visible('<p style="background-color:#ffffff;color:#333">readable</p>')).toBe('readable');
+    });
+
+    it('should use table bgcolor attributes', () => {
+      expect(visible('<table bgcolor="#ff0000"><tr><td><font color="red">same</font></td></tr></table>')).toBe('');
+    });
+  });
+
+  describe('stylesheets', () => {
+    it('should apply class, id and descendant rules', () => {
+      const html = `
+        <style>
+          .promo { display: none }
+          #footer p { font-size: 0 }
+          div > .ghost { color: #fff }
+        </style>
+        <p class="promo x">a</p>
+        <div id="footer"><p>b</p></div>
+        <div><span class="ghost">c</span></div>
+        <p>kept</p>`;
+
+      expect(visible(html)).toBe('kept');
+      expect(renderVisibleText(html).hiddenContent.filter(f => f.selector).map(f => f.selector)).toEqual([
+        '.promo',
+        '#footer p',
+        'div > .ghost',
+      ]);
+    });
+
+    it('should follow specificity, order and !important', () => {
+      const html = `
+        <style>
+          .a.b { display: block }
+          .a { display: none }
+          .c { display: none !important }
+        </style>
+        <p class="a b">specific</p>
+        <p class="c" style="display:block">important</p>`;
+
+      expect(visible(html)).toBe('specific');
+    });
+
+    it('should read rules inside @media blocks and skip unsupported selectors', () => {
+      const html = `
+        <style>
+          @import url(x.css);
+          @media screen { .m { display:none } }
+          p:hover { display:none }
+          h1 + p { display:none }
+        </style>
+        <p class="m">media</p><p>hover</p>`;
+
+      expect(visible(html)).toBe('hover');
+    });
+  });
+
+  it('should render block structure and list items', () => {
+    expect(renderVisibleText('<ul><li>One</li><li>Two</li></ul>Line<br>Break').text)
+      .toBe('\n\n• One\n\n• Two\n\nLine\nBreak');
+  });
+
+  describe('quotes', () => {
+    it('should prefix blockquote lines and deepen nested quotes', () => {
+      expect(renderVisibleText('<p>Reply</p><blockquote><p>Earlier</p><blockquote>Oldest</blockquote></blockquote>').text)
+        .toBe('\nReply\n\n> Earlier\n>\n>> Oldest\n');
+    });
+
+    it('should quote gmail_quote wrappers without a blockquote but not their attribution otherwise', () => {
+      expect(visible('<div class="gmail_quote">---------- Forwarded message ---------<br>Hi</div>'))
+        .toBe('> ---------- Forwarded message --------- > Hi');
+      expect(renderVisibleText(
+        '<div class="gmail_quote"><div class="gmail_attr">On Mon, Bob wrote:<br></div><blockquote class="gmail_quote">Hi</blockquote></div>'
+      ).text).toBe('\n\nOn Mon, Bob wrote:\n\n\n> Hi\n\n');
+    });
+
+    it('should still hide content inside quotes', () => {
+      expect(visible('<blockquote>Shown<span style="display:none">secret</span></blockquote>')).toBe('> Shown');
+    });
+  });
+
+  it('should decode entities in text and attributes', () => {
+    expect(visible('<p>&#105;gnore &eacute;t&eacute;</p><p style="display&#58;none">x</p>')).toBe('ignore été');
+  });
+
+  it('should withhold content nested beyond the depth limit', () => {
+    const html = '<div>'.repeat(300) + 'deep' + '</div>'.repeat(300);
+
+    expect(visible(html)).toBe('');
+    expect(reasons(html)).toEqual(['excessive_nesting']);
+  });
+});
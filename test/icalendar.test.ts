@@ -0,0 +1,86 @@
+/**
+ * iCalendar Parser Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseICalendar } from '../src/sanitize/icalendar.js';
+
+const INVITE = [
+  'BEGIN:VCALENDAR',
+  'METHOD:request',
+  'BEGIN:VTIMEZONE',
+  'TZID:Europe/Berlin',
+  'END:VTIMEZONE',
+  'BEGIN:VEVENT',
+  'UID:abc@example.com',
+  'SEQUENCE:2',
+  'SUMMARY:Q4 planning\\, part 2',
+  'DESCRIPTION:Agenda:\\n1. Budget\\n2. Hiring\\; roadmap',
+  'LOCATION:Room 4',
+  'ORGANIZER;CN="Doe, Jane";SENT-BY="mailto:assistant@example.com":mailto:Jane@Example.com',
+  'ATTENDEE;ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;CN=Bob:mailto:bob@example.com',
+  'ATTENDEE;CN=Eve:MAILTO:eve@other.net',
+  'DTSTART;TZID=Europe/Berlin:20261020T100000',
+  'DTEND:20261020T090000Z',
+  'URL:https://meet.example.com/abc',
+  'ATTACH;FMTTYPE=application/pdf:https://files.example.com/',
+  ' agenda.pdf',
+  'ATTACH;ENCODING=BASE64;VALUE=BINARY:aGVsbG8=',
+  'BEGIN:VALARM',
+  'DESCRIPTION:Reminder text',
+  'END:VALARM',
+  'END:VEVENT',
+  'END:VCALENDAR',
+].join('\r\n');
+
+describe('parseICalendar', () => {
+  it('should read event fields, participants, times and URLs', () => {
+    expect(parseICalendar(INVITE)).toEqual([{
+      method: 'REQUEST',
+      uid: 'abc@example.com',
+      sequence: 2,
+      summary: 'Q4 planning, part 2',
+      description: 'Agenda:\n1. Budget\n2. Hiring; roadmap',
+      location: 'Room 4',
+      organizer: {
+        address: 'jane@example.com',
+        name: 'Doe, Jane',
+        role: undefined,
+        status: undefined,
+        sentBy: 'assistant@example.com',
+      },
+      attendees: [
+        { address: 'bob@example.com', name: 'Bob', role: 'REQ-PARTICIPANT', status: 'NEEDS-ACTION', sentBy: undefined },
+        { address: 'eve@other.net', name: 'Eve', role: undefined, status: undefined, sentBy: undefined },
+      ],
+      start: '2026-10-20T10:00:00',
+      end: '2026-10-20T09:00:00Z',
+      timezone: 'Europe/Berlin',
+      urls: ['https://meet.example.com/abc', 'https://files.example.com/agenda.pdf'],
+    }]);
+  });
+
+  it('should read HTML descriptions and all-day dates', () => {
+    const [event] = parseICalendar([
+      'BEGIN:VEVENT',
+      'X-ALT-DESC;FMTTYPE=text/html:<p>Hi</p>',
+      'DTSTART;VALUE=DATE:20261020',
+      'END:VEVENT',
+    ].join('\n'));
+
+    expect(event).toMatchObject({ htmlDescription: '<p>Hi</p>', start: '2026-10-20' });
+  });
+
+  it('should drop times that do not parse along with their zone', () => {
+    const [event] = parseICalendar('BEGIN:VEVENT\nDTSTART;TZID=Europe/Berlin:next tuesday\nDTEND:soon\nEND:VEVENT');
+
+    expect(event).not.toHaveProperty('start');
+    expect(event).not.toHaveProperty('end');
+    expect(event).not.toHaveProperty('timezone');
+  });
+
+  it('should skip malformed lines and unterminated events', () => {
+    expect(parseICalendar('BEGIN:VEVENT\r\nnot a property\r\nSUMMARY;BROKEN:x\r\nSUMMARY:kept\r\nEND:VEVENT\r\nBEGIN:VEVENT\r\nSUMMARY:lost'))
+      .toEqual([expect.objectContaining({ summary: 'kept' })]);
+  });
+});
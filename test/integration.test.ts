@@ -223,6 +223,27 @@ describe('OpenClaw Runtime Integration', () => {
       }).rejects.toThrow('Invalid MailGuard configuration');
     });
 
+    it('should require either a webhook secret or Pub/Sub OIDC verification', async () => {
+      const { webhookSecret: _secret, ...withoutSecret } = config;
+
+      await expect(async () => {
+        await activate({ ...context, config: withoutSecret } as OpenClawPluginContext);
+      }).rejects.toThrow('Either webhookSecret or pubsubOidc must be configured');
+
+      const plugin = await activate({
+        ...context,
+        config: {
+          ...withoutSecret,
+          pubsubOidc: {
+            enabled: true,
+            audience: 'https://mailguard.example.com/mailguard/gmail',
+            serviceAccountEmail: 'pubsub-push@example-project.iam.gserviceaccount.com',
+          },
+        },
+      } as OpenClawPluginContext);
+      expect(plugin.config.pubsubOidc?.jwksUrl).toBe('https://www.googleapis.com/oauth2/v3/certs');
+    });
+
     it('should deactivate plugin cleanly', async () => {
       const plugin = await activate(context);
 
@@ -333,7 +354,7 @@ describe('Gmail Webhook Full Flow', () => {
         message: {
           data: gmailPayloads.valid_notification.message.data,
           messageId: gmailPayloads.valid_notification.message.messageId,
-          publishTime: gmailPayloads.valid_notification.message.publishTime,
+          publishTime: new Date().toISOString(),
         },
         subscription: gmailPayloads.valid_notification.subscription,
         messagePayload: gmailPayloads.valid_message_payload,
@@ -437,7 +458,8 @@ describe('Gmail Webhook Full Flow', () => {
             publishTime: new Date().toISOString(),
           },
           subscription: 'test-subscription',
-          messagePayload: gmailPayloads.valid_message_payload,
+          // Distinct Gmail IDs so each request is a new message, not a redelivery
+          messagePayload: { ...gmailPayloads.valid_message_payload, id: `ratelimit-${i}` },
         };
 
         const req = createMockRequest(webhookPayload);
@@ -671,6 +693,109 @@ describe('End-to-End Approval Workflow', () => {
       });
     });
 
+    it('should carry a soft denial through CLI approval to a single execution', async () => {
+      const handler = gateway._httpHandlers.get(config.endpoint);
+      const res = createMockResponse();
+      await handler!.handler(createMockRequest({
+        message: {
+          data: gmailPayloads.valid_notification.message.data,
+          messageId: 'msg-approval-e2e',
+          publishTime: new Date().toISOString(),
+        },
+        subscription: 'test-subscription',
+        messagePayload: gmailPayloads.valid_message_payload,
+      }), res);
+      const sessionId = (res._body as any).sessionId;
+
+      const policyCheckTool = gateway._tools.get('mailguard.policy_check')!;
+      const toolContext: ToolContext = { sessionId, logger };
+      const input = { action: 'send_email', parameters: { to: 'target@example.com', subject: 'Re: Q4' } };
+
+      const denied = await policyCheckTool.handler(input, toolContext) as any;
+      expect(denied).toMatchObject({ allowed: false, requiresApproval: true });
+      expect(denied.approvalId).toBeDefined();
+
+      // The same request reuses the pending approval
+      const repeated = await policyCheckTool.handler(input, toolContext) as any;
+      expect(repeated.approvalId).toBe(denied.approvalId);
+
+      const approvals = gateway._cliCommands.find(c => c.name === 'mailguard:approvals')!;
+      const consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+      try {
+        await approvals.handler({});
+        expect(consoleSpy.mock.calls.flat().join('\n')).toContain(denied.approvalId);
+
+        await approvals.handler({ approve: denied.approvalId, operator: 'admin@example.com' });
+      } finally {
+        consoleSpy.mockRestore();
+      }
+
+      const lobsterAdapter = (plugin as any).lobsterAdapter;
+      const workflows = await storage.list('lobster:workflow:');
+      expect(workflows).toHaveLength(1);
+      const workflow = await lobsterAdapter.getWorkflowStatus(workflows[0]!.replace('lobster:workflow:', ''));
+      expect(workflow.status).toBe('completed');
+      expect(workflow.context.emailSubject).toBe('Quarterly Report Q4 2023');
+
+      const granted = await policyCheckTool.handler({ ...input, approvalId: denied.approvalId }, toolContext) as any;
+      expect(granted.approvalToken).toMatch(/^mgat1\./);
+
+      // A swapped recipient invalidates the token
+      const swapped = await policyCheckTool.handler({
+        action: 'send_email',
+        parameters: { ...input.parameters, to: 'attacker@evil.example' },
+        approvalToken: granted.approvalToken,
+      }, toolContext);
+      expect(swapped).toMatchObject({ allowed: false, requiresApproval: false });
+
+      const allowed = await policyCheckTool.handler({ ...input, approvalToken: granted.approvalToken }, toolContext);
+      expect(allowed).toMatchObject({ allowed: true });
+
+      const replayed = await policyCheckTool.handler({ ...input, approvalToken: granted.approvalToken }, toolContext);
+      expect(replayed).toMatchObject({ allowed: false, requiresApproval: false });
+    });
+
+    it('should blank control and BiDi characters in the approvals listing', async () => {
+      const message = gmailPayloads.valid_message_payload;
+      const handler = gateway._httpHandlers.get(config.endpoint);
+      const res = createMockResponse();
+      await handler!.handler(createMockRequest({
+        message: {
+          data: gmailPayloads.valid_notification.message.data,
+          messageId: 'msg-approval-bidi',
+          publishTime: new Date().toISOString(),
+        },
+        subscription: 'test-subscription',
+        messagePayload: {
+          ...message,
+          id: 'bidi-subject',
+          payload: {
+            ...message.payload,
+            headers: message.payload.headers.map((h: { name: string; value: string }) =>
+              h.name === 'Subject' ? { ...h, value: 'Invoice \u202Efdp.exe\u001b[2J' } : h
+            ),
+          },
+        },
+      }), res);
+      const sessionId = (res._body as any).sessionId;
+
+      const policyCheckTool = gateway._tools.get('mailguard.policy_check')!;
+      await policyCheckTool.handler({ action: 'send_email', parameters: { to: 'target@example.com' } }, { sessionId, logger });
+
+      const approvals = gateway._cliCommands.find(c => c.name === 'mailguard:approvals')!;
+      const consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+      let output: string;
+      try {
+        await approvals.handler({});
+        output = consoleSpy.mock.calls.flat().join('\n');
+      } finally {
+        consoleSpy.mockRestore();
+      }
+
+      expect(output).toContain('Subject: Invoice  fdp.exe [2J');
+      expect(output).not.toMatch(/[\u202E\u001b]/);
+    });
+
     it('should complete full approval workflow when approved', async () => {
       // Process email to create session
       const handler = gateway._httpHandlers.get(config.endpoint);
@@ -981,15 +1106,23 @@ describe('End-to-End Approval Workflow', () => {
       expect(pending.length).toBeGreaterThan(0);
       expect(pending[0]?.status).toBe('in_progress');
 
-      // Approve steps sequentially
+      // Approve steps sequentially; a risk score of 50 needs two approvers per step
       for (let i = 0; i < workflow.steps.length; i++) {
         const step = workflow.steps[i]!;
-        const result = await lobsterAdapter.resolveApproval(
+        const firstVote = await lobsterAdapter.resolveApproval(
           workflow.id,
           step.id,
           true,
           'admin@example.com'
         );
+        expect(firstVote).toMatchObject({ stepComplete: false, approvalsRemaining: 1 });
+
+        const result = await lobsterAdapter.resolveApproval(
+          workflow.id,
+          step.id,
+          true,
+          'security@example.com'
+        );
 
         if (i < workflow.steps.length - 1) {
           expect(result.workflowComplete).toBe(false);
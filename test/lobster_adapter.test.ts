@@ -3,7 +3,9 @@
  */
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { LobsterAdapter, createLobsterAdapter } from '../src/workflows/lobster_adapter.js';
+import { LobsterAdapter, createLobsterAdapter, type LobsterApprovalStep } from '../src/workflows/lobster_adapter.js';
+import { ApprovalVoteError, resolveQuorum } from '../src/workflows/approval_quorum.js';
+import { ApprovalQuorumConfigSchema } from '../src/types.js';
 import type { MailGuardConfig, PluginStorage, Logger, SideEffectPlan } from '../src/types.js';
 
 // Mock logger
@@ -215,6 +217,109 @@ describe('LobsterAdapter', () => {
     });
   });
 
+  describe('approval quorum', () => {
+    const plan: SideEffectPlan = {
+      id: 'plan-quorum',
+      sessionId: 'session-123',
+      actions: [
+        { id: 'action-1', type: 'send_email', description: 'Test', requiresApproval: true, approved: false, parameters: {} },
+      ],
+      status: 'pending_approval',
+      approvals: [],
+    };
+
+    async function startWorkflow(riskScore: number, overrides?: Partial<MailGuardConfig>) {
+      const quorumAdapter = createLobsterAdapter(createMockConfig(overrides), logger, storage);
+      const workflow = await quorumAdapter.createApprovalWorkflow('session-123', plan, {
+        from: 'Sender <sender@example.com>',
+        subject: 'Test',
+        riskScore,
+        signals: [],
+      });
+      await quorumAdapter.startWorkflow(workflow.id);
+      return { quorumAdapter, workflow, stepId: workflow.steps[0]!.id };
+    }
+
+    async function expectVoteError(promise: Promise<unknown>, reason: string): Promise<void> {
+      await expect(promise).rejects.toBeInstanceOf(ApprovalVoteError);
+      await expect(promise).rejects.toMatchObject({ reason });
+    }
+
+    it('should require two distinct approvers at risk score 50 and above', async () => {
+      const { quorumAdapter, workflow, stepId } = await startWorkflow(55);
+      expect((workflow.steps[0] as LobsterApprovalStep).config.requiredApprovals).toBe(2);
+
+      const first = await quorumAdapter.resolveApproval(workflow.id, stepId, true, 'alice@example.com', 'ok');
+      expect(first).toMatchObject({ stepComplete: false, workflowComplete: false, approvalsRemaining: 1 });
+
+      await expectVoteError(
+        quorumAdapter.resolveApproval(workflow.id, stepId, true, 'ALICE@example.com'),
+        'duplicate_vote'
+      );
+
+      const second = await quorumAdapter.resolveApproval(workflow.id, stepId, true, 'bob@example.com');
+      expect(second).toMatchObject({ stepComplete: true, workflowComplete: true, allApproved: true });
+
+      const step = (await quorumAdapter.getWorkflowStatus(workflow.id))!.steps[0] as LobsterApprovalStep;
+      expect(step.status).toBe('completed');
+      expect(step.result?.approvedBy).toBe('alice@example.com, bob@example.com');
+      expect(step.result?.votes?.map(v => [v.approver, v.approved, v.comment])).toEqual([
+        ['alice@example.com', true, 'ok'],
+        ['bob@example.com', true, undefined],
+      ]);
+    });
+
+    it('should fail the step on any rejection', async () => {
+      const { quorumAdapter, workflow, stepId } = await startWorkflow(55);
+      await quorumAdapter.resolveApproval(workflow.id, stepId, true, 'alice@example.com');
+
+      const result = await quorumAdapter.resolveApproval(workflow.id, stepId, false, 'bob@example.com', 'No');
+
+      expect(result).toMatchObject({ stepComplete: true, workflowComplete: true, allApproved: false });
+      await expectVoteError(
+        quorumAdapter.resolveApproval(workflow.id, stepId, true, 'carol@example.com'),
+        'step_closed'
+      );
+    });
+
+    it('should only accept configured approvers and role members', async () => {
+      const { quorumAdapter, workflow, stepId } = await startWorkflow(10, {
+        approvalQuorum: ApprovalQuorumConfigSchema.parse({
+          approvers: ['alice@example.com'],
+          roles: { security: ['Sec@example.com'] },
+          approverRole: 'security',
+        }),
+      });
+
+      await expectVoteError(
+        quorumAdapter.resolveApproval(workflow.id, stepId, true, 'mallory@example.com'),
+        'not_authorized'
+      );
+      expect((await quorumAdapter.resolveApproval(workflow.id, stepId, true, 'sec@example.com')).stepComplete).toBe(true);
+    });
+
+    it('should reject self-approval by the email sender', async () => {
+      const { quorumAdapter, workflow, stepId } = await startWorkflow(10);
+
+      await expectVoteError(
+        quorumAdapter.resolveApproval(workflow.id, stepId, true, 'sender@example.com'),
+        'self_approval'
+      );
+    });
+
+    it('should resolve quorum size from the escalation table', () => {
+      const config = ApprovalQuorumConfigSchema.parse({
+        requiredApprovals: 1,
+        escalation: [{ minRiskScore: 50, requiredApprovals: 2 }, { minRiskScore: 80, requiredApprovals: 3 }],
+      });
+
+      expect(resolveQuorum(config, 10)).toEqual({ approvers: undefined, requiredApprovals: 1 });
+      expect(resolveQuorum(config, 50).requiredApprovals).toBe(2);
+      expect(resolveQuorum(config, 95).requiredApprovals).toBe(3);
+      expect(() => ApprovalQuorumConfigSchema.parse({ approverRole: 'missing' })).toThrow();
+    });
+  });
+
   describe('cancelWorkflow', () => {
     it('should cancel workflow and skip pending steps', async () => {
       const plan: SideEffectPlan = {
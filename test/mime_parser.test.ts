@@ -0,0 +1,171 @@
+/**
+ * MIME Parser Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseMimeMessage, isRawMessageContentType } from '../src/sanitize/mime_parser.js';
+import {
+  parseEmailHeaders,
+  extractBodyContent,
+  extractAttachmentMetadata,
+} from '../src/sanitize/html_to_text.js';
+
+function crlf(lines: string[]): string {
+  return lines.join('\r\n');
+}
+
+describe('parseMimeMessage', () => {
+  it('should parse a simple single-part message', () => {
+    const raw = crlf([
+      'From: Alice <alice@example.com>',
+      'To: bob@example.com',
+      'Subject: Hello',
+      'Date: Mon, 15 Jan 2024 10:30:00 +0000',
+      'Message-ID: <abc123@example.com>',
+      '',
+      'Hi Bob,',
+      'See you soon.',
+    ]);
+
+    const payload = parseMimeMessage(Buffer.from(raw));
+    const headers = parseEmailHeaders(payload);
+    const { plain } = extractBodyContent(payload);
+
+    expect(headers.from).toBe('Alice <alice@example.com>');
+    expect(headers.to).toEqual(['bob@example.com']);
+    expect(headers.subject).toBe('Hello');
+    expect(headers.date.toISOString()).toBe('2024-01-15T10:30:00.000Z');
+    expect(plain).toBe('Hi Bob,\r\nSee you soon.');
+  });
+
+  it('should derive storage-safe message IDs', () => {
+    const raw = crlf(['Message-ID: <weird id/with@chars>', 'Subject: x', '', 'body']);
+    const payload = parseMimeMessage(raw);
+
+    expect(payload.id).toMatch(/^mime-[a-f0-9]{24}$/);
+    expect(parseMimeMessage(raw).id).toBe(payload.id);
+    expect(parseMimeMessage(raw.replace('body', 'other body')).id).not.toBe(payload.id);
+  });
+
+  it('should walk multipart/alternative and decode transfer encodings', () => {
+    const raw = crlf([
+      'From: sender@example.com',
+      'Subject: Multipart',
+      'Content-Type: multipart/alternative; boundary="b1"',
+      '',
+      'This is the preamble.',
+      '--b1',
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: quoted-printable',
+      '',
+      'Caf=C3=A9 meeting at no=',
+      'on',
+      '--b1',
+      'Content-Type: text/html; charset=utf-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      Buffer.from('<p>Café meeting at noon</p>').toString('base64'),
+      '--b1--',
+    ]);
+
+    const payload = parseMimeMessage(raw);
+    const { html, plain } = extractBodyContent(payload);
+
+    expect(plain).toBe('Café meeting at noon');
+    expect(html).toBe('<p>Café meeting at noon</p>');
+  });
+
+  it('should convert legacy charsets to UTF-8', () => {
+    const body = Buffer.concat([
+      Buffer.from(crlf([
+        'From: sender@example.com',
+        'Content-Type: text/plain; charset=iso-8859-1',
+        'Content-Transfer-Encoding: 8bit',
+        '',
+        '',
+      ]), 'binary'),
+      Buffer.from([0x47, 0x72, 0xfc, 0xdf, 0x65]), // "Grüße" in Latin-1
+    ]);
+
+    const { plain } = extractBodyContent(parseMimeMessage(body));
+
+    expect(plain).toBe('Grüße');
+  });
+
+  it('should decode RFC 2047 encoded-word headers', () => {
+    const raw = crlf([
+      'From: =?UTF-8?B?Sm9zw6k=?= <jose@example.com>',
+      'Subject: =?iso-8859-1?Q?Caf=E9_order?= =?utf-8?Q?_confirmed?=',
+      '',
+      'body',
+    ]);
+
+    const headers = parseEmailHeaders(parseMimeMessage(raw));
+
+    expect(headers.from).toBe('José <jose@example.com>');
+    expect(headers.subject).toBe('Café order confirmed');
+  });
+
+  it('should unfold folded headers', () => {
+    const raw = crlf([
+      'To: a@example.com,',
+      ' b@example.com',
+      'Subject: Folded',
+      '\tsubject line',
+      '',
+      'body',
+    ]);
+
+    const headers = parseEmailHeaders(parseMimeMessage(raw));
+
+    expect(headers.to).toEqual(['a@example.com', 'b@example.com']);
+    expect(headers.subject).toBe('Folded subject line');
+  });
+
+  it('should expose attachments without treating them as the body', () => {
+    const raw = crlf([
+      'From: sender@example.com',
+      'Content-Type: multipart/mixed; boundary=outer',
+      '',
+      '--outer',
+      'Content-Type: text/plain',
+      '',
+      'Main body',
+      '--outer',
+      'Content-Type: text/plain; name="notes.txt"',
+      'Content-Disposition: attachment; filename*=utf-8\'\'r%C3%A9sum%C3%A9.txt',
+      '',
+      'Attachment text',
+      '--outer--',
+    ]);
+
+    const payload = parseMimeMessage(raw);
+    const { plain } = extractBodyContent(payload);
+    const attachments = extractAttachmentMetadata(payload);
+
+    expect(plain).toBe('Main body');
+    expect(attachments).toHaveLength(1);
+    expect(attachments[0]).toMatchObject({
+      filename: 'résumé.txt',
+      mimeType: 'text/plain',
+      isInline: false,
+    });
+  });
+
+  it('should accept LF-only line endings', () => {
+    const raw = 'From: sender@example.com\nSubject: LF\n\nLine one\nLine two';
+    const payload = parseMimeMessage(raw);
+
+    expect(parseEmailHeaders(payload).subject).toBe('LF');
+    expect(extractBodyContent(payload).plain).toBe('Line one\nLine two');
+  });
+});
+
+describe('isRawMessageContentType', () => {
+  it('should recognise message/rfc822 with parameters', () => {
+    expect(isRawMessageContentType('message/rfc822')).toBe(true);
+    expect(isRawMessageContentType('Message/RFC822; charset=utf-8')).toBe(true);
+    expect(isRawMessageContentType('application/json')).toBe(false);
+    expect(isRawMessageContentType(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,491 @@
+/**
+ * Pub/Sub OIDC Verifier Tests
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, type Server } from 'http';
+import { generateKeyPairSync, sign, type KeyObject } from 'crypto';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { AddressInfo } from 'net';
+import {
+  JwksFileSource,
+  JwksKeyStore,
+  JwksUrlSource,
+  OidcVerificationError,
+  PubSubTokenVerifier,
+  looksLikeJwt,
+} from '../src/http/oidc_verifier.js';
+import { GmailIngressHandler } from '../src/http/gmail_ingress.js';
+import { ToolFirewall } from '../src/policy/tool_firewall.js';
+import type { MailGuardConfig, HttpRequest, HttpResponse, PluginStorage, Logger } from '../src/types.js';
+
+// Mock logger
+function createMockLogger(): Logger {
+  return {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+}
+
+// Mock storage
+function createMockStorage(): PluginStorage {
+  const store = new Map<string, unknown>();
+  return {
+    get: vi.fn(async (key: string) => store.get(key)) as <T>(key: string) => Promise<T | undefined>,
+    set: vi.fn(async (key: string, value: unknown) => { store.set(key, value); }) as <T>(key: string, value: T, ttlSeconds?: number) => Promise<void>,
+    delete: vi.fn(async (key: string) => { store.delete(key); }) as (key: string) => Promise<void>,
+    list: vi.fn(async (prefix: string) =>
+      Array.from(store.keys()).filter(k => k.startsWith(prefix))
+    ) as (prefix: string) => Promise<string[]>,
+  };
+}
+
+// Mock response
+function createMockResponse(): HttpResponse & { _status: number; _body: unknown } {
+  const res = {
+    _status: 200,
+    _body: null as unknown,
+    status(code: number): HttpResponse {
+      this._status = code;
+      return this;
+    },
+    json(body: unknown): void {
+      this._body = body;
+    },
+    send(data: string | Buffer): void {
+      this._body = data;
+    },
+    header(name: string, value: string): HttpResponse {
+      return this;
+    },
+  };
+  return res as HttpResponse & { _status: number; _body: unknown };
+}
+
+// ============================================================================
+// Local key material and token minting
+// ============================================================================
+
+const AUDIENCE = 'https://mailguard.example.com/mailguard/gmail';
+const SERVICE_ACCOUNT = 'pubsub-push@example-project.iam.gserviceaccount.com';
+
+interface TestKey {
+  kid: string;
+  alg: 'RS256' | 'ES256';
+  privateKey: KeyObject;
+  jwk: Record<string, unknown>;
+}
+
+function createRsaKey(kid: string): TestKey {
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  return { kid, alg: 'RS256', privateKey, jwk: { ...publicKey.export({ format: 'jwk' }), kid, alg: 'RS256', use: 'sig' } };
+}
+
+function createEcKey(kid: string): TestKey {
+  const { privateKey, publicKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  return { kid, alg: 'ES256', privateKey, jwk: { ...publicKey.export({ format: 'jwk' }), kid, alg: 'ES256', use: 'sig' } };
+}
+
+function jwks(...keys: TestKey[]): string {
+  return JSON.stringify({ keys: keys.map(k => k.jwk) });
+}
+
+function mintToken(key: TestKey, overrides: Record<string, unknown> = {}, headerOverrides: Record<string, unknown> = {}): string {
+  const now = Math.floor(Date.now() / 1000);
+  const header = { alg: key.alg, kid: key.kid, typ: 'JWT', ...headerOverrides };
+  const claims = {
+    iss: 'https://accounts.google.com',
+    aud: AUDIENCE,
+    sub: '112233445566778899',
+    email: SERVICE_ACCOUNT,
+    email_verified: true,
+    iat: now,
+    exp: now + 3600,
+    ...overrides,
+  };
+
+  const encode = (value: object): string => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const signingInput = `${encode(header)}.${encode(claims)}`;
+  const signature = sign(
+    'sha256',
+    Buffer.from(signingInput),
+    key.alg === 'ES256' ? { key: key.privateKey, dsaEncoding: 'ieee-p1363' } : key.privateKey
+  );
+
+  return `${signingInput}.${signature.toString('base64url')}`;
+}
+
+const verifierOptions = {
+  audience: AUDIENCE,
+  serviceAccountEmail: SERVICE_ACCOUNT,
+  issuers: ['https://accounts.google.com', 'accounts.google.com'],
+  clockSkewSeconds: 60,
+};
+
+async function expectFailure(promise: Promise<unknown>, reason: string): Promise<void> {
+  await expect(promise).rejects.toBeInstanceOf(OidcVerificationError);
+  await expect(promise).rejects.toMatchObject({ reason });
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('PubSubTokenVerifier', () => {
+  let rsaKey: TestKey;
+  let ecKey: TestKey;
+  let otherKey: TestKey;
+  let dir: string;
+  let jwksPath: string;
+  let verifier: PubSubTokenVerifier;
+
+  beforeAll(() => {
+    rsaKey = createRsaKey('rsa-1');
+    ecKey = createEcKey('ec-1');
+    otherKey = createRsaKey('rsa-1'); // same kid, different key material
+    dir = mkdtempSync(join(tmpdir(), 'mailguard-jwks-'));
+    jwksPath = join(dir, 'jwks.json');
+    writeFileSync(jwksPath, jwks(rsaKey, ecKey));
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    const keyStore = new JwksKeyStore(new JwksFileSource(jwksPath), createMockLogger(), { cacheSeconds: 3600 });
+    verifier = new PubSubTokenVerifier(keyStore, verifierOptions);
+  });
+
+  it('should accept a valid RS256 token', async () => {
+    const claims = await verifier.verify(mintToken(rsaKey));
+
+    expect(claims.email).toBe(SERVICE_ACCOUNT);
+    expect(claims.aud).toBe(AUDIENCE);
+  });
+
+  it('should accept a valid ES256 token', async () => {
+    await expect(verifier.verify(mintToken(ecKey))).resolves.toMatchObject({ email: SERVICE_ACCOUNT });
+  });
+
+  it('should reject a token signed by a different key', async () => {
+    await expectFailure(verifier.verify(mintToken(otherKey)), 'invalid_signature');
+  });
+
+  it('should reject a tampered payload', async () => {
+    const [header, , signature] = mintToken(rsaKey).split('.');
+    const forged = Buffer.from(JSON.stringify({
+      iss: 'https://accounts.google.com',
+      aud: AUDIENCE,
+      email: 'attacker@example.com',
+      email_verified: true,
+      exp: Math.floor(Date.now() / 1000) + 3600,
+    })).toString('base64url');
+
+    await expectFailure(verifier.verify(`${header}.${forged}.${signature}`), 'invalid_signature');
+  });
+
+  it('should reject alg=none and symmetric algorithms', async () => {
+    await expectFailure(verifier.verify(mintToken(rsaKey, {}, { alg: 'none' })), 'unsupported_algorithm');
+    await expectFailure(verifier.verify(mintToken(rsaKey, {}, { alg: 'HS256' })), 'unsupported_algorithm');
+  });
+
+  it('should reject expired tokens beyond the allowed skew', async () => {
+    const past = Math.floor(Date.now() / 1000) - 600;
+    await expectFailure(verifier.verify(mintToken(rsaKey, { iat: past - 3600, exp: past })), 'token_expired');
+  });
+
+  it('should tolerate expiry within the allowed skew', async () => {
+    const justExpired = Math.floor(Date.now() / 1000) - 10;
+    await expect(verifier.verify(mintToken(rsaKey, { exp: justExpired }))).resolves.toBeDefined();
+  });
+
+  it('should reject tokens that are not yet valid', async () => {
+    const future = Math.floor(Date.now() / 1000) + 600;
+    await expectFailure(verifier.verify(mintToken(rsaKey, { nbf: future })), 'token_not_yet_valid');
+  });
+
+  it('should reject the wrong audience', async () => {
+    await expectFailure(
+      verifier.verify(mintToken(rsaKey, { aud: 'https://other.example.com/push' })),
+      'audience_mismatch'
+    );
+  });
+
+  it('should accept an audience array containing the expected audience', async () => {
+    await expect(
+      verifier.verify(mintToken(rsaKey, { aud: ['https://other.example.com', AUDIENCE] }))
+    ).resolves.toBeDefined();
+  });
+
+  it('should reject untrusted issuers', async () => {
+    await expectFailure(verifier.verify(mintToken(rsaKey, { iss: 'https://evil.example.com' })), 'issuer_mismatch');
+  });
+
+  it('should reject tokens for a different service account', async () => {
+    await expectFailure(
+      verifier.verify(mintToken(rsaKey, { email: 'someone-else@example-project.iam.gserviceaccount.com' })),
+      'email_mismatch'
+    );
+    await expectFailure(verifier.verify(mintToken(rsaKey, { email_verified: false })), 'email_unverified');
+  });
+
+  it('should reject unknown key IDs and malformed tokens', async () => {
+    await expectFailure(verifier.verify(mintToken(createRsaKey('rsa-unknown'))), 'unknown_key');
+    await expectFailure(verifier.verify('not-a-jwt'), 'malformed_token');
+    await expectFailure(verifier.verify('e30.bm90LWpzb24.c2ln'), 'malformed_token');
+  });
+});
+
+describe('JwksKeyStore', () => {
+  let server: Server;
+  let jwksUrl: string;
+  let currentJwks: string;
+  let cacheControl: string | undefined;
+  let requestCount: number;
+  let failRequests: boolean;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      requestCount++;
+      if (failRequests) {
+        res.writeHead(503).end();
+        return;
+      }
+      const headers: Record<string, string> = { 'content-type': 'application/json' };
+      if (cacheControl) headers['cache-control'] = cacheControl;
+      res.writeHead(200, headers).end(currentJwks);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    jwksUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/certs`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    requestCount = 0;
+    cacheControl = undefined;
+    failRequests = false;
+  });
+
+  it('should cache keys between verifications', async () => {
+    const key = createRsaKey('cached');
+    currentJwks = jwks(key);
+    const store = new JwksKeyStore(new JwksUrlSource(jwksUrl), createMockLogger(), { cacheSeconds: 3600 });
+    const verifier = new PubSubTokenVerifier(store, verifierOptions);
+
+    await verifier.verify(mintToken(key));
+    await verifier.verify(mintToken(key));
+
+    expect(requestCount).toBe(1);
+  });
+
+  it('should pick up rotated keys when an unknown key ID appears', async () => {
+    const oldKey = createRsaKey('old');
+    const newKey = createRsaKey('new');
+    currentJwks = jwks(oldKey);
+    const store = new JwksKeyStore(new JwksUrlSource(jwksUrl), createMockLogger(), {
+      cacheSeconds: 3600,
+      minRefreshIntervalMs: 0,
+    });
+    const verifier = new PubSubTokenVerifier(store, verifierOptions);
+
+    await verifier.verify(mintToken(oldKey));
+
+    currentJwks = jwks(oldKey, newKey);
+    await expect(verifier.verify(mintToken(newKey))).resolves.toBeDefined();
+    expect(requestCount).toBe(2);
+  });
+
+  it('should rate-limit refreshes triggered by unknown key IDs', async () => {
+    const key = createRsaKey('known');
+    currentJwks = jwks(key);
+    const store = new JwksKeyStore(new JwksUrlSource(jwksUrl), createMockLogger(), { cacheSeconds: 3600 });
+
+    await store.getKey('known');
+    await expect(store.getKey('forged-1')).rejects.toMatchObject({ reason: 'unknown_key' });
+    await expect(store.getKey('forged-2')).rejects.toMatchObject({ reason: 'unknown_key' });
+
+    expect(requestCount).toBe(1);
+  });
+
+  it('should honour Cache-Control max-age from the JWKS response', async () => {
+    const key = createRsaKey('short-lived');
+    currentJwks = jwks(key);
+    cacheControl = 'public, max-age=0';
+    const store = new JwksKeyStore(new JwksUrlSource(jwksUrl), createMockLogger(), {
+      cacheSeconds: 3600,
+      minRefreshIntervalMs: 0,
+    });
+
+    await store.getKey('short-lived');
+    await store.getKey('short-lived');
+
+    expect(requestCount).toBe(2);
+  });
+
+  it('should keep keys for at least the refresh interval whatever max-age says', async () => {
+    const key = createRsaKey('uncached');
+    currentJwks = jwks(key);
+    cacheControl = 'max-age=0';
+    const store = new JwksKeyStore(new JwksUrlSource(jwksUrl), createMockLogger(), { cacheSeconds: 3600 });
+    const verifier = new PubSubTokenVerifier(store, verifierOptions);
+
+    await verifier.verify(mintToken(key));
+    await verifier.verify(mintToken(key));
+    await verifier.verify(mintToken(key));
+
+    expect(requestCount).toBe(1);
+  });
+
+  it('should keep serving cached keys when a refresh fails', async () => {
+    const key = createRsaKey('stable');
+    currentJwks = jwks(key);
+    cacheControl = 'max-age=0';
+    const logger = createMockLogger();
+    const store = new JwksKeyStore(new JwksUrlSource(jwksUrl), logger, { cacheSeconds: 3600, minRefreshIntervalMs: 0 });
+
+    await store.getKey('stable');
+    failRequests = true;
+
+    await expect(store.getKey('stable')).resolves.toBeDefined();
+    expect(logger.error).toHaveBeenCalledWith('Failed to load JWKS', expect.objectContaining({ cachedKeys: 1 }));
+  });
+
+  it('should report unavailable keys when the JWKS cannot be loaded', async () => {
+    failRequests = true;
+    const store = new JwksKeyStore(new JwksUrlSource(jwksUrl), createMockLogger(), { cacheSeconds: 3600 });
+
+    await expect(store.getKey('any')).rejects.toMatchObject({ reason: 'jwks_unavailable' });
+  });
+});
+
+describe('GmailIngressHandler OIDC authentication', () => {
+  let key: TestKey;
+  let dir: string;
+  let jwksPath: string;
+
+  beforeAll(() => {
+    key = createRsaKey('push-key');
+    dir = mkdtempSync(join(tmpdir(), 'mailguard-jwks-'));
+    jwksPath = join(dir, 'jwks.json');
+    writeFileSync(jwksPath, jwks(key));
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function createConfig(overrides?: Partial<MailGuardConfig>): MailGuardConfig {
+    return {
+      endpoint: '/mailguard/gmail',
+      maxPayloadSize: 1048576,
+      maxBodyLength: 50000,
+      riskThreshold: 70,
+      enableMLClassifier: false,
+      allowedSenderDomains: [],
+      blockedSenderDomains: [],
+      allowedRecipientDomains: [],
+      deniedTools: [],
+      approvalRequiredActions: [],
+      quarantineEnabled: true,
+      rateLimitPerSender: 10,
+      logLevel: 'info',
+      allowUnsafeExternalContent: false,
+      lobsterIntegration: {
+        enabled: true,
+        workflowTemplate: 'mailguard-approval',
+        timeout: 3600,
+      },
+      pubsubOidc: {
+        enabled: true,
+        audience: AUDIENCE,
+        serviceAccountEmail: SERVICE_ACCOUNT,
+        issuers: ['https://accounts.google.com', 'accounts.google.com'],
+        jwksUrl: 'https://www.googleapis.com/oauth2/v3/certs',
+        jwksFile: jwksPath,
+        clockSkewSeconds: 60,
+        keyCacheSeconds: 3600,
+      },
+      ...overrides,
+    };
+  }
+
+  function createRequest(headers: Record<string, string>): HttpRequest {
+    const body = {
+      message: {
+        data: Buffer.from(JSON.stringify({ emailAddress: 'user@example.com', historyId: '12345' })).toString('base64'),
+        messageId: `pubsub-${Math.random().toString(36).slice(2)}`,
+        publishTime: new Date().toISOString(),
+      },
+    };
+    return {
+      method: 'POST',
+      path: '/mailguard/gmail',
+      headers: { 'content-type': 'application/json', ...headers },
+      query: {},
+      body,
+      rawBody: Buffer.from(JSON.stringify(body)),
+    };
+  }
+
+  async function send(config: MailGuardConfig, headers: Record<string, string>): Promise<{ status: number; storage: PluginStorage }> {
+    const logger = createMockLogger();
+    const storage = createMockStorage();
+    const handler = new GmailIngressHandler(config, logger, storage, new ToolFirewall(config, logger));
+    const res = createMockResponse();
+    await handler.handle(createRequest(headers), res);
+    return { status: res._status, storage };
+  }
+
+  it('should accept a valid Pub/Sub OIDC token without a shared secret', async () => {
+    const { status } = await send(createConfig(), { authorization: `Bearer ${mintToken(key)}` });
+
+    expect(status).toBe(200);
+  });
+
+  it('should reject an OIDC token for the wrong audience and audit the reason', async () => {
+    const { status, storage } = await send(createConfig(), {
+      authorization: `Bearer ${mintToken(key, { aud: 'https://elsewhere.example.com' })}`,
+    });
+
+    expect(status).toBe(401);
+    const auditKeys = await storage.list('audit:');
+    const entry = await storage.get<{ eventType: string; details: { reason: string } }>(auditKeys[0] ?? '');
+    expect(entry?.eventType).toBe('authentication_failed');
+    expect(entry?.details.reason).toContain('audience_mismatch');
+  });
+
+  it('should reject shared-secret requests when no secret is configured', async () => {
+    const { status } = await send(createConfig(), { 'x-webhook-secret': 'test-secret-12345678' });
+
+    expect(status).toBe(401);
+  });
+
+  it('should still accept the shared secret when both methods are configured', async () => {
+    const config = createConfig({ webhookSecret: 'test-secret-12345678' });
+
+    expect((await send(config, { 'x-webhook-secret': 'test-secret-12345678' })).status).toBe(200);
+    expect((await send(config, { authorization: `Bearer ${mintToken(key)}` })).status).toBe(200);
+  });
+
+  it('should not fall back to the secret for failed JWT bearer tokens', async () => {
+    const config = createConfig({ webhookSecret: 'test-secret-12345678' });
+    const expired = mintToken(key, { exp: Math.floor(Date.now() / 1000) - 3600 });
+
+    expect((await send(config, { authorization: `Bearer ${expired}` })).status).toBe(401);
+  });
+});
+
+describe('looksLikeJwt', () => {
+  it('should distinguish JWTs from shared secrets', () => {
+    expect(looksLikeJwt('eyJhbGciOiJSUzI1NiJ9.eyJzdWIiOiIxIn0.c2ln')).toBe(true);
+    expect(looksLikeJwt('test-secret-12345678')).toBe(false);
+  });
+});
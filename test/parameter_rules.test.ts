@@ -0,0 +1,121 @@
+/**
+ * Parameter Rule Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { evaluateParameterRules } from '../src/policy/parameter_rules.js';
+import { ParameterRulesSchema, type ParameterRule } from '../src/types.js';
+
+const defaultRules = ParameterRulesSchema.parse(undefined);
+
+describe('evaluateParameterRules', () => {
+  const context = { allowedRecipientDomains: ['example.com'] };
+
+  it('should only evaluate rules for the requested tool', () => {
+    expect(evaluateParameterRules(defaultRules, 'summarize', { to: 'x@evil.com' }, context)).toEqual([]);
+    expect(evaluateParameterRules(defaultRules, 'send_email', {}, context)).toHaveLength(1);
+  });
+
+  it('should pass recipients inside the allowed domains and subdomains', () => {
+    const [result] = evaluateParameterRules(defaultRules, 'send_email', {
+      to: 'Alice <alice@example.com>, bob@eu.example.com',
+      cc: ['carol@example.com'],
+    }, context);
+
+    expect(result).toMatchObject({ ruleId: 'send-email-allowed-recipients', passed: true, violations: [] });
+  });
+
+  it('should flag recipients outside the allowed domains in any recipient field', () => {
+    const [result] = evaluateParameterRules(defaultRules, 'send_email', {
+      to: 'alice@example.com',
+      bcc: 'exfil@attacker.io',
+    }, context);
+
+    expect(result?.passed).toBe(false);
+    expect(result?.violations).toEqual(['bcc: exfil@attacker.io is outside the allowed domains']);
+  });
+
+  it('should not be fooled by lookalike parent domains', () => {
+    const [result] = evaluateParameterRules(defaultRules, 'send_email', { to: 'a@notexample.com' }, context);
+
+    expect(result?.passed).toBe(false);
+  });
+
+  it('should treat values without a recognisable address as unvettable', () => {
+    const [result] = evaluateParameterRules(defaultRules, 'send_email', { to: 'everyone on the list' }, context);
+
+    expect(result?.passed).toBe(false);
+  });
+
+  it('should skip the send rule but deny all forwards when no domains are configured', () => {
+    const empty = { allowedRecipientDomains: [] };
+
+    const [send] = evaluateParameterRules(defaultRules, 'send_email', { to: 'a@anywhere.com' }, empty);
+    const [forward] = evaluateParameterRules(defaultRules, 'forward_email', { to: 'a@anywhere.com' }, empty);
+
+    expect(send?.passed).toBe(true);
+    expect(forward?.passed).toBe(false);
+  });
+
+  it('should limit calendar attendees', () => {
+    const attendees = Array.from({ length: 11 }, (_, i) => ({ email: `user${i}@example.com` }));
+
+    const [tooMany] = evaluateParameterRules(defaultRules, 'create_calendar_event', { attendees }, context);
+    const [ok] = evaluateParameterRules(defaultRules, 'create_calendar_event', {
+      attendees: attendees.slice(0, 10),
+    }, context);
+
+    expect(tooMany?.violations).toEqual(['attendees: 11 items exceeds the limit of 10']);
+    expect(ok?.passed).toBe(true);
+  });
+
+  it('should resolve dot paths across arrays of objects', () => {
+    const rules: ParameterRule[] = [{
+      id: 'internal-invites',
+      tools: ['create_calendar_event'],
+      conditions: [{
+        operator: 'recipients_in_domains',
+        fields: ['attendees.email'],
+        domains: ['example.com'],
+        onEmptyDomainList: 'skip',
+      }],
+      effect: 'require_approval',
+    }];
+
+    const [result] = evaluateParameterRules(rules, 'create_calendar_event', {
+      attendees: [{ email: 'a@example.com' }, { email: 'b@partner.org' }],
+    }, context);
+
+    expect(result).toMatchObject({
+      effect: 'require_approval',
+      passed: false,
+      violations: ['attendees.email: b@partner.org is outside the allowed domains'],
+    });
+  });
+
+  it('should support value, length and presence operators', () => {
+    const rules: ParameterRule[] = [{
+      id: 'label-policy',
+      tools: ['apply_label'],
+      conditions: [
+        { operator: 'required', fields: ['label'] },
+        { operator: 'one_of', fields: ['label'], values: ['Receipts', 'Travel'] },
+        { operator: 'not_one_of', fields: ['label'], values: ['TRASH'] },
+        { operator: 'max_length', fields: ['note'], limit: 5 },
+      ],
+      effect: 'deny',
+    }];
+
+    const [ok] = evaluateParameterRules(rules, 'apply_label', { label: 'Travel' }, context);
+    const [bad] = evaluateParameterRules(rules, 'apply_label', { label: 'TRASH', note: 'too long' }, context);
+    const [missing] = evaluateParameterRules(rules, 'apply_label', {}, context);
+
+    expect(ok?.passed).toBe(true);
+    expect(bad?.violations).toEqual([
+      'label: TRASH is not a permitted value',
+      'label: TRASH is a forbidden value',
+      'note: length 8 exceeds the limit of 5',
+    ]);
+    expect(missing?.violations).toEqual(['label: is required']);
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * Pattern Lint Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { hasLintErrors, lintPattern } from '../src/risk/pattern_lint.js';
+
+function rules(source: string, flags = ''): string[] {
+  return lintPattern(source, flags).map(issue => `${issue.severity}:${issue.rule}`);
+}
+
+describe('lintPattern', () => {
+  it('should reject unbounded quantifiers nested in unbounded repeats', () => {
+    expect(rules('(a+)+')).toEqual(['error:nested_quantifier']);
+    expect(rules('^(\\w+\\s?)+$')).toEqual(['error:nested_quantifier']);
+    expect(rules('(?:x(?:a*)*)+y')).toContain('error:nested_quantifier');
+  });
+
+  it('should reject repeated alternatives that can start with the same character', () => {
+    expect(rules('(a|a)*')).toEqual(['error:ambiguous_alternation']);
+    expect(rules('(?:\\d|\\w)+')).toEqual(['error:ambiguous_alternation']);
+    expect(rules('(?:foo|bar)+')).toEqual([]);
+  });
+
+  it('should account for case-insensitivity and character classes', () => {
+    expect(rules('(?:[a-f]|[A-F])+')).toEqual([]);
+    expect(rules('(?:[a-f]|[A-F])+', 'i')).toEqual(['error:ambiguous_alternation']);
+    expect(rules('(?:[^x]|x)+')).toEqual([]);
+  });
+
+  it('should warn about polynomial backtracking', () => {
+    expect(rules('(\\w+\\s){0,5}')).toEqual(['warning:nested_quantifier']);
+    expect(rules('a\\s*\\s*b')).toEqual(['warning:overlapping_quantifiers']);
+    expect(rules('\\s+(the)?\\s*end')).toEqual(['warning:overlapping_quantifiers']);
+    expect(rules('\\w+:\\d+')).toEqual([]);
+    expect(hasLintErrors(lintPattern('a\\s*\\s*b'))).toBe(false);
+  });
+
+  it('should accept fixed-width repeats, lookarounds and escapes', () => {
+    expect(rules('(%[0-9a-f]{2}){5,}', 'i')).toEqual([]);
+    expect(rules('(?<=\\[)system(?!\\])\\u0041\\x41\\p{L}+', 'u')).toEqual([]);
+  });
+
+  it('should treat sources it cannot parse as errors', () => {
+    expect(rules('(abc')).toEqual(['error:unparseable']);
+  });
+});
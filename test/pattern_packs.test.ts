@@ -0,0 +1,366 @@
+/**
+ * Pattern Pack Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  PatternPackError,
+  PatternRegistry,
+  builtinPatternPack,
+  diffPatternSets,
+  loadPatternPack,
+  parsePatternPack,
+  resolvePatternSet,
+  type PatternPack,
+} from '../src/risk/pattern_packs.js';
+import { assessRisk, BUILTIN_PATTERNS, setActivePatterns } from '../src/risk/heuristics.js';
+import type { EmailHeaders, Logger, MailGuardConfig } from '../src/types.js';
+
+function createMockConfig(overrides?: Partial<MailGuardConfig>): MailGuardConfig {
+  return {
+    endpoint: '/mailguard/gmail',
+    webhookSecret: 'test-secret-12345678',
+    maxPayloadSize: 1048576,
+    maxBodyLength: 50000,
+    riskThreshold: 70,
+    enableMLClassifier: false,
+    allowedSenderDomains: [],
+    blockedSenderDomains: [],
+    allowedRecipientDomains: [],
+    deniedTools: [],
+    approvalRequiredActions: [],
+    quarantineEnabled: true,
+    rateLimitPerSender: 10,
+    logLevel: 'info',
+    allowUnsafeExternalContent: false,
+    lobsterIntegration: {
+      enabled: true,
+      workflowTemplate: 'mailguard-approval',
+      timeout: 3600,
+    },
+    ...overrides,
+  };
+}
+
+function createMockLogger(): Logger {
+  return {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  };
+}
+
+const headers: EmailHeaders = {
+  messageId: 'test',
+  from: 'sender@example.com',
+  to: ['user@example.com'],
+  subject: 'Test',
+  date: new Date(),
+};
+
+const GRANDMA_PACK = `
+name: acme-jailbreaks
+version: 1.2.0
+patterns:
+  - id: acme.grandma-exploit
+    pattern: pretend\\s+to\\s+be\\s+my\\s+(late\\s+)?grandma
+    type: role_impersonation
+    severity: high
+    description: Grandma jailbreak
+    weight: 25
+overrides:
+  en.urgency-language:
+    enabled: false
+`;
+
+function pack(overrides: Partial<PatternPack>): PatternPack {
+  return { name: 'test', version: '1.0.0', patterns: [], overrides: {}, ...overrides };
+}
+
+describe('parsePatternPack', () => {
+  it('should parse a YAML pack into pattern definitions', () => {
+    const parsed = parsePatternPack(GRANDMA_PACK, 'yaml');
+
+    expect(parsed.name).toBe('acme-jailbreaks');
+    expect(parsed.version).toBe('1.2.0');
+    expect(parsed.patterns).toHaveLength(1);
+    expect(parsed.patterns[0]).toMatchObject({
+      id: 'acme.grandma-exploit',
+      type: 'role_impersonation',
+      language: 'en',
+    });
+    expect(parsed.patterns[0]?.pattern.test('Pretend to be my late grandma')).toBe(true);
+    expect(parsed.overrides).toEqual({ 'en.urgency-language': { enabled: false } });
+  });
+
+  it('should parse a JSON pack with explicit flags', () => {
+    const parsed = parsePatternPack(JSON.stringify({
+      name: 'case-sensitive',
+      version: '0.1.0',
+      patterns: [{
+        id: 'cs.marker',
+        pattern: 'SYSTEM OVERRIDE',
+        flags: '',
+        type: 'instruction_override',
+        severity: 'critical',
+        description: 'Override marker',
+        weight: 40,
+      }],
+    }), 'json');
+
+    expect(parsed.patterns[0]?.pattern.flags).toBe('');
+  });
+
+  it.each([
+    ['an invalid regular expression', { pattern: 'ignore (all' }, 'patterns.0.pattern'],
+    ['an unknown signal type', { type: 'made_up' }, 'patterns.0.type'],
+    ['a managed flag', { flags: 'gi' }, 'patterns.0.flags'],
+    ['a weight above 100', { weight: 150 }, 'patterns.0.weight'],
+  ])('should reject a pattern with %s', (_name, entry, path) => {
+    const content = JSON.stringify({
+      name: 'broken',
+      version: '1.0.0',
+      patterns: [{
+        id: 'broken.one',
+        pattern: 'ignore',
+        type: 'instruction_override',
+        severity: 'high',
+        description: 'Broken',
+        weight: 10,
+        ...entry,
+      }],
+    });
+
+    expect(() => parsePatternPack(content, 'json')).toThrow(PatternPackError);
+    expect(() => parsePatternPack(content, 'json')).toThrow(path);
+  });
+
+  it('should reject duplicate pattern IDs and versions that are not semantic', () => {
+    const entry = { id: 'dup', pattern: 'x', type: 'obfuscation', severity: 'low', description: 'x', weight: 1 };
+
+    expect(() => parsePatternPack(JSON.stringify({ name: 'p', version: '1.0.0', patterns: [entry, entry] }), 'json'))
+      .toThrow('Duplicate pattern ID "dup"');
+    expect(() => parsePatternPack(JSON.stringify({ name: 'p', version: 'latest' }), 'json'))
+      .toThrow('version');
+  });
+
+  it('should report syntax errors with their reason', () => {
+    try {
+      parsePatternPack('name: [unclosed', 'yaml', 'packs/bad.yaml');
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(PatternPackError);
+      expect((error as PatternPackError).reason).toBe('invalid_syntax');
+      expect((error as PatternPackError).path).toBe('packs/bad.yaml');
+    }
+  });
+});
+
+describe('loadPatternPack', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'mailguard-packs-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should pick the format from the extension', () => {
+    writeFileSync(join(dir, 'pack.yml'), GRANDMA_PACK);
+
+    expect(loadPatternPack(join(dir, 'pack.yml')).name).toBe('acme-jailbreaks');
+  });
+
+  it('should reject unsupported extensions and missing files', () => {
+    writeFileSync(join(dir, 'pack.toml'), '');
+
+    expect(() => loadPatternPack(join(dir, 'pack.toml'))).toThrow(expect.objectContaining({ reason: 'unsupported_format' }));
+    expect(() => loadPatternPack(join(dir, 'missing.json'))).toThrow(expect.objectContaining({ reason: 'unreadable' }));
+  });
+});
+
+describe('builtin pattern pack', () => {
+  it('should give every built-in pattern a unique ID', () => {
+    const ids = BUILTIN_PATTERNS.map(p => p.id);
+
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(ids).toContain('en.attempt-to-ignore-previous-instructions');
+    expect(ids).toContain('es.attempt-to-ignore-previous-instructions');
+  });
+
+  it('should have no patterns that lint as catastrophic', () => {
+    const set = resolvePatternSet([builtinPatternPack()]);
+
+    expect(set.patterns.filter(p => p.lint.some(issue => issue.severity === 'error'))).toEqual([]);
+    expect(set.patterns.every(p => p.enabled)).toBe(true);
+  });
+});
+
+describe('resolvePatternSet', () => {
+  const original = { id: 'x.one', pattern: /one/i, type: 'obfuscation' as const, severity: 'low' as const, description: 'One', weight: 5 };
+
+  it('should replace patterns with the same ID and apply overrides in order', () => {
+    const set = resolvePatternSet([
+      pack({ name: 'first', patterns: [original, { ...original, id: 'x.two', pattern: /two/i }] }),
+      pack({
+        name: 'second',
+        patterns: [{ ...original, pattern: /uno/i, weight: 15 }],
+        overrides: { 'x.two': { enabled: false, weight: 50 } },
+      }),
+    ], { 'x.two': { weight: 1 } });
+
+    expect(set.patterns.map(p => [p.definition.id, p.pack, p.enabled, p.definition.weight])).toEqual([
+      ['x.one', 'second', true, 15],
+      ['x.two', 'first', false, 1],
+    ]);
+    expect(set.patterns[0]?.definition.pattern.source).toBe('uno');
+  });
+
+  it('should report overrides that match no pattern', () => {
+    const set = resolvePatternSet([pack({ overrides: { 'x.missing': { enabled: false } } })], { 'y.missing': { weight: 3 } });
+
+    expect(set.unknownOverrides).toEqual(['x.missing', 'y.missing']);
+  });
+
+  it('should accept an override for a pattern defined by a later pack', () => {
+    const set = resolvePatternSet([
+      pack({ name: 'first', overrides: { 'x.one': { enabled: false } } }),
+      pack({ name: 'second', patterns: [original] }),
+      pack({ name: 'third', overrides: { 'x.one': { enabled: false } } }),
+    ]);
+
+    expect(set.unknownOverrides).toEqual([]);
+    expect(set.patterns[0]?.enabled).toBe(false);
+  });
+
+  it('should disable patterns with lint errors whatever the overrides say', () => {
+    const set = resolvePatternSet([
+      pack({ patterns: [original, { ...original, id: 'x.nested', pattern: /(a+)+$/ }] }),
+    ], { 'x.nested': { enabled: true } });
+
+    expect(set.patterns.map(p => [p.definition.id, p.enabled])).toEqual([['x.one', true], ['x.nested', false]]);
+    expect(set.patterns[1]?.lint).toEqual([expect.objectContaining({ rule: 'nested_quantifier', severity: 'error' })]);
+  });
+});
+
+describe('diffPatternSets', () => {
+  it('should list added, removed and changed patterns', () => {
+    const base = { pattern: /a/i, type: 'obfuscation' as const, severity: 'low' as const, description: 'A', weight: 5 };
+    const before = resolvePatternSet([pack({ patterns: [{ ...base, id: 'kept' }, { ...base, id: 'changed' }, { ...base, id: 'removed' }] })]);
+    const after = resolvePatternSet([pack({
+      patterns: [{ ...base, id: 'kept' }, { ...base, id: 'changed', pattern: /b/i, weight: 9 }, { ...base, id: 'added' }],
+      overrides: { kept: { enabled: true } },
+    })]);
+
+    const diff = diffPatternSets(before, after);
+
+    expect(diff.added.map(p => p.definition.id)).toEqual(['added']);
+    expect(diff.removed.map(p => p.definition.id)).toEqual(['removed']);
+    expect(diff.changed).toEqual([expect.objectContaining({ id: 'changed', fields: ['pattern', 'weight'] })]);
+  });
+});
+
+describe('PatternRegistry', () => {
+  let dir: string;
+  let packPath: string;
+  let registry: PatternRegistry | undefined;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'mailguard-packs-'));
+    packPath = join(dir, 'acme.yaml');
+    writeFileSync(packPath, GRANDMA_PACK);
+  });
+
+  afterEach(() => {
+    registry?.close();
+    registry = undefined;
+    setActivePatterns(BUILTIN_PATTERNS);
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function createRegistry(patternPacks: Partial<NonNullable<MailGuardConfig['patternPacks']>>, logger = createMockLogger()): PatternRegistry {
+    registry = new PatternRegistry(createMockConfig({
+      patternPacks: { paths: [], builtin: true, overrides: {}, watch: false, ...patternPacks },
+    }), logger);
+    return registry;
+  }
+
+  it('should activate pack patterns and overrides for assessRisk', () => {
+    const config = createMockConfig();
+    const before = assessRisk('Please pretend to be my grandma. URGENT reply', [], headers, config);
+    expect(before.signals.some(s => s.description === 'Grandma jailbreak')).toBe(false);
+    expect(before.signals.some(s => s.type === 'urgency_manipulation')).toBe(true);
+
+    createRegistry({ paths: [packPath] }).load();
+
+    const after = assessRisk('Please pretend to be my grandma. URGENT reply', [], headers, config);
+    expect(after.signals.some(s => s.description === 'Grandma jailbreak')).toBe(true);
+    expect(after.signals.some(s => s.type === 'urgency_manipulation')).toBe(false);
+  });
+
+  it('should apply configured overrides after the packs', () => {
+    const set = createRegistry({
+      paths: [packPath],
+      overrides: { 'acme.grandma-exploit': { weight: 60 }, 'en.attempt-to-ignore-previous-instructions': { enabled: false } },
+    }).load();
+
+    expect(set.patterns.find(p => p.definition.id === 'acme.grandma-exploit')?.definition.weight).toBe(60);
+    const result = assessRisk('Ignore previous instructions', [], headers, createMockConfig());
+    expect(result.signals.some(s => s.description === 'Attempt to ignore previous instructions')).toBe(false);
+  });
+
+  it('should load only the packs when built-in patterns are turned off', () => {
+    const set = createRegistry({ paths: [packPath], builtin: false }).load();
+
+    expect(set.packs.map(p => p.name)).toEqual(['acme-jailbreaks']);
+    expect(set.patterns).toHaveLength(1);
+    expect(set.unknownOverrides).toEqual(['en.urgency-language']);
+  });
+
+  it('should keep the active patterns when a reload fails', () => {
+    const logger = createMockLogger();
+    const loaded = createRegistry({ paths: [packPath] }, logger).load();
+
+    writeFileSync(packPath, 'name: acme-jailbreaks\nversion: two\n');
+    const result = registry?.reload();
+
+    expect(result?.status).toBe('failed');
+    expect(logger.error).toHaveBeenCalledWith(expect.stringContaining('reload failed'), expect.objectContaining({ reason: 'invalid_pack' }));
+    expect(registry?.patternSet).toBe(loaded);
+    const assessed = assessRisk('pretend to be my grandma', [], headers, createMockConfig());
+    expect(assessed.signals.some(s => s.description === 'Grandma jailbreak')).toBe(true);
+  });
+
+  it('should preview a pack in place of the configured pack of the same name', () => {
+    createRegistry({ paths: [packPath] }).load();
+    const updated = parsePatternPack(GRANDMA_PACK.replace('weight: 25', 'weight: 35').replace('1.2.0', '1.3.0'), 'yaml');
+
+    const diff = diffPatternSets(registry!.patternSet, registry!.preview(updated));
+
+    expect(diff.changed).toEqual([expect.objectContaining({ id: 'acme.grandma-exploit', fields: ['weight'] })]);
+    expect(diff.added).toEqual([]);
+    expect(registry?.patternSet.packs.find(p => p.name === 'acme-jailbreaks')?.version).toBe('1.2.0');
+  });
+
+  it('should reload when a watched pack changes', async () => {
+    createRegistry({ paths: [packPath] }).load();
+    registry?.watch();
+
+    writeFileSync(packPath, GRANDMA_PACK.replace('weight: 25', 'weight: 35'));
+
+    await vi.waitFor(() => {
+      const pattern = registry?.patternSet.patterns.find(p => p.definition.id === 'acme.grandma-exploit');
+      expect(pattern?.definition.weight).toBe(35);
+    }, { timeout: 3000, interval: 50 });
+  });
+
+  it('should start from the built-in pack', () => {
+    expect(createRegistry({}).patternSet.patterns).toHaveLength(builtinPatternPack().patterns.length);
+  });
+});
@@ -0,0 +1,32 @@
+/**
+ * Confusable Skeleton Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildSkeleton } from '../src/sanitize/skeleton.js';
+
+describe('buildSkeleton', () => {
+  it('should map look-alike characters to their prototypes', () => {
+    const skeleton = buildSkeleton('іgnоre');
+
+    expect(skeleton.text).toBe('ignore');
+    expect(skeleton.substitutions).toEqual([
+      { index: 0, char: 'і', prototype: 'i' },
+      { index: 3, char: 'о', prototype: 'o' },
+    ]);
+  });
+
+  it('should trace every skeleton position back to the original', () => {
+    const skeleton = buildSkeleton('caf\u00E9 𝐀 рay');
+
+    expect(skeleton.text).toBe('cafe\u0301 𝐀 pay');
+    expect(skeleton.offsets).toEqual([0, 1, 2, 3, 3, 4, 5, 5, 7, 8, 9, 10, 11]);
+  });
+
+  it('should leave text without look-alikes unchanged', () => {
+    expect(buildSkeleton('Ignore previous instructions')).toMatchObject({
+      text: 'Ignore previous instructions',
+      substitutions: [],
+    });
+  });
+});
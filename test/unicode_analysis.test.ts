@@ -0,0 +1,135 @@
+/**
+ * Unicode Analysis Scoring Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { assessUnicodeAnalysis, describeUnicodeAnalysis } from '../src/risk/unicode_analysis.js';
+import { sanitizeEmailContent } from '../src/sanitize/html_to_text.js';
+import type { MailGuardConfig, UnicodeAnalysisReport } from '../src/types.js';
+
+function createMockConfig(overrides?: Partial<MailGuardConfig>): MailGuardConfig {
+  return {
+    endpoint: '/mailguard/gmail',
+    webhookSecret: 'test-secret-12345678',
+    maxPayloadSize: 1048576,
+    maxBodyLength: 50000,
+    riskThreshold: 70,
+    enableMLClassifier: false,
+    allowedSenderDomains: [],
+    blockedSenderDomains: [],
+    allowedRecipientDomains: [],
+    deniedTools: [],
+    approvalRequiredActions: [],
+    quarantineEnabled: true,
+    rateLimitPerSender: 10,
+    logLevel: 'info',
+    allowUnsafeExternalContent: false,
+    lobsterIntegration: {
+      enabled: true,
+      workflowTemplate: 'mailguard-approval',
+      timeout: 3600,
+    },
+    ...overrides,
+  };
+}
+
+function createReport(overrides?: Partial<UnicodeAnalysisReport>): UnicodeAnalysisReport {
+  return {
+    scripts: ['Latin'],
+    mixedScriptWords: [],
+    primaryDirection: 'ltr',
+    bidiControlCount: 0,
+    suspiciousBidiSpans: [],
+    ...overrides,
+  };
+}
+
+describe('describeUnicodeAnalysis', () => {
+  it('should report the analyses in serializable form', () => {
+    const report = describeUnicodeAnalysis(sanitizeEmailContent(undefined, 'Log in to mіcrosoft ‮txt.exe', 50000));
+
+    expect(report).toEqual({
+      scripts: ['Latin', 'Cyrillic'],
+      mixedScriptWords: [{ word: 'mіcrosoft', scripts: ['Latin', 'Cyrillic'], confidence: 1 }],
+      primaryDirection: 'ltr',
+      bidiControlCount: 1,
+      suspiciousBidiSpans: [{ control: 'U+202E', text: 'txt.exe' }],
+    });
+    expect(JSON.parse(JSON.stringify(report))).toEqual(report);
+  });
+});
+
+describe('assessUnicodeAnalysis', () => {
+  it('should weight mixed-script words by confidence up to the cap', () => {
+    const words = ['pаypal', 'lоgin', 'аccount', 'vеrify'].map(word => ({
+      word,
+      scripts: ['Latin', 'Cyrillic'],
+      confidence: 0.9,
+    }));
+    const bodyText = `Your ${words.map(w => w.word).join(' ')} now`;
+
+    const result = assessUnicodeAnalysis(createReport({ mixedScriptWords: words }), bodyText, createMockConfig());
+
+    expect(result.signals).toHaveLength(4);
+    expect(result.signals[1]).toEqual({
+      type: 'script_mixing',
+      severity: 'high',
+      description: 'Mixed-script word "lоgin" (Latin, Cyrillic)',
+      evidence: 'lоgin',
+      location: { start: 12, end: 17 },
+    });
+    expect(result.contributions).toEqual(Array(4).fill({ type: 'script_mixing', severity: 'high', weight: 45 / 4 }));
+  });
+
+  it('should use configured weights', () => {
+    const report = createReport({
+      mixedScriptWords: [{ word: 'аb', scripts: ['Latin', 'Cyrillic'], confidence: 0.5 }],
+      suspiciousBidiSpans: [{ control: 'U+202E', text: 'gpj.exe' }, { control: 'U+202D', text: 'x' }],
+    });
+
+    const result = assessUnicodeAnalysis(report, 'аb gpj.exe x', createMockConfig({
+      unicodeAnalysis: { enabled: true, mixedScriptWordWeight: 20, maxMixedScriptWeight: 45, bidiOverrideWeight: 30, maxBidiWeight: 40 },
+    }));
+
+    expect(result.signals.map(s => [s.type, s.severity])).toEqual([
+      ['script_mixing', 'medium'],
+      ['bidi_abuse', 'high'],
+      ['bidi_abuse', 'high'],
+    ]);
+    expect(result.signals[1]).toMatchObject({
+      description: 'Right-to-left override (U+202E) in left-to-right text',
+      location: { start: 3, end: 10 },
+    });
+    expect(result.contributions).toEqual([
+      { type: 'script_mixing', severity: 'medium', weight: 10 },
+      { type: 'bidi_abuse', severity: 'high', weight: 20 },
+      { type: 'bidi_abuse', severity: 'high', weight: 20 },
+    ]);
+  });
+
+  it('should keep the weight of a direction override however many mixed-script words there are', () => {
+    const words = ['pаypal', 'lоgin', 'аccount', 'vеrify'].map(word => ({ word, scripts: ['Latin', 'Cyrillic'], confidence: 0.9 }));
+    const report = createReport({ mixedScriptWords: words, suspiciousBidiSpans: [{ control: 'U+202E', text: 'gpj.exe' }] });
+
+    const result = assessUnicodeAnalysis(report, `${words.map(w => w.word).join(' ')} gpj.exe`, createMockConfig());
+
+    expect(result.contributions.filter(c => c.type === 'bidi_abuse')).toEqual([{ type: 'bidi_abuse', severity: 'high', weight: 25 }]);
+    expect(result.contributions.filter(c => c.type === 'script_mixing').reduce((sum, c) => sum + c.weight, 0)).toBe(45);
+  });
+
+  it('should flag an excess of direction controls', () => {
+    const result = assessUnicodeAnalysis(createReport({ primaryDirection: 'rtl', bidiControlCount: 8 }), '', createMockConfig());
+
+    expect(result.signals).toEqual([{ type: 'bidi_abuse', severity: 'medium', description: '8 direction control characters' }]);
+    expect(result.contributions).toEqual([{ type: 'bidi_abuse', severity: 'medium', weight: 25 }]);
+  });
+
+  it('should do nothing when disabled', () => {
+    const report = createReport({ suspiciousBidiSpans: [{ control: 'U+202E', text: 'x' }] });
+    const config = createMockConfig({
+      unicodeAnalysis: { enabled: false, mixedScriptWordWeight: 15, maxMixedScriptWeight: 45, bidiOverrideWeight: 25, maxBidiWeight: 50 },
+    });
+
+    expect(assessUnicodeAnalysis(report, 'x', config)).toEqual({ signals: [], contributions: [] });
+  });
+});